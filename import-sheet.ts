@@ -0,0 +1,68 @@
+// Imports inspections that only exist on the sheet into inspection_logs (GOOGLE_SHEET_ID into DATABASE_URL):
+//   npm run import-sheet                    rows added since the last import, and earlier rejects again
+//   npm run import-sheet -- --full          every row from the top; rows already imported are skipped
+//   npm run import-sheet -- --report FILE   also write the report, with every row that couldn't be parsed, as JSON
+// Google access comes from GOOGLE_REFRESH_TOKEN (with GOOGLE_CLIENT_ID / GOOGLE_CLIENT_SECRET) or
+// GOOGLE_DRIVE_SERVICE_ACCOUNT_JSON; a token stored through the admin page is only used by the server.
+import fs from "fs";
+import dotenv from "dotenv";
+import { google } from "googleapis";
+import { Pool } from "pg";
+import { databaseSsl, getPendingMigrations, migrationLabel } from "./src/schemaMigrations";
+import { importSheetInspections } from "./src/sheetImport";
+
+dotenv.config();
+
+function getSheetsAuth() {
+  const { GOOGLE_REFRESH_TOKEN, GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, GOOGLE_DRIVE_SERVICE_ACCOUNT_JSON } = process.env;
+  if (GOOGLE_REFRESH_TOKEN && GOOGLE_CLIENT_ID && GOOGLE_CLIENT_SECRET) {
+    const client = new google.auth.OAuth2(GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET);
+    client.setCredentials({ refresh_token: GOOGLE_REFRESH_TOKEN });
+    return client;
+  }
+  if (GOOGLE_DRIVE_SERVICE_ACCOUNT_JSON) {
+    const credentials = JSON.parse(GOOGLE_DRIVE_SERVICE_ACCOUNT_JSON);
+    return new google.auth.JWT({
+      email: credentials.client_email,
+      key: credentials.private_key,
+      scopes: ["https://www.googleapis.com/auth/spreadsheets.readonly"]
+    });
+  }
+  throw new Error("No Google credentials: set GOOGLE_REFRESH_TOKEN with GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET, or GOOGLE_DRIVE_SERVICE_ACCOUNT_JSON");
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const full = args.includes("--full");
+  const reportIndex = args.indexOf("--report");
+  const reportPath = reportIndex === -1 ? null : args[reportIndex + 1];
+  if (reportIndex !== -1 && !reportPath) throw new Error("--report needs a file path");
+
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) throw new Error("DATABASE_URL is not set");
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID || "1WpvuQnhXzufiBmSRSaEnkRFs9BJf5H4fIWZ0xoYC8iw";
+  const sheetsService = google.sheets({ version: "v4", auth: getSheetsAuth() });
+
+  const pool = new Pool({ connectionString, ssl: databaseSsl(connectionString) });
+  try {
+    const pending = await getPendingMigrations(pool);
+    if (pending.length > 0) throw new Error(`Pending migrations: ${pending.map(migrationLabel).join(", ")}. Run "npm run migrate" first.`);
+
+    const report = await importSheetInspections(pool, sheetsService, spreadsheetId, { full });
+    if (!report) throw new Error("Another import is running; try again when it has finished");
+
+    console.log(`${report.mode} import up to row ${report.lastRow}: ${report.scanned} rows read, ${report.imported} imported, ${report.duplicates} already present, ${report.rejected.length} rejected`);
+    report.rejected.forEach(r => console.log(`  row ${r.row}: ${r.reason}`));
+    if (reportPath) {
+      fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+      console.log(`Report written to ${reportPath}`);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch(err => {
+  console.error(err.message || err);
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+// Schema migrations against DATABASE_URL:
+//   npm run migrate                  apply everything pending
+//   npm run migrate -- up 3          apply up to version 3
+//   npm run migrate -- down [steps]  revert the last migration (or the last `steps`)
+//   npm run migrate -- status        list applied and pending versions
+import dotenv from "dotenv";
+import { Pool } from "pg";
+import {
+  MIGRATIONS, databaseSsl, getAppliedMigrations, getPendingMigrations, migrateUp, migrateDown, migrationLabel
+} from "./src/schemaMigrations";
+
+dotenv.config();
+
+async function main() {
+  const [command = "up", arg] = process.argv.slice(2);
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) throw new Error("DATABASE_URL is not set");
+
+  const count = arg === undefined ? undefined : Number(arg);
+  if (count !== undefined && (!Number.isInteger(count) || count < 1)) throw new Error(`Expected a positive number, got "${arg}"`);
+
+  const pool = new Pool({ connectionString, ssl: databaseSsl(connectionString) });
+  try {
+    if (command === "up") {
+      const applied = await migrateUp(pool, { target: count, log: console.log });
+      console.log(applied.length ? `${applied.length} migration(s) applied.` : "Schema is up to date.");
+    } else if (command === "down") {
+      const reverted = await migrateDown(pool, { steps: count, log: console.log });
+      console.log(reverted.length ? `${reverted.length} migration(s) reverted.` : "Nothing to revert.");
+    } else if (command === "status") {
+      const applied = await getAppliedMigrations(pool);
+      const pending = await getPendingMigrations(pool);
+      applied.forEach(m => {
+        const known = MIGRATIONS.some(candidate => candidate.version === m.version);
+        console.log(`applied  ${migrationLabel(m)}  ${new Date(m.applied_at).toISOString()}${known ? "" : "  (not in this build)"}`);
+      });
+      pending.forEach(m => console.log(`pending  ${migrationLabel(m)}`));
+    } else {
+      throw new Error(`Unknown command "${command}" (expected up, down or status)`);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch(err => {
+  console.error(err.message || err);
+  process.exit(1);
+});
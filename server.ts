@@ -1,5 +1,4 @@
 import express from "express";
-import multer from "multer";
 import { google } from "googleapis";
 import { Pool } from "pg";
 import { GoogleGenAI, Type } from "@google/genai";
@@ -7,8 +6,31 @@ import path from "path";
 import fs from "fs";
 import dotenv from "dotenv";
 import { Readable } from "stream";
+import crypto from "crypto";
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import {
+  SUBSTATIONS, AREAS, DEFAULT_CHECKLIST_ITEMS, ChecklistItem, DefectStatus, DefectSeverity,
+  substationTypeKeys, checklistItemApplies,
+  InspectionSchedule, InspectionFrequency, DEFAULT_INSPECTION_SCHEDULE, resolveInspectionSchedule, computeScheduleState, missingScheduledCategories,
+  InspectionCategory, DEFAULT_INSPECTION_CATEGORIES, sheetColumnIndex, sheetColumnLetter, sheetCategoryColumns, lastSheetColumn,
+  submissionNameSuffix, keepsOriginal
+} from "./src/constants";
+import { readPhotoExif, assessPhotoAuthenticity, PhotoAuthenticity } from "./src/photoAuthenticity";
+import {
+  BatteryCellReading, BatteryThresholds, DEFAULT_BATTERY_THRESHOLDS, assessBatteryReadings, batteryReadingsScore
+} from "./src/batteryReadings";
+import {
+  HealthIndexPolicy, HealthCategoryScores, DEFAULT_HEALTH_INDEX_POLICY, computeHealthIndex, validateHealthIndexPolicy
+} from "./src/healthIndex";
+import {
+  ROLES, SESSION_TTL_MS, LoginFailures, getPermissions, hashPin, verifyPin, signSession, verifySession, loginLockRemainingMs, recordLoginFailure
+} from "./src/auth";
+import {
+  DEFAULT_GEOFENCE_RADIUS_M, isWithinTerritory, assessGeofence, describeGeofenceFailure, evaluateChecklist, describeChecklistAnswer
+} from "./src/inspectionChecks";
+import { Migration, databaseSsl, getPendingMigrations, migrationLabel } from "./src/schemaMigrations";
+import { importSheetInspections, getSheetImportStatus } from "./src/sheetImport";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -17,8 +39,8 @@ dotenv.config();
 
 const app = express();
 const PORT = 3000;
-// Use memoryStorage so files are never written to Vercel's disk
-const upload = multer({ storage: multer.memoryStorage() });
+
+app.use(express.json());
 
 // Database Pool (Lazy initialization to prevent crash on Vercel if URL is missing)
 let dbPool: Pool | null = null;
@@ -29,7 +51,7 @@ function getDbPool() {
   try {
     dbPool = new Pool({
       connectionString: process.env.DATABASE_URL,
-      ssl: { rejectUnauthorized: false }
+      ssl: databaseSsl(process.env.DATABASE_URL)
     });
     return dbPool;
   } catch (err) {
@@ -45,53 +67,76 @@ async function initDb() {
     return;
   }
   try {
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS inspection_logs (
-        id SERIAL PRIMARY KEY,
-        employee_id TEXT NOT NULL,
-        substation_name TEXT NOT NULL,
-        timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        gps_lat DOUBLE PRECISION,
-        gps_lng DOUBLE PRECISION,
-        folder_id TEXT,
-        status TEXT DEFAULT 'completed'
-      );
-      CREATE TABLE IF NOT EXISTS substation_master_folders (
-        substation_name TEXT PRIMARY KEY,
-        folder_id TEXT NOT NULL
-      );
-      CREATE TABLE IF NOT EXISTS health_index_logs (
-        substation_name TEXT NOT NULL,
-        month INTEGER NOT NULL,
-        year INTEGER NOT NULL,
-        status TEXT NOT NULL,
-        findings TEXT[],
-        summary TEXT,
-        analyzed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        PRIMARY KEY (substation_name, month, year)
+    // Tables and columns come from the migrations in src/migrations (npm run migrate); this only seeds data
+
+    // Seed the registry from the list that used to be hard-coded in the client; existing rows are left alone
+    await pool.query(
+      `INSERT INTO substations (id, name, lat, lng, area, is_temporary)
+       SELECT id, name, lat, lng, area, is_temporary
+       FROM json_to_recordset($1) AS s(id TEXT, name TEXT, lat DOUBLE PRECISION, lng DOUBLE PRECISION, area TEXT, is_temporary BOOLEAN)
+       ON CONFLICT DO NOTHING`,
+      [JSON.stringify(SUBSTATIONS.map(sub => ({ ...sub, is_temporary: sub.name.includes("ชั่วคราว") })))]
+    );
+
+    // Default checklist; items edited through /api/checklist-items are left alone
+    await pool.query(
+      `INSERT INTO checklist_items (id, category, label, input_type, unit, min_value, max_value, required, substation_types, sort_order)
+       SELECT id, category, label, input_type, unit, min_value, max_value, required, substation_types, sort_order
+       FROM json_to_recordset($1) AS c(id TEXT, category TEXT, label TEXT, input_type TEXT, unit TEXT, min_value DOUBLE PRECISION,
+         max_value DOUBLE PRECISION, required BOOLEAN, substation_types TEXT[], sort_order INTEGER)
+       ON CONFLICT DO NOTHING`,
+      [JSON.stringify(DEFAULT_CHECKLIST_ITEMS)]
+    );
+    await pool.query(
+      `INSERT INTO inspection_categories (key, label, instructions, mandatory, weight, sheet_column, photo_point, sort_order)
+       SELECT key, label, instructions, mandatory, weight, sheet_column, photo_point, sort_order
+       FROM json_to_recordset($1) AS c(key TEXT, label TEXT, instructions TEXT, mandatory BOOLEAN, weight DOUBLE PRECISION,
+         sheet_column TEXT, photo_point BOOLEAN, sort_order INTEGER)
+       ON CONFLICT DO NOTHING`,
+      [JSON.stringify(DEFAULT_INSPECTION_CATEGORIES)]
+    );
+    await pool.query(
+      `INSERT INTO inspection_schedules (substation_name, category, frequency, grace_days, exempt)
+       SELECT substation_name, category, frequency, grace_days, exempt
+       FROM json_to_recordset($1) AS s(substation_name TEXT, category TEXT, frequency TEXT, grace_days INTEGER, exempt BOOLEAN)
+       ON CONFLICT DO NOTHING`,
+      [JSON.stringify(DEFAULT_INSPECTION_SCHEDULE)]
+    );
+    await pool.query(
+      "INSERT INTO health_index_policies (version, weights, grades, note) VALUES ($1, $2, $3, $4) ON CONFLICT DO NOTHING",
+      [DEFAULT_HEALTH_INDEX_POLICY.version, JSON.stringify(DEFAULT_HEALTH_INDEX_POLICY.weights), JSON.stringify(DEFAULT_HEALTH_INDEX_POLICY.grades), "ค่าเริ่มต้น"]
+    );
+
+    // Seed the first administrator so someone can sign in and register the other inspectors
+    const adminId = process.env.SSVI_ADMIN_EMPLOYEE_ID;
+    const adminPin = process.env.SSVI_ADMIN_PIN;
+    if (adminId && adminPin) {
+      await pool.query(
+        "INSERT INTO employees (employee_id, name, pin_hash, role) VALUES ($1, $2, $3, 'system_admin') ON CONFLICT (employee_id) DO NOTHING",
+        [adminId, "ผู้ดูแลระบบ", hashPin(adminPin)]
       );
-    `);
-    
-    // Add columns dynamically for Health Index Weights & N/A
-    const columns = [
-      "battery_score INT DEFAULT 100",
-      "battery_na BOOLEAN DEFAULT FALSE",
-      "yard_score INT DEFAULT 100",
-      "yard_na BOOLEAN DEFAULT FALSE",
-      "checklist_score INT DEFAULT 100",
-      "checklist_na BOOLEAN DEFAULT FALSE",
-      "roof_score INT DEFAULT 100",
-      "roof_na BOOLEAN DEFAULT FALSE",
-      "fence_score INT DEFAULT 100",
-      "fence_na BOOLEAN DEFAULT FALSE",
-      "security_score INT DEFAULT 100",
-      "security_na BOOLEAN DEFAULT FALSE"
-    ];
-    for (const col of columns) {
+    }
+
+    // Rows scored before the policy moved server-side get the index the dashboard showed for them,
+    // each with its revision in the audit trail
+    const unscored = await pool.query("SELECT * FROM health_index_logs WHERE policy_version IS NULL");
+    for (const row of await withCategoryScores(pool, unscored.rows)) {
+      const hi = computeHealthIndex(row.scores, DEFAULT_HEALTH_INDEX_POLICY);
+      const client = await pool.connect();
       try {
-        await pool.query(`ALTER TABLE health_index_logs ADD COLUMN IF NOT EXISTS ${col}`);
-      } catch (colErr) {
-        console.warn(`Could not add column ${col}:`, colErr);
+        await client.query("BEGIN");
+        const before = await getHealthIndexSnapshot(client, row.substation_name, row.month, row.year);
+        await client.query(
+          "UPDATE health_index_logs SET health_index = $4, grade = $5, policy_version = $6 WHERE substation_name = $1 AND month = $2 AND year = $3",
+          [row.substation_name, row.month, row.year, hi.score, hi.grade, DEFAULT_HEALTH_INDEX_POLICY.version]
+        );
+        await recordHealthIndexRevision(client, "policy_backfill", null, row.substation_name, row.month, row.year, before);
+        await client.query("COMMIT");
+      } catch (err) {
+        await client.query("ROLLBACK");
+        throw err;
+      } finally {
+        client.release();
       }
     }
 
@@ -101,9 +146,654 @@ async function initDb() {
   }
 }
 
-const recentSubmissions = new Map<string, number>();
+// Migrations this build expects but the database doesn't have yet. Once the schema is current it stays
+// current for the life of the process, so later calls don't touch the database.
+let schemaCurrent = false;
+
+async function getSchemaPending(): Promise<Migration[]> {
+  const pool = getDbPool();
+  if (!pool || schemaCurrent) return [];
+  const pending = await getPendingMigrations(pool);
+  schemaCurrent = pending.length === 0;
+  return pending;
+}
+
+// Refuse API calls against an outdated schema (covers Vercel, where startServer doesn't run)
+app.use("/api", async (req, res, next) => {
+  let pending: Migration[] = [];
+  try {
+    pending = await getSchemaPending();
+  } catch (err) {
+    // Unreachable database: let the route answer as it would without the check
+    console.error("Schema check failed:", err);
+  }
+  if (pending.length > 0) {
+    return res.status(503).json({ error: "โครงสร้างฐานข้อมูลยังไม่เป็นปัจจุบัน กรุณารัน npm run migrate", pending: pending.map(migrationLabel) });
+  }
+  next();
+});
+
 const folderCreationLocks = new Set<string>();
 
+// --- Employee Authentication ---
+const SESSION_COOKIE = "ssvi_session";
+// Ties a Google consent redirect to the admin browser that started it
+const OAUTH_STATE_COOKIE = "ssvi_oauth_state";
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+const loginFailures: LoginFailures = new Map();
+
+function hasPermission(req: any, permission: string) {
+  return getPermissions(req.employeeRole).includes(permission);
+}
+
+// When enabled, submissions for stations outside the employee's assignment are rejected instead of flagged
+const ENFORCE_ASSIGNMENTS = process.env.SSVI_ENFORCE_ASSIGNMENTS === "true";
+
+let sessionSecret: string | null = null;
+
+function getSessionSecret() {
+  if (sessionSecret) return sessionSecret;
+  if (process.env.SESSION_SECRET) {
+    sessionSecret = process.env.SESSION_SECRET;
+  } else {
+    // Sessions will not survive a restart (or span several serverless instances) without a fixed secret
+    console.warn("SESSION_SECRET not found. Using a random secret for this process.");
+    sessionSecret = crypto.randomBytes(32).toString("hex");
+  }
+  return sessionSecret;
+}
+
+function readCookie(req: any, cookieName: string): string | null {
+  const cookies = (req.headers.cookie || "").split(";");
+  for (const cookie of cookies) {
+    const [name, ...rest] = cookie.trim().split("=");
+    if (name === cookieName) return decodeURIComponent(rest.join("="));
+  }
+  return null;
+}
+
+function getSessionToken(req: any): string | null {
+  const authHeader = req.headers.authorization || "";
+  if (authHeader.startsWith("Bearer ")) return authHeader.slice(7).trim();
+  return readCookie(req, SESSION_COOKIE);
+}
+
+// Resolves the signed-in employee from the session and rejects the request otherwise.
+// Handlers must read req.employeeId instead of trusting an employeeId sent in the body.
+async function requireAuth(req: any, res: any, next: any) {
+  const token = getSessionToken(req);
+  const session = token ? verifySession(token, getSessionSecret()) : null;
+  if (!session) {
+    return res.status(401).json({ error: "กรุณาเข้าสู่ระบบใหม่ (Session หมดอายุหรือไม่ถูกต้อง)" });
+  }
+
+  const pool = getDbPool();
+  if (!pool) {
+    return res.status(503).json({ error: "ยังไม่ได้เชื่อมต่อฐานข้อมูล ไม่สามารถยืนยันตัวตนได้" });
+  }
+
+  try {
+    const result = await pool.query("SELECT employee_id, name, role FROM employees WHERE employee_id = $1 AND active = TRUE", [session.sub]);
+    if (result.rows.length === 0) {
+      return res.status(401).json({ error: "รหัสพนักงานนี้ถูกระงับการใช้งาน" });
+    }
+    req.employeeId = result.rows[0].employee_id;
+    req.employeeName = result.rows[0].name;
+    req.employeeRole = result.rows[0].role;
+    next();
+  } catch (err: any) {
+    console.error("Session lookup failed:", err);
+    res.status(500).json({ error: "ไม่สามารถตรวจสอบสิทธิ์ผู้ใช้งานได้" });
+  }
+}
+
+// Returns true when the employee may report on the station, or when assignments can't be checked (no DB)
+async function isAssignedSubstation(employeeId: string, substationName: string) {
+  const pool = getDbPool();
+  if (!pool) return true;
+  try {
+    return await isWithinTerritory(pool, employeeId, substationName);
+  } catch (err) {
+    console.error("Assignment lookup failed:", err);
+    return true;
+  }
+}
+
+// Stations and members of a team, used to scope dashboard figures to one area
+async function getTeamScope(area: string) {
+  const pool = getDbPool();
+  if (!pool) return null;
+  const [members, stations] = await Promise.all([
+    pool.query("SELECT employee_id FROM employees WHERE area = $1", [area]),
+    pool.query(
+      `SELECT a.substation_name FROM substation_assignments a JOIN employees e ON e.employee_id = a.employee_id WHERE e.area = $1
+       UNION SELECT name FROM substations WHERE area = $1`,
+      [area]
+    )
+  ]);
+  return {
+    members: new Set<string>(members.rows.map(r => r.employee_id)),
+    substations: new Set<string>(stations.rows.map(r => (r.substation_name || "").trim()))
+  };
+}
+
+// --- Substation Registry ---
+const SUBSTATION_COLUMNS = "id, name, lat, lng, area, voltage_class, is_temporary, active_from, active_until, geofence_radius_m";
+const SUBSTATION_ACTIVE_SQL = "(active_from IS NULL OR active_from <= CURRENT_DATE) AND (active_until IS NULL OR active_until >= CURRENT_DATE)";
+
+// Looks up an active station by its display name. Returns undefined when there is no DB to ask.
+async function getActiveSubstation(name: string) {
+  const pool = getDbPool();
+  if (!pool) return undefined;
+  const result = await pool.query(
+    `SELECT ${SUBSTATION_COLUMNS} FROM substations WHERE name = $1 AND ${SUBSTATION_ACTIVE_SQL}`,
+    [(name || "").trim()]
+  );
+  return result.rows[0] || null;
+}
+
+// When enabled, submissions outside the station's radius (or without GPS) are refused instead of flagged
+const GEOFENCE_STRICT = process.env.SSVI_GEOFENCE_STRICT === "true";
+
+// The submitted position against the station's registered coordinates (the built-in list when there is no DB)
+async function checkGeofence(substationName: string, lat: any, lng: any, accuracy: any) {
+  let station = await getActiveSubstation(substationName).catch(err => {
+    console.error("Substation lookup failed:", err);
+    return undefined;
+  });
+  if (station === undefined) {
+    station = SUBSTATIONS.find(sub => sub.name === (substationName || "").trim()) || null;
+  }
+
+  return assessGeofence(station, lat, lng, accuracy);
+}
+
+// --- Structured checklist ---
+const CHECKLIST_COLUMNS = "id, category, label, input_type, unit, min_value, max_value, required, substation_types, sort_order, active";
+const CHECKLIST_INPUT_TYPES = ["number", "boolean", "text"];
+
+// Active checklist items that apply to a station, in display order
+async function getChecklistItemsFor(substationName: string): Promise<ChecklistItem[]> {
+  let station = await getActiveSubstation(substationName).catch(err => {
+    console.error("Substation lookup failed:", err);
+    return undefined;
+  });
+  if (!station) {
+    station = SUBSTATIONS.find(sub => sub.name === (substationName || "").trim()) || { name: substationName || "" };
+  }
+  const typeKeys = substationTypeKeys(station);
+
+  const pool = getDbPool();
+  let items: ChecklistItem[] = DEFAULT_CHECKLIST_ITEMS;
+  if (pool) {
+    const result = await pool.query(`SELECT ${CHECKLIST_COLUMNS} FROM checklist_items WHERE active ORDER BY sort_order, id`);
+    items = result.rows;
+  }
+  return items.filter(item => checklistItemApplies(item, typeKeys));
+}
+
+function parseChecklistItemInput(body: any) {
+  const label = String(body.label || "").trim();
+  const category = String(body.category || "").trim();
+  const inputType = String(body.input_type || "number");
+  const toBound = (value: any) => value === undefined || value === null || value === "" ? null : Number(value);
+  const minValue = toBound(body.min_value);
+  const maxValue = toBound(body.max_value);
+
+  if (!label) return { error: "กรุณาระบุชื่อรายการตรวจ" };
+  if (!category) return { error: "กรุณาระบุหมวดของรายการตรวจ" };
+  if (!CHECKLIST_INPUT_TYPES.includes(inputType)) {
+    return { error: `ชนิดข้อมูลต้องเป็น ${CHECKLIST_INPUT_TYPES.join(", ")}` };
+  }
+  if ((minValue !== null && !Number.isFinite(minValue)) || (maxValue !== null && !Number.isFinite(maxValue))) {
+    return { error: "ค่าต่ำสุด/สูงสุดต้องเป็นตัวเลข" };
+  }
+  if (minValue !== null && maxValue !== null && minValue > maxValue) {
+    return { error: "ค่าต่ำสุดต้องไม่มากกว่าค่าสูงสุด" };
+  }
+
+  return {
+    values: {
+      category, label,
+      input_type: inputType,
+      unit: body.unit ? String(body.unit).trim() : null,
+      min_value: inputType === "number" ? minValue : null,
+      max_value: inputType === "number" ? maxValue : null,
+      required: body.required !== false,
+      substation_types: Array.isArray(body.substation_types) && body.substation_types.length > 0
+        ? body.substation_types.map((t: any) => String(t).trim()).filter(Boolean)
+        : null,
+      sort_order: Number.isInteger(Number(body.sort_order)) ? Number(body.sort_order) : 0
+    }
+  };
+}
+
+// [start, end) of a calendar month in Bangkok time, for filtering inspection timestamps
+function monthRange(month: number, year: number) {
+  const start = new Date(`${year}-${String(month).padStart(2, "0")}-01T00:00:00+07:00`);
+  const end = new Date(`${month === 12 ? year + 1 : year}-${String(month === 12 ? 1 : month + 1).padStart(2, "0")}-01T00:00:00+07:00`);
+  return { start, end };
+}
+
+// Calendar date of an instant in Bangkok time
+function bangkokDateParts(date: Date) {
+  const local = new Date(date.getTime() + 7 * 60 * 60 * 1000);
+  return { day: local.getUTCDate(), month: local.getUTCMonth() + 1, year: local.getUTCFullYear() };
+}
+
+// "YYYY-MM" as a running month number (year * 12 + month - 1), or null
+function parseMonthParam(value: any) {
+  const match = String(value || "").match(/^(\d{4})-(\d{2})$/);
+  if (!match) return null;
+  const month = parseInt(match[2]);
+  if (month < 1 || month > 12) return null;
+  return parseInt(match[1]) * 12 + month - 1;
+}
+
+// --- Inspection Categories ---
+const CATEGORY_COLUMNS = "key, label, instructions, mandatory, weight, sheet_column, photo_point, sort_order, active";
+// A–G hold the submission itself, R–S the digital checklist result
+const RESERVED_SHEET_COLUMNS = ["A", "B", "C", "D", "E", "F", "G", "R", "S"];
+
+async function getInspectionCategories(includeRetired = false): Promise<InspectionCategory[]> {
+  const pool = getDbPool();
+  if (!pool) return DEFAULT_INSPECTION_CATEGORIES;
+  const result = await pool.query(
+    `SELECT ${CATEGORY_COLUMNS} FROM inspection_categories ${includeRetired ? "" : "WHERE active"} ORDER BY sort_order, key`
+  );
+  return result.rows;
+}
+
+// Lays out a row from { column letter: value }, leaving gaps empty
+function buildSheetRow(cells: { [column: string]: any }) {
+  const row: any[] = [];
+  for (const [column, value] of Object.entries(cells)) row[sheetColumnIndex(column)] = value;
+  return Array.from(row, value => value ?? "");
+}
+
+function categoryFlagCells(categories: InspectionCategory[], recorded: string[]) {
+  const cells: { [column: string]: string } = {};
+  sheetCategoryColumns(categories).forEach(c => { cells[sheetColumnLetter(c.index)] = recorded.includes(c.key) ? "1" : "0"; });
+  return cells;
+}
+
+// A category's weight is part of the health index policy: changing it publishes a new policy version
+async function syncCategoryWeight(client: any, key: string, weight: number, actorId: string) {
+  const policy = await lockCurrentHealthIndexPolicy(client);
+  if ((policy.weights[key] ?? 0) === weight) return null;
+  const published = await publishHealthIndexPolicy(client, { weights: { [key]: weight }, note: `น้ำหนักหมวด ${key}` }, actorId);
+  return published.error || null;
+}
+
+function parseCategoryInput(body: any) {
+  const label = String(body.label || "").trim();
+  const weight = body.weight === undefined || body.weight === "" ? 0 : Number(body.weight);
+  const sheetColumn = body.sheet_column ? String(body.sheet_column).trim().toUpperCase() : null;
+  if (!label) return { error: "กรุณาระบุชื่อหมวด" };
+  if (!Number.isFinite(weight) || weight < 0 || weight > 1) return { error: "น้ำหนักต้องอยู่ระหว่าง 0–1" };
+  if (sheetColumn && (!/^[A-Z]{1,2}$/.test(sheetColumn) || RESERVED_SHEET_COLUMNS.includes(sheetColumn))) {
+    return { error: `คอลัมน์ใน Sheet ไม่ถูกต้อง (ห้ามใช้ ${RESERVED_SHEET_COLUMNS.join(", ")})` };
+  }
+  return {
+    values: {
+      label,
+      instructions: body.instructions ? String(body.instructions).trim() : null,
+      mandatory: body.mandatory === true,
+      weight,
+      sheet_column: sheetColumn,
+      photo_point: body.photo_point === true,
+      sort_order: parseInt(body.sort_order) || 0
+    }
+  };
+}
+
+// --- Inspection Schedule ---
+const INSPECTION_FREQUENCIES: InspectionFrequency[] = ["weekly", "monthly", "quarterly"];
+
+async function getInspectionSchedules(): Promise<InspectionSchedule[]> {
+  const pool = getDbPool();
+  if (!pool) return DEFAULT_INSPECTION_SCHEDULE;
+  const result = await pool.query(
+    "SELECT substation_name, category, frequency, grace_days, exempt FROM inspection_schedules ORDER BY substation_name, category"
+  );
+  return result.rows;
+}
+
+// Most recent recorded inspection per station and category
+async function getLastInspections(substationNames: string[]) {
+  const pool = getDbPool();
+  const last = new Map<string, string>();
+  if (!pool || substationNames.length === 0) return last;
+  const result = await pool.query(
+    `SELECT substation_name, category, max(timestamp) AS last_at
+     FROM inspection_logs, unnest(verified_categories) AS category
+     WHERE substation_name = ANY($1) GROUP BY substation_name, category`,
+    [substationNames]
+  );
+  result.rows.forEach(row => last.set(`${row.substation_name}#${row.category}`, new Date(row.last_at).toISOString()));
+  return last;
+}
+
+async function getActiveSubstationNames(): Promise<string[]> {
+  const pool = getDbPool();
+  if (!pool) return SUBSTATIONS.map(sub => sub.name);
+  const result = await pool.query(`SELECT name FROM substations WHERE ${SUBSTATION_ACTIVE_SQL} ORDER BY name`);
+  return result.rows.map(r => r.name);
+}
+
+// Due/overdue state of every scheduled category of the given stations
+async function getScheduleStatus(substationNames: string[], now = new Date()) {
+  const [schedules, last] = await Promise.all([getInspectionSchedules(), getLastInspections(substationNames)]);
+  return substationNames.map(name => {
+    const categories = resolveInspectionSchedule(schedules, name)
+      .map(schedule => computeScheduleState(schedule, last.get(`${name}#${schedule.category}`) || null, now));
+    return { substationName: name, overdue: categories.some(c => c.status === "overdue"), categories };
+  });
+}
+
+function parseScheduleInput(body: any) {
+  const frequency = String(body.frequency || "monthly") as InspectionFrequency;
+  const graceDays = body.grace_days === undefined || body.grace_days === "" ? 0 : Number(body.grace_days);
+  if (!INSPECTION_FREQUENCIES.includes(frequency)) {
+    return { error: `ความถี่ต้องเป็น ${INSPECTION_FREQUENCIES.join(", ")}` };
+  }
+  if (!Number.isInteger(graceDays) || graceDays < 0 || graceDays > 90) {
+    return { error: "ระยะผ่อนผันต้องเป็นจำนวนวัน 0–90" };
+  }
+  return { values: { frequency, grace_days: graceDays, exempt: body.exempt === true || body.exempt === "true" } };
+}
+
+// Abnormal checklist answers recorded for a station in a given month (Bangkok time)
+async function getChecklistExceptions(substationName: string, month: number, year: number) {
+  const pool = getDbPool();
+  if (!pool) return [];
+  const { start, end } = monthRange(month, year);
+  const result = await pool.query(
+    `SELECT a.*, l.timestamp FROM checklist_answers a JOIN inspection_logs l ON l.id = a.inspection_id
+     WHERE l.substation_name = $1 AND l.timestamp >= $2 AND l.timestamp < $3 AND a.abnormal
+     ORDER BY l.timestamp`,
+    [substationName, start, end]
+  );
+  return result.rows;
+}
+
+// --- Battery readings ---
+// How the battery category score is derived: "image" (the Gemini verdict only), "readings" (the per-cell
+// log only, falling back to the image when a month has none) or "combined" (the worse of the two)
+const BATTERY_SCORE_SOURCE = ["image", "readings", "combined"].includes(process.env.SSVI_BATTERY_SCORE_SOURCE || "")
+  ? process.env.SSVI_BATTERY_SCORE_SOURCE as "image" | "readings" | "combined"
+  : "combined";
+
+function parseBatteryReadings(input: any): BatteryCellReading[] {
+  if (!Array.isArray(input)) return [];
+  const toValue = (value: any) => value === undefined || value === null || value === "" || !Number.isFinite(Number(value)) ? null : Number(value);
+  return input
+    .map((r: any) => ({
+      bank: String(r?.bank ?? "").trim(),
+      cell: Number(r?.cell),
+      float_voltage: toValue(r?.float_voltage),
+      specific_gravity: toValue(r?.specific_gravity),
+      temperature_c: toValue(r?.temperature_c),
+    }))
+    .filter(r => r.bank && Number.isInteger(r.cell) && r.cell > 0 &&
+      (r.float_voltage !== null || r.specific_gravity !== null || r.temperature_c !== null));
+}
+
+// A station's own thresholds, else the "*" row, else the built-in defaults
+async function getBatteryThresholds(substationName: string): Promise<BatteryThresholds> {
+  const pool = getDbPool();
+  if (!pool) return DEFAULT_BATTERY_THRESHOLDS;
+  const result = await pool.query(
+    "SELECT substation_name, thresholds FROM battery_thresholds WHERE substation_name = ANY($1)",
+    [[substationName, "*"]]
+  );
+  const own = result.rows.find((r: any) => r.substation_name === substationName);
+  const fallback = result.rows.find((r: any) => r.substation_name === "*");
+  return { ...DEFAULT_BATTERY_THRESHOLDS, ...(fallback?.thresholds || {}), ...(own?.thresholds || {}) };
+}
+
+// The most recent reading of every cell taken before the given time
+async function getPreviousBatteryReadings(substationName: string, before: Date): Promise<BatteryCellReading[]> {
+  const pool = getDbPool();
+  if (!pool) return [];
+  const result = await pool.query(
+    `SELECT DISTINCT ON (bank, cell) bank, cell, float_voltage, specific_gravity, temperature_c
+     FROM battery_readings WHERE substation_name = $1 AND measured_at < $2
+     ORDER BY bank, cell, measured_at DESC`,
+    [substationName, before]
+  );
+  return result.rows;
+}
+
+// Battery alerts raised by a station's inspections in a given month, and whether any readings were taken
+async function getMonthlyBatteryAlerts(substationName: string, month: number, year: number) {
+  const pool = getDbPool();
+  if (!pool) return { hasReadings: false, alerts: [] as any[] };
+  const { start, end } = monthRange(month, year);
+  const readings = await pool.query(
+    "SELECT count(*) AS n FROM battery_readings WHERE substation_name = $1 AND measured_at >= $2 AND measured_at < $3",
+    [substationName, start, end]
+  );
+  const alerts = await pool.query(
+    `SELECT a.* FROM battery_alerts a JOIN inspection_logs l ON l.id = a.inspection_id
+     WHERE a.substation_name = $1 AND l.timestamp >= $2 AND l.timestamp < $3 ORDER BY l.timestamp, a.bank, a.cell`,
+    [substationName, start, end]
+  );
+  return { hasReadings: Number(readings.rows[0].n) > 0, alerts: alerts.rows };
+}
+
+// --- Defects ---
+// Days until a new defect is due, by severity
+const DEFECT_DUE_DAYS: Record<DefectSeverity, number> = { high: 7, medium: 30, low: 60 };
+
+// Moves a supervisor may make; "fixed" is only reached through a photo submitted with an inspection
+const DEFECT_TRANSITIONS: Record<DefectStatus, DefectStatus[]> = {
+  open: ["assigned"],
+  assigned: ["assigned"],
+  fixed: ["verified", "assigned"],
+  verified: []
+};
+
+function defectSeverity(score: any): DefectSeverity {
+  const value = typeof score === "number" ? score : parseInt(score);
+  if (!Number.isFinite(value) || value <= 0) return "high";
+  return value <= 50 ? "medium" : "low";
+}
+
+async function recordDefectEvent(client: any, defectId: number, fromStatus: string | null, toStatus: string, actorId: string | null, note?: string | null) {
+  await client.query(
+    "INSERT INTO defect_events (defect_id, from_status, to_status, actor_id, note) VALUES ($1, $2, $3, $4, $5)",
+    [defectId, fromStatus, toStatus, actorId, note || null]
+  );
+}
+
+// The station a daily folder belongs to: from the inspection that created it, else from its parent master folder
+async function findSubstationForFolder(folderId: string) {
+  const pool = getDbPool();
+  if (!pool || !folderId) return null;
+  const logged = await pool.query("SELECT substation_name FROM inspection_logs WHERE folder_id = $1 LIMIT 1", [folderId]);
+  if (logged.rows.length > 0) return logged.rows[0].substation_name as string;
+
+  const driveService = getDriveService();
+  if (!driveService) return null;
+  const folder = await driveService.files.get({ fileId: folderId, fields: "parents" });
+  const parents = folder.data.parents || [];
+  if (parents.length === 0) return null;
+  const master = await pool.query("SELECT substation_name FROM substation_master_folders WHERE folder_id = ANY($1) LIMIT 1", [parents]);
+  return master.rows[0]?.substation_name || null;
+}
+
+// Opens one defect per finding of a Red image verdict. Re-analysing the same photo doesn't duplicate them.
+async function openDefectsFromAnalysis(result: any, substationName?: string | null) {
+  const pool = getDbPool();
+  if (!pool || result?.status !== "Red" || !result.fileId) return [];
+  const findings: string[] = (Array.isArray(result.findings) ? result.findings : []).map((f: any) => String(f).trim()).filter(Boolean);
+  if (findings.length === 0) findings.push("Other");
+
+  const station = substationName || await findSubstationForFolder(result.folderId).catch(err => {
+    console.error("Could not resolve the station of an analysed photo:", err);
+    return null;
+  });
+  if (!station) {
+    console.warn(`No station for Red finding on ${result.fileName || result.fileId}; defect not opened`);
+    return [];
+  }
+
+  const severity = defectSeverity(result.score);
+  const dueDate = new Date(Date.now() + DEFECT_DUE_DAYS[severity] * 24 * 60 * 60 * 1000);
+  const opened: number[] = [];
+  for (const finding of findings) {
+    const inserted = await pool.query(
+      `INSERT INTO defects (substation_name, category, finding, description, source_file_id, source_folder_id, severity, due_date)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (source_file_id, finding) DO NOTHING RETURNING id`,
+      [station, result.category ? String(result.category).toLowerCase() : null, finding, result.summary || null,
+       result.fileId, result.folderId || null, severity, dueDate]
+    );
+    if (inserted.rows.length > 0) {
+      opened.push(inserted.rows[0].id);
+      await recordDefectEvent(pool, inserted.rows[0].id, null, "open", null, "AI");
+    }
+  }
+  return opened;
+}
+
+// Opens a Drive resumable upload session for one photo. The browser PUTs chunks straight to the
+// returned URL, which carries its own authorization, so the Drive access token never leaves the server.
+// Drive only allows cross-origin PUTs to the session when it was opened with the page's Origin.
+async function openResumableSession(accessToken: string, folderId: string, file: { name: string; size: number; mimeType?: string }, origin?: string) {
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${accessToken}`,
+    "Content-Type": "application/json; charset=UTF-8",
+    "X-Upload-Content-Type": file.mimeType || "image/jpeg",
+    "X-Upload-Content-Length": String(file.size),
+  };
+  if (origin) headers.Origin = origin;
+
+  const response = await fetch("https://www.googleapis.com/upload/drive/v3/files?uploadType=resumable&fields=id,name,size", {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ name: file.name, parents: [folderId] }),
+  });
+  const uploadUrl = response.headers.get("location");
+  if (!response.ok || !uploadUrl) {
+    throw new Error(`Failed to open resumable upload for ${file.name} (${response.status}): ${await response.text()}`);
+  }
+  return uploadUrl;
+}
+
+// Parses the declared file list sent to init-upload / complete-upload. `original` marks the untouched camera file.
+function parseDeclaredFiles(files: any): { name: string; size: number; mimeType?: string; original: boolean }[] {
+  if (!Array.isArray(files)) return [];
+  return files
+    .map((f: any) => ({
+      name: String(f?.name || "").trim(),
+      size: Number(f?.size),
+      mimeType: f?.mimeType ? String(f.mimeType) : undefined,
+      original: f?.original === true,
+    }))
+    .filter(f => f.name && Number.isFinite(f.size) && f.size > 0);
+}
+
+// Untouched originals are kept in an originals/ subfolder of the daily folder for these categories
+// ("all", or a comma-separated list such as "battery"). Unset keeps only the watermarked copies.
+const ORIGINALS_FOLDER_NAME = "originals";
+const KEEP_ORIGINALS = (process.env.SSVI_KEEP_ORIGINALS || "").split(",").map(c => c.trim().toLowerCase()).filter(Boolean);
+
+function keepsOriginalFile(fileName: string) {
+  return keepsOriginal(KEEP_ORIGINALS, fileName.split("_")[0]);
+}
+
+async function findOrCreateFolder(parentId: string, name: string) {
+  const driveService = getDriveService()!;
+  const existing = await driveService.files.list({
+    q: `name = '${name}' and mimeType = 'application/vnd.google-apps.folder' and '${parentId}' in parents and trashed = false`,
+    fields: "files(id)",
+  });
+  if (existing.data.files && existing.data.files.length > 0) return existing.data.files[0].id as string;
+  const folder = await driveService.files.create({
+    requestBody: { name, mimeType: "application/vnd.google-apps.folder", parents: [parentId] },
+    fields: "id",
+  });
+  return folder.data.id as string;
+}
+
+// AI analysis prefers the untouched original (full resolution, no watermark over the battery label)
+// while people keep browsing the watermarked copies. Falls back to the file itself.
+async function getAnalysisSource(fileId: string, mimeType?: string): Promise<{ fileId: string; mimeType?: string }> {
+  let originalId: string | null = null;
+  const pool = getDbPool();
+  if (pool) {
+    try {
+      const result = await pool.query(
+        "SELECT original_file_id FROM inspection_photos WHERE file_id = $1 AND original_file_id IS NOT NULL LIMIT 1",
+        [fileId]
+      );
+      originalId = result.rows[0]?.original_file_id || null;
+    } catch (err) {
+      console.error("Original lookup failed:", err);
+    }
+  }
+  const driveService = getDriveService();
+  try {
+    if (!originalId && driveService) {
+      const file = await driveService.files.get({ fileId, fields: "appProperties" });
+      originalId = file.data.appProperties?.originalFileId || null;
+    }
+    if (originalId && driveService) {
+      const original = await driveService.files.get({ fileId: originalId, fields: "id, mimeType, trashed" });
+      if (!original.data.trashed) return { fileId: originalId, mimeType: original.data.mimeType || mimeType };
+    }
+  } catch (err) {
+    console.warn(`Could not use the original for ${fileId}:`, err);
+  }
+  return { fileId, mimeType };
+}
+
+// Validates a create/update body; returns the column values or an error message
+function parseSubstationInput(body: any) {
+  const name = String(body.name || "").trim();
+  const lat = Number(body.lat);
+  const lng = Number(body.lng);
+  const radius = body.geofence_radius_m === undefined || body.geofence_radius_m === "" ? 300 : Number(body.geofence_radius_m);
+
+  if (!name) return { error: "กรุณาระบุชื่อสถานี" };
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return { error: "พิกัดละติจูด/ลองจิจูดไม่ถูกต้อง" };
+  }
+  if (body.area && !AREAS.includes(body.area)) {
+    return { error: `ไม่รู้จักพื้นที่ "${body.area}" (ต้องเป็น ${AREAS.join(", ")})` };
+  }
+  if (!Number.isInteger(radius) || radius <= 0) {
+    return { error: "รัศมี Geofence ต้องเป็นจำนวนเต็มเมตรที่มากกว่า 0" };
+  }
+
+  return {
+    values: {
+      name, lat, lng,
+      area: body.area || null,
+      voltage_class: body.voltage_class ? String(body.voltage_class).trim() : null,
+      is_temporary: !!body.is_temporary,
+      active_from: body.active_from || null,
+      active_until: body.active_until || null,
+      geofence_radius_m: radius
+    }
+  };
+}
+
+// Authenticates the request and then checks the employee's role grants the permission
+function requirePermission(permission: string) {
+  return (req: any, res: any, next: any) => {
+    requireAuth(req, res, () => {
+      if (!hasPermission(req, permission)) {
+        console.warn(`Permission denied: ${req.employeeId} (${req.employeeRole}) -> ${permission} on ${req.path}`);
+        return res.status(403).json({ error: "คุณไม่มีสิทธิ์ใช้งานฟังก์ชันนี้" });
+      }
+      next();
+    });
+  };
+}
+
 // Google Drive & Sheets Setup
 const SCOPES = [
   "https://www.googleapis.com/auth/drive",
@@ -161,198 +851,503 @@ function getOAuth2Client() {
   );
 }
 
-// Google Sheets Helper for AI Analysis History
-let historyCache: { data: any[], timestamp: number } | null = null;
-const CACHE_TTL = 30000; // 30 seconds
+// --- Stored Google Credentials ---
+// The refresh token issued by /api/auth/google/callback is kept encrypted in Postgres so an admin
+// can re-authorize without editing env vars and redeploying. GOOGLE_REFRESH_TOKEN remains a fallback.
+const GOOGLE_CREDENTIALS_TTL_MS = 5 * 60 * 1000;
+
+type StoredGoogleCredentials = {
+  refreshToken: string;
+  authorizedBy: string | null;
+  authorizedAt: Date | null;
+  lastRefreshAt: Date | null;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+};
+
+let storedGoogleCredentials: StoredGoogleCredentials | null = null;
+let googleCredentialsLoadedAt = 0;
+
+function getTokenEncryptionKey() {
+  const secret = process.env.GOOGLE_TOKEN_ENCRYPTION_KEY;
+  if (!secret) return null;
+  return crypto.createHash("sha256").update(secret).digest();
+}
 
-async function getAnalysisHistory() {
-  if (historyCache && (Date.now() - historyCache.timestamp < CACHE_TTL)) {
-    return historyCache.data;
-  }
-  
-  const auth = getGoogleAuth();
-  if (!auth) return [];
-  const sheets = google.sheets({ version: "v4", auth });
-  const spreadsheetId = process.env.GOOGLE_SHEET_ID;
-  if (!spreadsheetId) return [];
+function encryptSecret(plain: string, key: Buffer) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const encrypted = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString("base64")).join(":");
+}
 
-  try {
-    console.time("FetchHistory");
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId,
-      range: "AI_Analysis!A:G",
-    }, { timeout: 15000 }); // 15s timeout for history fetch
-    console.timeEnd("FetchHistory");
-    const rows = response.data.values || [];
-    const data = rows.slice(1).map(row => ({
-      fileId: row[0],
-      fileName: row[1],
-      folderId: row[2],
-      status: row[3],
-      findings: row[4] ? row[4].split(',') : [],
-      summary: row[5],
-      analyzedAt: row[6]
-    }));
-    
-    historyCache = { data, timestamp: Date.now() };
-    return data;
-  } catch (err: any) {
-    if (err.code === 404 || (err.response && err.response.status === 400)) {
-      await initAnalysisSheet();
-    }
-    return [];
-  }
+function decryptSecret(stored: string, key: Buffer) {
+  const [iv, tag, encrypted] = stored.split(":").map(part => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
 }
 
-async function initAnalysisSheet() {
-  const auth = getGoogleAuth();
-  if (!auth) return;
-  const sheets = google.sheets({ version: "v4", auth });
-  const spreadsheetId = process.env.GOOGLE_SHEET_ID;
-  if (!spreadsheetId) return;
+async function loadGoogleCredentials(force = false) {
+  if (!force && Date.now() - googleCredentialsLoadedAt < GOOGLE_CREDENTIALS_TTL_MS) return storedGoogleCredentials;
+  const pool = getDbPool();
+  const key = getTokenEncryptionKey();
+  if (!pool || !key) return null;
 
   try {
-    const spreadsheet = await sheets.spreadsheets.get({ spreadsheetId }, { timeout: 10000 });
-    const sheetExists = spreadsheet.data.sheets?.some(s => s.properties?.title === "AI_Analysis");
-
-    if (!sheetExists) {
-      await sheets.spreadsheets.batchUpdate({
-        spreadsheetId,
-        requestBody: {
-          requests: [{
-            addSheet: { properties: { title: "AI_Analysis" } }
-          }]
-        }
-      });
-      await sheets.spreadsheets.values.update({
-        spreadsheetId,
-        range: "AI_Analysis!A1:G1",
-        valueInputOption: "RAW",
-        requestBody: {
-          values: [["File ID", "File Name", "Folder ID", "Status", "Findings", "Summary", "Analyzed At"]]
-        }
-      });
-    }
+    const result = await pool.query("SELECT * FROM google_credentials WHERE id = 'default'");
+    const row = result.rows[0];
+    storedGoogleCredentials = row ? {
+      refreshToken: decryptSecret(row.refresh_token_enc, key),
+      authorizedBy: row.authorized_by,
+      authorizedAt: row.authorized_at,
+      lastRefreshAt: row.last_refresh_at,
+      lastError: row.last_error,
+      lastErrorAt: row.last_error_at
+    } : null;
+    googleCredentialsLoadedAt = Date.now();
   } catch (err) {
-    console.error("Failed to init analysis sheet:", err);
+    // Keep whatever was cached; a wrong encryption key also lands here
+    console.error("Failed to load stored Google credentials:", err);
   }
+  return storedGoogleCredentials;
 }
 
-async function saveAnalysisResult(result: any) {
-  const auth = getGoogleAuth();
-  if (!auth) return;
-  const sheets = google.sheets({ version: "v4", auth });
-  const spreadsheetId = process.env.GOOGLE_SHEET_ID;
-  if (!spreadsheetId) return;
+async function saveGoogleRefreshToken(refreshToken: string, employeeId: string) {
+  const pool = getDbPool();
+  const key = getTokenEncryptionKey();
+  if (!pool || !key) return false;
+
+  await pool.query(
+    `INSERT INTO google_credentials (id, refresh_token_enc, authorized_by, authorized_at, last_refresh_at, last_error, last_error_at)
+     VALUES ('default', $1, $2, CURRENT_TIMESTAMP, NULL, NULL, NULL)
+     ON CONFLICT (id) DO UPDATE SET refresh_token_enc = EXCLUDED.refresh_token_enc, authorized_by = EXCLUDED.authorized_by,
+       authorized_at = EXCLUDED.authorized_at, last_refresh_at = NULL, last_error = NULL, last_error_at = NULL`,
+    [encryptSecret(refreshToken, key), employeeId]
+  );
+  await loadGoogleCredentials(true);
+  return true;
+}
+
+// Records the outcome of an access-token refresh so /api/drive/status can show it
+async function recordGoogleRefresh(error?: string) {
+  const pool = getDbPool();
+  if (!pool || !storedGoogleCredentials) return;
+  try {
+    if (error) {
+      await pool.query("UPDATE google_credentials SET last_error = $1, last_error_at = CURRENT_TIMESTAMP WHERE id = 'default'", [error]);
+      storedGoogleCredentials.lastError = error;
+      storedGoogleCredentials.lastErrorAt = new Date();
+    } else {
+      await pool.query("UPDATE google_credentials SET last_refresh_at = CURRENT_TIMESTAMP, last_error = NULL, last_error_at = NULL WHERE id = 'default'");
+      storedGoogleCredentials.lastRefreshAt = new Date();
+      storedGoogleCredentials.lastError = null;
+      storedGoogleCredentials.lastErrorAt = null;
+    }
+  } catch (err) {
+    console.error("Failed to record Google token refresh:", err);
+  }
+}
+
+// Keep the stored token fresh on every instance; getGoogleAuth() itself stays synchronous
+app.use("/api", async (req, res, next) => {
+  await loadGoogleCredentials();
+  next();
+});
+
+// --- Image Analyses ---
+// Per-photo AI results, keyed by Drive file. The AI_Analysis tab of the sheet is an export of this table.
+const IMAGE_ANALYSIS_COLUMNS = `file_id AS "fileId", file_name AS "fileName", folder_id AS "folderId", status, findings, summary, category, score, analyzed_at AS "analyzedAt"`;
+
+async function getImageAnalyses(fileIds: string[]) {
+  const pool = getDbPool();
+  const analyses = new Map<string, any>();
+  if (!pool || fileIds.length === 0) return analyses;
+  const result = await pool.query(`SELECT ${IMAGE_ANALYSIS_COLUMNS} FROM image_analyses WHERE file_id = ANY($1)`, [fileIds]);
+  result.rows.forEach(row => analyses.set(row.fileId, row));
+  return analyses;
+}
+
+// A forced re-analysis (forcedBy set) replaces the stored result, so the previous one and the actor go to
+// the audit trail of the photo's station, on the same transaction as the overwrite
+async function saveImageAnalysis(result: any, forcedBy: string | null = null) {
+  const pool = getDbPool();
+  if (!pool) return;
+  const station = forcedBy ? await findSubstationForFolder(result.folderId).catch(err => {
+    console.error("Could not resolve the station of a re-analysed photo:", err);
+    return null;
+  }) : null;
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const previous = forcedBy
+      ? (await client.query(`SELECT ${IMAGE_ANALYSIS_COLUMNS} FROM image_analyses WHERE file_id = $1 FOR UPDATE`, [result.fileId])).rows[0]
+      : null;
+    const saved = await client.query(
+      `INSERT INTO image_analyses (file_id, file_name, folder_id, status, findings, summary, category, score, analyzed_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)
+       ON CONFLICT (file_id) DO UPDATE SET file_name = EXCLUDED.file_name, folder_id = EXCLUDED.folder_id, status = EXCLUDED.status,
+         findings = EXCLUDED.findings, summary = EXCLUDED.summary, category = EXCLUDED.category, score = EXCLUDED.score, analyzed_at = CURRENT_TIMESTAMP
+       RETURNING ${IMAGE_ANALYSIS_COLUMNS}`,
+      [
+        result.fileId, result.fileName, result.folderId, result.status, Array.isArray(result.findings) ? result.findings : [], result.summary || "",
+        result.category || null, typeof result.score === "number" ? Math.round(result.score) : null
+      ]
+    );
+    if (previous) {
+      const { month, year } = bangkokDateParts(new Date(previous.analyzedAt));
+      await client.query(
+        "INSERT INTO audit_events (event_type, substation_name, month, year, actor_id, before, after) VALUES ($1, $2, $3, $4, $5, $6, $7)",
+        ["image_analysis_forced", station, month, year, forcedBy, JSON.stringify(previous), JSON.stringify(saved.rows[0])]
+      );
+    }
+    await enqueueSheetSync(client, "analysis", { file_id: result.fileId });
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+  kickSheetSync();
+}
+
+// --- Google Sheets Export ---
+// Postgres is the record. Each write queues what it touched in sheet_sync_queue inside its own transaction,
+// and the sync job projects those rows into the sheet: inspections onto the main tab, image analyses onto
+// AI_Analysis and health index rows onto database. Failed entries are retried with backoff.
+const SHEET_SYNC_INTERVAL_MS = 60 * 1000;
+const SHEET_SYNC_BATCH = 50;
+const SHEET_SYNC_MAX_ATTEMPTS = 10;
+type SheetSyncKind = "inspection" | "analysis" | "health";
+
+let sheetSyncRunning = false;
+let lastSheetSyncAt: Date | null = null;
 
-  await sheets.spreadsheets.values.append({
+async function enqueueSheetSync(db: any, kind: SheetSyncKind, ref: any) {
+  await db.query("INSERT INTO sheet_sync_queue (kind, ref) VALUES ($1, $2)", [kind, JSON.stringify(ref)]);
+}
+
+// Starts a pass without waiting for it; whatever it misses is picked up by the interval or POST /api/sheets-sync/run
+function kickSheetSync() {
+  runSheetSync().catch(err => console.error("Sheets sync pass failed:", err));
+}
+
+// Column A has always held the Thai-locale Bangkok time
+function sheetDateTime(date: Date) {
+  return new Intl.DateTimeFormat("th-TH", {
+    timeZone: "Asia/Bangkok",
+    year: "numeric", month: "2-digit", day: "2-digit",
+    hour: "2-digit", minute: "2-digit", second: "2-digit",
+    hour12: false
+  }).format(date);
+}
+
+async function exportInspection(sheetsService: any, spreadsheetId: string, ref: { inspection_id: number }) {
+  const pool = getDbPool()!;
+  const [log, answers] = await Promise.all([
+    pool.query("SELECT * FROM inspection_logs WHERE id = $1", [ref.inspection_id]),
+    pool.query(
+      `SELECT a.* FROM checklist_answers a LEFT JOIN checklist_items i ON i.id = a.item_id
+       WHERE a.inspection_id = $1 ORDER BY i.sort_order NULLS LAST, a.item_id`,
+      [ref.inspection_id]
+    )
+  ]);
+  const row = log.rows[0];
+  if (!row) return;
+
+  const categories = await getInspectionCategories(true);
+  const status = row.checklist_status;
+  // R: checklist result (Red when any value is out of range), S: the answers themselves
+  const checklistResult = !status ? "" : status === "abnormal" ? "Red" : status === "incomplete" ? "Incomplete" : "Green";
+  const rowData = buildSheetRow({
+    A: sheetDateTime(new Date(row.timestamp)),
+    B: row.employee_id,
+    C: row.substation_name || "ไม่ระบุ",
+    D: row.gps_lat ?? "0",
+    E: row.gps_lng ?? "0",
+    F: `https://drive.google.com/drive/folders/${row.folder_id}`,
+    G: ({ completed: "Completed", partial: "Partial", failed: "Failed" } as Record<string, string>)[row.status] || row.status,
+    ...categoryFlagCells(categories, row.verified_categories || []),
+    R: checklistResult,
+    S: answers.rows.map(r => `${r.abnormal ? "⚠ " : ""}${describeChecklistAnswer(r)}`).join("\n")
+  });
+
+  const lastColumn = lastSheetColumn(categories);
+
+  // The row lock makes a second export of the same inspection (a retry after the lease ran out) wait,
+  // then rewrite the row the first one appended
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const locked = await client.query("SELECT sheet_row FROM inspection_logs WHERE id = $1 FOR UPDATE", [ref.inspection_id]);
+    const sheetRow: number | null = locked.rows[0]?.sheet_row ?? null;
+    if (sheetRow) {
+      await sheetsService.spreadsheets.values.update({
+        spreadsheetId,
+        range: `A${sheetRow}:${lastColumn}${sheetRow}`,
+        valueInputOption: "USER_ENTERED",
+        requestBody: { values: [rowData] }
+      });
+    } else {
+      const response = await sheetsService.spreadsheets.values.append({
+        spreadsheetId,
+        range: `A:${lastColumn}`,
+        valueInputOption: "USER_ENTERED",
+        requestBody: { values: [rowData] }
+      });
+      // e.g. "'Sheet1'!A120:S120"
+      const appended = String(response.data.updates?.updatedRange || "").match(/![A-Z]+(\d+)/);
+      if (appended) {
+        await client.query("UPDATE inspection_logs SET sheet_row = $2 WHERE id = $1", [ref.inspection_id, parseInt(appended[1])]);
+      } else {
+        console.warn(`Sheet append for inspection ${ref.inspection_id} didn't report its row`);
+      }
+    }
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+async function exportImageAnalysis(sheetsService: any, spreadsheetId: string, ref: { file_id: string }) {
+  const result = await getDbPool()!.query(`SELECT ${IMAGE_ANALYSIS_COLUMNS} FROM image_analyses WHERE file_id = $1`, [ref.file_id]);
+  const row = result.rows[0];
+  if (!row) return;
+  await sheetsService.spreadsheets.values.append({
     spreadsheetId,
     range: "AI_Analysis!A:G",
     valueInputOption: "RAW",
     requestBody: {
       values: [[
-        result.fileId,
-        result.fileName,
-        result.folderId,
-        result.status,
-        result.findings.join(','),
-        result.summary,
-        new Date().toISOString()
+        row.fileId,
+        row.fileName,
+        row.folderId,
+        row.status,
+        (row.findings || []).join(","),
+        row.summary,
+        new Date(row.analyzedAt).toISOString()
       ]]
     }
   }, { timeout: 10000 });
 }
 
-// --- Google Sheets database Tab Helpers for persistent audits ---
-async function initDatabaseSheet() {
+// One row per substation/month on the database tab, updated in place. Columns are found by their header:
+// A–G are fixed, then a score and an N/A column per category, then the index. A category without columns
+// yet gets them appended at the right, so rows written under an older layout stay where they are.
+async function exportHealthIndex(sheetsService: any, spreadsheetId: string, ref: { substation_name: string; month: number; year: number }) {
+  const pool = getDbPool()!;
+  const result = await pool.query(
+    "SELECT * FROM health_index_logs WHERE substation_name = $1 AND month = $2 AND year = $3",
+    [ref.substation_name, ref.month, ref.year]
+  );
+  if (!result.rows[0]) return;
+  const [row] = await withCategoryScores(pool, result.rows);
+
+  const getResponse = await sheetsService.spreadsheets.values.get({
+    spreadsheetId,
+    range: "database"
+  });
+  const rows: any[][] = getResponse.data.values || [];
+
+  const categoryKeys = Array.from(new Set([...(await getScoredCategories()).map(c => c.key), ...Object.keys(row.scores)]));
+  const cells: { [header: string]: string } = {
+    "Substation Name": row.substation_name,
+    "Month": String(row.month),
+    "Year": String(row.year),
+    "Status": row.status || "Green",
+    "Findings": (row.findings || []).join(","),
+    "Summary": row.summary || "",
+    "Analyzed At": new Date(row.analyzed_at).toISOString()
+  };
+  for (const key of categoryKeys) {
+    const entry = row.scores[key];
+    const [scoreHeader, naHeader] = healthSheetCategoryHeaders(key);
+    cells[scoreHeader] = entry && !entry.na ? String(entry.score ?? 100) : "";
+    cells[naHeader] = !entry || entry.na ? "TRUE" : "FALSE";
+  }
+  cells["Health Index"] = row.health_index === null ? "" : String(row.health_index);
+  cells["Grade"] = row.grade || "";
+  cells["Policy Version"] = row.policy_version === null ? "" : String(row.policy_version);
+
+  const headers: string[] = (rows[0] || []).map(String);
+  const missing = Object.keys(cells).filter(header => !headers.includes(header));
+  if (missing.length > 0) {
+    headers.push(...missing);
+    await sheetsService.spreadsheets.values.update({
+      spreadsheetId,
+      range: `database!A1:${sheetColumnLetter(headers.length - 1)}1`,
+      valueInputOption: "RAW",
+      requestBody: { values: [headers] }
+    });
+  }
+
+  const foundIndex = rows.findIndex((r, i) => i > 0 && r[0] === row.substation_name && parseInt(r[1]) === row.month && parseInt(r[2]) === row.year);
+  // Columns this export doesn't write (a retired category, a hand-added note) keep their values
+  const rowData = headers.map((header, i) => cells[header] ?? (foundIndex !== -1 ? rows[foundIndex][i] ?? "" : ""));
+  const lastColumn = sheetColumnLetter(headers.length - 1);
+
+  if (foundIndex !== -1) {
+    // 1-indexed for Sheets
+    await sheetsService.spreadsheets.values.update({
+      spreadsheetId,
+      range: `database!A${foundIndex + 1}:${lastColumn}${foundIndex + 1}`,
+      valueInputOption: "USER_ENTERED",
+      requestBody: { values: [rowData] }
+    });
+  } else {
+    await sheetsService.spreadsheets.values.append({
+      spreadsheetId,
+      range: `database!A:${lastColumn}`,
+      valueInputOption: "USER_ENTERED",
+      requestBody: { values: [rowData] }
+    });
+  }
+}
+
+// Exports the due entries of the queue, oldest first. A failed entry waits 1, 2, 4 … minutes (at most an
+// hour) before its next attempt, and is marked failed after SHEET_SYNC_MAX_ATTEMPTS until retried by hand.
+async function runSheetSync() {
+  const pool = getDbPool();
+  if (!pool || sheetSyncRunning) return;
+  await loadGoogleCredentials();
+  const sheetsService = getSheetsService();
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID || "1WpvuQnhXzufiBmSRSaEnkRFs9BJf5H4fIWZ0xoYC8iw";
+  if (!sheetsService || !spreadsheetId) return;
+
+  sheetSyncRunning = true;
+  try {
+    // Lease the batch so another instance doesn't export the same entries meanwhile
+    const batch = await pool.query(
+      `UPDATE sheet_sync_queue SET next_attempt_at = CURRENT_TIMESTAMP + INTERVAL '5 minutes'
+       WHERE id IN (
+         SELECT id FROM sheet_sync_queue WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP
+         ORDER BY id LIMIT $1 FOR UPDATE SKIP LOCKED
+       ) RETURNING *`,
+      [SHEET_SYNC_BATCH]
+    );
+    const entries = batch.rows.sort((a, b) => a.id - b.id);
+    if (entries.length === 0) return;
+    if (entries.some(e => e.kind === "analysis")) await initAnalysisSheet();
+    if (entries.some(e => e.kind === "health")) await initDatabaseSheet();
+
+    for (const entry of entries) {
+      try {
+        if (entry.kind === "inspection") await exportInspection(sheetsService, spreadsheetId, entry.ref);
+        else if (entry.kind === "analysis") await exportImageAnalysis(sheetsService, spreadsheetId, entry.ref);
+        else if (entry.kind === "health") await exportHealthIndex(sheetsService, spreadsheetId, entry.ref);
+        await pool.query(
+          "UPDATE sheet_sync_queue SET status = 'synced', attempts = attempts + 1, last_error = NULL, synced_at = CURRENT_TIMESTAMP WHERE id = $1",
+          [entry.id]
+        );
+      } catch (err: any) {
+        const message = String(err?.message || err);
+        console.error(`Sheets sync of ${entry.kind} ${JSON.stringify(entry.ref)} failed:`, message);
+        if (message.includes("invalid_grant")) await recordGoogleRefresh(message);
+        await pool.query(
+          `UPDATE sheet_sync_queue SET attempts = attempts + 1, last_error = $2,
+             status = CASE WHEN attempts + 1 >= $3 THEN 'failed' ELSE 'pending' END,
+             next_attempt_at = CURRENT_TIMESTAMP + LEAST(POWER(2, attempts), 60) * INTERVAL '1 minute'
+           WHERE id = $1`,
+          [entry.id, message.slice(0, 1000), SHEET_SYNC_MAX_ATTEMPTS]
+        );
+      }
+    }
+    lastSheetSyncAt = new Date();
+  } finally {
+    sheetSyncRunning = false;
+  }
+}
+
+async function getSheetSyncStatus() {
+  const pool = getDbPool()!;
+  const [counts, failures] = await Promise.all([
+    pool.query(
+      `SELECT status, kind, COUNT(*)::int AS count, MIN(created_at) AS oldest, MAX(synced_at) AS last_synced_at
+       FROM sheet_sync_queue GROUP BY status, kind`
+    ),
+    pool.query(
+      `SELECT id, kind, ref, attempts, last_error, next_attempt_at, created_at FROM sheet_sync_queue
+       WHERE status = 'failed' OR (status = 'pending' AND attempts > 0) ORDER BY id DESC LIMIT 20`
+    )
+  ]);
+  const total = (status: string) => counts.rows.filter(r => r.status === status).reduce((sum, r) => sum + r.count, 0);
+  const pendingSince = counts.rows.filter(r => r.status === "pending").map(r => new Date(r.oldest).getTime());
+  const syncedAt = counts.rows.filter(r => r.last_synced_at).map(r => new Date(r.last_synced_at).getTime());
+  return {
+    sheetsConfigured: !!getSheetsService(),
+    running: sheetSyncRunning,
+    lastRunAt: lastSheetSyncAt,
+    pending: total("pending"),
+    failed: total("failed"),
+    synced: total("synced"),
+    oldestPendingAt: pendingSince.length > 0 ? new Date(Math.min(...pendingSince)) : null,
+    lastSyncedAt: syncedAt.length > 0 ? new Date(Math.max(...syncedAt)) : null,
+    byKind: counts.rows,
+    errors: failures.rows
+  };
+}
+
+// --- Sheets Import ---
+// Inspections recorded before Postgres became the record exist only on the sheet. `npm run import-sheet`
+// backfills them once; this job then picks up rows still added to the sheet by hand. Off unless
+// SSVI_SHEET_IMPORT_INTERVAL_MINUTES is set; POST /api/sheets-import/run runs it on demand.
+const SHEET_IMPORT_INTERVAL_MS = Math.max(0, parseFloat(process.env.SSVI_SHEET_IMPORT_INTERVAL_MINUTES || "") || 0) * 60 * 1000;
+
+// Null when there's no database or Sheets access, or another import is running
+async function runSheetImport(full = false) {
+  const pool = getDbPool();
+  if (!pool) return null;
+  await loadGoogleCredentials();
+  const sheetsService = getSheetsService();
+  if (!sheetsService) return null;
+  const spreadsheetId = process.env.GOOGLE_SHEET_ID || "1WpvuQnhXzufiBmSRSaEnkRFs9BJf5H4fIWZ0xoYC8iw";
+  const report = await importSheetInspections(pool, sheetsService, spreadsheetId, { full });
+  if (report && (report.imported > 0 || report.rejected.length > 0)) {
+    console.log(`Sheets import (${report.mode}): ${report.imported} imported, ${report.duplicates} already present, ${report.rejected.length} rejected`);
+  }
+  return report;
+}
+
+// The export tabs are created with their headers on first use
+async function initAnalysisSheet() {
   const auth = getGoogleAuth();
   if (!auth) return;
-  const sheetsService = google.sheets({ version: "v4", auth });
+  const sheets = google.sheets({ version: "v4", auth });
   const spreadsheetId = process.env.GOOGLE_SHEET_ID || "1WpvuQnhXzufiBmSRSaEnkRFs9BJf5H4fIWZ0xoYC8iw";
   if (!spreadsheetId) return;
 
   try {
-    const spreadsheet = await sheetsService.spreadsheets.get({ spreadsheetId });
-    const sheetExists = spreadsheet.data.sheets?.some(s => s.properties?.title === "database");
+    const spreadsheet = await sheets.spreadsheets.get({ spreadsheetId }, { timeout: 10000 });
+    const sheetExists = spreadsheet.data.sheets?.some(s => s.properties?.title === "AI_Analysis");
 
     if (!sheetExists) {
-      await sheetsService.spreadsheets.batchUpdate({
+      await sheets.spreadsheets.batchUpdate({
         spreadsheetId,
         requestBody: {
           requests: [{
-            addSheet: { properties: { title: "database" } }
+            addSheet: { properties: { title: "AI_Analysis" } }
           }]
         }
       });
-      await sheetsService.spreadsheets.values.update({
+      await sheets.spreadsheets.values.update({
         spreadsheetId,
-        range: "database!A1:S1",
+        range: "AI_Analysis!A1:G1",
         valueInputOption: "RAW",
         requestBody: {
-          values: [[
-            "Substation Name", "Month", "Year", "Status", "Findings", "Summary", "Analyzed At", 
-            "Battery Score", "Battery N/A", 
-            "Yard Score", "Yard N/A", 
-            "Checklist Score", "Checklist N/A", 
-            "Roof Score", "Roof N/A", 
-            "Fence Score", "Fence N/A", 
-            "Security Score", "Security N/A"
-          ]]
+          values: [["File ID", "File Name", "Folder ID", "Status", "Findings", "Summary", "Analyzed At"]]
         }
       });
     }
   } catch (err) {
-    console.error("Failed to init database sheet:", err);
-  }
-}
-
-async function getHealthIndexFromSheet(): Promise<any[]> {
-  const auth = getGoogleAuth();
-  if (!auth) return [];
-  const sheetsService = google.sheets({ version: "v4", auth });
-  const spreadsheetId = process.env.GOOGLE_SHEET_ID || "1WpvuQnhXzufiBmSRSaEnkRFs9BJf5H4fIWZ0xoYC8iw";
-  if (!spreadsheetId) return [];
-
-  try {
-    const response = await sheetsService.spreadsheets.values.get({
-      spreadsheetId,
-      range: "database!A:S"
-    });
-    const rows = response.data.values || [];
-    if (rows.length <= 1) return [];
-
-    return rows.slice(1).map(row => {
-      return {
-        substation_name: row[0] || "",
-        month: parseInt(row[1]) || 1,
-        year: parseInt(row[2]) || 2026,
-        status: row[3] || "Green",
-        findings: row[4] ? row[4].split(",") : [],
-        summary: row[5] || "",
-        analyzed_at: row[6] || "",
-        battery_score: row[7] !== undefined && row[7] !== "" ? parseInt(row[7]) : 100,
-        battery_na: row[8] ? (row[8] === "TRUE" || row[8] === "true" || row[8] === "1") : false,
-        yard_score: row[9] !== undefined && row[9] !== "" ? parseInt(row[9]) : 100,
-        yard_na: row[10] ? (row[10] === "TRUE" || row[10] === "true" || row[10] === "1") : false,
-        checklist_score: row[11] !== undefined && row[11] !== "" ? parseInt(row[11]) : 100,
-        checklist_na: row[12] ? (row[12] === "TRUE" || row[12] === "true" || row[12] === "1") : false,
-        roof_score: row[13] !== undefined && row[13] !== "" ? parseInt(row[13]) : 100,
-        roof_na: row[14] ? (row[14] === "TRUE" || row[14] === "true" || row[14] === "1") : false,
-        fence_score: row[15] !== undefined && row[15] !== "" ? parseInt(row[15]) : 100,
-        fence_na: row[16] ? (row[16] === "TRUE" || row[16] === "true" || row[16] === "1") : false,
-        security_score: row[17] !== undefined && row[17] !== "" ? parseInt(row[17]) : 100,
-        security_na: row[18] ? (row[18] === "TRUE" || row[18] === "true" || row[18] === "1") : false
-      };
-    });
-  } catch (err: any) {
-    if (err.code === 404 || (err.response && err.response.status === 400)) {
-      await initDatabaseSheet();
-    }
-    return [];
+    console.error("Failed to init analysis sheet:", err);
   }
 }
 
-async function saveHealthIndexToSheet(data: any) {
+async function initDatabaseSheet() {
   const auth = getGoogleAuth();
   if (!auth) return;
   const sheetsService = google.sheets({ version: "v4", auth });
@@ -360,79 +1355,41 @@ async function saveHealthIndexToSheet(data: any) {
   if (!spreadsheetId) return;
 
   try {
-    await initDatabaseSheet();
-
-    // Check if conflicting row matches substationName, month, year
-    const getResponse = await sheetsService.spreadsheets.values.get({
-      spreadsheetId,
-      range: "database!A:S"
-    });
-    const rows = getResponse.data.values || [];
-    
-    let foundIndex = -1;
-    for (let i = 1; i < rows.length; i++) {
-      const sName = rows[i][0];
-      const m = parseInt(rows[i][1]);
-      const y = parseInt(rows[i][2]);
-      if (sName === data.substationName && m === parseInt(data.month) && y === parseInt(data.year)) {
-        foundIndex = i;
-        break;
-      }
-    }
-
-    const rowData = [
-      data.substationName,
-      String(data.month),
-      String(data.year),
-      data.status || "Green",
-      Array.isArray(data.findings) ? data.findings.join(",") : (data.findings || ""),
-      data.summary || "",
-      new Date().toISOString(),
-      data.battery_score !== undefined ? String(data.battery_score) : "100",
-      data.battery_na ? "TRUE" : "FALSE",
-      data.yard_score !== undefined ? String(data.yard_score) : "100",
-      data.yard_na ? "TRUE" : "FALSE",
-      data.checklist_score !== undefined ? String(data.checklist_score) : "100",
-      data.checklist_na ? "TRUE" : "FALSE",
-      data.roof_score !== undefined ? String(data.roof_score) : "100",
-      data.roof_na ? "TRUE" : "FALSE",
-      data.fence_score !== undefined ? String(data.fence_score) : "100",
-      data.fence_na ? "TRUE" : "FALSE",
-      data.security_score !== undefined ? String(data.security_score) : "100",
-      data.security_na ? "TRUE" : "FALSE"
-    ];
+    const spreadsheet = await sheetsService.spreadsheets.get({ spreadsheetId });
+    const sheetExists = spreadsheet.data.sheets?.some(s => s.properties?.title === "database");
 
-    if (foundIndex !== -1) {
-      // 1-indexed for Sheets, foundIndex as 0-indexed translates to foundIndex + 1
-      const range = `database!A${foundIndex + 1}:S${foundIndex + 1}`;
-      await sheetsService.spreadsheets.values.update({
+    if (!sheetExists) {
+      await sheetsService.spreadsheets.batchUpdate({
         spreadsheetId,
-        range,
-        valueInputOption: "USER_ENTERED",
         requestBody: {
-          values: [rowData]
+          requests: [{
+            addSheet: { properties: { title: "database" } }
+          }]
         }
       });
-      console.log(`Updated existing row for ${data.substationName} in Google Sheets database (row ${foundIndex + 1})`);
-    } else {
-      await sheetsService.spreadsheets.values.append({
+      // The export adds the category and index columns as it needs them
+      await sheetsService.spreadsheets.values.update({
         spreadsheetId,
-        range: "database!A:S",
-        valueInputOption: "USER_ENTERED",
+        range: "database!A1:G1",
+        valueInputOption: "RAW",
         requestBody: {
-          values: [rowData]
+          values: [["Substation Name", "Month", "Year", "Status", "Findings", "Summary", "Analyzed At"]]
         }
       });
-      console.log(`Appended new row for ${data.substationName} in Google Sheets database`);
     }
-  } catch (sheetErr) {
-    console.error("Failed to save health index to Google Sheets: database", sheetErr);
-    throw sheetErr;
+  } catch (err) {
+    console.error("Failed to init database sheet:", err);
   }
 }
 
+// Score and N/A headers of a category on the database tab ("Battery Score", "Battery N/A", ...)
+const healthSheetCategoryHeaders = (key: string) => {
+  const name = key.charAt(0).toUpperCase() + key.slice(1);
+  return [`${name} Score`, `${name} N/A`];
+};
+
 // Route to start OAuth flow
-app.get("/api/auth/google", (req, res) => {
+app.get("/api/auth/google", requirePermission("drive:configure"), (req: any, res: any) => {
   console.log("Starting Google OAuth flow...");
   try {
     const clientId = process.env.GOOGLE_CLIENT_ID;
@@ -455,11 +1412,22 @@ app.get("/api/auth/google", (req, res) => {
       `);
     }
 
+    // The callback only accepts the code Google returns for this browser's own request, so a link
+    // carrying someone else's code can't swap the stored credential for their account
+    const state = crypto.randomBytes(24).toString("hex");
+    res.cookie(OAUTH_STATE_COOKIE, state, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: OAUTH_STATE_TTL_MS,
+      path: "/api/auth/google"
+    });
     const oauth2Client = getOAuth2Client();
     const url = oauth2Client.generateAuthUrl({
       access_type: "offline",
       scope: SCOPES,
-      prompt: "consent"
+      prompt: "consent",
+      state
     });
     console.log("Redirecting to Google Auth URL...");
     res.redirect(url);
@@ -470,8 +1438,16 @@ app.get("/api/auth/google", (req, res) => {
 });
 
 // Callback route to show the Refresh Token page (The one in your image)
-app.get("/api/auth/google/callback", async (req, res) => {
+app.get("/api/auth/google/callback", requirePermission("drive:configure"), async (req: any, res: any) => {
   const { code } = req.query;
+  const expectedState = readCookie(req, OAUTH_STATE_COOKIE);
+  res.clearCookie(OAUTH_STATE_COOKIE, { path: "/api/auth/google" });
+  const given = Buffer.from(String(req.query.state || ""));
+  const expected = Buffer.from(expectedState || "");
+  if (!expectedState || given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    console.warn(`Google OAuth callback with a missing or mismatched state (employee ${req.employeeId})`);
+    return res.status(400).send("คำขอเชื่อมต่อ Google ไม่ถูกต้องหรือหมดอายุ กรุณาเริ่มใหม่จากหน้าตั้งค่า");
+  }
   const oauth2Client = getOAuth2Client();
   try {
     const { tokens } = await oauth2Client.getToken(code as string);
@@ -481,6 +1457,18 @@ app.get("/api/auth/google/callback", async (req, res) => {
       return res.send("Error: No refresh token received. Try removing the app from your Google account and try again.");
     }
 
+    if (await saveGoogleRefreshToken(refreshToken, req.employeeId)) {
+      console.log(`Google refresh token re-authorized by ${req.employeeId}`);
+      return res.send(`
+        <div style="font-family: sans-serif; padding: 20px; color: #047857; background: #ecfdf5; border-radius: 8px; border: 1px solid #a7f3d0; max-width: 500px; margin: 40px auto;">
+          <h3 style="margin-top: 0;">✅ เชื่อมต่อ Google สำเร็จ</h3>
+          <p>ระบบบันทึกสิทธิ์การเข้าถึงใหม่เรียบร้อยแล้ว ใช้งานได้ทันทีโดยไม่ต้อง Redeploy</p>
+          <a href="/" style="color: #6d28d9; font-weight: bold;">กลับไปที่แอป</a>
+        </div>
+      `);
+    }
+
+    // No database or GOOGLE_TOKEN_ENCRYPTION_KEY: fall back to copying the token into the env manually
     // This HTML matches the image you provided
     res.send(`
       <!DOCTYPE html>
@@ -559,14 +1547,39 @@ app.get("/api/auth/google/callback", async (req, res) => {
 // --- New Drive & AI Analysis Endpoints ---
 
 // Check Google Drive connection status
-app.get("/api/drive/status", (req, res) => {
+// Pass ?check=true to also request an access token and record the result
+app.get("/api/drive/status", requireAuth, async (req: any, res: any) => {
   const hasClientId = !!process.env.GOOGLE_CLIENT_ID;
   const hasClientSecret = !!process.env.GOOGLE_CLIENT_SECRET;
-  const hasRefreshToken = !!process.env.GOOGLE_REFRESH_TOKEN;
-  
+  const stored = storedGoogleCredentials;
+  const hasRefreshToken = !!stored || !!process.env.GOOGLE_REFRESH_TOKEN;
+
+  let checkError: string | null = null;
+  if (req.query.check === "true") {
+    try {
+      const auth = getGoogleAuth();
+      if (!auth) throw new Error("Google credentials not configured");
+      await auth.getAccessToken();
+      await recordGoogleRefresh();
+    } catch (err: any) {
+      checkError = err.message;
+      await recordGoogleRefresh(err.message);
+    }
+  }
+
+  const authorizedAt = stored?.authorizedAt ? new Date(stored.authorizedAt) : null;
   res.json({
     connected: hasRefreshToken,
     configured: hasClientId && hasClientSecret,
+    source: stored ? "database" : process.env.GOOGLE_REFRESH_TOKEN ? "env" : null,
+    encryptionConfigured: !!getTokenEncryptionKey(),
+    authorizedBy: stored?.authorizedBy || null,
+    authorizedAt,
+    tokenAgeDays: authorizedAt ? Math.floor((Date.now() - authorizedAt.getTime()) / 86400000) : null,
+    lastRefreshAt: stored?.lastRefreshAt || null,
+    lastError: checkError || stored?.lastError || null,
+    lastErrorAt: stored?.lastErrorAt || null,
+    needsReauthorization: /invalid_grant/i.test(checkError || stored?.lastError || ""),
     missing: {
       clientId: !hasClientId,
       clientSecret: !hasClientSecret,
@@ -575,8 +1588,62 @@ app.get("/api/drive/status", (req, res) => {
   });
 });
 
+// Backlog and errors of the Sheets export
+app.get("/api/sheets-sync/status", requirePermission("dashboard:read"), async (req: any, res: any) => {
+  if (!getDbPool()) return res.status(503).json({ error: "ยังไม่ได้เชื่อมต่อฐานข้อมูล" });
+  try {
+    res.json(await getSheetSyncStatus());
+  } catch (err: any) {
+    console.error("Failed to load sheets sync status:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Runs a pass now (also what a cron hits where no server process stays up); ?retryFailed=true requeues given-up entries first
+app.post("/api/sheets-sync/run", requirePermission("drive:configure"), async (req: any, res: any) => {
+  const pool = getDbPool();
+  if (!pool) return res.status(503).json({ error: "ยังไม่ได้เชื่อมต่อฐานข้อมูล" });
+  try {
+    if (req.query.retryFailed === "true") {
+      await pool.query("UPDATE sheet_sync_queue SET status = 'pending', attempts = 0, next_attempt_at = CURRENT_TIMESTAMP WHERE status = 'failed'");
+    }
+    await runSheetSync();
+    res.json(await getSheetSyncStatus());
+  } catch (err: any) {
+    console.error("Sheets sync run failed:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Where the import stands and the sheet rows it couldn't parse
+app.get("/api/sheets-import/status", requirePermission("dashboard:read"), async (req: any, res: any) => {
+  const pool = getDbPool();
+  if (!pool) return res.status(503).json({ error: "ยังไม่ได้เชื่อมต่อฐานข้อมูล" });
+  try {
+    res.json(await getSheetImportStatus(pool));
+  } catch (err: any) {
+    console.error("Failed to load sheets import status:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Imports the rows added since the last import; ?full=true reads the whole tab again (rows already imported are skipped)
+app.post("/api/sheets-import/run", requirePermission("drive:configure"), async (req: any, res: any) => {
+  if (!getDbPool()) return res.status(503).json({ error: "ยังไม่ได้เชื่อมต่อฐานข้อมูล" });
+  await loadGoogleCredentials();
+  if (!getSheetsService()) return res.status(503).json({ error: "ยังไม่ได้ตั้งค่าการเชื่อมต่อ Google" });
+  try {
+    const report = await runSheetImport(req.query.full === "true");
+    if (!report) return res.status(409).json({ error: "มีการนำเข้าข้อมูลจาก Sheets กำลังทำงานอยู่" });
+    res.json(report);
+  } catch (err: any) {
+    console.error("Sheets import failed:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
 // List subfolders of a parent folder
-app.get("/api/drive/subfolders/:parentFolderId", async (req: any, res: any) => {
+app.get("/api/drive/subfolders/:parentFolderId", requirePermission("dashboard:read"), async (req: any, res: any) => {
   const { parentFolderId } = req.params;
   const driveService = getDriveService();
   if (!driveService) return res.status(500).json({ error: "Drive service not configured" });
@@ -594,7 +1661,7 @@ app.get("/api/drive/subfolders/:parentFolderId", async (req: any, res: any) => {
 });
 
 // List images in a folder and their analysis status
-app.get("/api/drive/folder/:folderId/images", async (req: any, res: any) => {
+app.get("/api/drive/folder/:folderId/images", requirePermission("dashboard:read"), async (req: any, res: any) => {
   const { folderId } = req.params;
   const driveService = getDriveService();
   if (!driveService) return res.status(500).json({ error: "Drive service not configured" });
@@ -608,12 +1675,12 @@ app.get("/api/drive/folder/:folderId/images", async (req: any, res: any) => {
     });
     const images = driveResponse.data.files || [];
 
-    // 2. Get analysis history from Google Sheets
-    const history = await getAnalysisHistory();
+    // 2. Get the stored analyses of these images
+    const analyses = await getImageAnalyses(images.map(img => img.id!));
 
     // 3. Merge status
     const mergedImages = images.map(img => {
-      const analysis = history.find(h => h.fileId === img.id);
+      const analysis = analyses.get(img.id!);
       return {
         ...img,
         analysis: analysis || null
@@ -627,8 +1694,11 @@ app.get("/api/drive/folder/:folderId/images", async (req: any, res: any) => {
 });
 
 // Analyze a single image
-app.post("/api/analyze-image", async (req: any, res: any) => {
+app.post("/api/analyze-image", requirePermission("analysis:run"), async (req: any, res: any) => {
   const { fileId, fileName, folderId, mimeType, force } = req.body;
+  if (force && !hasPermission(req, "analysis:force")) {
+    return res.status(403).json({ error: "คุณไม่มีสิทธิ์สั่งวิเคราะห์ซ้ำทับผลเดิม" });
+  }
   const driveService = getDriveService();
   const apiKey = process.env.GEMINI_API_KEY;
 
@@ -642,18 +1712,18 @@ app.post("/api/analyze-image", async (req: any, res: any) => {
   try {
     // 0. Check history first to avoid re-analysis
     if (!force) {
-      const history = await getAnalysisHistory();
-      const existing = [...history].reverse().find(h => h.fileId === fileId);
+      const existing = (await getImageAnalyses([fileId])).get(fileId);
       if (existing) {
         console.log(`Image ${fileName} already analyzed, returning cached result.`);
         return res.json(existing);
       }
     }
 
-    // 1. Download image
+    // 1. Download image (the kept original when there is one)
+    const source = await getAnalysisSource(fileId, mimeType);
     console.time(`Download-${fileId}`);
     const response = await driveService.files.get({
-      fileId,
+      fileId: source.fileId,
       alt: 'media'
     }, { 
       responseType: 'arraybuffer',
@@ -728,7 +1798,7 @@ app.post("/api/analyze-image", async (req: any, res: any) => {
         { 
           parts: [
             { text: prompt }, 
-            { inlineData: { data: base64, mimeType: mimeType || 'image/jpeg' } }
+            { inlineData: { data: base64, mimeType: source.mimeType || 'image/jpeg' } }
           ] 
         }
       ],
@@ -763,24 +1833,17 @@ app.post("/api/analyze-image", async (req: any, res: any) => {
       ...analysisResult
     };
 
-    // 3. Save to Google Sheets (Non-blocking or with its own catch)
+    // 3. Store it (the sheet export follows); a failure here still returns the analysis
     try {
-      await saveAnalysisResult(finalResult);
-      
-      // Update cache if it exists
-      if (historyCache) {
-        historyCache.data.push({
-          fileId: finalResult.fileId,
-          fileName: finalResult.fileName,
-          folderId: finalResult.folderId,
-          status: finalResult.status,
-          findings: finalResult.findings,
-          summary: finalResult.summary,
-          analyzedAt: new Date().toISOString()
-        });
-      }
-    } catch (sheetError) {
-      console.error("Failed to save to Google Sheets, but returning analysis:", sheetError);
+      await saveImageAnalysis(finalResult, force ? req.employeeId : null);
+    } catch (dbErr) {
+      console.error("Failed to store image analysis, but returning it:", dbErr);
+    }
+
+    try {
+      await openDefectsFromAnalysis(finalResult);
+    } catch (defectErr) {
+      console.error("Failed to open defects:", defectErr);
     }
 
     res.json(finalResult);
@@ -793,64 +1856,847 @@ app.post("/api/analyze-image", async (req: any, res: any) => {
 let drive: any = null;
 let sheets: any = null;
 
-let cachedOAuth2Client: any = null;
-let lastRefreshToken: string | null = null;
+let cachedOAuth2Client: any = null;
+let lastRefreshToken: string | null = null;
+
+function getGoogleAuth() {
+  // Priority 1: OAuth2 Refresh Token (User account has storage quota).
+  // A token stored through the admin re-authorization flow wins over the env var.
+  const refreshToken = storedGoogleCredentials?.refreshToken || process.env.GOOGLE_REFRESH_TOKEN;
+  if (refreshToken) {
+    if (cachedOAuth2Client && lastRefreshToken === refreshToken) {
+      return cachedOAuth2Client;
+    }
+    
+    const oauth2Client = getOAuth2Client();
+    oauth2Client.setCredentials({ refresh_token: refreshToken });
+    oauth2Client.on("tokens", () => {
+      recordGoogleRefresh();
+    });
+    cachedOAuth2Client = oauth2Client;
+    lastRefreshToken = refreshToken;
+    return oauth2Client;
+  }
+
+  // Priority 2: Service Account (Fallback)
+  const authJson = process.env.GOOGLE_DRIVE_SERVICE_ACCOUNT_JSON;
+  if (authJson) {
+    try {
+      const credentials = JSON.parse(authJson);
+      return new google.auth.JWT({
+        email: credentials.client_email,
+        key: credentials.private_key,
+        scopes: SCOPES
+      });
+    } catch (err) {
+      console.error("Failed to initialize Service Account Auth:", err);
+    }
+  }
+
+  return null;
+}
+
+function getDriveService() {
+  const auth = getGoogleAuth();
+  if (!auth) return null;
+  return google.drive({ version: "v3", auth });
+}
+
+function getSheetsService() {
+  const auth = getGoogleAuth();
+  if (!auth) return null;
+  return google.sheets({ version: "v4", auth });
+}
+
+// API Routes
+app.get("/api/health", (req, res) => {
+  res.json({ status: "ok", message: "SSVI API is running" });
+});
+
+// Employee login: verify employee ID + PIN and issue a signed session cookie
+app.post("/api/auth/login", async (req: any, res: any) => {
+  const employeeId = String(req.body.employeeId || "").trim();
+  const pin = String(req.body.pin || "");
+
+  if (!/^\d{6}$/.test(employeeId) || !pin) {
+    return res.status(400).json({ error: "กรุณาระบุรหัสพนักงาน 6 หลักและรหัสผ่าน" });
+  }
+
+  const lockedForMs = loginLockRemainingMs(loginFailures, employeeId);
+  if (lockedForMs > 0) {
+    const minutes = Math.ceil(lockedForMs / 60000);
+    return res.status(429).json({ error: `ใส่รหัสผ่านผิดหลายครั้ง กรุณารอ ${minutes} นาทีแล้วลองใหม่` });
+  }
+
+  const pool = getDbPool();
+  if (!pool) {
+    return res.status(503).json({ error: "ยังไม่ได้เชื่อมต่อฐานข้อมูล ไม่สามารถเข้าสู่ระบบได้" });
+  }
+
+  try {
+    const result = await pool.query("SELECT employee_id, name, pin_hash, role, active FROM employees WHERE employee_id = $1", [employeeId]);
+    const employee = result.rows[0];
+
+    if (!employee || !employee.active || !verifyPin(pin, employee.pin_hash)) {
+      recordLoginFailure(loginFailures, employeeId);
+      return res.status(401).json({ error: "รหัสพนักงานหรือรหัสผ่านไม่ถูกต้อง" });
+    }
+
+    loginFailures.delete(employeeId);
+    await pool.query("UPDATE employees SET last_login_at = CURRENT_TIMESTAMP WHERE employee_id = $1", [employeeId]);
+
+    const token = signSession(employeeId, getSessionSecret());
+    res.cookie(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL_MS,
+      path: "/"
+    });
+    res.json({
+      employeeId,
+      name: employee.name,
+      role: employee.role,
+      permissions: getPermissions(employee.role),
+      keepOriginals: KEEP_ORIGINALS
+    });
+  } catch (err: any) {
+    console.error("Login error:", err);
+    res.status(500).json({ error: "เข้าสู่ระบบไม่สำเร็จ: " + err.message });
+  }
+});
+
+app.post("/api/auth/logout", (req, res) => {
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+  res.json({ success: true });
+});
+
+app.get("/api/me", requireAuth, (req: any, res: any) => {
+  res.json({
+    employeeId: req.employeeId,
+    name: req.employeeName,
+    role: req.employeeRole,
+    permissions: getPermissions(req.employeeRole),
+    keepOriginals: KEEP_ORIGINALS
+  });
+});
+
+app.get("/api/employees", requirePermission("employees:manage"), async (req: any, res: any) => {
+  try {
+    const result = await getDbPool()!.query(
+      "SELECT employee_id, name, role, area, active, created_at, last_login_at FROM employees ORDER BY employee_id"
+    );
+    res.json(result.rows);
+  } catch (err: any) {
+    console.error("Failed to list employees:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Register an employee or reset their PIN / role
+app.post("/api/employees", requirePermission("employees:manage"), async (req: any, res: any) => {
+  const employeeId = String(req.body.employeeId || "").trim();
+  const { name, pin, active } = req.body;
+  const role = req.body.role || "inspector";
+  const area = req.body.area || null;
+  // The PIN is only needed for a new employee; leaving it out of an update keeps the current one
+  const hasPin = pin !== undefined && pin !== null && pin !== "";
+  if (!/^\d{6}$/.test(employeeId) || (hasPin && String(pin).length < 4)) {
+    return res.status(400).json({ error: "กรุณาระบุรหัสพนักงาน 6 หลัก และรหัสผ่านอย่างน้อย 4 ตัวอักษร" });
+  }
+  if (!ROLES.includes(role)) {
+    return res.status(400).json({ error: `ไม่รู้จักบทบาท "${role}" (ต้องเป็น ${ROLES.join(", ")})` });
+  }
+  if (area && !AREAS.includes(area)) {
+    return res.status(400).json({ error: `ไม่รู้จักพื้นที่ "${area}" (ต้องเป็น ${AREAS.join(", ")})` });
+  }
+
+  try {
+    const pool = getDbPool()!;
+    if (hasPin) {
+      await pool.query(
+        `INSERT INTO employees (employee_id, name, pin_hash, role, area, active) VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (employee_id) DO UPDATE SET name = EXCLUDED.name, pin_hash = EXCLUDED.pin_hash, role = EXCLUDED.role, area = EXCLUDED.area, active = EXCLUDED.active`,
+        [employeeId, name || null, hashPin(String(pin)), role, area, active !== false]
+      );
+    } else {
+      const updated = await pool.query(
+        "UPDATE employees SET name = $2, role = $3, area = $4, active = $5 WHERE employee_id = $1",
+        [employeeId, name || null, role, area, active !== false]
+      );
+      if (updated.rowCount === 0) {
+        return res.status(400).json({ error: "พนักงานใหม่ต้องมีรหัสผ่านอย่างน้อย 4 ตัวอักษร" });
+      }
+    }
+    res.json({ success: true, employeeId });
+  } catch (err: any) {
+    console.error("Failed to save employee:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Territory of the signed-in employee: their team, assigned stations and the areas they supervise
+app.get("/api/my-assignments", requireAuth, async (req: any, res: any) => {
+  try {
+    const pool = getDbPool()!;
+    const [employee, stations, areas] = await Promise.all([
+      pool.query("SELECT area FROM employees WHERE employee_id = $1", [req.employeeId]),
+      pool.query("SELECT substation_name FROM substation_assignments WHERE employee_id = $1 ORDER BY substation_name", [req.employeeId]),
+      pool.query("SELECT area FROM area_supervisors WHERE employee_id = $1 ORDER BY area", [req.employeeId])
+    ]);
+    res.json({
+      team: employee.rows[0]?.area || null,
+      substations: stations.rows.map(r => r.substation_name),
+      supervisedAreas: areas.rows.map(r => r.area)
+    });
+  } catch (err: any) {
+    console.error("Failed to load assignments:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.get("/api/assignments", requirePermission("employees:manage"), async (req: any, res: any) => {
+  try {
+    const pool = getDbPool()!;
+    const [stations, supervisors] = await Promise.all([
+      pool.query("SELECT employee_id, substation_name, assigned_at FROM substation_assignments ORDER BY employee_id, substation_name"),
+      pool.query("SELECT area, employee_id FROM area_supervisors ORDER BY area, employee_id")
+    ]);
+    res.json({ areas: AREAS, assignments: stations.rows, supervisors: supervisors.rows });
+  } catch (err: any) {
+    console.error("Failed to list assignments:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Replace the set of stations an employee covers
+app.post("/api/assignments", requirePermission("employees:manage"), async (req: any, res: any) => {
+  const employeeId = String(req.body.employeeId || "").trim();
+  const substations: string[] = Array.isArray(req.body.substations) ? req.body.substations : [];
+  if (!/^\d{6}$/.test(employeeId)) {
+    return res.status(400).json({ error: "กรุณาระบุรหัสพนักงาน 6 หลัก" });
+  }
+
+  const client = await getDbPool()!.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query("DELETE FROM substation_assignments WHERE employee_id = $1", [employeeId]);
+    for (const name of substations) {
+      await client.query(
+        "INSERT INTO substation_assignments (employee_id, substation_name) VALUES ($1, $2) ON CONFLICT DO NOTHING",
+        [employeeId, String(name).trim()]
+      );
+    }
+    await client.query("COMMIT");
+    res.json({ success: true, employeeId, count: substations.length });
+  } catch (err: any) {
+    await client.query("ROLLBACK");
+    console.error("Failed to save assignments:", err);
+    res.status(500).json({ error: err.message });
+  } finally {
+    client.release();
+  }
+});
+
+// Replace the supervisors who own an area
+app.post("/api/area-supervisors", requirePermission("employees:manage"), async (req: any, res: any) => {
+  const { area } = req.body;
+  const employeeIds: string[] = Array.isArray(req.body.employeeIds) ? req.body.employeeIds : [];
+  if (!AREAS.includes(area)) {
+    return res.status(400).json({ error: `ไม่รู้จักพื้นที่ "${area}" (ต้องเป็น ${AREAS.join(", ")})` });
+  }
+
+  const client = await getDbPool()!.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query("DELETE FROM area_supervisors WHERE area = $1", [area]);
+    for (const employeeId of employeeIds) {
+      await client.query(
+        "INSERT INTO area_supervisors (area, employee_id) VALUES ($1, $2) ON CONFLICT DO NOTHING",
+        [area, String(employeeId).trim()]
+      );
+    }
+    await client.query("COMMIT");
+    res.json({ success: true, area, count: employeeIds.length });
+  } catch (err: any) {
+    await client.query("ROLLBACK");
+    console.error("Failed to save area supervisors:", err);
+    res.status(500).json({ error: err.message });
+  } finally {
+    client.release();
+  }
+});
+
+// Active stations for everyone; ?all=true includes decommissioned and future ones for registry admins
+app.get("/api/substations", requireAuth, async (req: any, res: any) => {
+  const pool = getDbPool();
+  if (!pool) return res.json(SUBSTATIONS);
+
+  const includeAll = req.query.all === "true" && hasPermission(req, "substations:manage");
+  try {
+    const result = await pool.query(
+      `SELECT ${SUBSTATION_COLUMNS} FROM substations ${includeAll ? "" : `WHERE ${SUBSTATION_ACTIVE_SQL}`} ORDER BY area NULLS LAST, name`
+    );
+    res.json(result.rows);
+  } catch (err: any) {
+    console.error("Failed to list substations:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.post("/api/substations", requirePermission("substations:manage"), async (req: any, res: any) => {
+  const parsed = parseSubstationInput(req.body);
+  if (!parsed.values) return res.status(400).json({ error: parsed.error });
+  const v = parsed.values;
+  const id = String(req.body.id || "").trim() || `sub-${Date.now().toString(36)}`;
+
+  try {
+    const result = await getDbPool()!.query(
+      `INSERT INTO substations (id, name, lat, lng, area, voltage_class, is_temporary, active_from, active_until, geofence_radius_m)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING ${SUBSTATION_COLUMNS}`,
+      [id, v.name, v.lat, v.lng, v.area, v.voltage_class, v.is_temporary, v.active_from, v.active_until, v.geofence_radius_m]
+    );
+    res.json(result.rows[0]);
+  } catch (err: any) {
+    if (err.code === "23505") {
+      return res.status(409).json({ error: "มีสถานีรหัสหรือชื่อนี้อยู่แล้ว" });
+    }
+    console.error("Failed to create substation:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Tables keyed by station name that a rename carries over, besides inspection_logs. Category scores follow
+// health_index_logs through their foreign key; audit_events is append-only and keeps the name of its time.
+const SUBSTATION_NAME_TABLES = [
+  "substation_master_folders", "substation_assignments", "health_index_logs", "inspection_schedules",
+  "defects", "battery_readings", "battery_alerts", "battery_thresholds"
+];
+
+// Renaming a station carries its Drive master folder, assignments, history and schedule over to the new name
+app.put("/api/substations/:id", requirePermission("substations:manage"), async (req: any, res: any) => {
+  const parsed = parseSubstationInput(req.body);
+  if (!parsed.values) return res.status(400).json({ error: parsed.error });
+  const v = parsed.values;
+
+  const client = await getDbPool()!.connect();
+  try {
+    await client.query("BEGIN");
+    const existing = await client.query("SELECT name FROM substations WHERE id = $1 FOR UPDATE", [req.params.id]);
+    if (existing.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "ไม่พบสถานีนี้" });
+    }
+    const oldName = existing.rows[0].name;
+
+    const result = await client.query(
+      `UPDATE substations SET name = $2, lat = $3, lng = $4, area = $5, voltage_class = $6, is_temporary = $7,
+         active_from = $8, active_until = $9, geofence_radius_m = $10, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 RETURNING ${SUBSTATION_COLUMNS}`,
+      [req.params.id, v.name, v.lat, v.lng, v.area, v.voltage_class, v.is_temporary, v.active_from, v.active_until, v.geofence_radius_m]
+    );
+    if (oldName !== v.name) {
+      for (const table of SUBSTATION_NAME_TABLES) {
+        await client.query(`UPDATE ${table} SET substation_name = $2 WHERE substation_name = $1`, [oldName, v.name]);
+      }
+      // Inspections were recorded with whatever spacing the form sent
+      await client.query("UPDATE inspection_logs SET substation_name = $2 WHERE trim(substation_name) = $1", [oldName, v.name]);
+      // Health rows still waiting for the sheet export are looked up by name
+      await client.query(
+        `UPDATE sheet_sync_queue SET ref = jsonb_set(ref, '{substation_name}', to_jsonb($2::text))
+         WHERE status = 'pending' AND kind = 'health' AND ref->>'substation_name' = $1`,
+        [oldName, v.name]
+      );
+    }
+    await client.query("COMMIT");
+    res.json(result.rows[0]);
+  } catch (err: any) {
+    await client.query("ROLLBACK");
+    if (err.code === "23505") {
+      return res.status(409).json({ error: "มีสถานีชื่อนี้อยู่แล้ว" });
+    }
+    console.error("Failed to update substation:", err);
+    res.status(500).json({ error: err.message });
+  } finally {
+    client.release();
+  }
+});
+
+// Decommission rather than delete, so past inspections and health index rows keep their station
+app.delete("/api/substations/:id", requirePermission("substations:manage"), async (req: any, res: any) => {
+  try {
+    const result = await getDbPool()!.query(
+      `UPDATE substations SET active_until = CURRENT_DATE - 1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 RETURNING ${SUBSTATION_COLUMNS}`,
+      [req.params.id]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: "ไม่พบสถานีนี้" });
+    res.json(result.rows[0]);
+  } catch (err: any) {
+    console.error("Failed to decommission substation:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Items for one station (?substation=<name>); ?all=true lists every item, inactive ones included, for registry admins
+app.get("/api/checklist-items", requireAuth, async (req: any, res: any) => {
+  try {
+    if (req.query.all === "true" && hasPermission(req, "substations:manage")) {
+      const pool = getDbPool();
+      if (!pool) return res.json(DEFAULT_CHECKLIST_ITEMS);
+      const result = await pool.query(`SELECT ${CHECKLIST_COLUMNS} FROM checklist_items ORDER BY sort_order, id`);
+      return res.json(result.rows);
+    }
+    res.json(await getChecklistItemsFor(String(req.query.substation || "")));
+  } catch (err: any) {
+    console.error("Failed to list checklist items:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.post("/api/checklist-items", requirePermission("substations:manage"), async (req: any, res: any) => {
+  const parsed = parseChecklistItemInput(req.body);
+  if (!parsed.values) return res.status(400).json({ error: parsed.error });
+  const v = parsed.values;
+  const id = String(req.body.id || "").trim() || `item-${Date.now().toString(36)}`;
+
+  try {
+    const result = await getDbPool()!.query(
+      `INSERT INTO checklist_items (id, category, label, input_type, unit, min_value, max_value, required, substation_types, sort_order)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING ${CHECKLIST_COLUMNS}`,
+      [id, v.category, v.label, v.input_type, v.unit, v.min_value, v.max_value, v.required, v.substation_types, v.sort_order]
+    );
+    res.json(result.rows[0]);
+  } catch (err: any) {
+    if (err.code === "23505") {
+      return res.status(409).json({ error: "มีรายการตรวจรหัสนี้อยู่แล้ว" });
+    }
+    console.error("Failed to create checklist item:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.put("/api/checklist-items/:id", requirePermission("substations:manage"), async (req: any, res: any) => {
+  const parsed = parseChecklistItemInput(req.body);
+  if (!parsed.values) return res.status(400).json({ error: parsed.error });
+  const v = parsed.values;
+
+  try {
+    const result = await getDbPool()!.query(
+      `UPDATE checklist_items SET category = $2, label = $3, input_type = $4, unit = $5, min_value = $6, max_value = $7,
+         required = $8, substation_types = $9, sort_order = $10, active = $11, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 RETURNING ${CHECKLIST_COLUMNS}`,
+      [req.params.id, v.category, v.label, v.input_type, v.unit, v.min_value, v.max_value, v.required, v.substation_types, v.sort_order, req.body.active !== false]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: "ไม่พบรายการตรวจนี้" });
+    res.json(result.rows[0]);
+  } catch (err: any) {
+    console.error("Failed to update checklist item:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Retire rather than delete, so answers already recorded keep their item
+app.delete("/api/checklist-items/:id", requirePermission("substations:manage"), async (req: any, res: any) => {
+  try {
+    const result = await getDbPool()!.query(
+      `UPDATE checklist_items SET active = FALSE, updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING ${CHECKLIST_COLUMNS}`,
+      [req.params.id]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: "ไม่พบรายการตรวจนี้" });
+    res.json(result.rows[0]);
+  } catch (err: any) {
+    console.error("Failed to retire checklist item:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// ?all=true includes retired categories, for registry admins
+app.get("/api/inspection-categories", requireAuth, async (req: any, res: any) => {
+  try {
+    res.json(await getInspectionCategories(req.query.all === "true" && hasPermission(req, "substations:manage")));
+  } catch (err: any) {
+    console.error("Failed to list inspection categories:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.post("/api/inspection-categories", requirePermission("substations:manage"), async (req: any, res: any) => {
+  const key = String(req.body.key || "").trim();
+  if (!/^[a-z]+$/.test(key)) return res.status(400).json({ error: "รหัสหมวดต้องเป็นตัวอักษรภาษาอังกฤษพิมพ์เล็กเท่านั้น" });
+  const parsed = parseCategoryInput(req.body);
+  if (!parsed.values) return res.status(400).json({ error: parsed.error });
+  const v = parsed.values;
+
+  const client = await getDbPool()!.connect();
+  try {
+    await client.query("BEGIN");
+    const result = await client.query(
+      `INSERT INTO inspection_categories (key, label, instructions, mandatory, weight, sheet_column, photo_point, sort_order)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING ${CATEGORY_COLUMNS}`,
+      [key, v.label, v.instructions, v.mandatory, v.weight, v.sheet_column, v.photo_point, v.sort_order]
+    );
+    const weightError = await syncCategoryWeight(client, key, v.weight, req.employeeId);
+    if (weightError) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ error: weightError });
+    }
+    await client.query("COMMIT");
+    res.json(result.rows[0]);
+  } catch (err: any) {
+    await client.query("ROLLBACK");
+    if (err.code === "23505") {
+      return res.status(409).json({ error: "มีหมวดรหัสนี้หรือคอลัมน์นี้อยู่แล้ว" });
+    }
+    console.error("Failed to create inspection category:", err);
+    res.status(500).json({ error: err.message });
+  } finally {
+    client.release();
+  }
+});
+
+app.put("/api/inspection-categories/:key", requirePermission("substations:manage"), async (req: any, res: any) => {
+  const parsed = parseCategoryInput(req.body);
+  if (!parsed.values) return res.status(400).json({ error: parsed.error });
+  const v = parsed.values;
+
+  const client = await getDbPool()!.connect();
+  try {
+    await client.query("BEGIN");
+    const result = await client.query(
+      `UPDATE inspection_categories SET label = $2, instructions = $3, mandatory = $4, weight = $5, sheet_column = $6,
+         photo_point = $7, sort_order = $8, active = $9, updated_at = CURRENT_TIMESTAMP
+       WHERE key = $1 RETURNING ${CATEGORY_COLUMNS}`,
+      [req.params.key, v.label, v.instructions, v.mandatory, v.weight, v.sheet_column, v.photo_point, v.sort_order, req.body.active !== false]
+    );
+    if (result.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "ไม่พบหมวดการตรวจนี้" });
+    }
+    const weightError = await syncCategoryWeight(client, req.params.key, v.weight, req.employeeId);
+    if (weightError) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ error: weightError });
+    }
+    await client.query("COMMIT");
+    res.json(result.rows[0]);
+  } catch (err: any) {
+    await client.query("ROLLBACK");
+    if (err.code === "23505") {
+      return res.status(409).json({ error: "คอลัมน์นี้ถูกใช้โดยหมวดอื่นแล้ว" });
+    }
+    console.error("Failed to update inspection category:", err);
+    res.status(500).json({ error: err.message });
+  } finally {
+    client.release();
+  }
+});
+
+// Retire rather than delete: old sheet rows and photo names still refer to the key
+app.delete("/api/inspection-categories/:key", requirePermission("substations:manage"), async (req: any, res: any) => {
+  try {
+    const result = await getDbPool()!.query(
+      `UPDATE inspection_categories SET active = FALSE, updated_at = CURRENT_TIMESTAMP WHERE key = $1 RETURNING ${CATEGORY_COLUMNS}`,
+      [req.params.key]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: "ไม่พบหมวดการตรวจนี้" });
+    res.json(result.rows[0]);
+  } catch (err: any) {
+    console.error("Failed to retire inspection category:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.get("/api/battery-thresholds", requireAuth, async (req: any, res: any) => {
+  try {
+    res.json(await getBatteryThresholds(String(req.query.substationName || "*")));
+  } catch (err: any) {
+    console.error("Failed to load battery thresholds:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Overrides for one station, or "*" for every station without its own
+app.put("/api/battery-thresholds/:substationName", requirePermission("substations:manage"), async (req: any, res: any) => {
+  const thresholds: any = {};
+  for (const key of Object.keys(DEFAULT_BATTERY_THRESHOLDS)) {
+    if (req.body[key] === undefined || req.body[key] === null || req.body[key] === "") continue;
+    const value = Number(req.body[key]);
+    if (!Number.isFinite(value) || value < 0) return res.status(400).json({ error: `ค่า ${key} ไม่ถูกต้อง` });
+    thresholds[key] = value;
+  }
+
+  try {
+    await getDbPool()!.query(
+      `INSERT INTO battery_thresholds (substation_name, thresholds, updated_by) VALUES ($1, $2, $3)
+       ON CONFLICT (substation_name) DO UPDATE SET thresholds = EXCLUDED.thresholds, updated_by = EXCLUDED.updated_by, updated_at = CURRENT_TIMESTAMP`,
+      [req.params.substationName, JSON.stringify(thresholds), req.employeeId]
+    );
+    res.json(await getBatteryThresholds(req.params.substationName));
+  } catch (err: any) {
+    console.error("Failed to save battery thresholds:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Per-cell readings of a station over the last ?months= months (default 12), grouped by bank and cell
+app.get("/api/battery-readings/trend", requirePermission("dashboard:read"), async (req: any, res: any) => {
+  const pool = getDbPool();
+  if (!pool) return res.status(503).json({ error: "Database not configured" });
+  const substationName = String(req.query.substationName || "");
+  const months = Math.min(Math.max(parseInt(req.query.months) || 12, 1), 60);
+
+  try {
+    const since = new Date();
+    since.setMonth(since.getMonth() - months);
+    const readings = await pool.query(
+      `SELECT bank, cell, float_voltage, specific_gravity, temperature_c, measured_at
+       FROM battery_readings WHERE substation_name = $1 AND measured_at >= $2
+       ORDER BY bank, cell, measured_at`,
+      [substationName, since]
+    );
+    const alerts = await pool.query(
+      `SELECT bank, cell, metric, kind, value, previous_value, message, created_at
+       FROM battery_alerts WHERE substation_name = $1 AND created_at >= $2 ORDER BY created_at DESC`,
+      [substationName, since]
+    );
+
+    const banks = new Map<string, Map<number, any[]>>();
+    for (const row of readings.rows) {
+      if (!banks.has(row.bank)) banks.set(row.bank, new Map());
+      const cells = banks.get(row.bank)!;
+      if (!cells.has(row.cell)) cells.set(row.cell, []);
+      cells.get(row.cell)!.push({
+        measured_at: row.measured_at,
+        float_voltage: row.float_voltage,
+        specific_gravity: row.specific_gravity,
+        temperature_c: row.temperature_c
+      });
+    }
+
+    res.json({
+      substationName,
+      thresholds: await getBatteryThresholds(substationName),
+      banks: Array.from(banks.entries()).map(([bank, cells]) => ({
+        bank,
+        cells: Array.from(cells.entries()).map(([cell, points]) => ({ cell, readings: points }))
+      })),
+      alerts: alerts.rows
+    });
+  } catch (err: any) {
+    console.error("Failed to load battery trend:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.get("/api/inspection-schedules", requireAuth, async (req: any, res: any) => {
+  try {
+    res.json(await getInspectionSchedules());
+  } catch (err: any) {
+    console.error("Failed to load inspection schedules:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Sets how often a category is due at one station, or for every station ("*").
+// Category "*" with exempt=true takes a whole station off the schedule.
+app.put("/api/inspection-schedules/:substationName/:category", requirePermission("substations:manage"), async (req: any, res: any) => {
+  const parsed = parseScheduleInput(req.body);
+  if (!parsed.values) return res.status(400).json({ error: parsed.error });
+  const { substationName, category } = req.params;
+  if (substationName === "*" && category === "*") return res.status(400).json({ error: "กรุณาระบุสถานีหรือหมวด" });
+
+  try {
+    const result = await getDbPool()!.query(
+      `INSERT INTO inspection_schedules (substation_name, category, frequency, grace_days, exempt, updated_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (substation_name, category) DO UPDATE SET frequency = EXCLUDED.frequency, grace_days = EXCLUDED.grace_days,
+         exempt = EXCLUDED.exempt, updated_by = EXCLUDED.updated_by, updated_at = CURRENT_TIMESTAMP
+       RETURNING substation_name, category, frequency, grace_days, exempt`,
+      [substationName, category, parsed.values.frequency, parsed.values.grace_days, parsed.values.exempt, req.employeeId]
+    );
+    res.json(result.rows[0]);
+  } catch (err: any) {
+    console.error("Failed to save inspection schedule:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Drops a station override (it falls back to the default), or a default category altogether
+app.delete("/api/inspection-schedules/:substationName/:category", requirePermission("substations:manage"), async (req: any, res: any) => {
+  try {
+    const result = await getDbPool()!.query(
+      "DELETE FROM inspection_schedules WHERE substation_name = $1 AND category = $2 RETURNING substation_name",
+      [req.params.substationName, req.params.category]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: "ไม่พบรอบการตรวจนี้" });
+    res.json({ success: true });
+  } catch (err: any) {
+    console.error("Failed to delete inspection schedule:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Next due date per category. ?substationName= is open to inspectors; the fleet view (optionally ?team=) is for the dashboard.
+app.get("/api/schedule-status", requireAuth, async (req: any, res: any) => {
+  const substationName = req.query.substationName ? String(req.query.substationName).trim() : null;
+  if (!substationName && !hasPermission(req, "dashboard:read")) {
+    return res.status(403).json({ error: "คุณไม่มีสิทธิ์ใช้งานฟังก์ชันนี้" });
+  }
+
+  try {
+    let names: string[];
+    if (substationName) {
+      names = [substationName];
+    } else {
+      names = await getActiveSubstationNames();
+      const teamScope = req.query.team ? await getTeamScope(String(req.query.team)) : null;
+      if (teamScope) names = names.filter(name => teamScope.substations.has(name.trim()));
+    }
+    const stations = await getScheduleStatus(names);
+    res.json(substationName ? stations[0] : { stations, overdue: stations.filter(s => s.overdue).length });
+  } catch (err: any) {
+    console.error("Failed to compute schedule status:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+const DEFECT_COLUMNS = `d.id, d.substation_name, d.category, d.finding, d.description, d.source_file_id, d.source_folder_id,
+  d.severity, d.status, d.assignee_id, e.name AS assignee_name, to_char(d.due_date, 'YYYY-MM-DD') AS due_date,
+  d.fixed_file_id, d.fixed_by, d.fixed_at, d.verified_by, d.verified_at, d.created_at`;
 
-function getGoogleAuth() {
-  // Priority 1: OAuth2 Refresh Token (User account has storage quota)
-  const refreshToken = process.env.GOOGLE_REFRESH_TOKEN;
-  if (refreshToken) {
-    if (cachedOAuth2Client && lastRefreshToken === refreshToken) {
-      return cachedOAuth2Client;
-    }
-    
-    const oauth2Client = getOAuth2Client();
-    oauth2Client.setCredentials({ refresh_token: refreshToken });
-    cachedOAuth2Client = oauth2Client;
-    lastRefreshToken = refreshToken;
-    return oauth2Client;
+// Unverified defects. With ?substationName= any signed-in inspector sees that station's list (to photograph fixes);
+// the fleet-wide list, and ?includeVerified=true, are for the dashboard.
+app.get("/api/defects", requireAuth, async (req: any, res: any) => {
+  const pool = getDbPool();
+  if (!pool) return res.json({ defects: [], assignees: [] });
+  const substationName = req.query.substationName ? String(req.query.substationName) : null;
+  if (!substationName && !hasPermission(req, "dashboard:read")) {
+    return res.status(403).json({ error: "คุณไม่มีสิทธิ์ใช้งานฟังก์ชันนี้" });
   }
+  const includeVerified = req.query.includeVerified === "true" && hasPermission(req, "dashboard:read");
 
-  // Priority 2: Service Account (Fallback)
-  const authJson = process.env.GOOGLE_DRIVE_SERVICE_ACCOUNT_JSON;
-  if (authJson) {
-    try {
-      const credentials = JSON.parse(authJson);
-      return new google.auth.JWT({
-        email: credentials.client_email,
-        key: credentials.private_key,
-        scopes: SCOPES
-      });
-    } catch (err) {
-      console.error("Failed to initialize Service Account Auth:", err);
+  try {
+    const params: any[] = [];
+    const where: string[] = [];
+    if (!includeVerified) where.push("d.status <> 'verified'");
+    if (substationName) {
+      params.push(substationName);
+      where.push(`d.substation_name = $${params.length}`);
     }
+    const defects = await pool.query(
+      `SELECT ${DEFECT_COLUMNS} FROM defects d LEFT JOIN employees e ON e.employee_id = d.assignee_id
+       ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+       ORDER BY d.substation_name, d.created_at`,
+      params
+    );
+    // Who can be assigned: the inspectors assigned to each station
+    const assignees = hasPermission(req, "defects:manage")
+      ? (await pool.query(
+          `SELECT a.substation_name, e.employee_id, e.name FROM substation_assignments a
+           JOIN employees e ON e.employee_id = a.employee_id WHERE e.active
+           ORDER BY a.substation_name, e.employee_id`
+        )).rows
+      : [];
+    res.json({ defects: defects.rows, assignees });
+  } catch (err: any) {
+    console.error("Failed to load defects:", err);
+    res.status(500).json({ error: err.message });
   }
+});
 
-  return null;
-}
-
-function getDriveService() {
-  const auth = getGoogleAuth();
-  if (!auth) return null;
-  return google.drive({ version: "v3", auth });
-}
+// Assign (or re-assign), verify a fix, or reject a fix back to its assignee
+app.post("/api/defects/:id/transition", requirePermission("defects:manage"), async (req: any, res: any) => {
+  const pool = getDbPool();
+  if (!pool) return res.status(503).json({ error: "Database not configured" });
+  const to = String(req.body.status || "") as DefectStatus;
+  const assigneeId = req.body.assigneeId ? String(req.body.assigneeId).trim() : null;
+  const dueDate = req.body.dueDate ? String(req.body.dueDate) : null;
+  if (dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) return res.status(400).json({ error: "วันครบกำหนดไม่ถูกต้อง" });
 
-function getSheetsService() {
-  const auth = getGoogleAuth();
-  if (!auth) return null;
-  return google.sheets({ version: "v4", auth });
-}
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const current = await client.query("SELECT * FROM defects WHERE id = $1 FOR UPDATE", [req.params.id]);
+    if (current.rows.length === 0) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "ไม่พบรายการข้อบกพร่อง" });
+    }
+    const defect = current.rows[0];
+    const from = defect.status as DefectStatus;
+    if (!(DEFECT_TRANSITIONS[from] || []).includes(to)) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `ไม่สามารถเปลี่ยนสถานะจาก ${from} เป็น ${to} ได้` });
+    }
 
-app.use(express.json());
+    if (to === "assigned") {
+      const assignee = assigneeId || defect.assignee_id;
+      if (!assignee) {
+        await client.query("ROLLBACK");
+        return res.status(400).json({ error: "กรุณาระบุผู้รับผิดชอบ" });
+      }
+      const known = await client.query("SELECT 1 FROM employees WHERE employee_id = $1 AND active", [assignee]);
+      if (known.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return res.status(400).json({ error: "ไม่พบรหัสพนักงานผู้รับผิดชอบ" });
+      }
+      // Rejecting a fix clears it so the next photo is judged afresh
+      await client.query(
+        `UPDATE defects SET status = 'assigned', assignee_id = $2, due_date = COALESCE($3::date, due_date),
+           fixed_file_id = NULL, fixed_inspection_id = NULL, fixed_by = NULL, fixed_at = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [defect.id, assignee, dueDate]
+      );
+    } else if (to === "verified") {
+      if (!defect.fixed_file_id) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "ยังไม่มีรูปหลังแก้ไข" });
+      }
+      await client.query(
+        "UPDATE defects SET status = 'verified', verified_by = $2, verified_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = $1",
+        [defect.id, req.employeeId]
+      );
+    }
+    await recordDefectEvent(client, defect.id, from, to, req.employeeId, req.body.note);
+    await client.query("COMMIT");
 
-// API Routes
-app.get("/api/health", (req, res) => {
-  res.json({ status: "ok", message: "SSVI API is running" });
+    const updated = await pool.query(
+      `SELECT ${DEFECT_COLUMNS} FROM defects d LEFT JOIN employees e ON e.employee_id = d.assignee_id WHERE d.id = $1`,
+      [defect.id]
+    );
+    res.json(updated.rows[0]);
+  } catch (err: any) {
+    await client.query("ROLLBACK").catch(() => {});
+    console.error("Failed to update defect:", err);
+    res.status(500).json({ error: err.message });
+  } finally {
+    client.release();
+  }
 });
 
-// 1. Initialize Upload: Create folders and return Access Token
-app.post("/api/init-upload", async (req: any, res: any) => {
+// 1. Initialize Upload: Create folders and open a resumable upload session for each declared photo
+app.post("/api/init-upload", requirePermission("inspection:submit"), async (req: any, res: any) => {
   const { substationName, timestamp } = req.body;
+  const files = parseDeclaredFiles(req.body.files);
+
+  const station = await getActiveSubstation(substationName).catch(err => {
+    console.error("Substation lookup failed:", err);
+    return undefined;
+  });
+  if (station === null) {
+    return res.status(400).json({ error: `ไม่พบ ${substationName} ในทะเบียนสถานี หรือสถานีถูกปลดออกจากระบบแล้ว` });
+  }
+
+  // Fail before any photos are uploaded rather than at complete-upload
+  if (GEOFENCE_STRICT) {
+    const geofence = await checkGeofence(substationName, req.body.lat, req.body.lng, req.body.accuracy);
+    if (!geofence.withinGeofence) {
+      return res.status(403).json({ error: describeGeofenceFailure(geofence), geofence });
+    }
+  }
+  if (ENFORCE_ASSIGNMENTS && !(await isAssignedSubstation(req.employeeId, substationName))) {
+    return res.status(403).json({ error: `คุณไม่ได้รับมอบหมายให้ตรวจ ${substationName}` });
+  }
   
   // Simple lock to prevent concurrent creation of the same folder
   const lockKey = `${substationName}-${timestamp?.split('T')[0]}`;
@@ -878,7 +2724,7 @@ app.post("/api/init-upload", async (req: any, res: any) => {
       return res.status(500).json({ error: "Failed to generate Google Access Token. Please check your Refresh Token." });
     }
 
-    const dateObj = timestamp ? new Date(timestamp) : new Date();
+    const dateObj = clientSubmissionTime(timestamp, new Date());
     const dateStr = new Intl.DateTimeFormat("th-TH", {
       day: "2-digit",
       month: "2-digit",
@@ -953,9 +2799,33 @@ app.post("/api/init-upload", async (req: any, res: any) => {
       dailyFolderId = folder.data.id;
     }
 
+    // 3. Open resumable sessions and remember what was declared so complete-upload can check it arrived.
+    // Originals the deployment doesn't keep are handed back as skipped.
+    const origin = req.headers.origin || `${req.protocol}://${req.get("host")}`;
+    const wantedOriginals = files.filter(f => f.original && keepsOriginalFile(f.name));
+    const skippedOriginals = files.filter(f => f.original && !keepsOriginalFile(f.name)).map(f => f.name);
+    const originalsFolderId = wantedOriginals.length > 0 ? await findOrCreateFolder(dailyFolderId, ORIGINALS_FOLDER_NAME) : null;
+
+    const uploads = await Promise.all(files.filter(f => !f.original || keepsOriginalFile(f.name)).map(async (file) => {
+      const targetFolderId = file.original ? originalsFolderId! : dailyFolderId;
+      const uploadUrl = await openResumableSession(accessToken, targetFolderId, file, origin);
+      if (pool) {
+        await pool.query(
+          `INSERT INTO upload_sessions (folder_id, file_name, employee_id, size_bytes, upload_url)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (folder_id, file_name) DO UPDATE SET
+             employee_id = EXCLUDED.employee_id, size_bytes = EXCLUDED.size_bytes, upload_url = EXCLUDED.upload_url,
+             status = 'open', bytes_received = 0, drive_file_id = NULL, updated_at = CURRENT_TIMESTAMP`,
+          [targetFolderId, file.name, req.employeeId, file.size, uploadUrl]
+        );
+      }
+      return { name: file.name, original: file.original, uploadUrl };
+    }));
+
     res.json({ 
-      accessToken, 
-      folderId: dailyFolderId 
+      folderId: dailyFolderId,
+      uploads,
+      skippedOriginals
     });
   } catch (error: any) {
     console.error("Init upload error:", error);
@@ -965,350 +2835,611 @@ app.post("/api/init-upload", async (req: any, res: any) => {
   }
 });
 
-// 2. Complete Upload: Log to DB and Sheets
-app.post("/api/complete-upload", async (req: any, res: any) => {
-  const { employeeId, substationName, lat, lng, timestamp, folderId, categories } = req.body;
-  
+// Progress report from the client for one of its own resumable uploads (bytes acknowledged by Drive, or the finished file)
+app.post("/api/upload-status", requirePermission("inspection:submit"), async (req: any, res: any) => {
+  const { folderId, name, bytesReceived, driveFileId } = req.body;
+  const pool = getDbPool();
+  if (!pool) return res.json({ success: true });
+
   try {
-    const dateObj = timestamp ? new Date(timestamp) : new Date();
-    
-    // Log to Database
-    const pool = getDbPool();
-    if (pool) {
-      try {
-        await pool.query(
-          "INSERT INTO inspection_logs (employee_id, substation_name, gps_lat, gps_lng, folder_id, timestamp) VALUES ($1, $2, $3, $4, $5, $6)",
-          [employeeId || "Unknown", substationName, lat, lng, folderId, dateObj]
-        );
-      } catch (dbErr) {
-        console.error("DB Log failed:", dbErr);
-      }
+    const result = await pool.query(
+      `UPDATE upload_sessions SET
+         bytes_received = GREATEST(bytes_received, $3),
+         drive_file_id = COALESCE($4, drive_file_id),
+         status = CASE WHEN $4::text IS NOT NULL THEN 'uploaded' ELSE status END,
+         updated_at = CURRENT_TIMESTAMP
+       WHERE folder_id = $1 AND file_name = $2 AND employee_id = $5
+       RETURNING status`,
+      [folderId, name, Number(bytesReceived) || 0, driveFileId || null, req.employeeId]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: "ไม่พบรายการอัปโหลดนี้" });
+    res.json({ success: true, status: result.rows[0].status });
+  } catch (err: any) {
+    console.error("Failed to record upload status:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+async function listFolderFiles(folderId: string) {
+  const driveService = getDriveService();
+  if (!driveService) throw new Error("Google Drive service not configured");
+
+  const files: { id: string; name: string; size: number }[] = [];
+  let pageToken: string | undefined;
+  do {
+    const list: any = await driveService.files.list({
+      q: `'${folderId}' in parents and trashed = false`,
+      fields: "nextPageToken, files(id, name, size)",
+      pageSize: 1000,
+      pageToken,
+    });
+    for (const f of list.data.files || []) {
+      files.push({ id: f.id, name: f.name, size: Number(f.size) });
     }
+    pageToken = list.data.nextPageToken || undefined;
+  } while (pageToken);
+  return files;
+}
 
-    // Log to Google Sheets
-    const sheetsService = getSheetsService();
-    const sheetId = process.env.GOOGLE_SHEET_ID || "1WpvuQnhXzufiBmSRSaEnkRFs9BJf5H4fIWZ0xoYC8iw";
-    if (sheetsService && sheetId) {
-      try {
-        const options: Intl.DateTimeFormatOptions = { 
-          timeZone: "Asia/Bangkok",
-          year: "numeric", month: "2-digit", day: "2-digit",
-          hour: "2-digit", minute: "2-digit", second: "2-digit",
-          hour12: false 
-        };
-        const dateTimeStr = new Intl.DateTimeFormat("th-TH", options).format(dateObj);
-
-        const REQUIRED_CATEGORIES = ['building', 'yard', 'roof', 'annunciation', 'battery', 'grounding', 'security', 'fence', 'lighting', 'checklist'];
-        const categoryChecks = REQUIRED_CATEGORIES.map(cat => categories.split(',').includes(cat) ? "1" : "0");
-
-        const rowData = [
-          dateTimeStr,
-          (employeeId && String(employeeId).trim()) ? String(employeeId).trim() : "ไม่ระบุ",
-          substationName || "ไม่ระบุ",
-          lat || "0",
-          lng || "0",
-          `https://drive.google.com/drive/folders/${folderId}`,
-          "Completed",
-          ...categoryChecks
-        ];
-
-        await sheetsService.spreadsheets.values.append({
-          spreadsheetId: sheetId,
-          range: "A:Q",
-          valueInputOption: "USER_ENTERED",
-          requestBody: { values: [rowData] }
-        });
-      } catch (sheetErr) {
-        console.error("Failed to log to Google Sheets:", sheetErr);
-      }
+// Checks every declared photo against the daily folder in Drive. Reported status alone isn't trusted:
+// a file counts only if Drive has it with the declared size.
+async function findMissingUploads(folderId: string, declared: { name: string; size: number }[], folderFiles: { id: string; name: string; size: number }[]) {
+  const present = new Map(folderFiles.map(f => [f.name, f]));
+  const pool = getDbPool();
+  const missing: string[] = [];
+  for (const file of declared) {
+    const found = present.get(file.name);
+    if (!found || found.size !== file.size) {
+      missing.push(file.name);
+    } else if (pool) {
+      await pool.query(
+        `UPDATE upload_sessions SET status = 'uploaded', drive_file_id = $3, bytes_received = size_bytes, updated_at = CURRENT_TIMESTAMP
+         WHERE folder_id = $1 AND file_name = $2`,
+        [folderId, file.name, found.id]
+      );
     }
+  }
+  return missing;
+}
 
-    res.json({ success: true });
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
+// Photos are named {category}_{n}_{HHmm}_{DDMMYY}.jpg by the client (DDMMYY in the Thai year, like the daily folder)
+const PHOTO_NAME_PATTERN = /^([a-z]+)_(\d+)_(\d{4})_(\d{6})\.jpg$/i;
+
+// Matches the daily folder's files to this submission and compares them with the categories the client declared.
+// completed = every declared category has a photo, partial = some do, failed = none do.
+function verifyInspectionPhotos(folderFiles: { id: string; name: string }[], declaredCategories: string[], suffix: string) {
+  const photos = folderFiles.flatMap(file => {
+    const match = file.name.match(PHOTO_NAME_PATTERN);
+    if (!match || `${match[3]}_${match[4]}` !== suffix) return [];
+    return [{ category: match[1].toLowerCase(), fileId: file.id, fileName: file.name }];
+  });
+  const found = new Set(photos.map(p => p.category));
+  const verifiedCategories = Array.from(found);
+  const missingCategories = declaredCategories.filter(cat => !found.has(cat));
+  const matchedCount = declaredCategories.length - missingCategories.length;
+  const status = declaredCategories.length > 0 && missingCategories.length === 0
+    ? "completed"
+    : matchedCount > 0 ? "partial" : "failed";
+  return { status, photos, verifiedCategories, missingCategories };
+}
+
+// Photos are checked against when the server received the report, not when they were taken, so the
+// server allows for a whole site visit between the first photo and the upload
+const SERVER_MAX_CAPTURE_AGE_MINUTES = 180;
+// How far ahead of the server a device clock may run
+const CLIENT_CLOCK_SKEW_MS = 2 * 60 * 1000;
+
+// The submission time the client claims, kept for the file-name suffix, folder date and the recorded
+// timestamp only while it falls within the capture window before the server received it; anything
+// else is replaced by the receive time. Freshness checks never use it.
+function clientSubmissionTime(timestamp: any, receivedAt: Date) {
+  const claimed = timestamp ? new Date(timestamp) : null;
+  if (!claimed || isNaN(claimed.getTime())) return receivedAt;
+  const lag = receivedAt.getTime() - claimed.getTime();
+  if (lag < -CLIENT_CLOCK_SKEW_MS || lag > SERVER_MAX_CAPTURE_AGE_MINUTES * 60 * 1000) {
+    console.warn(`Client timestamp ${claimed.toISOString()} is outside the accepted window; using the receive time`);
+    return receivedAt;
   }
-});
+  return claimed;
+}
 
-app.post("/api/upload-inspection", upload.array("photos"), async (req: any, res: any) => {
-  const { employeeId, substationName, lat, lng, timestamp } = req.body;
-  
-  // Deduplication check
-  const submissionKey = `${employeeId}-${substationName}`;
-  const now = Date.now();
-  if (recentSubmissions.has(submissionKey)) {
-    const lastTime = recentSubmissions.get(submissionKey)!;
-    if (now - lastTime < 10000) { // 10 seconds window
-      console.log(`Duplicate submission detected for ${submissionKey}, ignoring...`);
-      return res.json({ success: true, message: "Duplicate request ignored" });
+// Repeats the client's EXIF checks on the uploaded files. The client puts the EXIF block right after the
+// JPEG header, so the first 128 KiB of each file is enough. A null entry means the file couldn't be read.
+async function assessUploadedPhotos(photos: { fileId: string; fileName: string }[], receivedAt: Date, substationName: string) {
+  const driveService = getDriveService();
+  if (!driveService) return photos.map(() => null);
+
+  const station = await getActiveSubstation(substationName).catch(() => undefined);
+  const reference = {
+    time: receivedAt,
+    maxAgeMinutes: SERVER_MAX_CAPTURE_AGE_MINUTES,
+    station: station ? { lat: station.lat, lng: station.lng, radiusM: station.geofence_radius_m || DEFAULT_GEOFENCE_RADIUS_M } : null,
+  };
+
+  return Promise.all(photos.map(async (photo): Promise<PhotoAuthenticity | null> => {
+    try {
+      const head = await driveService.files.get(
+        { fileId: photo.fileId, alt: "media" },
+        { responseType: "arraybuffer", headers: { Range: "bytes=0-131071" }, timeout: 30000 }
+      );
+      return assessPhotoAuthenticity(await readPhotoExif(new Uint8Array(head.data as any)), reference);
+    } catch (err) {
+      console.error(`EXIF check failed for ${photo.fileName}:`, err);
+      return null;
     }
+  }));
+}
+
+// Key for countersigning capture manifests. Falls back to SESSION_SECRET; with neither set, manifests are stored unsigned.
+function getManifestSecret() {
+  return process.env.SSVI_MANIFEST_SECRET || process.env.SESSION_SECRET || null;
+}
+
+// JSON with sorted keys, so the signed bytes don't depend on property order
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort().filter(k => value[k] !== undefined).map(k => `${JSON.stringify(k)}:${canonicalJson(value[k])}`).join(",")}}`;
   }
-  recentSubmissions.set(submissionKey, now);
-  
-  // Debug log to see what's coming in
-  console.log("New Inspection Submission:");
-  console.log("- Employee ID:", employeeId);
-  console.log("- Substation:", substationName);
-  console.log("- Timestamp:", timestamp);
+  return JSON.stringify(value ?? null);
+}
+
+function signManifestPayload(payload: string) {
+  const secret = getManifestSecret();
+  return secret ? crypto.createHmac("sha256", secret).update(payload).digest("hex") : null;
+}
+
+// Wraps the client's capture manifest with what the server knows (session employee, folder, receipt time)
+// and signs it. The database row is the reference copy; storeManifestInDrive drops one next to the photos.
+function countersignManifest(manifest: any, context: { employeeId: string; substationName: string; folderId: string; verificationStatus: string }) {
+  const payload = canonicalJson({
+    manifest,
+    server: {
+      employeeId: context.employeeId,
+      substationName: context.substationName,
+      folderId: context.folderId,
+      receivedAt: new Date().toISOString(),
+      verificationStatus: context.verificationStatus,
+    },
+  });
+  const signature = signManifestPayload(payload);
+  if (!signature) console.warn("No SSVI_MANIFEST_SECRET or SESSION_SECRET: storing capture manifest unsigned");
+  return { payload, signature };
+}
 
-  const files = req.files as any[];
+// Returns the Drive file id, or null when Drive isn't available or the write failed
+async function storeManifestInDrive(signed: { payload: string; signature: string | null }, folderId: string, suffix: string) {
   const driveService = getDriveService();
+  if (!driveService) return null;
+  try {
+    const file = await driveService.files.create({
+      requestBody: { name: `manifest_${suffix}.json`, parents: [folderId], mimeType: "application/json" },
+      media: {
+        mimeType: "application/json",
+        body: Readable.from(Buffer.from(JSON.stringify({ payload: JSON.parse(signed.payload), signature: signed.signature, algorithm: "HMAC-SHA256" }, null, 2))),
+      },
+      fields: "id",
+    });
+    return file.data.id || null;
+  } catch (err) {
+    console.error("Failed to store capture manifest in Drive:", err);
+    return null;
+  }
+}
 
-  if (!driveService) {
-    console.error("Google Drive Service is NULL");
-    return res.status(500).json({ error: "Google Drive service not configured" });
+// What complete-upload answered for an inspection it already recorded, rebuilt from the stored rows
+async function describeRecordedSubmission(inspectionId: number) {
+  const pool = getDbPool()!;
+  const [log, photos, answers, alerts, fixed] = await Promise.all([
+    pool.query("SELECT * FROM inspection_logs WHERE id = $1", [inspectionId]),
+    pool.query("SELECT category, file_name, authenticity, authenticity_reasons FROM inspection_photos WHERE inspection_id = $1", [inspectionId]),
+    pool.query("SELECT * FROM checklist_answers WHERE inspection_id = $1 AND abnormal", [inspectionId]),
+    pool.query("SELECT message FROM battery_alerts WHERE inspection_id = $1 ORDER BY id", [inspectionId]),
+    pool.query("SELECT id FROM defects WHERE fixed_inspection_id = $1 ORDER BY id", [inspectionId])
+  ]);
+  const row = log.rows[0];
+  const geofence = await checkGeofence(row.substation_name, row.gps_lat, row.gps_lng, row.gps_accuracy_m);
+  const photoCategories = Array.from(new Set<string>(photos.rows.map(p => p.category)));
+  return {
+    success: true,
+    inspectionId,
+    duplicate: true,
+    outOfTerritory: row.out_of_territory,
+    geofence: { ...geofence, withinGeofence: row.within_geofence ?? geofence.withinGeofence, distanceM: row.distance_m ?? geofence.distanceM },
+    verification: {
+      status: row.status,
+      verifiedCategories: photoCategories,
+      missingCategories: (row.declared_categories || []).filter((c: string) => !photoCategories.includes(c))
+    },
+    flaggedPhotos: photos.rows
+      .filter(p => p.authenticity === "suspect" || p.authenticity === "rejected")
+      .map(p => ({ name: p.file_name, verdict: p.authenticity, reasons: p.authenticity_reasons })),
+    checklist: { status: row.checklist_status, abnormal: answers.rows.map(describeChecklistAnswer), missingRequired: [] },
+    batteryAlerts: alerts.rows.map(a => a.message),
+    defectsFixed: fixed.rows.map(d => d.id)
+  };
+}
+
+async function findRecordedSubmission(employeeId: string, submissionId: string): Promise<number | null> {
+  const result = await getDbPool()!.query(
+    "SELECT id FROM inspection_logs WHERE employee_id = $1 AND client_submission_id = $2",
+    [employeeId, submissionId]
+  );
+  return result.rows[0]?.id ?? null;
+}
+
+// 2. Complete Upload: record the inspection (the sheet row is exported from it). `submissionId` is the
+// offline queue's id for the submission: a retry whose first attempt was recorded gets that inspection
+// back, with none of the recording repeated.
+app.post("/api/complete-upload", requirePermission("inspection:submit"), async (req: any, res: any) => {
+  const { substationName, lat, lng, accuracy, timestamp, folderId, categories } = req.body;
+  const employeeId = req.employeeId;
+  const submissionId = typeof req.body.submissionId === "string" && req.body.submissionId.trim()
+    ? req.body.submissionId.trim().slice(0, 100)
+    : null;
+  
+  const pool = getDbPool();
+  if (!pool) {
+    return res.status(503).json({ error: "ยังไม่ได้เชื่อมต่อฐานข้อมูล" });
   }
 
   try {
-    // Ensure we have a valid date in Thailand timezone
-    const dateObj = timestamp ? new Date(timestamp) : new Date();
-    
-    // Format for folder naming (DDMMYY)
-    const dateStr = new Intl.DateTimeFormat("th-TH", {
-      day: "2-digit",
-      month: "2-digit",
-      year: "2-digit",
-      timeZone: "Asia/Bangkok"
-    }).format(dateObj).replace(/\//g, ""); 
-    
-    const parentFolderId = process.env.GOOGLE_DRIVE_PARENT_FOLDER_ID || process.env.GOOGLE_DRIVE_ROOT_FOLDER_ID || "1IzXUWJfucyb47Dr32QSVIxBKmoMrWF6J";
+    if (submissionId) {
+      const recordedId = await findRecordedSubmission(employeeId, submissionId);
+      if (recordedId !== null) return res.json(await describeRecordedSubmission(recordedId));
+    }
 
-    // 1. Find or Create Main Substation Folder (e.g., "สถานีไฟฟ้านครชัยศรี 1")
-    let mainFolderId;
-    const mainFolderQuery = await driveService.files.list({
-      q: `name = '${substationName}' and mimeType = 'application/vnd.google-apps.folder' and '${parentFolderId}' in parents and trashed = false`,
-      fields: "files(id)",
-    });
+    // Refuse before anything is written to Drive
+    const outOfTerritory = !(await isAssignedSubstation(employeeId, substationName));
+    if (outOfTerritory) {
+      if (ENFORCE_ASSIGNMENTS) {
+        return res.status(403).json({ error: `คุณไม่ได้รับมอบหมายให้ตรวจ ${substationName}` });
+      }
+      console.warn(`Out-of-territory submission: ${employeeId} -> ${substationName}`);
+    }
 
-    if (mainFolderQuery.data.files && mainFolderQuery.data.files.length > 0) {
-      mainFolderId = mainFolderQuery.data.files[0].id;
-    } else {
-      const folderMetadata = {
-        name: substationName,
-        mimeType: "application/vnd.google-apps.folder",
-        parents: [parentFolderId],
-      };
-      const folder = await driveService.files.create({
-        requestBody: folderMetadata,
-        fields: "id",
-      });
-      mainFolderId = folder.data.id;
+    const geofence = await checkGeofence(substationName, lat, lng, accuracy);
+    if (!geofence.withinGeofence) {
+      if (GEOFENCE_STRICT) {
+        return res.status(403).json({ error: describeGeofenceFailure(geofence), geofence });
+      }
+      console.warn(`Geofence miss: ${employeeId} -> ${substationName} (${geofence.distanceM ?? "no GPS"} m / ${geofence.radiusM} m)`);
     }
 
-    // 2. Find or Create Daily Folder (e.g., "สถานีไฟฟ้านครชัยศรี 1_260269") inside Main Folder
-    const dailyFolderName = `${substationName}_${dateStr}`;
-    let dailyFolderId;
-    const dailyFolderQuery = await driveService.files.list({
-      q: `name = '${dailyFolderName}' and mimeType = 'application/vnd.google-apps.folder' and '${mainFolderId}' in parents and trashed = false`,
-      fields: "files(id)",
-    });
+    // The folder is the station's daily folder, not one the client picked for another station
+    const folderStation = typeof folderId === "string" && folderId ? await findSubstationForFolder(folderId) : null;
+    if (!folderStation || folderStation.trim().toLowerCase() !== String(substationName || "").trim().toLowerCase()) {
+      console.warn(`Folder mismatch: ${employeeId} -> ${substationName} with folder ${folderId} (${folderStation ?? "unknown"})`);
+      return res.status(403).json({ error: "โฟลเดอร์รูปภาพไม่ตรงกับสถานีไฟฟ้าที่ส่งรายงาน" });
+    }
 
-    if (dailyFolderQuery.data.files && dailyFolderQuery.data.files.length > 0) {
-      dailyFolderId = dailyFolderQuery.data.files[0].id;
-    } else {
-      const folderMetadata = {
-        name: dailyFolderName,
-        mimeType: "application/vnd.google-apps.folder",
-        parents: [mainFolderId],
-      };
-      const folder = await driveService.files.create({
-        requestBody: folderMetadata,
-        fields: "id",
+    const receivedAt = new Date();
+    const dateObj = clientSubmissionTime(timestamp, receivedAt);
+
+    // Other inspectors share the station's daily folder: only files this inspector opened upload sessions
+    // for count, with the sizes init-upload recorded so the client can't shrink its own declaration
+    const allFolderFiles = await listFolderFiles(folderId);
+    const originalsFolderId = allFolderFiles.find(f => f.name === ORIGINALS_FOLDER_NAME)?.id;
+    const sessions = await pool.query(
+      "SELECT folder_id, file_name, size_bytes FROM upload_sessions WHERE employee_id = $1 AND folder_id = ANY($2)",
+      [employeeId, [folderId, originalsFolderId].filter(Boolean)]
+    );
+    const sessionSizes = (id: string | undefined) => new Map<string, number>(
+      sessions.rows.filter((r: any) => r.folder_id === id).map((r: any) => [r.file_name, Number(r.size_bytes)])
+    );
+    const photoSizes = sessionSizes(folderId);
+    const originalSizes = sessionSizes(originalsFolderId);
+
+    const declared = parseDeclaredFiles(req.body.files);
+    const declaredOriginals = parseDeclaredFiles(req.body.originals);
+    const foreignFiles = [
+      ...declared.filter(f => !photoSizes.has(f.name)),
+      ...declaredOriginals.filter(f => !originalSizes.has(f.name))
+    ].map(f => f.name);
+    if (foreignFiles.length > 0) {
+      return res.status(403).json({ error: "มีรูปที่ไม่ได้อัปโหลดจากการส่งรายงานของคุณ", foreignFiles });
+    }
+
+    const folderFiles = allFolderFiles.filter(f => photoSizes.has(f.name));
+    const missingFiles = await findMissingUploads(folderId, declared.map(f => ({ ...f, size: photoSizes.get(f.name)! })), folderFiles);
+
+    const originalFiles = originalsFolderId ? (await listFolderFiles(originalsFolderId)).filter(f => originalSizes.has(f.name)) : [];
+    const missingOriginals = declaredOriginals.length > 0
+      ? (originalsFolderId
+        ? await findMissingUploads(originalsFolderId, declaredOriginals.map(f => ({ ...f, size: originalSizes.get(f.name)! })), originalFiles)
+        : declaredOriginals.map(f => f.name))
+      : [];
+
+    if (missingFiles.length > 0 || missingOriginals.length > 0) {
+      return res.status(409).json({
+        error: `ยังอัปโหลดรูปไม่ครบ (${missingFiles.length + missingOriginals.length} รูป)`,
+        missingFiles,
+        missingOriginals
       });
-      dailyFolderId = folder.data.id;
     }
 
-    // 3. Upload Files to Daily Folder
-    const categoriesFromFiles = new Set<string>();
-    for (const file of files) {
-      const category = file.originalname.split('_')[0];
-      if (category) categoriesFromFiles.add(category);
+    // The sheet and the log only record categories whose photos are actually in the folder
+    const declaredCategories = String(categories || "").split(",").map(c => c.trim()).filter(Boolean);
+    const verification = verifyInspectionPhotos(folderFiles, declaredCategories, submissionNameSuffix(dateObj));
+    if (verification.status !== "completed") {
+      console.warn(`Photo verification ${verification.status}: ${employeeId} -> ${substationName}, missing ${verification.missingCategories.join(",") || "all"}`);
+    }
 
-      const fileMetadata = {
-        name: file.originalname,
-        parents: [dailyFolderId],
-      };
-      const media = {
-        mimeType: file.mimetype,
-        body: Readable.from(file.buffer),
-      };
-      await driveService.files.create({
-        requestBody: fileMetadata,
-        media: media,
-        fields: "id",
-      });
+    // Structured checklist answers; a complete one counts for the checklist category even without paper-form photos
+    const checklist = evaluateChecklist(await getChecklistItemsFor(substationName), req.body.checklist);
+    const recordedCategories = checklist.status === "normal" || checklist.status === "abnormal"
+      ? Array.from(new Set([...verification.verifiedCategories, "checklist"]))
+      : verification.verifiedCategories;
+    if (checklist.abnormal.length > 0) {
+      console.warn(`Checklist out of range: ${employeeId} -> ${substationName}: ${checklist.abnormal.map(r => r.item_id).join(",")}`);
     }
 
-    // Use categories from body if provided, otherwise fallback to filename parsing
-    const categoriesStr = req.body.categories || Array.from(categoriesFromFiles).join(',');
+    // Per-cell battery readings, judged against the station's thresholds and each cell's previous reading
+    const batteryReadings = parseBatteryReadings(req.body.batteryReadings);
+    const batteryAlerts = batteryReadings.length > 0
+      ? assessBatteryReadings(batteryReadings, await getPreviousBatteryReadings(substationName, dateObj), await getBatteryThresholds(substationName))
+      : [];
+    if (batteryAlerts.length > 0) {
+      console.warn(`Battery alerts: ${employeeId} -> ${substationName}: ${batteryAlerts.length}`);
+    }
 
-    // 3. Log to Database
-    const pool = getDbPool();
-    if (pool) {
-      try {
-        await pool.query(
-          "INSERT INTO inspection_logs (employee_id, substation_name, gps_lat, gps_lng, folder_id, timestamp) VALUES ($1, $2, $3, $4, $5, $6)",
-          [employeeId || "Unknown", substationName, lat, lng, dailyFolderId, dateObj]
+    const signedManifest = req.body.manifest && typeof req.body.manifest === "object"
+      ? countersignManifest(req.body.manifest, { employeeId, substationName, folderId, verificationStatus: verification.status })
+      : null;
+    let inspectionId: number | null = null;
+
+    const authenticity = await assessUploadedPhotos(verification.photos, receivedAt, substationName);
+    const clientVerdicts = new Map<string, string>(
+      (Array.isArray(req.body.manifest?.photos) ? req.body.manifest.photos : [])
+        .filter((p: any) => p?.name && p.authenticity?.verdict)
+        .map((p: any) => [p.name, String(p.authenticity.verdict)])
+    );
+    // Each kept original is linked to its watermarked copy, in the database and (once recorded) on the Drive files
+    const originalsByName = new Map(originalFiles.filter(f => declaredOriginals.some(d => d.name === f.name)).map(f => [f.name, f.id]));
+
+    const photoRows = verification.photos.map((p, i) => ({
+      category: p.category,
+      file_id: p.fileId,
+      file_name: p.fileName,
+      original_file_id: originalsByName.get(p.fileName) ?? null,
+      authenticity: authenticity[i]?.verdict ?? null,
+      authenticity_reasons: authenticity[i]?.reasons ?? null,
+      exif: authenticity[i]?.exif ?? null,
+      client_authenticity: clientVerdicts.get(p.fileName) ?? null,
+    }));
+    const flaggedPhotos = photoRows.filter(p => p.authenticity === "suspect" || p.authenticity === "rejected");
+    if (flaggedPhotos.length > 0) {
+      console.warn(`Authenticity flags on ${flaggedPhotos.length} photo(s): ${employeeId} -> ${substationName}`);
+    }
+
+    // Record the inspection, its photos, answers and readings, the defects its photos fixed and the sheet export entry together
+    const defectsFixed: number[] = [];
+    const defectFixes = Array.isArray(req.body.defectFixes) ? req.body.defectFixes : [];
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const logResult = await client.query(
+        `INSERT INTO inspection_logs (employee_id, substation_name, gps_lat, gps_lng, folder_id, timestamp, out_of_territory, within_geofence, distance_m, gps_accuracy_m,
+           status, declared_categories, verified_categories, checklist_status, client_submission_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15) RETURNING id`,
+        [employeeId, substationName, lat, lng, folderId, dateObj, outOfTerritory, geofence.withinGeofence, geofence.distanceM, geofence.accuracyM,
+         verification.status, declaredCategories, recordedCategories, checklist.status, submissionId]
+      );
+      inspectionId = logResult.rows[0].id as number;
+      if (verification.photos.length > 0) {
+        await client.query(
+          `INSERT INTO inspection_photos (inspection_id, category, file_id, file_name, original_file_id, authenticity, authenticity_reasons, exif, client_authenticity)
+           SELECT $1, category, file_id, file_name, original_file_id, authenticity, authenticity_reasons, exif, client_authenticity
+           FROM json_to_recordset($2) AS p(category TEXT, file_id TEXT, file_name TEXT, original_file_id TEXT, authenticity TEXT, authenticity_reasons JSONB, exif JSONB, client_authenticity TEXT)`,
+          [inspectionId, JSON.stringify(photoRows)]
+        );
+      }
+      if (checklist.rows.length > 0) {
+        await client.query(
+          `INSERT INTO checklist_answers (inspection_id, item_id, category, label, unit, value_number, value_bool, value_text, min_value, max_value, abnormal)
+           SELECT $1, item_id, category, label, unit, value_number, value_bool, value_text, min_value, max_value, abnormal
+           FROM json_to_recordset($2) AS a(item_id TEXT, category TEXT, label TEXT, unit TEXT, value_number DOUBLE PRECISION, value_bool BOOLEAN,
+             value_text TEXT, min_value DOUBLE PRECISION, max_value DOUBLE PRECISION, abnormal BOOLEAN)`,
+          [inspectionId, JSON.stringify(checklist.rows)]
+        );
+      }
+      if (batteryReadings.length > 0) {
+        await client.query(
+          `INSERT INTO battery_readings (inspection_id, substation_name, bank, cell, float_voltage, specific_gravity, temperature_c, measured_at)
+           SELECT $1, $2, bank, cell, float_voltage, specific_gravity, temperature_c, $3
+           FROM json_to_recordset($4) AS r(bank TEXT, cell INTEGER, float_voltage DOUBLE PRECISION, specific_gravity DOUBLE PRECISION, temperature_c DOUBLE PRECISION)
+           ON CONFLICT (inspection_id, bank, cell) DO NOTHING`,
+          [inspectionId, substationName, dateObj, JSON.stringify(batteryReadings)]
+        );
+      }
+      if (batteryAlerts.length > 0) {
+        await client.query(
+          `INSERT INTO battery_alerts (inspection_id, substation_name, bank, cell, metric, kind, value, previous_value, message)
+           SELECT $1, $2, bank, cell, metric, kind, value, previous, message
+           FROM json_to_recordset($3) AS a(bank TEXT, cell INTEGER, metric TEXT, kind TEXT, value DOUBLE PRECISION, previous DOUBLE PRECISION, message TEXT)`,
+          [inspectionId, substationName, JSON.stringify(batteryAlerts)]
+        );
+      }
+      if (signedManifest) {
+        await client.query(
+          "INSERT INTO inspection_manifests (inspection_id, signed_payload, signature) VALUES ($1, $2, $3)",
+          [inspectionId, signedManifest.payload, signedManifest.signature]
         );
-      } catch (dbErr) {
-        console.error("DB Log failed:", dbErr);
       }
-    }
 
-    // 4. Log to Google Sheets
-    const sheetsService = getSheetsService();
-    const sheetId = process.env.GOOGLE_SHEET_ID || "1WpvuQnhXzufiBmSRSaEnkRFs9BJf5H4fIWZ0xoYC8iw";
-    if (sheetsService && sheetId) {
-      try {
-        // Format date/time explicitly for Google Sheets in Thailand timezone
-        const options: Intl.DateTimeFormatOptions = { 
-          timeZone: "Asia/Bangkok",
-          year: "numeric",
-          month: "2-digit",
-          day: "2-digit",
-          hour: "2-digit",
-          minute: "2-digit",
-          second: "2-digit",
-          hour12: false 
-        };
-        
-        const formatter = new Intl.DateTimeFormat("th-TH", options);
-        const dateTimeStr = formatter.format(dateObj);
-
-        const REQUIRED_CATEGORIES = ['building', 'yard', 'roof', 'annunciation', 'battery', 'grounding', 'security', 'fence', 'lighting', 'checklist'];
-        const categoryChecks = REQUIRED_CATEGORIES.map(cat => categoriesStr.split(',').includes(cat) ? "1" : "0");
-
-        const rowData = [
-          dateTimeStr,
-          (employeeId && String(employeeId).trim()) ? String(employeeId).trim() : "ไม่ระบุ",
-          substationName || "ไม่ระบุ",
-          lat || "0",
-          lng || "0",
-          `https://drive.google.com/drive/folders/${dailyFolderId}`,
-          "Completed",
-          ...categoryChecks
-        ];
-        
-        console.log("Final Row Data for Sheets:", rowData);
-
-        await sheetsService.spreadsheets.values.append({
-          spreadsheetId: sheetId,
-          range: "A:Q", // Updated range for 17 columns (A to Q)
-          valueInputOption: "USER_ENTERED",
-          requestBody: {
-            values: [rowData]
+      // "After" photos of open defects move them to fixed; a photo the EXIF check rejected doesn't count.
+      // A fix that fails is rolled back on its own without losing the inspection.
+      for (const fix of defectFixes) {
+        const photo = photoRows.find(p => p.file_name === fix?.fileName && p.category === "fixed");
+        if (!photo || photo.authenticity === "rejected") continue;
+        await client.query("SAVEPOINT defect_fix");
+        try {
+          const updated = await client.query(
+            `UPDATE defects d SET status = 'fixed', fixed_file_id = $3, fixed_inspection_id = $4, fixed_by = $5, fixed_at = $6, updated_at = CURRENT_TIMESTAMP
+             FROM (SELECT id, status FROM defects WHERE id = $1 FOR UPDATE) prev
+             WHERE d.id = prev.id AND d.substation_name = $2 AND d.status IN ('open', 'assigned') RETURNING d.id, prev.status AS from_status`,
+            [Number(fix.defectId), substationName, photo.file_id, inspectionId, employeeId, dateObj]
+          );
+          if (updated.rows.length > 0) {
+            await recordDefectEvent(client, updated.rows[0].id, updated.rows[0].from_status, "fixed", employeeId, photo.file_name);
+            defectsFixed.push(updated.rows[0].id);
           }
-        });
-        console.log("Successfully appended to Google Sheets");
-      } catch (sheetErr) {
-        console.error("Failed to log to Google Sheets:", sheetErr);
+          await client.query("RELEASE SAVEPOINT defect_fix");
+        } catch (err) {
+          await client.query("ROLLBACK TO SAVEPOINT defect_fix");
+          console.error(`Failed to mark defect ${fix.defectId} fixed:`, err);
+        }
+      }
+
+      await enqueueSheetSync(client, "inspection", { inspection_id: inspectionId });
+      await client.query("COMMIT");
+    } catch (dbErr: any) {
+      await client.query("ROLLBACK");
+      // Another attempt at the same submission got there first
+      if (submissionId && dbErr.code === "23505" && dbErr.constraint === "inspection_logs_submission_idx") {
+        const recordedId = await findRecordedSubmission(employeeId, submissionId);
+        if (recordedId !== null) return res.json(await describeRecordedSubmission(recordedId));
       }
+      throw dbErr;
+    } finally {
+      client.release();
     }
+    kickSheetSync();
 
-    res.json({ success: true, folderId: dailyFolderId });
-  } catch (error: any) {
-    console.error("Upload error:", error);
-    
-    let errorMessage = error.message;
-    if (errorMessage.includes("invalid_grant")) {
-      errorMessage = "สิทธิ์การเข้าถึง Google Drive หมดอายุ (invalid_grant) กรุณาแจ้งผู้ดูแลระบบให้ทำการต่ออายุ Token ใหม่ที่เมนูตั้งค่า";
-    } else if (errorMessage.includes("insufficient_permissions")) {
-      errorMessage = "ไม่มีสิทธิ์เข้าถึงโฟลเดอร์ Google Drive กรุณาตรวจสอบการตั้งค่าสิทธิ์";
+    // Drive is only written once the inspection is recorded, so a refused or repeated submission leaves nothing there
+    if (signedManifest) {
+      const manifestFileId = await storeManifestInDrive(signedManifest, folderId, submissionNameSuffix(dateObj));
+      if (manifestFileId) {
+        await pool.query("UPDATE inspection_manifests SET drive_file_id = $2 WHERE inspection_id = $1", [inspectionId, manifestFileId]);
+      }
+    }
+    const driveService = getDriveService();
+    if (driveService) {
+      await Promise.all(verification.photos.filter(p => originalsByName.has(p.fileName)).map(async (p) => {
+        const originalId = originalsByName.get(p.fileName)!;
+        try {
+          await driveService.files.update({ fileId: p.fileId, requestBody: { appProperties: { originalFileId: originalId } } });
+          await driveService.files.update({ fileId: originalId, requestBody: { appProperties: { watermarkedFileId: p.fileId } } });
+        } catch (err) {
+          console.error(`Failed to link original of ${p.fileName}:`, err);
+        }
+      }));
     }
-    
-    res.status(500).json({ error: errorMessage });
-  }
-});
 
-app.get("/api/substation-history", async (req: any, res: any) => {
-  const { substationName } = req.query;
-  if (!substationName) {
-    return res.status(400).json({ error: "กรุณาระบุชื่อสถานีไฟฟ้า" });
+    res.json({
+      success: true,
+      inspectionId,
+      outOfTerritory,
+      geofence,
+      verification: { status: verification.status, verifiedCategories: verification.verifiedCategories, missingCategories: verification.missingCategories },
+      flaggedPhotos: flaggedPhotos.map(p => ({ name: p.file_name, verdict: p.authenticity, reasons: p.authenticity_reasons })),
+      checklist: {
+        status: checklist.status,
+        abnormal: checklist.abnormal.map(describeChecklistAnswer),
+        missingRequired: checklist.missingRequired
+      },
+      batteryAlerts: batteryAlerts.map(a => a.message),
+      defectsFixed
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
   }
+});
 
-  const sheetsService = getSheetsService();
-  const sheetId = process.env.GOOGLE_SHEET_ID || "1WpvuQnhXzufiBmSRSaEnkRFs9BJf5H4fIWZ0xoYC8iw";
-
-  if (!sheetsService) {
-    return res.json({ history: [], error: "ยังไม่ได้เชื่อมต่อ Google Sheets หรือขาด Refresh Token" });
-  }
-  if (!sheetId) {
-    return res.json({ history: [], error: "ยังไม่ได้ตั้งค่า GOOGLE_SHEET_ID ในระบบ" });
-  }
+// Re-downloads every photo named in an inspection's capture manifest, and its kept camera original, and
+// compares their SHA-256 with the hashes recorded on the device, after checking the server's countersignature
+// on the manifest itself
+app.get("/api/inspections/:id/verify", requirePermission("dashboard:read"), async (req: any, res: any) => {
+  const pool = getDbPool();
+  const driveService = getDriveService();
+  if (!pool || !driveService) return res.status(503).json({ error: "Database or Google Drive not configured" });
 
   try {
-    const response = await sheetsService.spreadsheets.values.get({
-      spreadsheetId: sheetId,
-      range: "A2:Q", // Fetch all columns including categories (A to Q)
-    });
-
-    const rows = response.data.values || [];
-    const nameToMatch = (substationName as string).trim();
-
-    const history = rows.map((row) => {
-      const dateStr = (row[0] || "").toString().trim();
-      if (!dateStr) return null;
-
-      const subName = (row[2] || "").toString().trim();
-      if (subName.toLowerCase() !== nameToMatch.toLowerCase()) return null;
+    const inspectionId = Number(req.params.id);
+    const result = await pool.query(
+      `SELECT l.folder_id, m.signed_payload, m.signature
+       FROM inspection_logs l JOIN inspection_manifests m ON m.inspection_id = l.id
+       WHERE l.id = $1`,
+      [inspectionId]
+    );
+    if (result.rows.length === 0) return res.status(404).json({ error: "ไม่พบ manifest ของรายการตรวจนี้" });
+    const { folder_id: folderId, signed_payload: payload, signature } = result.rows[0];
+
+    const expected = signManifestPayload(payload);
+    let signatureValid: boolean | null = null;
+    if (signature && expected) {
+      const given = Buffer.from(signature, "hex");
+      const wanted = Buffer.from(expected, "hex");
+      signatureValid = given.length === wanted.length && crypto.timingSafeEqual(given, wanted);
+    }
 
-      // Robust parsing for dates like "03/03/2569 21:38:00" or "03/03/26 21:38"
-      const parts = dateStr.split(/[\s/:]+/);
-      if (parts.length < 3) return null;
-      
-      const day = parseInt(parts[0]);
-      const monthIdx = parseInt(parts[1]) - 1;
-      let yearVal = parseInt(parts[2]);
+    const manifestPhotos: any[] = JSON.parse(payload).manifest?.photos || [];
+    const recorded = await pool.query("SELECT file_name, file_id, original_file_id FROM inspection_photos WHERE inspection_id = $1", [inspectionId]);
+    const fileIds = new Map<string, string>(recorded.rows.map((r: any) => [r.file_name, r.file_id]));
+    const originalIds = new Map<string, string>(recorded.rows.filter((r: any) => r.original_file_id).map((r: any) => [r.file_name, r.original_file_id]));
+    const hashDriveFile = async (fileId: string) => {
+      const download = await driveService.files.get({ fileId, alt: "media" }, { responseType: "arraybuffer", timeout: 60000 });
+      return crypto.createHash("sha256").update(Buffer.from(download.data as any)).digest("hex");
+    };
+    if (manifestPhotos.some(p => !fileIds.has(p.name))) {
+      (await listFolderFiles(folderId)).forEach(f => { if (!fileIds.has(f.name)) fileIds.set(f.name, f.id); });
+    }
 
-      if (yearVal < 100) {
-        if (yearVal > 50) yearVal += 2500;
-        else yearVal += 2000;
+    // `original` is null for photos whose camera original this deployment didn't keep
+    const photos = [];
+    for (const photo of manifestPhotos) {
+      const originalId = originalIds.get(photo.name);
+      let original = null;
+      if (originalId) {
+        const actual = await hashDriveFile(originalId);
+        original = { fileId: originalId, expected: photo.originalSha256, actual, status: actual === photo.originalSha256 ? "ok" : "mismatch" };
+      }
+      const fileId = fileIds.get(photo.name);
+      if (!fileId) {
+        photos.push({ name: photo.name, expected: photo.sha256, actual: null, status: "missing", original });
+        continue;
       }
-      if (yearVal > 2500) yearVal -= 543;
+      const actual = await hashDriveFile(fileId);
+      photos.push({ name: photo.name, fileId, expected: photo.sha256, actual, status: actual === photo.sha256 ? "ok" : "mismatch", original });
+    }
 
-      const hour = parseInt(parts[3]) || 0;
-      const minute = parseInt(parts[4]) || 0;
-      const second = parseInt(parts[5]) || 0;
+    res.json({
+      inspectionId,
+      signatureValid,
+      photos,
+      ok: signatureValid !== false && photos.length > 0 && photos.every(p => p.status === "ok" && (!p.original || p.original.status === "ok")),
+    });
+  } catch (err: any) {
+    console.error("Manifest verification failed:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
 
-      const isoStr = `${yearVal}-${String(monthIdx + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}T${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}:${String(second).padStart(2, '0')}+07:00`;
-      const logDate = new Date(isoStr);
-      
-      if (isNaN(logDate.getTime())) return null;
-
-      const REQUIRED_CATEGORIES = ['building', 'yard', 'roof', 'annunciation', 'battery', 'grounding', 'security', 'fence', 'lighting', 'checklist'];
-      let categories: string[] = [];
-      const colH = (row[7] || "").toString().trim();
-      const hasNewFormat = row.slice(7, 17).some(val => {
-        const v = val ? val.toString().trim() : "";
-        return v === "1" || v === "0" || v === "✓" || v === "✔";
-      });
-      
-      if (hasNewFormat) {
-        REQUIRED_CATEGORIES.forEach((cat, i) => {
-          const cellVal = (row[7 + i] || "").toString().trim();
-          if (cellVal === "1" || cellVal === "✓" || cellVal === "✔") {
-            categories.push(cat);
-          }
-        });
-      } else if (colH.includes(',')) {
-        categories = colH.split(',').map(s => s.trim()).filter(Boolean);
-      } else if (colH) {
-        const possibleCat = colH.toLowerCase();
-        if (REQUIRED_CATEGORIES.includes(possibleCat)) {
-          categories.push(possibleCat);
-        }
-      }
+app.get("/api/substation-history", requirePermission("history:read"), async (req: any, res: any) => {
+  const { substationName } = req.query;
+  if (!substationName) {
+    return res.status(400).json({ error: "กรุณาระบุชื่อสถานีไฟฟ้า" });
+  }
+
+  const pool = getDbPool();
+  if (!pool) {
+    return res.json({ history: [], error: "ยังไม่ได้เชื่อมต่อฐานข้อมูล" });
+  }
 
+  try {
+    const result = await pool.query(
+      `SELECT timestamp, verified_categories FROM inspection_logs
+       WHERE lower(trim(substation_name)) = lower($1) ORDER BY timestamp DESC`,
+      [String(substationName).trim()]
+    );
+    const history = result.rows.map(row => {
+      const logDate = new Date(row.timestamp);
       return {
         timestamp: logDate.toISOString(),
-        day,
-        month: monthIdx + 1,
-        year: yearVal,
-        categories
+        ...bangkokDateParts(logDate),
+        categories: row.verified_categories || []
       };
-    }).filter((log): log is any => log !== null);
-
-    // Sort by timestamp descending
-    history.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    });
 
     res.json({ history });
   } catch (error: any) {
@@ -1317,194 +3448,384 @@ app.get("/api/substation-history", async (req: any, res: any) => {
   }
 });
 
-app.get("/api/dashboard-stats", async (req, res) => {
-  const { month, year } = req.query;
-  const sheetsService = getSheetsService();
-  const sheetId = process.env.GOOGLE_SHEET_ID || "1WpvuQnhXzufiBmSRSaEnkRFs9BJf5H4fIWZ0xoYC8iw";
-
-  if (!sheetsService) {
-    return res.json({ total: 0, recent: [], error: "ยังไม่ได้เชื่อมต่อ Google Sheets หรือขาด Refresh Token" });
-  }
-  if (!sheetId) {
-    return res.json({ total: 0, recent: [], error: "ยังไม่ได้ตั้งค่า GOOGLE_SHEET_ID ในระบบ" });
+app.get("/api/dashboard-stats", requirePermission("dashboard:read"), async (req: any, res: any) => {
+  const { month, year, team } = req.query;
+  const pool = getDbPool();
+  if (!pool) {
+    return res.json({ total: 0, recent: [], error: "ยังไม่ได้เชื่อมต่อฐานข้อมูล" });
   }
 
   try {
-    const response = await sheetsService.spreadsheets.values.get({
-      spreadsheetId: sheetId,
-      range: "A2:Q", // Fetch all columns including categories (A to Q)
-    });
-
-    const rows = response.data.values || [];
     const targetMonth = parseInt(month as string);
     const targetYear = parseInt(year as string);
+    const teamScope = team ? await getTeamScope(team as string) : null;
 
-    const filteredLogs = rows.map((row, index) => {
-      // Row structure: [Timestamp, EmployeeID, SubstationName, Lat, Lng, FolderURL, Status]
-      const dateStr = (row[0] || "").toString().trim();
-      if (!dateStr) return null;
-
-      // Robust parsing for dates like "03/03/2569 21:38:00" or "03/03/26 21:38"
-      const parts = dateStr.split(/[\s/:]+/);
-      if (parts.length < 3) return null;
-      
-      const day = parseInt(parts[0]);
-      const monthIdx = parseInt(parts[1]) - 1;
-      let yearVal = parseInt(parts[2]);
-
-      if (yearVal < 100) {
-        // Handle 2-digit years
-        if (yearVal > 50) yearVal += 2500;
-        else yearVal += 2000;
-      }
-      if (yearVal > 2500) yearVal -= 543;
-
-      const hour = parseInt(parts[3]) || 0;
-      const minute = parseInt(parts[4]) || 0;
-      const second = parseInt(parts[5]) || 0;
+    // A team sees what its members submitted and whatever was submitted at its stations
+    const result = await pool.query(
+      `SELECT id, employee_id, substation_name, timestamp, gps_lat, gps_lng, folder_id, status, verified_categories,
+              within_geofence, distance_m, gps_accuracy_m, out_of_territory, checklist_status = 'abnormal' AS checklist_abnormal
+       FROM inspection_logs
+       WHERE $1::text[] IS NULL OR employee_id = ANY($1) OR trim(substation_name) = ANY($2)`,
+      [teamScope ? Array.from(teamScope.members) : null, teamScope ? Array.from(teamScope.substations) : null]
+    );
+    const teamLogs: any[] = result.rows.map(row => ({
+      ...row,
+      employee_id: row.employee_id || "Unknown",
+      substation_name: (row.substation_name || "").trim() || "Unknown",
+      timestamp: new Date(row.timestamp).toISOString(),
+      gps_lat: row.gps_lat || 0,
+      gps_lng: row.gps_lng || 0,
+      status: row.status || "completed",
+      categories: row.verified_categories || []
+    }));
 
-      // Construct ISO string with +07:00 offset
-      const isoStr = `${yearVal}-${String(monthIdx + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}T${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}:${String(second).padStart(2, '0')}+07:00`;
-      const logDate = new Date(isoStr);
-      
-      if (isNaN(logDate.getTime())) return null;
-      
-      // Check if it matches the filter
-      if (targetMonth && targetYear) {
-        if (logDate.getMonth() + 1 !== targetMonth || logDate.getFullYear() !== targetYear) {
-          return null;
+    // Schedules can reach back before the month (a quarterly category done last month), so completion looks at every row
+    const range = targetMonth && targetYear ? monthRange(targetMonth, targetYear) : null;
+    const filteredLogs = range
+      ? teamLogs.filter(log => new Date(log.timestamp) >= range.start && new Date(log.timestamp) < range.end)
+      : teamLogs;
+
+    const ids = filteredLogs.map(log => log.id);
+    if (ids.length > 0) {
+      const [photoFlags, batteryFlags] = await Promise.all([
+        pool.query(
+          `SELECT inspection_id,
+                  count(*) FILTER (WHERE authenticity = 'suspect') AS suspect_photos,
+                  count(*) FILTER (WHERE authenticity = 'rejected') AS rejected_photos
+           FROM inspection_photos WHERE inspection_id = ANY($1) GROUP BY inspection_id`,
+          [ids]
+        ),
+        pool.query(
+          "SELECT inspection_id, count(*) AS battery_alerts FROM battery_alerts WHERE inspection_id = ANY($1) GROUP BY inspection_id",
+          [ids]
+        )
+      ]);
+      const photoFlagsById = new Map<number, any>(photoFlags.rows.map(row => [row.inspection_id, row]));
+      const batteryFlagsById = new Map<number, any>(batteryFlags.rows.map(row => [row.inspection_id, row]));
+      filteredLogs.forEach(log => {
+        const photoFlag = photoFlagsById.get(log.id);
+        if (photoFlag) {
+          log.suspect_photos = Number(photoFlag.suspect_photos);
+          log.rejected_photos = Number(photoFlag.rejected_photos);
         }
-      }
-
-      const folderUrl = row[5] || "";
-      const folderId = folderUrl.split("/").pop() || "";
-
-      const REQUIRED_CATEGORIES = ['building', 'yard', 'roof', 'annunciation', 'battery', 'grounding', 'security', 'fence', 'lighting', 'checklist'];
-      
-      // Extract categories - handle old (comma-separated), checkmarks, and new (1/0) formats
-      let categories: string[] = [];
-      const colH = (row[7] || "").toString().trim();
-      
-      // Check for 1/0 or checkmarks in columns H through Q (indices 7 to 16)
-      const hasNewFormat = row.slice(7, 17).some(val => {
-        const v = val ? val.toString().trim() : "";
-        return v === "1" || v === "0" || v === "✓" || v === "✔";
+        const batteryFlag = batteryFlagsById.get(log.id);
+        if (batteryFlag) log.battery_alerts = Number(batteryFlag.battery_alerts);
       });
-      
-      if (hasNewFormat) {
-        REQUIRED_CATEGORIES.forEach((cat, i) => {
-          const cellVal = (row[7 + i] || "").toString().trim();
-          if (cellVal === "1" || cellVal === "✓" || cellVal === "✔") {
-            categories.push(cat);
-          }
-        });
-      } else if (colH.includes(',')) {
-        // Fallback to old comma-separated format
-        categories = colH.split(',').map(s => s.trim()).filter(Boolean);
-      } else if (colH) {
-        // Single category or old format with 1 item
-        const possibleCat = colH.toLowerCase();
-        if (REQUIRED_CATEGORIES.includes(possibleCat)) {
-          categories.push(possibleCat);
-        }
-      }
-
-      const logEntry = {
-        id: index,
-        employee_id: row[1] || "Unknown",
-        substation_name: (row[2] || "").trim() || "Unknown",
-        timestamp: logDate.toISOString(),
-        gps_lat: parseFloat(row[3]) || 0,
-        gps_lng: parseFloat(row[4]) || 0,
-        folder_id: folderId,
-        status: row[6] || "completed",
-        categories: categories
-      };
-      return logEntry;
-    }).filter(log => log !== null) as any[];
+    }
 
     // Sort by timestamp descending
     filteredLogs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
-    // Count unique substations that are "Complete"
-    // A substation is complete if it has the 3 mandatory categories covered in the month
-    const MANDATORY_CATEGORIES = ['fence', 'battery', 'checklist'];
-    
-    const substationCompletion = new Map<string, Set<string>>();
-    filteredLogs.forEach(log => {
-      const name = (log.substation_name || "").trim();
-      if (!substationCompletion.has(name)) {
-        substationCompletion.set(name, new Set());
-      }
-      (log.categories || []).forEach((cat: string) => {
-        if (MANDATORY_CATEGORIES.includes(cat)) {
-          substationCompletion.get(name)?.add(cat);
-        }
-      });
-    });
-
-    let completedCount = 0;
-    substationCompletion.forEach((cats) => {
-      if (cats.size >= MANDATORY_CATEGORIES.length) {
-        completedCount++;
-      }
+    // A substation is complete when every category on its schedule is covered in each of the month's periods
+    const now = new Date();
+    const completionMonth = targetMonth && targetYear ? targetMonth : Number(new Intl.DateTimeFormat("en-US", { month: "numeric", timeZone: "Asia/Bangkok" }).format(now));
+    const completionYear = targetMonth && targetYear ? targetYear : Number(new Intl.DateTimeFormat("en-US", { year: "numeric", timeZone: "Asia/Bangkok" }).format(now));
+    const schedules = await getInspectionSchedules();
+    const registered = (await getActiveSubstationNames()).filter(name => !teamScope || teamScope.substations.has(name.trim()));
+    const stationNames = new Set<string>([...registered, ...teamLogs.map(log => log.substation_name)]);
+    const missingCategories: { [substationName: string]: string[] } = {};
+    const requiredCategories: { [substationName: string]: string[] } = {};
+    stationNames.forEach(name => {
+      const schedule = resolveInspectionSchedule(schedules, name);
+      const logs = teamLogs.filter(log => log.substation_name === name);
+      requiredCategories[name] = schedule.filter(s => !s.exempt).map(s => s.category);
+      missingCategories[name] = missingScheduledCategories(schedule, logs, completionMonth, completionYear, now);
     });
+    const completedCount = Array.from(stationNames).filter(name => missingCategories[name].length === 0).length;
 
     res.json({
       total: completedCount,
       totalSubmissions: filteredLogs.length,
       recent: filteredLogs,
+      flaggedSubmissions: filteredLogs.filter(log => log.within_geofence === false || log.out_of_territory).length,
+      requiredCategories,
+      missingCategories,
+      teamSubstations: teamScope ? Array.from(teamScope.substations) : null
     });
   } catch (error: any) {
-    console.error("Dashboard stats error (Sheets):", error);
-    let errorMessage = error.message;
-    if (errorMessage.includes("invalid_grant")) {
-      errorMessage = "สิทธิ์การเข้าถึง Google Sheets หมดอายุ (invalid_grant) กรุณาแจ้งผู้ดูแลระบบให้ทำการต่ออายุ Token ใหม่";
+    console.error("Dashboard stats error:", error);
+    res.status(500).json({ error: "Failed to fetch stats: " + error.message });
+  }
+});
+
+// --- Health Index Policy ---
+
+// Categories that count toward the health index: the registry's active categories with a weight
+async function getScoredCategories(): Promise<InspectionCategory[]> {
+  return (await getInspectionCategories()).filter(c => c.weight > 0);
+}
+
+// Category scores of one substation/month, keyed by category
+async function getCategoryScores(db: any, substationName: string, month: number, year: number): Promise<HealthCategoryScores> {
+  const result = await db.query(
+    "SELECT category, score, na, source FROM health_index_category_scores WHERE substation_name = $1 AND month = $2 AND year = $3",
+    [substationName, month, year]
+  );
+  return Object.fromEntries(result.rows.map((r: any) => [r.category, { score: r.score, na: r.na, source: r.source }]));
+}
+
+// Adds `scores` (the category map) to each health_index_logs row
+async function withCategoryScores(db: any, rows: any[]) {
+  if (rows.length === 0) return rows;
+  const result = await db.query(
+    `SELECT s.substation_name, s.month, s.year, s.category, s.score, s.na, s.source
+     FROM health_index_category_scores s
+     JOIN unnest($1::text[], $2::int[], $3::int[]) AS k(substation_name, month, year)
+       ON k.substation_name = s.substation_name AND k.month = s.month AND k.year = s.year`,
+    [rows.map(r => r.substation_name), rows.map(r => r.month), rows.map(r => r.year)]
+  );
+  const byRow = new Map<string, HealthCategoryScores>();
+  for (const r of result.rows) {
+    const key = `${r.substation_name}|${r.month}|${r.year}`;
+    if (!byRow.has(key)) byRow.set(key, {});
+    byRow.get(key)![r.category] = { score: r.score, na: r.na, source: r.source };
+  }
+  return rows.map(row => ({ ...row, scores: byRow.get(`${row.substation_name}|${row.month}|${row.year}`) || {} }));
+}
+
+// A supervisor's scores ({ [category]: { score, na } }): registered categories only, an empty score is 100
+async function parseHealthScores(input: any): Promise<{ scores?: HealthCategoryScores; error?: string }> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return { error: "กรุณาระบุคะแนนรายหมวด" };
+  const known = new Set((await getInspectionCategories()).map(c => c.key));
+  const scores: HealthCategoryScores = {};
+  for (const [key, value] of Object.entries<any>(input)) {
+    if (!known.has(key)) return { error: `ไม่พบหมวด "${key}" ในทะเบียน` };
+    const na = !!value?.na;
+    const score = value?.score === undefined || value?.score === null || value?.score === "" ? 100 : Number(value.score);
+    if (!na && !(Number.isInteger(score) && score >= 0 && score <= 100)) return { error: "คะแนนต้องเป็นจำนวนเต็ม 0–100" };
+    scores[key] = { score: na ? null : score, na, source: "manual" };
+  }
+  return { scores };
+}
+
+async function getHealthIndexPolicy(version: number): Promise<HealthIndexPolicy | null> {
+  const pool = getDbPool();
+  if (!pool) return version === DEFAULT_HEALTH_INDEX_POLICY.version ? DEFAULT_HEALTH_INDEX_POLICY : null;
+  const result = await pool.query("SELECT * FROM health_index_policies WHERE version = $1", [version]);
+  return result.rows[0] || null;
+}
+
+async function getCurrentHealthIndexPolicy(): Promise<HealthIndexPolicy> {
+  const pool = getDbPool();
+  if (!pool) return DEFAULT_HEALTH_INDEX_POLICY;
+  const result = await pool.query("SELECT * FROM health_index_policies ORDER BY version DESC LIMIT 1");
+  return result.rows[0] || DEFAULT_HEALTH_INDEX_POLICY;
+}
+
+// Held until the caller's transaction ends, so concurrent publishes and category weight edits each
+// derive their version from the one before instead of both taking the same next number
+const HEALTH_INDEX_POLICY_LOCK_KEY = 727_003;
+
+async function lockCurrentHealthIndexPolicy(client: any): Promise<HealthIndexPolicy> {
+  await client.query("SELECT pg_advisory_xact_lock($1)", [HEALTH_INDEX_POLICY_LOCK_KEY]);
+  return (await client.query("SELECT * FROM health_index_policies ORDER BY version DESC LIMIT 1")).rows[0] || DEFAULT_HEALTH_INDEX_POLICY;
+}
+
+// Publishes the next policy version from the current one with the given changes, and keeps the
+// category registry's weights in step. Runs on the caller's transaction.
+async function publishHealthIndexPolicy(client: any, changes: Partial<Pick<HealthIndexPolicy, "weights" | "grades" | "note">>, actorId: string) {
+  const current = await lockCurrentHealthIndexPolicy(client);
+  const weights = { ...current.weights, ...(changes.weights || {}) };
+  const grades = changes.grades || current.grades;
+  const invalid = validateHealthIndexPolicy({ weights, grades });
+  if (invalid) return { error: invalid };
+
+  const result = await client.query(
+    "INSERT INTO health_index_policies (version, weights, grades, note, created_by) VALUES ($1, $2, $3, $4, $5) RETURNING *",
+    [current.version + 1, JSON.stringify(weights), JSON.stringify(grades), changes.note || null, actorId]
+  );
+  for (const [key, weight] of Object.entries(weights)) {
+    await client.query("UPDATE inspection_categories SET weight = $2, updated_at = CURRENT_TIMESTAMP WHERE key = $1 AND weight <> $2", [key, weight]);
+  }
+  return { policy: result.rows[0] as HealthIndexPolicy };
+}
+
+// Stores the index of a substation/month row under the current policy. Runs on the writer's transaction.
+async function applyHealthIndex(client: any, substationName: string, month: number, year: number) {
+  const result = await client.query(
+    "SELECT * FROM health_index_logs WHERE substation_name = $1 AND month = $2 AND year = $3",
+    [substationName, month, year]
+  );
+  if (result.rows.length === 0) return;
+  const policy = (await client.query("SELECT * FROM health_index_policies ORDER BY version DESC LIMIT 1")).rows[0] || DEFAULT_HEALTH_INDEX_POLICY;
+  const hi = computeHealthIndex(await getCategoryScores(client, substationName, month, year), policy);
+  await client.query(
+    "UPDATE health_index_logs SET health_index = $4, grade = $5, policy_version = $6 WHERE substation_name = $1 AND month = $2 AND year = $3",
+    [substationName, month, year, hi.score, hi.grade, policy.version]
+  );
+}
+
+// ?version=N for an earlier policy, to see how an old month was scored
+app.get("/api/health-index-policy", requireAuth, async (req: any, res: any) => {
+  try {
+    if (req.query.version) {
+      const policy = await getHealthIndexPolicy(parseInt(req.query.version));
+      if (!policy) return res.status(404).json({ error: "ไม่พบนโยบายคะแนนฉบับนี้" });
+      return res.json(policy);
+    }
+    res.json(await getCurrentHealthIndexPolicy());
+  } catch (err: any) {
+    console.error("Failed to load health index policy:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.get("/api/health-index-policies", requirePermission("dashboard:read"), async (req: any, res: any) => {
+  const pool = getDbPool();
+  if (!pool) return res.json([DEFAULT_HEALTH_INDEX_POLICY]);
+  try {
+    const result = await pool.query("SELECT * FROM health_index_policies ORDER BY version DESC");
+    res.json(result.rows);
+  } catch (err: any) {
+    console.error("Failed to list health index policies:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// New weights and/or grade cut-offs take effect as a new version; rows already scored keep theirs until they are written again
+app.post("/api/health-index-policy", requirePermission("substations:manage"), async (req: any, res: any) => {
+  const pool = getDbPool();
+  if (!pool) return res.status(500).json({ error: "ยังไม่ได้เชื่อมต่อฐานข้อมูล" });
+  const weights = req.body.weights && typeof req.body.weights === "object"
+    ? Object.fromEntries(Object.entries(req.body.weights).map(([key, w]) => [key, Number(w)]))
+    : undefined;
+  const grades = Array.isArray(req.body.grades)
+    ? req.body.grades.map((g: any) => ({ min: Number(g?.min), label: String(g?.label || "").trim() }))
+    : undefined;
+  if (!weights && !grades) return res.status(400).json({ error: "กรุณาระบุน้ำหนักหรือเกณฑ์เกรด" });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const published = await publishHealthIndexPolicy(client, { weights, grades, note: req.body.note ? String(req.body.note) : null }, req.employeeId);
+    if (!published.policy) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ error: published.error });
     }
-    res.status(500).json({ error: "Failed to fetch stats: " + errorMessage });
+    await client.query("COMMIT");
+    res.json(published.policy);
+  } catch (err: any) {
+    await client.query("ROLLBACK");
+    console.error("Failed to publish health index policy:", err);
+    res.status(500).json({ error: err.message });
+  } finally {
+    client.release();
   }
 });
 
+// --- Audit Trail ---
+const HEALTH_AUDIT_FIELDS = ["status", "summary", "findings", "health_index", "grade", "policy_version"];
+
+// Current health_index_logs row reduced to the audited fields plus its category scores, or null if there is
+// none. Locks the row.
+async function getHealthIndexSnapshot(client: any, substationName: string, month: number, year: number) {
+  const result = await client.query(
+    "SELECT * FROM health_index_logs WHERE substation_name = $1 AND month = $2 AND year = $3 FOR UPDATE",
+    [substationName, month, year]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+  const scores = await getCategoryScores(client, substationName, month, year);
+  return {
+    ...Object.fromEntries(HEALTH_AUDIT_FIELDS.map(field => [field, row[field] ?? null])),
+    scores: Object.fromEntries(Object.entries(scores).map(([key, s]) => [key, { score: s.score, na: s.na }]))
+  };
+}
+
+// Appends a before/after revision for a substation/month row, on the same transaction as the change, so a
+// change that commits always has its revision. The actor is null for changes the server made on its own.
+async function recordHealthIndexRevision(client: any, eventType: string, actorId: string | null, substationName: string, month: number, year: number, before: any) {
+  const after = await getHealthIndexSnapshot(client, substationName, month, year);
+  await client.query(
+    "INSERT INTO audit_events (event_type, substation_name, month, year, actor_id, before, after) VALUES ($1, $2, $3, $4, $5, $6, $7)",
+    [eventType, substationName, month, year, actorId, before ? JSON.stringify(before) : null, after ? JSON.stringify(after) : null]
+  );
+}
+
+// Columns a writer may set on a health_index_logs row
+const HEALTH_ROW_FIELDS = ["status", "findings", "summary"];
+
+// Writes the given fields of a substation/month row and the given category scores (the others keep their
+// values) together with its index under the current policy, the audit revision and the sheet export entry,
+// in one transaction
+async function saveHealthIndexRow(
+  eventType: string, actorId: string, substationName: string, month: number, year: number,
+  fields: { status?: string; findings?: string[]; summary?: string; scores?: HealthCategoryScores }
+) {
+  const client = await getDbPool()!.connect();
+  try {
+    await client.query("BEGIN");
+    const before = await getHealthIndexSnapshot(client, substationName, month, year);
+    const values: { [column: string]: any } = fields;
+    const columns = HEALTH_ROW_FIELDS.filter(column => values[column] !== undefined);
+    // A new row starts with no findings rather than NULL ones
+    const insertColumns = columns.includes("findings") ? columns : [...columns, "findings"];
+    await client.query(
+      `INSERT INTO health_index_logs (substation_name, month, year, analyzed_at, ${insertColumns.join(", ")})
+       VALUES ($1, $2, $3, CURRENT_TIMESTAMP, ${insertColumns.map((_, i) => `$${i + 4}`).join(", ")})
+       ON CONFLICT (substation_name, month, year)
+       DO UPDATE SET analyzed_at = CURRENT_TIMESTAMP${columns.map(column => `, ${column} = EXCLUDED.${column}`).join("")}`,
+      [substationName, month, year, ...insertColumns.map(column => column === "findings" && fields.findings === undefined ? [] : values[column])]
+    );
+    // A new row starts every scored category at 100 unless given, as the old per-category columns' defaults did
+    const scores: HealthCategoryScores = { ...fields.scores };
+    if (!before) {
+      for (const { key } of await getScoredCategories()) {
+        if (!scores[key]) scores[key] = { score: 100, na: false, source: "ai" };
+      }
+    }
+    for (const [category, entry] of Object.entries(scores)) {
+      await client.query(
+        `INSERT INTO health_index_category_scores (substation_name, month, year, category, score, na, source)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (substation_name, month, year, category)
+         DO UPDATE SET score = EXCLUDED.score, na = EXCLUDED.na, source = EXCLUDED.source, updated_at = CURRENT_TIMESTAMP`,
+        [substationName, month, year, category, entry.na ? null : entry.score ?? 100, entry.na, entry.source || "manual"]
+      );
+    }
+    await applyHealthIndex(client, substationName, month, year);
+    await recordHealthIndexRevision(client, eventType, actorId, substationName, month, year, before);
+    await enqueueSheetSync(client, "health", { substation_name: substationName, month, year });
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+  kickSheetSync();
+}
+
 // AI Analysis Endpoint
-app.post("/api/analyze-substation", async (req: any, res: any) => {
+app.post("/api/analyze-substation", requirePermission("analysis:run"), async (req: any, res: any) => {
   const { substationName, month, year, dryRun, force } = req.body;
+  if (force && !hasPermission(req, "analysis:force")) {
+    return res.status(403).json({ error: "คุณไม่มีสิทธิ์สั่งวิเคราะห์ซ้ำทับผลเดิม" });
+  }
   const driveService = getDriveService();
   const apiKey = process.env.GEMINI_API_KEY;
 
-  // Clear historyCache so we pull fresh individual analysis results
-  historyCache = null;
-
   if (!apiKey) {
     return res.status(500).json({ error: "ยังไม่ได้ตั้งค่า GEMINI_API_KEY ในระบบ" });
   }
   if (!driveService) {
     return res.status(500).json({ error: "ยังไม่ได้เชื่อมต่อ Google Drive หรือขาด Refresh Token (กรุณาไปที่หน้าตั้งค่าเพื่อเชื่อมต่อใหม่)" });
   }
+  const pool = getDbPool();
+  if (!pool) {
+    return res.status(503).json({ error: "ยังไม่ได้เชื่อมต่อฐานข้อมูล" });
+  }
 
   try {
-    // Check if already analyzed in Google Sheets first, then DB to avoid redundant calls if not forced
+    // Return the stored result instead of calling the model again unless forced
     if (!force && !dryRun && !req.body.reaggregate) {
-      try {
-        const list = await getHealthIndexFromSheet();
-        const existing = list.find(h => h.substation_name === substationName && h.month === parseInt(month) && h.year === parseInt(year));
-        if (existing) {
-          console.log(`Substation ${substationName} already analyzed in Google Sheet, returning existing result.`);
-          return res.json(existing);
-        }
-      } catch (sheetErr) {
-        console.error("Failed to read from Google Sheet during check:", sheetErr);
-      }
-
-      const pool = getDbPool();
-      if (pool) {
-        const existing = await pool.query(
-          "SELECT * FROM health_index_logs WHERE substation_name = $1 AND month = $2 AND year = $3",
-          [substationName, month, year]
-        );
-        if (existing.rows.length > 0) {
-          console.log(`Substation ${substationName} already analyzed in DB, returning existing result.`);
-          return res.json(existing.rows[0]);
-        }
+      const existing = await pool.query(
+        "SELECT * FROM health_index_logs WHERE substation_name = $1 AND month = $2 AND year = $3",
+        [substationName, month, year]
+      );
+      if (existing.rows.length > 0) {
+        console.log(`Substation ${substationName} already analyzed, returning existing result.`);
+        return res.json((await withCategoryScores(pool, existing.rows))[0]);
       }
     }
     const parentFolderId = process.env.GOOGLE_DRIVE_PARENT_FOLDER_ID || process.env.GOOGLE_DRIVE_ROOT_FOLDER_ID || "1IzXUWJfucyb47Dr32QSVIxBKmoMrWF6J";
@@ -1571,29 +3892,12 @@ app.post("/api/analyze-substation", async (req: any, res: any) => {
         folderId: null
       };
       
-      // Save "No Data" state to Google Sheets so it shows up
-      try {
-        await saveHealthIndexToSheet({
-          substationName, month, year,
-          status: noDataResult.status,
-          findings: noDataResult.findings,
-          summary: noDataResult.summary
-        });
-      } catch (sheetErr) {
-        console.error("Failed to save 'No Data' to Google Sheets:", sheetErr);
-      }
-
-      // Save "No Data" state to DB so it shows up
-      const pool = getDbPool();
-      if (pool) {
-        await pool.query(
-          `INSERT INTO health_index_logs (substation_name, month, year, status, findings, summary)
-           VALUES ($1, $2, $3, $4, $5, $6)
-           ON CONFLICT (substation_name, month, year) 
-           DO UPDATE SET status = EXCLUDED.status, findings = EXCLUDED.findings, summary = EXCLUDED.summary, analyzed_at = CURRENT_TIMESTAMP`,
-          [substationName, month, year, noDataResult.status, noDataResult.findings, noDataResult.summary]
-        );
-      }
+      // Save the "No Data" state so it shows up
+      await saveHealthIndexRow("analysis_no_data", req.employeeId, substationName, parseInt(month), parseInt(year), {
+        status: noDataResult.status,
+        findings: noDataResult.findings,
+        summary: noDataResult.summary
+      });
       
       return res.json(noDataResult);
     }
@@ -1627,35 +3931,18 @@ app.post("/api/analyze-substation", async (req: any, res: any) => {
         summary: `ไม่พบรูปภาพในเดือน ${month}/${year}` 
       };
       
-      // Save "No Image" state to Google Sheets so it shows up
-      try {
-        await saveHealthIndexToSheet({
-          substationName, month, year,
-          status: noImageResult.status,
-          findings: noImageResult.findings,
-          summary: noImageResult.summary
-        });
-      } catch (sheetErr) {
-        console.error("Failed to save 'No Image' to Google Sheets:", sheetErr);
-      }
-
-      const pool = getDbPool();
-      if (pool) {
-        await pool.query(
-          `INSERT INTO health_index_logs (substation_name, month, year, status, findings, summary)
-           VALUES ($1, $2, $3, $4, $5, $6)
-           ON CONFLICT (substation_name, month, year) 
-           DO UPDATE SET status = EXCLUDED.status, findings = EXCLUDED.findings, summary = EXCLUDED.summary, analyzed_at = CURRENT_TIMESTAMP`,
-          [substationName, month, year, noImageResult.status, noImageResult.findings, noImageResult.summary]
-        );
-      }
+      await saveHealthIndexRow("analysis_no_image", req.employeeId, substationName, parseInt(month), parseInt(year), {
+        status: noImageResult.status,
+        findings: noImageResult.findings,
+        summary: noImageResult.summary
+      });
       
       return res.json(noImageResult);
     }
 
     // 5. Download images and analyze them in parallel with a limit
     const individualResults: any[] = [];
-    const history = await getAnalysisHistory();
+    const history = await getImageAnalyses(allImages.map(img => img.id));
     
     // Process in chunks of 5 to avoid rate limits and timeouts while being faster than sequential
     const CHUNK_SIZE = 5;
@@ -1667,16 +3954,17 @@ app.post("/api/analyze-substation", async (req: any, res: any) => {
         try {
           // Check if already analyzed in history (only if not forced)
           if (!force) {
-            const existing = [...history].reverse().find(h => h.fileId === img.id);
+            const existing = history.get(img.id);
             if (existing) {
               console.log(`Image ${img.name} already analyzed, using cached result.`);
               return existing;
             }
           }
 
-          console.log(`Downloading image: ${img.name} (${img.id})...`);
+          const source = await getAnalysisSource(img.id, img.mimeType);
+          console.log(`Downloading image: ${img.name} (${source.fileId === img.id ? img.id : `original ${source.fileId}`})...`);
           const response = await driveService.files.get({
-            fileId: img.id,
+            fileId: source.fileId,
             alt: 'media'
           }, { 
             responseType: 'arraybuffer',
@@ -1745,7 +4033,7 @@ In the 'summary' field, provide a detailed analysis in Thai about what was surve
               { 
                 parts: [
                   { text: prompt }, 
-                  { inlineData: { data: base64, mimeType: img.mimeType || 'image/jpeg' } }
+                  { inlineData: { data: base64, mimeType: source.mimeType || 'image/jpeg' } }
                 ] 
               }
             ],
@@ -1774,14 +4062,9 @@ In the 'summary' field, provide a detailed analysis in Thai about what was surve
             analyzedAt: new Date().toISOString()
           };
           
-          // Save to Google Sheets history
-          await saveAnalysisResult(resultWithMeta);
-          
-          // Update cache if it exists
-          if (historyCache) {
-            historyCache.data.push(resultWithMeta);
-          }
-          
+          await saveImageAnalysis(resultWithMeta, force ? req.employeeId : null);
+          await openDefectsFromAnalysis(resultWithMeta, substationName).catch(err => console.error("Failed to open defects:", err));
+
           return resultWithMeta;
         } catch (err: any) {
           console.error(`Failed to analyze image ${img.name}:`, err.message || err);
@@ -1810,9 +4093,23 @@ In the 'summary' field, provide a detailed analysis in Thai about what was surve
       return res.status(500).json({ error: "ไม่สามารถวิเคราะห์รูปภาพได้เลย" });
     }
 
-    // 6. Aggregate results
-    const isRed = individualResults.some(r => r.status === 'Red');
-    const allFindings = Array.from(new Set(individualResults.flatMap(r => r.findings || [])));
+    // 6. Aggregate results. Out-of-range checklist readings from the month's inspections turn the station red too.
+    const checklistExceptions = await getChecklistExceptions(substationName, parseInt(month), parseInt(year)).catch(err => {
+      console.error("Failed to load checklist answers:", err);
+      return [];
+    });
+    // Battery cells past an absolute limit do the same; drift and spread are reported as findings only
+    const batteryLog = await getMonthlyBatteryAlerts(substationName, parseInt(month), parseInt(year)).catch(err => {
+      console.error("Failed to load battery readings:", err);
+      return { hasReadings: false, alerts: [] as any[] };
+    });
+    const isRed = individualResults.some(r => r.status === 'Red') || checklistExceptions.length > 0 ||
+      (BATTERY_SCORE_SOURCE !== "image" && batteryLog.alerts.some(a => a.kind === "limit"));
+    const allFindings = Array.from(new Set([
+      ...individualResults.flatMap(r => r.findings || []),
+      ...checklistExceptions.map(describeChecklistAnswer),
+      ...(BATTERY_SCORE_SOURCE !== "image" ? batteryLog.alerts.map(a => a.message) : [])
+    ]));
     
     const redResults = individualResults.filter(r => r.status === 'Red');
     const greenResults = individualResults.filter(r => r.status === 'Green');
@@ -1825,134 +4122,55 @@ In the 'summary' field, provide a detailed analysis in Thai about what was surve
     } else {
       summaryText += `ทุกภาพอยู่ในสภาพปกติเรียบร้อยดี`;
     }
+    if (checklistExceptions.length > 0) {
+      summaryText += `\nค่าจาก Checklist เกินเกณฑ์ ${checklistExceptions.length} รายการ:\n`;
+      summaryText += checklistExceptions.map(r => `- ${describeChecklistAnswer(r)}`).join('\n');
+    }
 
-    // Dynamic Weighting Analysis Aggregation from AI categorized images
-    const categoryMapping: any = {
-      battery: { count: 0, minScore: 100 },
-      yard: { count: 0, minScore: 100 },
-      checklist: { count: 0, minScore: 100 },
-      roof: { count: 0, minScore: 100 },
-      fence: { count: 0, minScore: 100 },
-      security: { count: 0, minScore: 100 }
-    };
-
+    // Dynamic weighting: each scored category takes the lowest score of its images, N/A when it has none
+    const scoredCategories = await getScoredCategories();
+    const imageScores = new Map<string, number>();
     individualResults.forEach((r: any) => {
       if (!r.category) return;
       const cat = r.category.toLowerCase().trim();
       const scoreVal = typeof r.score === 'number' ? r.score : parseInt(r.score) || 100;
-      if (categoryMapping[cat] !== undefined) {
-        categoryMapping[cat].count += 1;
-        categoryMapping[cat].minScore = Math.min(categoryMapping[cat].minScore, scoreVal);
-      }
+      imageScores.set(cat, Math.min(imageScores.get(cat) ?? 100, scoreVal));
     });
+    const scores: HealthCategoryScores = {};
+    for (const { key } of scoredCategories) {
+      scores[key] = imageScores.has(key) ? { score: imageScores.get(key)!, na: false, source: "ai" } : { score: null, na: true, source: "ai" };
+    }
 
-    const battery_na = categoryMapping.battery.count === 0;
-    const battery_score = battery_na ? 100 : categoryMapping.battery.minScore;
-
-    const yard_na = categoryMapping.yard.count === 0;
-    const yard_score = yard_na ? 100 : categoryMapping.yard.minScore;
-
-    const checklist_na = categoryMapping.checklist.count === 0;
-    const checklist_score = checklist_na ? 100 : categoryMapping.checklist.minScore;
-
-    const roof_na = categoryMapping.roof.count === 0;
-    const roof_score = roof_na ? 100 : categoryMapping.roof.minScore;
-
-    const fence_na = categoryMapping.fence.count === 0;
-    const fence_score = fence_na ? 100 : categoryMapping.fence.minScore;
-
-    const security_na = categoryMapping.security.count === 0;
-    const security_score = security_na ? 100 : categoryMapping.security.minScore;
+    if (scores.battery) {
+      const imageBatteryScore = imageScores.get("battery") ?? null;
+      const readingsBatteryScore = BATTERY_SCORE_SOURCE !== "image" && batteryLog.hasReadings ? batteryReadingsScore(batteryLog.alerts) : null;
+      const batteryScores = (BATTERY_SCORE_SOURCE === "readings" && readingsBatteryScore !== null
+        ? [readingsBatteryScore]
+        : [imageBatteryScore, readingsBatteryScore]
+      ).filter((score): score is number => score !== null);
+      if (batteryScores.length > 0) {
+        const score = Math.min(...batteryScores);
+        scores.battery = { score, na: false, source: score === readingsBatteryScore ? "readings" : "ai" };
+      }
+    }
+    if (scores.checklist && checklistExceptions.length > 0) {
+      scores.checklist = { score: 0, na: false, source: "checklist" };
+    }
 
     const finalAnalysis = {
       status: isRed ? 'Red' : 'Green',
       findings: allFindings,
       summary: summaryText.length > 1000 ? summaryText.substring(0, 997) + "..." : summaryText,
-      battery_score,
-      battery_na,
-      yard_score,
-      yard_na,
-      checklist_score,
-      checklist_na,
-      roof_score,
-      roof_na,
-      fence_score,
-      fence_na,
-      security_score,
-      security_na
+      scores
     };
     
-    // Save to Google Sheets
+    // 7. Save it; the sheet export follows from the queue
     try {
-      await saveHealthIndexToSheet({
-        substationName, month, year,
-        status: finalAnalysis.status,
-        findings: finalAnalysis.findings,
-        summary: finalAnalysis.summary,
-        battery_score: finalAnalysis.battery_score,
-        battery_na: finalAnalysis.battery_na,
-        yard_score: finalAnalysis.yard_score,
-        yard_na: finalAnalysis.yard_na,
-        checklist_score: finalAnalysis.checklist_score,
-        checklist_na: finalAnalysis.checklist_na,
-        roof_score: finalAnalysis.roof_score,
-        roof_na: finalAnalysis.roof_na,
-        fence_score: finalAnalysis.fence_score,
-        fence_na: finalAnalysis.fence_na,
-        security_score: finalAnalysis.security_score,
-        security_na: finalAnalysis.security_na
-      });
-      console.log(`Saved AI Analysis with dynamic weighting to Google Sheets for ${substationName}`);
-    } catch (sheetErr) {
-      console.error("Failed to save analysis to Google Sheets:", sheetErr);
-    }
-
-    // 7. Save to DB
-    const pool = getDbPool();
-    if (pool) {
-      try {
-        const q = `
-          INSERT INTO health_index_logs (
-            substation_name, month, year, status, findings, summary, analyzed_at,
-            battery_score, battery_na,
-            yard_score, yard_na,
-            checklist_score, checklist_na,
-            roof_score, roof_na,
-            fence_score, fence_na,
-            security_score, security_na
-          ) VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
-          ON CONFLICT (substation_name, month, year)
-          DO UPDATE SET
-            status = EXCLUDED.status,
-            findings = EXCLUDED.findings,
-            summary = EXCLUDED.summary,
-            analyzed_at = CURRENT_TIMESTAMP,
-            battery_score = EXCLUDED.battery_score,
-            battery_na = EXCLUDED.battery_na,
-            yard_score = EXCLUDED.yard_score,
-            yard_na = EXCLUDED.yard_na,
-            checklist_score = EXCLUDED.checklist_score,
-            checklist_na = EXCLUDED.checklist_na,
-            roof_score = EXCLUDED.roof_score,
-            roof_na = EXCLUDED.roof_na,
-            fence_score = EXCLUDED.fence_score,
-            fence_na = EXCLUDED.fence_na,
-            security_score = EXCLUDED.security_score,
-            security_na = EXCLUDED.security_na
-        `;
-        const dbResult = await pool.query(q, [
-          substationName, parseInt(month as string), parseInt(year as string), finalAnalysis.status, finalAnalysis.findings, finalAnalysis.summary,
-          finalAnalysis.battery_score, finalAnalysis.battery_na,
-          finalAnalysis.yard_score, finalAnalysis.yard_na,
-          finalAnalysis.checklist_score, finalAnalysis.checklist_na,
-          finalAnalysis.roof_score, finalAnalysis.roof_na,
-          finalAnalysis.fence_score, finalAnalysis.fence_na,
-          finalAnalysis.security_score, finalAnalysis.security_na
-        ]);
-        console.log(`Saved AI Analysis with dynamic weighting to DB for ${substationName}: ${dbResult.rowCount} rows affected`);
-      } catch (dbErr) {
-        console.error("Failed to save health index to DB:", dbErr);
-      }
+      const eventType = force ? "analysis_forced" : req.body.reaggregate ? "analysis_reaggregated" : "analysis";
+      await saveHealthIndexRow(eventType, req.employeeId, substationName, parseInt(month as string), parseInt(year as string), finalAnalysis);
+      console.log(`Saved AI Analysis with dynamic weighting for ${substationName}`);
+    } catch (dbErr) {
+      console.error("Failed to save health index:", dbErr);
     }
 
     res.json({ ...finalAnalysis, folderId });
@@ -1963,21 +4181,11 @@ In the 'summary' field, provide a detailed analysis in Thai about what was surve
   }
 });
 
-app.get("/api/health-index", async (req, res) => {
+app.get("/api/health-index", requirePermission("dashboard:read"), async (req: any, res: any) => {
   const { month, year } = req.query;
   const filterMonth = parseInt(month as string);
   const filterYear = parseInt(year as string);
 
-  try {
-    const list = await getHealthIndexFromSheet();
-    if (list.length > 0) {
-      const filtered = list.filter(item => item.month === filterMonth && item.year === filterYear);
-      return res.json(filtered);
-    }
-  } catch (sheetErr) {
-    console.error("Failed to read health index from Google Sheets database tab:", sheetErr);
-  }
-
   const pool = getDbPool();
   if (!pool) return res.json([]);
 
@@ -1986,104 +4194,245 @@ app.get("/api/health-index", async (req, res) => {
       "SELECT * FROM health_index_logs WHERE month = $1 AND year = $2",
       [filterMonth, filterYear]
     );
-    res.json(result.rows);
+    res.json(await withCategoryScores(pool, result.rows));
   } catch (err) {
     console.error("Failed to fetch health index from Postgres:", err);
     res.status(500).json({ error: "Failed to fetch health index" });
   }
 });
 
-app.post("/api/save-health-audit", async (req: any, res: any) => {
-  const { 
-    substationName, month, year, 
-    battery_score, battery_na,
-    yard_score, yard_na,
-    checklist_score, checklist_na,
-    roof_score, roof_na,
-    fence_score, fence_na,
-    security_score, security_na,
-    summary, status 
-  } = req.body;
-
-  let sheetSaved = false;
-  let sheetError = null;
-
-  // 1. Try to save to Google Sheets (Primary target based on user's instruction)
-  try {
-    await saveHealthIndexToSheet({
-      substationName, month, year,
-      status, findings: [], summary,
-      battery_score, battery_na,
-      yard_score, yard_na,
-      checklist_score, checklist_na,
-      roof_score, roof_na,
-      fence_score, fence_na,
-      security_score, security_na
+app.post("/api/save-health-audit", requirePermission("audit:write"), async (req: any, res: any) => {
+  const { substationName, month, year, summary, status } = req.body;
+  if (!substationName || !(parseInt(month) >= 1 && parseInt(month) <= 12) || !parseInt(year)) {
+    return res.status(400).json({ error: "กรุณาระบุสถานี เดือน และปี" });
+  }
+  if (!getDbPool()) {
+    return res.status(503).json({ error: "ยังไม่ได้เชื่อมต่อฐานข้อมูล" });
+  }
+
+  try {
+    const parsed = await parseHealthScores(req.body.scores);
+    if (!parsed.scores) return res.status(400).json({ error: parsed.error });
+    // Findings stay as the AI left them
+    await saveHealthIndexRow("manual_override", req.employeeId, substationName, parseInt(month), parseInt(year), {
+      status: status || "Green",
+      summary: summary || "",
+      scores: parsed.scores
     });
-    sheetSaved = true;
+    res.json({ success: true });
   } catch (err: any) {
-    console.error("Failed to save health audit to Google Sheets: database", err);
-    sheetError = err.message || err;
+    console.error("Failed to save health audit:", err);
+    res.status(500).json({ error: `ไม่สามารถบันทึกได้เนื่องจาก: ${err.message}` });
   }
+});
 
-  // 2. Try to save to Postgres (Secondary/Fallback target)
-  const pool = getDbPool();
-  if (pool) {
-    try {
-      const q = `
-        INSERT INTO health_index_logs (
-          substation_name, month, year, status, findings, summary, analyzed_at,
-          battery_score, battery_na,
-          yard_score, yard_na,
-          checklist_score, checklist_na,
-          roof_score, roof_na,
-          fence_score, fence_na,
-          security_score, security_na
-        ) VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
-        ON CONFLICT (substation_name, month, year)
-        DO UPDATE SET
-          status = EXCLUDED.status,
-          summary = EXCLUDED.summary,
-          analyzed_at = CURRENT_TIMESTAMP,
-          battery_score = EXCLUDED.battery_score,
-          battery_na = EXCLUDED.battery_na,
-          yard_score = EXCLUDED.yard_score,
-          yard_na = EXCLUDED.yard_na,
-          checklist_score = EXCLUDED.checklist_score,
-          checklist_na = EXCLUDED.checklist_na,
-          roof_score = EXCLUDED.roof_score,
-          roof_na = EXCLUDED.roof_na,
-          fence_score = EXCLUDED.fence_score,
-          fence_na = EXCLUDED.fence_na,
-          security_score = EXCLUDED.security_score,
-          security_na = EXCLUDED.security_na
-      `;
-      await pool.query(q, [
-        substationName, parseInt(month), parseInt(year), status || 'Green', [], summary || '',
-        battery_score !== undefined ? parseInt(battery_score) : 100, !!battery_na,
-        yard_score !== undefined ? parseInt(yard_score) : 100, !!yard_na,
-        checklist_score !== undefined ? parseInt(checklist_score) : 100, !!checklist_na,
-        roof_score !== undefined ? parseInt(roof_score) : 100, !!roof_na,
-        fence_score !== undefined ? parseInt(fence_score) : 100, !!fence_na,
-        security_score !== undefined ? parseInt(security_score) : 100, !!security_na
-      ]);
-    } catch (dbErr) {
-      console.error("Failed to save health audit to PostgreSQL:", dbErr);
+// Monthly index and category scores of one substation (?substation=&from=YYYY-MM&to=YYYY-MM, the last 24 months
+// by default). A month whose latest change was a supervisor's audit carries it as `override`.
+app.get("/api/health-index/history", requirePermission("dashboard:read"), async (req: any, res: any) => {
+  const substationName = String(req.query.substation || "").trim();
+  if (!substationName) return res.status(400).json({ error: "กรุณาระบุสถานี" });
+
+  const now = new Date();
+  const currentMonth = Number(new Intl.DateTimeFormat("en-US", { year: "numeric", timeZone: "Asia/Bangkok" }).format(now)) * 12
+    + Number(new Intl.DateTimeFormat("en-US", { month: "numeric", timeZone: "Asia/Bangkok" }).format(now)) - 1;
+  const to = req.query.to ? parseMonthParam(req.query.to) : currentMonth;
+  const from = req.query.from ? parseMonthParam(req.query.from) : (to ?? currentMonth) - 23;
+  if (to === null || from === null || from > to) return res.status(400).json({ error: "ช่วงเดือนไม่ถูกต้อง (รูปแบบ YYYY-MM)" });
+  if (to - from >= 60) return res.status(400).json({ error: "เลือกช่วงได้ไม่เกิน 60 เดือน" });
+
+  try {
+    const monthKey = (row: any) => Number(row.year) * 12 + Number(row.month) - 1;
+    const pool = getDbPool();
+    const rows = pool
+      ? await withCategoryScores(pool, (await pool.query("SELECT * FROM health_index_logs WHERE substation_name = $1 AND year * 12 + month - 1 BETWEEN $2 AND $3", [substationName, from, to])).rows)
+      : [];
+    const categoryKeys = (await getScoredCategories()).map(c => c.key);
+    const byMonth = new Map<number, any>(rows.map(row => [monthKey(row), row]));
+
+    const overrides = new Map<number, any>();
+    if (pool) {
+      const latest = await pool.query(
+        `SELECT DISTINCT ON (a.year, a.month) a.year, a.month, a.event_type, a.actor_id, e.name AS actor_name, a.created_at
+         FROM audit_events a LEFT JOIN employees e ON e.employee_id = a.actor_id
+         WHERE a.substation_name = $1 AND a.year * 12 + a.month - 1 BETWEEN $2 AND $3
+         ORDER BY a.year, a.month, a.created_at DESC, a.id DESC`,
+        [substationName, from, to]
+      );
+      latest.rows.filter(row => row.event_type === "manual_override").forEach(row => {
+        overrides.set(monthKey(row), { at: row.created_at, actor_id: row.actor_id, actor_name: row.actor_name });
+      });
     }
-  }
 
-  if (sheetSaved) {
-    res.json({ success: true });
-  } else {
-    if (!pool) {
-      res.status(500).json({ error: `ไม่สามารถบันทึกได้: ล้มเหลวจากการเขียนพอร์ตชีต (${sheetError || 'ไม่สามารถเชื่อมต่อ Google Sheets ได้'}) และไม่ได้เชื่อมบริการฐานข้อมูล Postgres` });
-    } else {
-      res.status(500).json({ error: `ไม่สามารถบันทึกได้เนื่องจาก: ${sheetError || 'ข้อผิดพลาดระบบ Google Sheets'}` });
+    const months = [];
+    for (let key = from; key <= to; key++) {
+      const row = byMonth.get(key);
+      months.push({
+        year: Math.floor(key / 12),
+        month: key % 12 + 1,
+        health_index: row?.health_index ?? null,
+        grade: row?.grade ?? null,
+        policy_version: row?.policy_version ?? null,
+        status: row?.status ?? null,
+        analyzed_at: row?.analyzed_at ?? null,
+        // Every scored category plus any other the month has a score for; null for N/A or no result
+        scores: Object.fromEntries(Array.from(new Set([...categoryKeys, ...Object.keys(row?.scores || {})]))
+          .map(cat => [cat, !row?.scores[cat] || row.scores[cat].na ? null : row.scores[cat].score])),
+        override: overrides.get(key) || null
+      });
     }
+    res.json({ substationName, months });
+  } catch (err: any) {
+    console.error("Failed to load health index history:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Substation attributes the fleet analytics can group by
+const ANALYTICS_GROUPS: Record<string, string> = { area: "s.area", voltage_class: "s.voltage_class" };
+
+// Fleet view of one month's health index: per-group averages and grade counts, month-over-month
+// change, the stations that moved most, and station x category scores. All aggregated in Postgres.
+app.get("/api/health-index/analytics", requirePermission("dashboard:read"), async (req: any, res: any) => {
+  const month = parseInt(req.query.month as string);
+  const year = parseInt(req.query.year as string);
+  if (!(month >= 1 && month <= 12) || !(year > 2000)) return res.status(400).json({ error: "กรุณาระบุเดือนและปี" });
+  const groupBy = String(req.query.groupBy || "area");
+  if (!ANALYTICS_GROUPS[groupBy]) return res.status(400).json({ error: `จัดกลุ่มได้ตาม ${Object.keys(ANALYTICS_GROUPS).join(", ")}` });
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 5, 1), 20);
+  const pool = getDbPool();
+  if (!pool) return res.status(503).json({ error: "ยังไม่ได้เชื่อมต่อฐานข้อมูล" });
+
+  try {
+    const teamScope = req.query.team ? await getTeamScope(String(req.query.team)) : null;
+    const previous = month === 1 ? { month: 12, year: year - 1 } : { month: month - 1, year };
+    const categories = (await getScoredCategories()).map(c => c.key);
+    const scored = `
+      WITH scored AS (
+        SELECT c.substation_name, COALESCE(${ANALYTICS_GROUPS[groupBy]}, '') AS grp, c.health_index, c.grade,
+               p.health_index AS previous_health_index, c.health_index - p.health_index AS delta
+        FROM health_index_logs c
+        LEFT JOIN substations s ON s.name = c.substation_name
+        LEFT JOIN health_index_logs p ON p.substation_name = c.substation_name AND p.month = $3 AND p.year = $4 AND p.health_index IS NOT NULL
+        WHERE c.month = $1 AND c.year = $2 AND c.health_index IS NOT NULL AND ($5::text[] IS NULL OR c.substation_name = ANY($5))
+      )`;
+    const params = [month, year, previous.month, previous.year, teamScope ? Array.from(teamScope.substations) : null];
+
+    // Same reading of a category as /api/health-index/history: N/A rows are left out
+    const categoryJoin = `JOIN health_index_category_scores cs ON cs.substation_name = scored.substation_name AND cs.month = $1 AND cs.year = $2 AND NOT cs.na`;
+
+    const [groups, categoryAverages, grades, improved, degraded, heatmap, registered] = await Promise.all([
+      // The row with a NULL group is the fleet total
+      pool.query(
+        `${scored}
+         SELECT grp, GROUPING(grp) = 1 AS is_total, COUNT(*)::int AS scored, ROUND(AVG(health_index)::numeric, 1)::float AS avg_health_index,
+                COUNT(delta)::int AS compared, ROUND(AVG(delta)::numeric, 1)::float AS avg_delta
+         FROM scored GROUP BY ROLLUP(grp) ORDER BY is_total, grp`,
+        params
+      ),
+      pool.query(
+        `${scored}
+         SELECT grp, GROUPING(grp) = 1 AS is_total, cs.category, ROUND(AVG(cs.score)::numeric, 1)::float AS average
+         FROM scored ${categoryJoin} GROUP BY ROLLUP(grp), cs.category`,
+        params
+      ),
+      pool.query(`${scored} SELECT grp, grade, COUNT(*)::int AS count FROM scored GROUP BY grp, grade`, params),
+      pool.query(
+        `${scored} SELECT substation_name, grp, health_index, previous_health_index, delta FROM scored
+         WHERE delta > 0 ORDER BY delta DESC, substation_name LIMIT ${limit}`,
+        params
+      ),
+      pool.query(
+        `${scored} SELECT substation_name, grp, health_index, previous_health_index, delta FROM scored
+         WHERE delta < 0 ORDER BY delta ASC, substation_name LIMIT ${limit}`,
+        params
+      ),
+      pool.query(
+        `${scored}
+         SELECT scored.substation_name, grp, health_index, grade, COALESCE(jsonb_object_agg(cs.category, cs.score) FILTER (WHERE cs.category IS NOT NULL), '{}') AS scores
+         FROM scored LEFT ${categoryJoin}
+         GROUP BY scored.substation_name, grp, health_index, grade
+         ORDER BY grp, health_index, scored.substation_name`,
+        params
+      ),
+      pool.query(
+        `SELECT COALESCE(${ANALYTICS_GROUPS[groupBy]}, '') AS grp, COUNT(*)::int AS stations FROM substations s
+         WHERE ${SUBSTATION_ACTIVE_SQL} AND ($1::text[] IS NULL OR s.name = ANY($1))
+         GROUP BY ROLLUP(grp)`,
+        [params[4]]
+      )
+    ]);
+
+    const gradeCounts = (grp: string | null) => {
+      const counts: Record<string, number> = {};
+      grades.rows.filter(r => grp === null || r.grp === grp).forEach(r => {
+        counts[r.grade] = (counts[r.grade] || 0) + r.count;
+      });
+      return counts;
+    };
+    const categoryAveragesOf = (grp: string | null) => Object.fromEntries(categories.map(cat => [
+      cat,
+      categoryAverages.rows.find(r => r.category === cat && (grp === null ? r.is_total : !r.is_total && r.grp === grp))?.average ?? null
+    ]));
+    const stationCount = (grp: string | null) => registered.rows.find(r => (grp === null ? r.grp === null : r.grp === grp))?.stations || 0;
+    const summarize = (row: any) => ({
+      group: row.is_total ? null : row.grp,
+      stations: stationCount(row.is_total ? null : row.grp),
+      scored: row.scored,
+      avg_health_index: row.avg_health_index,
+      compared: row.compared,
+      avg_delta: row.avg_delta,
+      grade_counts: gradeCounts(row.is_total ? null : row.grp),
+      category_averages: categoryAveragesOf(row.is_total ? null : row.grp)
+    });
+    const mover = (row: any) => ({ substation_name: row.substation_name, group: row.grp, health_index: row.health_index, previous_health_index: row.previous_health_index, delta: Math.round(row.delta * 10) / 10 });
+    // ROLLUP returns the total row even for a month without results
+    const total = groups.rows.find(r => r.is_total);
+
+    res.json({
+      month,
+      year,
+      previous,
+      groupBy,
+      categories,
+      fleet: summarize(total),
+      groups: groups.rows.filter(r => !r.is_total).map(summarize),
+      mostImproved: improved.rows.map(mover),
+      mostDegraded: degraded.rows.map(mover),
+      heatmap: heatmap.rows.map(row => ({
+        substation_name: row.substation_name,
+        group: row.grp,
+        health_index: row.health_index,
+        grade: row.grade,
+        scores: Object.fromEntries(categories.map(cat => [cat, row.scores[cat] ?? null]))
+      }))
+    });
+  } catch (err: any) {
+    console.error("Failed to compute health index analytics:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Revisions of one substation/month row, newest first
+app.get("/api/health-index/audit", requirePermission("dashboard:read"), async (req: any, res: any) => {
+  const { substationName, month, year } = req.query;
+  const pool = getDbPool();
+  if (!pool) return res.json([]);
+  try {
+    const result = await pool.query(
+      `SELECT a.id, a.event_type, a.actor_id, e.name AS actor_name, a.before, a.after, a.created_at
+       FROM audit_events a LEFT JOIN employees e ON e.employee_id = a.actor_id
+       WHERE a.substation_name = $1 AND a.month = $2 AND a.year = $3
+       ORDER BY a.created_at DESC, a.id DESC`,
+      [substationName, parseInt(month as string), parseInt(year as string)]
+    );
+    res.json(result.rows);
+  } catch (err: any) {
+    console.error("Failed to load audit history:", err);
+    res.status(500).json({ error: err.message });
   }
 });
 
-app.get("/api/debug-db", async (req, res) => {
+app.get("/api/debug-db", requirePermission("system:debug"), async (req: any, res: any) => {
   const pool = getDbPool();
   if (!pool) return res.json({ error: "No DATABASE_URL found in environment variables." });
   try {
@@ -2106,12 +4455,30 @@ app.get("/api/debug-db", async (req, res) => {
 export default app;
 
 async function startServer() {
+  // Don't serve against an outdated schema; npm run migrate applies what's pending
+  try {
+    const pending = await getSchemaPending();
+    if (pending.length > 0) {
+      console.error(`Database schema is behind this build. Pending migrations: ${pending.map(migrationLabel).join(", ")}. Run "npm run migrate".`);
+      process.exit(1);
+    }
+  } catch (e) {
+    console.error("Schema check failed:", e);
+  }
+
   try {
     await initDb();
   } catch (e) {
     console.error("DB Init failed:", e);
   }
 
+  // Export whatever was written while no process was running, then keep the sheet in step
+  kickSheetSync();
+  setInterval(kickSheetSync, SHEET_SYNC_INTERVAL_MS);
+  if (SHEET_IMPORT_INTERVAL_MS > 0) {
+    setInterval(() => runSheetImport().catch(err => console.error("Sheets import failed:", err)), SHEET_IMPORT_INTERVAL_MS);
+  }
+
   if (process.env.NODE_ENV !== "production") {
     const { createServer: createViteServer } = await import("vite");
     const vite = await createViteServer({
@@ -22,9 +22,40 @@ import {
   Info,
   Shield,
   Wrench,
-  Sparkles
+  Sparkles,
+  CloudOff,
+  RefreshCw,
+  Trash2,
+  Activity,
+  Hammer
 } from 'lucide-react';
-import { cn, SUBSTATIONS, InspectionLog } from './constants';
+import {
+  cn, SUBSTATIONS, AREAS, InspectionLog, CurrentUser, Substation, CaptureManifest,
+  ChecklistItem, ChecklistAnswer, DEFAULT_CHECKLIST_ITEMS, substationTypeKeys, checklistItemApplies, isChecklistValueAbnormal,
+  Defect, DefectStatus, DefectSeverity,
+  InspectionSchedule, InspectionFrequency, ScheduleState, FREQUENCY_LABELS, resolveInspectionSchedule,
+  InspectionCategory, DEFAULT_INSPECTION_CATEGORIES, categoryLabel, submissionNameSuffix, distanceMeters, keepsOriginal
+} from './constants';
+import { readPhotoExif, assessPhotoAuthenticity, copyExifSegment, PhotoAuthenticity, MAX_CAPTURE_AGE_MINUTES } from './photoAuthenticity';
+import { BatteryThresholds, BatteryCellReading, BatteryAlert, DEFAULT_BATTERY_THRESHOLDS, isBatteryValueOutOfLimit } from './batteryReadings';
+import { HealthIndexPolicy, HealthCategoryScores, DEFAULT_HEALTH_INDEX_POLICY, computeHealthIndex, healthIndexGrade } from './healthIndex';
+import {
+  enqueueSubmission,
+  processSubmission,
+  removeSubmission,
+  listSubmissions,
+  listPhotos,
+  subscribeQueue,
+  saveDraft,
+  loadDraft,
+  clearDraft,
+  PermanentUploadError,
+  startQueueRunner,
+  pauseQueueRunner,
+  QueuedSubmission,
+  QueuedPhoto,
+  BatteryBankDraft
+} from './offlineQueue';
 import { format } from 'date-fns';
 import { th } from 'date-fns/locale';
 import imageCompression from 'browser-image-compression';
@@ -62,22 +93,146 @@ const Card = ({ children, className, onClick, ...props }: { children: React.Reac
 
 // --- Pages ---
 
-const CATEGORY_LABELS: {[key: string]: string} = {
-  yard: 'ลานไกไฟฟ้า',
-  roof: 'หลังคาอาคาร',
-  battery: 'แบตเตอรี่',
-  security: 'รปภ.',
-  fence: 'รั้วสถานี',
-  checklist: 'Check List',
+const AUDIT_EVENT_LABELS: {[key: string]: string} = {
+  analysis: 'AI ประเมินผล',
+  analysis_forced: 'AI ประเมินซ้ำ (บังคับทับผลเดิม)',
+  image_analysis_forced: 'AI ประเมินภาพซ้ำ (บังคับทับผลเดิม)',
+  analysis_reaggregated: 'AI สรุปผลใหม่จากผลรายภาพ',
+  analysis_no_data: 'ไม่พบโฟลเดอร์ข้อมูลของเดือน',
+  analysis_no_image: 'ไม่พบรูปภาพของเดือน',
+  manual_override: 'แก้ไขผลประเมินโดยผู้ตรวจ',
+  policy_backfill: 'คำนวณดัชนีย้อนหลังตามนโยบายเริ่มต้น'
 };
 
-const LoginPage = ({ onLogin }: { onLogin: (id: string) => void }) => {
+const AUDIT_FIELD_LABELS: [string, string][] = [
+  ['status', 'สถานะ'],
+  ['health_index', 'Health Index'], ['grade', 'เกรด'], ['policy_version', 'นโยบายคะแนนฉบับที่']
+];
+const AUDIT_NOTE_FIELD_LABELS: [string, string][] = [
+  ['summary', 'สรุป'],
+  ['findings', 'ข้อพบเห็น']
+];
+
+// An audit snapshot with its category scores flattened to {category}_score / {category}_na, the shape
+// revisions recorded before the scores table already have
+const auditSnapshotFields = (snapshot: any): { [field: string]: any } => {
+  if (!snapshot) return {};
+  const fields = { ...snapshot };
+  for (const [key, entry] of Object.entries<any>(snapshot.scores || {})) {
+    fields[`${key}_score`] = entry.score;
+    fields[`${key}_na`] = entry.na;
+  }
+  return fields;
+};
+
+// Fields of a revision to compare, with a score and an N/A row for every category either side has
+const auditFieldLabels = (before: any, after: any, categories: InspectionCategory[]): [string, string][] => {
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => field.endsWith('_score'))
+    .map(field => field.slice(0, -'_score'.length));
+  return [
+    ...AUDIT_FIELD_LABELS,
+    ...keys.flatMap((key): [string, string][] => [
+      [`${key}_score`, categoryLabel(categories, key)],
+      [`${key}_na`, `${categoryLabel(categories, key)} N/A`]
+    ]),
+    ...AUDIT_NOTE_FIELD_LABELS
+  ];
+};
+
+// Score options of the audit form; categories not listed get AUDIT_DEFAULT_RUBRIC
+const AUDIT_SCORE_RUBRICS: { [key: string]: { title: string; options: { val: number; desc: string }[] } } = {
+  battery: {
+    title: '🔋 แบตเตอรี่ (น้ำกลั่น)',
+    options: [
+      { val: 100, desc: "100% - ระดับน้ำกลั่นทุกลูกอยู่ระหว่างขีด Upper-Lower เห็นชัดเจนในรูป ขั้วแบตไม่มีคราบเกลือ" },
+      { val: 50, desc: "50% - มีบางลูกระดับน้ำเริ่มต่ำกว่ากึ่งกลางแต่ยังไม่พ้นขีดล่าง หรือภาพถ่ายเบลอจนระบุระดับได้ยาก" },
+      { val: 0, desc: "0% - น้ำกลั่นแห้งต่ำกว่าขีดล่าง หรือพบความผิดปกติที่ตัวถังแบตเตอรี่" }
+    ]
+  },
+  yard: {
+    title: '⚡ ลานไกสถานีไฟฟ้า',
+    options: [
+      { val: 100, desc: "100% - พื้นลานกรวดไม่มีวัชพืช 100%, Bus bar สะอาดไม่มีเศษพลาสติก/สายสิญจน์/รังนก" },
+      { val: 70, desc: "70% - พบวัชพืชเล็กน้อย หรือมีคราบน้ำมันที่พื้น" },
+      { val: 30, desc: "30% - หญ้าสูงพ้นระดับหินกรวด หรือมีสิ่งแปลกปลอมใกล้ระยะ Flashover ของ Bus bar" },
+      { val: 0, desc: "0% - รกร้าง มีวัชพืชหนาแน่นจัด หรือมีสิ่งรุกล้ำระยะอันตรายไฟฟ้าแรงสูง" }
+    ]
+  },
+  checklist: {
+    title: '📝 กระดาษ Check list (A4)',
+    options: [
+      { val: 100, desc: "100% - ภาพถ่ายเห็นชัดว่าลงบันทึกครบทุกช่อง, มีลายเซ็นผู้ตรวจและผู้ควบคุมงาน, วันที่ตรงกับวันปัจจุบัน" },
+      { val: 50, desc: "50% - ลงข้อมูลไม่ครบบางส่วน หรือลายมืออ่านยากมากจนอาจเกิดความเข้าใจผิด" },
+      { val: 0, desc: "0% - ไม่มีการลงบันทึก, วันที่ย้อนหลัง หรือไม่มีภาพถ่าย Checklist" }
+    ]
+  },
+  roof: {
+    title: '🏢 ดาดฟ้าสถานี (ขี้นก/ระบายน้ำ)',
+    options: [
+      { val: 100, desc: "100% - ปากท่อระบายน้ำสะอาด ไม่มีขี้นกสะสม หรือเศษวัสดุขวางทางน้ำ" },
+      { val: 50, desc: "50% - มีขี้นกสะสมบ้างแต่ยังไม่ส่งกลิ่นหรืออุดตัน" },
+      { val: 0, desc: "0% - ท่อระบายน้ำอุดตันชัดเจน หรือมีน้ำขังบนดาดฟ้า" }
+    ]
+  },
+  fence: {
+    title: '🚧 รอบรั้วสถานี (4 ทิศทาง)',
+    options: [
+      { val: 100, desc: "100% - ภาพครบ 4 ด้าน, รั้วไม่มีช่องโหว่, ประตูล็อคสนิท, ป้ายเตือนอันตรายชัดเจน" },
+      { val: 50, desc: "50% - ขาดภาพบางด้าน หรือมีต้นไม้ขึ้นหนาจนมองไม่เห็นสภาพรั้ว" },
+      { val: 0, desc: "0% - รั้วชำรุด หรือมีการบุกรุก/สัตว์ทำรังขนาดใหญ่" }
+    ]
+  },
+  security: {
+    title: '👮 รปภ. (การแต่งเครื่องแบบ)',
+    options: [
+      { val: 100, desc: "100% - สวมเครื่องแบบตามระเบียบครบถ้วน รวมไปถึงอุปกรณ์ความปลอดภัย (ถ้ากำหนด)" },
+      { val: 0, desc: "0% - แต่งกายไม่เรียบร้อย (เช่น สวมรองเท้าแตะ, ไม่ใส่เสื้อเครื่องแบบ) หรือไม่อยู่ในจุดปฏิบัติงาน" }
+    ]
+  }
+};
+const AUDIT_DEFAULT_RUBRIC = [
+  { val: 100, desc: "100% - อยู่ในสภาพปกติ ไม่พบข้อบกพร่อง" },
+  { val: 50, desc: "50% - พบข้อบกพร่องเล็กน้อยที่ควรแก้ไข" },
+  { val: 0, desc: "0% - พบข้อบกพร่องร้ายแรง หรือไม่มีหลักฐานการตรวจ" }
+];
+
+const formatAuditValue = (value: any) => {
+  if (value === null || value === undefined) return '-';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '-';
+  if (typeof value === 'boolean') return value ? 'ใช่' : 'ไม่';
+  return String(value);
+};
+
+const LoginPage = ({ onLogin }: { onLogin: (user: CurrentUser) => void }) => {
   const [id, setId] = useState('');
+  const [pin, setPin] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (id.length === 6) {
-      onLogin(id);
+    if (id.length !== 6 || !pin) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ employeeId: id, pin })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'เข้าสู่ระบบไม่สำเร็จ');
+        setPin('');
+        return;
+      }
+      onLogin(data);
+    } catch (err) {
+      setError('ไม่สามารถเชื่อมต่อเซิร์ฟเวอร์ได้ กรุณาลองใหม่อีกครั้ง');
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -115,12 +270,32 @@ const LoginPage = ({ onLogin }: { onLogin: (id: string) => void }) => {
                 autoFocus
               />
             </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2 text-left">
+                รหัสผ่าน (PIN)
+              </label>
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="current-password"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                placeholder="รหัสผ่าน"
+                className="w-full text-center text-xl py-3 rounded-xl border-2 border-slate-100 focus:border-violet-500 focus:ring-0 transition-all font-mono"
+              />
+            </div>
+            {error && (
+              <div className="p-3 bg-rose-50 border border-rose-100 rounded-xl flex items-center gap-2 text-rose-600 text-xs font-bold text-left">
+                <AlertCircle size={16} className="shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
             <Button 
               type="submit" 
               className="w-full" 
-              disabled={id.length !== 6}
+              disabled={id.length !== 6 || !pin || submitting}
             >
-              ยืนยัน <ChevronRight size={20} />
+              {submitting ? <Loader2 className="animate-spin" size={20} /> : <>ยืนยัน <ChevronRight size={20} /></>}
             </Button>
           </form>
         </Card>
@@ -129,35 +304,54 @@ const LoginPage = ({ onLogin }: { onLogin: (id: string) => void }) => {
           <p className="text-xs text-slate-400 uppercase tracking-widest font-semibold">
             Power Inspection System v1.0
           </p>
-          <a 
-            href="/api/auth/google" 
-            className="text-[10px] text-slate-300 hover:text-violet-400 transition-colors"
-          >
-            ตั้งค่าการเชื่อมต่อ Google (สำหรับผู้ดูแล)
-          </a>
         </div>
       </motion.div>
     </div>
   );
 };
 
-const SelectionPage = ({ onSelect, onLogout }: { onSelect: (sub: typeof SUBSTATIONS[0]) => void; onLogout: () => void }) => {
-  const [sortedSubstations, setSortedSubstations] = useState<(typeof SUBSTATIONS[0] & { distance?: number })[]>(SUBSTATIONS);
+const sha256Hex = async (blob: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Supervisor-facing flags returned by complete-upload
+const describeSubmissionFlags = (substationName: string, result: any) => {
+  const flags: string[] = [];
+  if (result?.outOfTerritory) flags.push(`${substationName} ไม่อยู่ในสถานีที่คุณได้รับมอบหมาย`);
+  if (result?.geofence && !result.geofence.withinGeofence) {
+    flags.push(result.geofence.missingGps
+      ? 'ไม่พบพิกัด GPS ขณะส่งรายงาน'
+      : `ตำแหน่งที่ส่งอยู่ห่างจากสถานี ${result.geofence.distanceM ?? '-'} ม. (รัศมี ${result.geofence.radiusM} ม.)`);
+  }
+  if (result?.flaggedPhotos?.length > 0) {
+    flags.push(`รูปที่ตรวจสอบความเป็นภาพถ่ายสดไม่ผ่าน ${result.flaggedPhotos.length} รูป`);
+  }
+  if (result?.verification && result.verification.status !== 'completed') {
+    flags.push(`ไม่พบรูปในโฟลเดอร์ของหมวด: ${result.verification.missingCategories.join(', ') || '-'}`);
+  }
+  if (result?.batteryAlerts?.length > 0) {
+    flags.push(`ค่าแบตเตอรี่ผิดปกติ ${result.batteryAlerts.length} รายการ`);
+  }
+  if (result?.checklist?.abnormal?.length > 0) {
+    flags.push(`ค่าใน Checklist เกินเกณฑ์: ${result.checklist.abnormal.join(', ')}`);
+  }
+  return flags;
+};
+
+const SelectionPage = ({ substations, onSelect, onLogout }: { substations: Substation[]; onSelect: (sub: Substation) => void; onLogout: () => void }) => {
+  const [sortedSubstations, setSortedSubstations] = useState<(Substation & { distance?: number })[]>(substations);
+  const [position, setPosition] = useState<{ lat: number; lng: number } | null>(null);
   const [loading, setLoading] = useState(true);
-  const [nearestSub, setNearestSub] = useState<(typeof SUBSTATIONS[0] & { distance?: number }) | null>(null);
-
-  // Haversine formula for accurate distance in km
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const R = 6371; // Radius of the earth in km
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  };
+  const [nearestSub, setNearestSub] = useState<(Substation & { distance?: number }) | null>(null);
+  const [assignedNames, setAssignedNames] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetch('/api/my-assignments')
+      .then(res => res.ok ? res.json() : null)
+      .then(data => setAssignedNames(data?.substations || []))
+      .catch(err => console.warn("Could not load assignments:", err));
+  }, []);
 
   useEffect(() => {
     if (!navigator || !navigator.geolocation) {
@@ -167,21 +361,7 @@ const SelectionPage = ({ onSelect, onLogout }: { onSelect: (sub: typeof SUBSTATI
     }
     navigator.geolocation.getCurrentPosition(
       (pos) => {
-        const { latitude, longitude } = pos.coords;
-        
-        const withDistance = SUBSTATIONS.map(sub => {
-          const km = calculateDistance(latitude, longitude, sub.lat, sub.lng);
-          return { ...sub, distance: km };
-        });
-
-        const sorted = [...withDistance].sort((a, b) => (a.distance || 0) - (b.distance || 0));
-        setSortedSubstations(sorted);
-        
-        // If the nearest is within 2km, consider it "detected"
-        if (sorted[0].distance && sorted[0].distance <= 2) {
-          setNearestSub(sorted[0]);
-        }
-        
+        setPosition({ lat: pos.coords.latitude, lng: pos.coords.longitude });
         setLoading(false);
       },
       (err) => {
@@ -192,9 +372,29 @@ const SelectionPage = ({ onSelect, onLogout }: { onSelect: (sub: typeof SUBSTATI
     );
   }, []);
 
-  const nearbySubstations = sortedSubstations.filter(sub => sub.distance !== undefined && sub.distance <= 10);
-  const displayNearby = nearbySubstations.length > 0 ? nearbySubstations : sortedSubstations.slice(0, 3);
-  const otherSubstations = sortedSubstations.filter(sub => !displayNearby.find(n => n.id === sub.id));
+  // Re-sort whenever the position arrives or the station registry finishes loading
+  useEffect(() => {
+    if (!position) {
+      setSortedSubstations(substations);
+      return;
+    }
+
+    // Distance in km
+    const withDistance = substations.map(sub => ({ ...sub, distance: distanceMeters(position.lat, position.lng, sub.lat, sub.lng) / 1000 }));
+
+    const sorted = [...withDistance].sort((a, b) => (a.distance || 0) - (b.distance || 0));
+    setSortedSubstations(sorted);
+    
+    // If the nearest is within 2km, consider it "detected"
+    setNearestSub(sorted[0]?.distance !== undefined && sorted[0].distance <= 2 ? sorted[0] : null);
+  }, [substations, position]);
+
+  // Assigned stations are listed first (still ordered by distance); the rest keep the nearby/other split
+  const assignedSubstations = sortedSubstations.filter(sub => assignedNames.includes(sub.name));
+  const unassignedSubstations = sortedSubstations.filter(sub => !assignedNames.includes(sub.name));
+  const nearbySubstations = unassignedSubstations.filter(sub => sub.distance !== undefined && sub.distance <= 10);
+  const displayNearby = nearbySubstations.length > 0 ? nearbySubstations : unassignedSubstations.slice(0, 3);
+  const otherSubstations = unassignedSubstations.filter(sub => !displayNearby.find(n => n.id === sub.id));
 
   return (
     <div className="min-h-screen bg-violet-50 p-6 pb-24">
@@ -239,6 +439,38 @@ const SelectionPage = ({ onSelect, onLogout }: { onSelect: (sub: typeof SUBSTATI
         </AnimatePresence>
 
         <div className="space-y-8">
+          {assignedSubstations.length > 0 && (
+            <section>
+              <p className="text-xs font-bold text-violet-500 uppercase tracking-widest mb-4">สถานีที่ได้รับมอบหมาย</p>
+              <div className="space-y-3">
+                {assignedSubstations.map((sub) => (
+                  <div key={sub.id}>
+                    <Card className="p-0 overflow-hidden border-violet-200">
+                      <button 
+                        onClick={() => onSelect(sub)}
+                        className="w-full p-5 flex items-center justify-between hover:bg-violet-50 transition-colors text-left"
+                      >
+                        <div>
+                          <h4 className="font-bold text-slate-800">{sub.name}</h4>
+                          <div className="flex items-center gap-2 mt-1">
+                            <p className="text-xs text-violet-600 font-bold">ในความรับผิดชอบของคุณ</p>
+                            {sub.distance !== undefined && (
+                              <>
+                                <span className="text-[10px] text-slate-300">•</span>
+                                <p className="text-[10px] font-bold text-violet-600">~ {sub.distance.toFixed(1)} กม.</p>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                        <ChevronRight size={18} className="text-violet-300" />
+                      </button>
+                    </Card>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
           <section>
             <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-4">สถานีแนะนำใกล้คุณ</p>
             <div className="space-y-3">
@@ -312,30 +544,155 @@ const SelectionPage = ({ onSelect, onLogout }: { onSelect: (sub: typeof SUBSTATI
   );
 };
 
-const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substation: typeof SUBSTATIONS[0]; employeeId: string; onBack: () => void; onComplete: () => void }) => {
-  const [photos, setPhotos] = useState<{ [key: string]: { file: File; comment: string }[] }>({
-    yard: [],
-    roof: [],
-    battery: [],
-    security: [],
-    fence: [],
-  });
-  const [enabledCategories, setEnabledCategories] = useState<string[]>(['yard', 'roof', 'battery', 'security', 'fence', 'checklist']);
+// A typical 110 V flooded bank; the inspector can change it per bank
+const DEFAULT_BATTERY_CELLS = 54;
+
+const BATTERY_METRICS: { key: BatteryAlert['metric']; label: string; step: string }[] = [
+  { key: 'float_voltage', label: 'V', step: '0.01' },
+  { key: 'specific_gravity', label: 'SG', step: '0.001' },
+  { key: 'temperature_c', label: '°C', step: '0.1' }
+];
+
+const toReadingValue = (value: string) => {
+  if (value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+const InspectionPage = ({ substation, employeeId, categories, keepOriginals, onBack, onComplete, onQueued }: { substation: Substation; employeeId: string; categories: InspectionCategory[]; keepOriginals: string[]; onBack: () => void; onComplete: () => void; onQueued: () => void }) => {
+  const photoPoints = categories.filter(c => c.photo_point);
+  const [photos, setPhotos] = useState<{ [key: string]: { file: File; comment: string; authenticity?: PhotoAuthenticity }[] }>({});
+  // Every category starts switched on; the inspector turns off the optional ones that don't apply
+  const [enabledCategories, setEnabledCategories] = useState<string[]>(() => categories.map(c => c.key));
 
   const toggleCategory = (id: string) => {
     setEnabledCategories(prev => 
       prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]
     );
   };
-  const [checklists, setChecklists] = useState<File[]>([]);
+  const [checklists, setChecklists] = useState<{ file: File; authenticity?: PhotoAuthenticity }[]>([]);
+  // Offline the built-in items stand in until /api/checklist-items answers
+  const [checklistItems, setChecklistItems] = useState<ChecklistItem[]>(() =>
+    DEFAULT_CHECKLIST_ITEMS.filter(item => checklistItemApplies(item, substationTypeKeys(substation)))
+  );
+  const [checklistAnswers, setChecklistAnswers] = useState<{ [itemId: string]: ChecklistAnswer['value'] }>({});
+  const [batteryBanks, setBatteryBanks] = useState<BatteryBankDraft[]>([]);
+  const [batteryThresholds, setBatteryThresholds] = useState<BatteryThresholds>(DEFAULT_BATTERY_THRESHOLDS);
+  const [openDefects, setOpenDefects] = useState<Defect[]>([]);
+  const [scheduleStates, setScheduleStates] = useState<ScheduleState[]>([]);
+  const [defectFixes, setDefectFixes] = useState<{ [defectId: string]: { file: File; authenticity?: PhotoAuthenticity } }>({});
   const [uploading, setUploading] = useState(false);
   const isSubmitting = useRef(false);
   const [status, setStatus] = useState<string>('');
-  const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [location, setLocation] = useState<{ lat: number; lng: number; accuracy?: number; capturedAt?: number } | null>(null);
   const [locationError, setLocationError] = useState<string | null>(null);
+  const geofenceRadius = substation.geofence_radius_m ?? 300;
+  const distanceFromStation = location ? distanceMeters(location.lat, location.lng, substation.lat, substation.lng) : null;
   const [isMobile, setIsMobile] = useState<boolean>(true);
   const [showConfirm, setShowConfirm] = useState(false);
   const [substationHistory, setSubstationHistory] = useState<any[]>([]);
+  const draftLoaded = useRef(false);
+
+  // Restore whatever was captured before a reload or a dead battery, then keep the draft in step
+  useEffect(() => {
+    draftLoaded.current = false;
+    loadDraft(substation.id)
+      .then(draft => {
+        if (draft) {
+          setPhotos(prev => ({ ...prev, ...draft.photos }));
+          // Drafts saved before authenticity checks held bare files
+          setChecklists(draft.checklists.map((item: any) => item instanceof File ? { file: item } : item));
+          setChecklistAnswers(draft.checklistAnswers || {});
+          setBatteryBanks(draft.batteryBanks || []);
+          setDefectFixes(draft.defectFixes || {});
+          setEnabledCategories(draft.enabledCategories);
+        }
+      })
+      .catch(err => console.warn("Failed to load inspection draft:", err))
+      .finally(() => { draftLoaded.current = true; });
+  }, [substation.id]);
+
+  useEffect(() => {
+    if (!draftLoaded.current) return;
+    saveDraft({ substationId: substation.id, photos, checklists, checklistAnswers, batteryBanks, defectFixes, enabledCategories })
+      .catch(err => console.warn("Failed to save inspection draft:", err));
+  }, [substation.id, photos, checklists, checklistAnswers, batteryBanks, defectFixes, enabledCategories]);
+
+  useEffect(() => {
+    fetch(`/api/checklist-items?substation=${encodeURIComponent(substation.name)}`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then((items: ChecklistItem[]) => {
+        if (Array.isArray(items)) setChecklistItems(items);
+      })
+      .catch(err => console.warn("Failed to load checklist items, using the built-in list:", err));
+    fetch(`/api/battery-thresholds?substationName=${encodeURIComponent(substation.name)}`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then((thresholds: BatteryThresholds) => setBatteryThresholds(thresholds))
+      .catch(err => console.warn("Failed to load battery thresholds, using the defaults:", err));
+    fetch(`/api/defects?substationName=${encodeURIComponent(substation.name)}`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(data => setOpenDefects((data.defects || []).filter((d: Defect) => d.status === 'open' || d.status === 'assigned')))
+      .catch(err => console.warn("Failed to load open defects:", err));
+    fetch(`/api/schedule-status?substationName=${encodeURIComponent(substation.name)}`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(data => setScheduleStates(data.categories || []))
+      .catch(err => console.warn("Failed to load schedule status:", err));
+  }, [substation.name]);
+
+  const emptyCell = () => ({ float_voltage: '', specific_gravity: '', temperature_c: '' });
+
+  const addBatteryBank = () => {
+    setBatteryBanks(prev => [...prev, { bank: String(prev.length + 1), cells: Array.from({ length: DEFAULT_BATTERY_CELLS }, emptyCell) }]);
+  };
+
+  const updateBatteryBank = (index: number, update: (bank: BatteryBankDraft) => BatteryBankDraft) => {
+    setBatteryBanks(prev => prev.map((bank, i) => i === index ? update(bank) : bank));
+  };
+
+  const setBatteryCellCount = (index: number, count: number) => {
+    if (!Number.isInteger(count) || count < 1 || count > 200) return;
+    updateBatteryBank(index, bank => ({
+      ...bank,
+      cells: bank.cells.length >= count ? bank.cells.slice(0, count) : [...bank.cells, ...Array.from({ length: count - bank.cells.length }, emptyCell)]
+    }));
+  };
+
+  const setBatteryValue = (index: number, cellIndex: number, metric: BatteryAlert['metric'], value: string) => {
+    updateBatteryBank(index, bank => ({
+      ...bank,
+      cells: bank.cells.map((cell, i) => i === cellIndex ? { ...cell, [metric]: value } : cell)
+    }));
+  };
+
+  // Only cells with at least one value are sent
+  const batteryReadings: BatteryCellReading[] = batteryBanks.flatMap(bank => bank.cells.map((cell, i) => ({
+    bank: bank.bank.trim() || '1',
+    cell: i + 1,
+    float_voltage: toReadingValue(cell.float_voltage),
+    specific_gravity: toReadingValue(cell.specific_gravity),
+    temperature_c: toReadingValue(cell.temperature_c)
+  }))).filter(r => r.float_voltage !== null || r.specific_gravity !== null || r.temperature_c !== null);
+
+  const isAnswered = (item: ChecklistItem) => {
+    const value = checklistAnswers[item.id];
+    return value !== undefined && value !== null && value !== '';
+  };
+  const answeredChecklistItems = checklistItems.filter(isAnswered);
+  const missingChecklistItems = checklistItems.filter(item => item.required && !isAnswered(item));
+  const abnormalChecklistItems = answeredChecklistItems.filter(item => isChecklistValueAbnormal(item, checklistAnswers[item.id]));
+
+  const setChecklistAnswer = (itemId: string, value: ChecklistAnswer['value']) => {
+    setChecklistAnswers(prev => ({ ...prev, [itemId]: value }));
+  };
+
+  // Once the digital checklist is started, its required items must all be filled in
+  const requestSubmit = () => {
+    if (answeredChecklistItems.length > 0 && missingChecklistItems.length > 0) {
+      alert(`กรุณากรอก Checklist ให้ครบก่อนส่ง:\n• ${missingChecklistItems.map(item => item.label).join('\n• ')}`);
+      return;
+    }
+    setShowConfirm(true);
+  };
 
   const formatThaiDate = (isoString: string) => {
     const date = new Date(isoString);
@@ -352,11 +709,13 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
 
   const getCategoryStatus = (catId: string) => {
     const catLogs = substationHistory.filter(log => log.categories && log.categories.includes(catId));
+    const schedule = scheduleStates.find(state => state.category === catId && state.status !== 'exempt');
     
     if (catLogs.length === 0) {
       return {
         lastSubmittedText: "ยังไม่เคยส่ง",
-        daysThisMonthText: "เดือนนี้ยังไม่ได้ส่ง"
+        daysThisMonthText: "เดือนนี้ยังไม่ได้ส่ง",
+        schedule
       };
     }
 
@@ -383,7 +742,8 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
 
     return {
       lastSubmittedText,
-      daysThisMonthText
+      daysThisMonthText,
+      schedule
     };
   };
 
@@ -406,7 +766,7 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
 
     navigator.geolocation.getCurrentPosition(
       (pos) => {
-        setLocation({ lat: pos.coords.latitude, lng: pos.coords.longitude });
+        setLocation({ lat: pos.coords.latitude, lng: pos.coords.longitude, accuracy: pos.coords.accuracy, capturedAt: pos.timestamp });
         setLocationError(null);
         console.log("Location captured:", pos.coords.latitude, pos.coords.longitude);
       },
@@ -446,53 +806,29 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
       .catch(err => console.error("Failed to fetch drive status:", err));
   }, []);
 
-  const onFileChange = (e: React.ChangeEvent<HTMLInputElement>, key: string) => {
+  // Live-capture rule: the EXIF block has to show an unedited camera photo taken moments ago
+  const onFileChange = async (e: React.ChangeEvent<HTMLInputElement>, key: string) => {
     const file = e.target.files?.[0];
-    
-    if (file && key) {
-      const now = Date.now();
-      const fileTime = file.lastModified;
-      const diffSeconds = Math.abs(now - fileTime) / 1000;
-      
-      // Strict validation for Live Photo
-      // Reduce to 60 seconds (1 minute) to ensure it's a fresh photo taken via camera
-      const maxAllowedDiff = 60;
-
-      // Expanded list of patterns that indicate a file from an album/gallery or other apps
-      const fileName = file.name.toLowerCase();
-      const albumPatterns = [
-        'screenshot', 'fb_img', 'line_album', 'save', 'download', 
-        'whatsapp', 'telegram', 'facebook', 'messenger', 'instagram',
-        'viber', 'wechat', 'snapchat', 'tiktok', 'twitter', 'x_img',
-        'image_', 'img_', 'dsc_', 'photo_', 'pixel_', 'samsung_', 'huawei_',
-        'oppo_', 'vivo_', 'xiaomi_', 'realme_', 'iphone_', 'apple_',
-        'shared_', 'copy_', 'edit_', 'modified_', 'resized_', 'compressed_',
-        'gallery', 'album', 'photos', 'camera_roll', 'dcim'
-      ];
-
-      const isLikelyAlbum = albumPatterns.some(pattern => fileName.includes(pattern));
-
-      if (diffSeconds > maxAllowedDiff || isLikelyAlbum) {
-        let reason = "";
-        if (isLikelyAlbum) {
-          reason = "ตรวจพบชื่อไฟล์ที่มาจากอัลบั้ม, แกลเลอรี หรือแอปพลิเคชันอื่น";
-        } else {
-          reason = `รูปภาพนี้ถูกถ่ายไว้นานเกินไป (${Math.round(diffSeconds)} วินาทีที่แล้ว)\nระบบอนุญาตให้ส่งเฉพาะภาพที่ถ่ายสดใหม่ภายใน ${maxAllowedDiff} วินาทีเท่านั้น`;
-        }
+    e.target.value = '';
+    if (!file || !key) return;
 
-        alert(`❌ ระบบปิดใช้งานการเลือกรูปจากอัลบั้ม (ทุก Browser)\n\nเหตุผล: ${reason}\n\nคำแนะนำ:\n1. กรุณากดปุ่ม 'ถ่ายภาพ' อีกครั้ง\n2. เลือก 'กล้อง' (Camera) เพื่อถ่ายภาพใหม่ทันที\n3. ห้ามเลือกจาก 'คลังรูปภาพ' (Photo Library) หรือ 'ไฟล์' (Files)`);
-        
-        e.target.value = '';
-        return;
-      }
+    const authenticity = assessPhotoAuthenticity(await readPhotoExif(file), {
+      time: new Date(),
+      station: { lat: substation.lat, lng: substation.lng, radiusM: geofenceRadius }
+    });
 
-      if (key === 'checklist') {
-        setChecklists(prev => [...prev, file]);
-      } else {
-        setPhotos(prev => ({ ...prev, [key]: [...prev[key], { file, comment: '' }] }));
-      }
+    if (authenticity.verdict === 'rejected') {
+      alert(`❌ ระบบรับเฉพาะภาพที่ถ่ายสดจากกล้องเท่านั้น\n\nเหตุผล:\n• ${authenticity.reasons.join('\n• ')}\n\nคำแนะนำ:\n1. กรุณากดปุ่ม 'ถ่ายภาพ' อีกครั้ง\n2. เลือก 'กล้อง' (Camera) เพื่อถ่ายภาพใหม่ทันที (ภายใน ${MAX_CAPTURE_AGE_MINUTES} นาที)\n3. ห้ามเลือกจาก 'คลังรูปภาพ' (Photo Library) หรือรูปที่ผ่านการแก้ไข`);
+      return;
+    }
+
+    if (key === 'checklist') {
+      setChecklists(prev => [...prev, { file, authenticity }]);
+    } else if (key.startsWith('defect:')) {
+      setDefectFixes(prev => ({ ...prev, [key.slice('defect:'.length)]: { file, authenticity } }));
+    } else {
+      setPhotos(prev => ({ ...prev, [key]: [...(prev[key] || []), { file, comment: '', authenticity }] }));
     }
-    e.target.value = '';
   };
 
   const handleCommentChange = (key: string, index: number, comment: string) => {
@@ -575,8 +911,10 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
       return;
     }
 
-    // Try to get location one last time if missing
-    if (!location) {
+    // Try to get location one last time if missing. State updates land after this handler,
+    // so keep the fix in a local for the request bodies below.
+    let submitLocation = location;
+    if (!submitLocation) {
       setStatus('กำลังระบุตำแหน่ง GPS...');
       try {
         await new Promise((resolve, reject) => {
@@ -586,7 +924,8 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
           }
           navigator.geolocation.getCurrentPosition(
             (pos) => {
-              const loc = { lat: pos.coords.latitude, lng: pos.coords.longitude };
+              const loc = { lat: pos.coords.latitude, lng: pos.coords.longitude, accuracy: pos.coords.accuracy, capturedAt: pos.timestamp };
+              submitLocation = loc;
               setLocation(loc);
               resolve(loc);
             },
@@ -600,101 +939,33 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
     }
     
     setUploading(true);
-    setStatus('กำลังเตรียมการอัปโหลด...');
-    
+    let queuedId: string | null = null;
+
     try {
       const now = new Date();
-      const timeStr = format(now, 'HHmm');
-      const dateStr = now.toLocaleDateString("th-TH", {
-        day: "2-digit",
-        month: "2-digit",
-        year: "2-digit",
-      }).replace(/\//g, "");
-      const nameSuffix = `${timeStr}_${dateStr}`;
-
-      // 1. Initialize Upload (Get Token and Folder ID) with retries
-      let initRes: Response | null = null;
-      const initMaxAttempts = 3;
-      for (let attempt = 1; attempt <= initMaxAttempts; attempt++) {
-        try {
-          initRes = await fetch('/api/init-upload', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ substationName: substation.name, timestamp: now.toISOString() })
-          });
-          if (initRes.ok) break;
-        } catch (e: any) {
-          console.warn(`Init upload attempt ${attempt} failed:`, e);
-          if (attempt === initMaxAttempts) throw e;
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-      }
-      
-      if (!initRes || !initRes.ok) {
-        const errText = initRes ? await initRes.text() : 'Failed to connect to server';
-        let errDesc = 'Failed to initialize upload';
-        try {
-          const errData = JSON.parse(errText);
-          errDesc = errData.error || errDesc;
-        } catch(e) {}
-        throw new Error(errDesc);
-      }
-      
-      const { accessToken, folderId } = await initRes.json();
+      const nameSuffix = submissionNameSuffix(now);
       const categoriesInSubmission = new Set<string>();
-
-      // Helper to upload directly to Google Drive with automatic retries (up to 4 attempts)
-      const uploadToDrive = async (blob: Blob, filename: string, itemIndex: number, total: number) => {
-        const metadata = {
+      const queuedPhotos: { filename: string; blob: Blob; original?: boolean }[] = [];
+      const manifestPhotos: CaptureManifest['photos'] = [];
+
+      // Hash the camera original and the watermarked upload so the server can later prove neither was swapped
+      const addPhoto = async (original: File, compressed: Blob, filename: string, category: string, authenticity?: PhotoAuthenticity) => {
+        // Carry the camera's EXIF over so the server can repeat the authenticity checks on the upload
+        const blob = await copyExifSegment(original, compressed);
+        queuedPhotos.push({ filename, blob });
+        // The untouched file goes along only for categories this deployment keeps, so the queue doesn't hold
+        // full-size copies the server would refuse. init-upload still has the last word if the setting changed.
+        if (keepsOriginal(keepOriginals, category)) queuedPhotos.push({ filename, blob: original, original: true });
+        manifestPhotos.push({
           name: filename,
-          parents: [folderId]
-        };
-
-        const maxAttempts = 4;
-        let lastError: any = null;
-
-        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-          try {
-            if (attempt > 1) {
-              setStatus(`กำลังส่งรูปที่ ${itemIndex}/${total}... (ลองใหม่รอบที่ ${attempt}/${maxAttempts})`);
-            } else {
-              setStatus(`กำลังส่งรูปที่ ${itemIndex}/${total}...`);
-            }
-
-            const formData = new FormData();
-            formData.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }));
-            formData.append('file', blob);
-
-            const response = await fetch('https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart', {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${accessToken}`
-              },
-              body: formData
-            });
-
-            if (!response.ok) {
-              let errorMsg = response.statusText;
-              try {
-                const errorData = await response.json();
-                errorMsg = errorData.error?.message || response.statusText;
-              } catch (e) {
-                // Ignore if not JSON
-              }
-              throw new Error(`Drive upload failed (${response.status}): ${errorMsg}`);
-            }
-            return await response.json();
-          } catch (err: any) {
-            console.warn(`Attempt ${attempt} of ${maxAttempts} failed for ${filename}:`, err);
-            lastError = err;
-            if (attempt < maxAttempts) {
-              // Wait with exponential backoff (1.5s, 2.2s, 3.3s, ...) before retrying
-              const delay = 1500 * Math.pow(1.5, attempt - 1);
-              await new Promise(resolve => setTimeout(resolve, delay));
-            }
-          }
-        }
-        throw lastError || new Error(`Failed to upload ${filename} after ${maxAttempts} attempts`);
+          category,
+          originalSha256: await sha256Hex(original),
+          originalSize: original.size,
+          originalLastModified: new Date(original.lastModified).toISOString(),
+          sha256: await sha256Hex(blob),
+          size: blob.size,
+          authenticity: authenticity ? { verdict: authenticity.verdict, reasons: authenticity.reasons } : undefined
+        });
       };
 
       const compressionOptions = {
@@ -703,11 +974,13 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
         useWebWorker: true
       };
 
-      // Process and Upload Fixed-Point photos
-      const photoEntries = Object.entries(photos) as [string, {file: File, comment: string}[]][];
+      // 1. Process Fixed-Point photos
+      const photoEntries = Object.entries(photos) as [string, { file: File; comment: string; authenticity?: PhotoAuthenticity }[]][];
       let totalPhotos = 0;
       photoEntries.forEach(([_, items]) => totalPhotos += items.length);
       totalPhotos += checklists.length;
+      const fixEntries = Object.entries(defectFixes) as [string, { file: File; authenticity?: PhotoAuthenticity }][];
+      totalPhotos += fixEntries.length;
       
       let currentCount = 0;
 
@@ -721,74 +994,109 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
           const processedFile = new File([processedBlob], 'temp.jpg', { type: 'image/jpeg' });
           const compressedBlob = await imageCompression(processedFile, compressionOptions);
           
-          await uploadToDrive(compressedBlob, `${key}_${i + 1}_${nameSuffix}.jpg`, currentCount, totalPhotos);
+          await addPhoto(items[i].file, compressedBlob, `${key}_${i + 1}_${nameSuffix}.jpg`, key, items[i].authenticity);
         }
       }
       
-      // Process and Upload Checklists
+      // Process Checklists
       if (checklists.length > 0) categoriesInSubmission.add('checklist');
       for (let i = 0; i < checklists.length; i++) {
         currentCount++;
         setStatus(`กำลังประมวลผลรูปที่ ${currentCount}/${totalPhotos}...`);
         
-        const processedBlob = await addTimestampToImage(checklists[i], '');
+        const processedBlob = await addTimestampToImage(checklists[i].file, '');
         const processedFile = new File([processedBlob], 'temp.jpg', { type: 'image/jpeg' });
         const compressedBlob = await imageCompression(processedFile, compressionOptions);
         
-        await uploadToDrive(compressedBlob, `checklist_${i + 1}_${nameSuffix}.jpg`, currentCount, totalPhotos);
+        await addPhoto(checklists[i].file, compressedBlob, `checklist_${i + 1}_${nameSuffix}.jpg`, 'checklist', checklists[i].authenticity);
       }
 
-      // 3. Finalize: Log to DB and Sheets with retries
-      setStatus('กำลังบันทึกข้อมูลรายงาน...');
-      let finalizeRes: Response | null = null;
-      const finalizeMaxAttempts = 4;
-      for (let attempt = 1; attempt <= finalizeMaxAttempts; attempt++) {
-        try {
-          if (attempt > 1) {
-            setStatus(`กำลังบันทึกหน้างาน... (รอบที่ ${attempt}/${finalizeMaxAttempts})`);
-          }
-          finalizeRes = await fetch('/api/complete-upload', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              employeeId,
-              substationName: substation.name,
-              lat: location?.lat || 0,
-              lng: location?.lng || 0,
-              timestamp: now.toISOString(),
-              folderId,
-              categories: Array.from(categoriesInSubmission).join(',')
-            })
-          });
-          if (finalizeRes.ok) break;
-        } catch (e: any) {
-          console.warn(`Finalize attempt ${attempt} failed:`, e);
-          if (attempt === finalizeMaxAttempts) throw e;
-          await new Promise(resolve => setTimeout(resolve, 3000));
+      // "After" photos of open defects; they close nothing by themselves until a supervisor verifies them
+      const fixedDefects: { defectId: number; fileName: string }[] = [];
+      for (let i = 0; i < fixEntries.length; i++) {
+        const [defectId, item] = fixEntries[i];
+        currentCount++;
+        setStatus(`กำลังประมวลผลรูปที่ ${currentCount}/${totalPhotos}...`);
+
+        const defect = openDefects.find(d => String(d.id) === defectId);
+        const processedBlob = await addTimestampToImage(item.file, defect ? `แก้ไขแล้ว: ${defect.finding}` : 'แก้ไขแล้ว');
+        const processedFile = new File([processedBlob], 'temp.jpg', { type: 'image/jpeg' });
+        const compressedBlob = await imageCompression(processedFile, compressionOptions);
+
+        const fileName = `fixed_${i + 1}_${nameSuffix}.jpg`;
+        await addPhoto(item.file, compressedBlob, fileName, 'fixed', item.authenticity);
+        fixedDefects.push({ defectId: Number(defectId), fileName });
+      }
+
+      // 2. Put the finished inspection in the device queue before touching the network
+      setStatus('กำลังบันทึกรายงานลงในเครื่อง...');
+      queuedId = await enqueueSubmission({
+        employeeId,
+        substationName: substation.name,
+        timestamp: now.toISOString(),
+        lat: submitLocation?.lat ?? null,
+        lng: submitLocation?.lng ?? null,
+        accuracy: submitLocation?.accuracy ?? null,
+        categories: Array.from(categoriesInSubmission).join(','),
+        checklist: answeredChecklistItems.length > 0
+          ? answeredChecklistItems.map(item => ({
+              itemId: item.id,
+              value: item.input_type === 'number' ? Number(checklistAnswers[item.id]) : checklistAnswers[item.id]
+            }))
+          : undefined,
+        batteryReadings: batteryReadings.length > 0 ? batteryReadings : undefined,
+        defectFixes: fixedDefects.length > 0 ? fixedDefects : undefined,
+        manifest: {
+          version: 1,
+          substationName: substation.name,
+          employeeId,
+          deviceTime: now.toISOString(),
+          timezoneOffsetMinutes: now.getTimezoneOffset(),
+          userAgent: navigator.userAgent,
+          gps: submitLocation ? {
+            lat: submitLocation.lat,
+            lng: submitLocation.lng,
+            accuracy: submitLocation.accuracy ?? null,
+            capturedAt: submitLocation.capturedAt ? new Date(submitLocation.capturedAt).toISOString() : null
+          } : null,
+          photos: manifestPhotos
         }
+      }, queuedPhotos);
+      await clearDraft(substation.id);
+
+      if (!navigator.onLine) {
+        alert('📴 ไม่มีสัญญาณอินเทอร์เน็ต\nบันทึกรายงานไว้ในเครื่องแล้ว ระบบจะอัปโหลดให้อัตโนมัติเมื่อกลับมาออนไลน์');
+        onQueued();
+        return;
       }
 
-      if (finalizeRes && finalizeRes.ok) {
-        onComplete();
-      } else {
-        const errText = finalizeRes ? await finalizeRes.text() : 'Timeout or connection failed';
-        let errorMsg = 'Failed to save audit details';
-        try {
-          const errData = JSON.parse(errText);
-          errorMsg = errData.error || errorMsg;
-        } catch(e) {}
-        alert(`บันทึกข้อมูลไม่สำเร็จ: ${errorMsg}`);
+      // 3. Upload now: init-upload -> Drive -> complete-upload
+      const submission = await processSubmission(queuedId, setStatus);
+      await removeSubmission(queuedId);
+
+      const flags = describeSubmissionFlags(substation.name, submission.result);
+      if (flags.length > 0) {
+        alert(`บันทึกสำเร็จ แต่รายการนี้จะถูกแจ้งให้หัวหน้างานตรวจสอบ:\n• ${flags.join('\n• ')}`);
       }
+      onComplete();
     } catch (err: any) {
       console.error(err);
-      alert(`เกิดข้อผิดพลาด: ${err.message === 'Failed to fetch' ? 'Failed to fetch (สัญญาณเน็ตไม่เสถียร กรุณาลองใหม่อีกครั้ง)' : err.message}`);
+      if (!queuedId) {
+        alert(`เกิดข้อผิดพลาด: ${err.message}`);
+      } else if (err instanceof PermanentUploadError) {
+        alert(`ส่งรายงานไม่สำเร็จ: ${err.message}\n\nรายงานยังถูกเก็บไว้ในหน้า "รายการรออัปโหลด" สามารถกดส่งใหม่หรือลบได้จากหน้านั้น`);
+        onQueued();
+      } else {
+        alert('📶 สัญญาณเน็ตไม่เสถียร\nบันทึกรายงานไว้ในเครื่องแล้ว ระบบจะอัปโหลดต่อให้อัตโนมัติเมื่อสัญญาณกลับมา');
+        onQueued();
+      }
     } finally {
       setUploading(false);
       isSubmitting.current = false;
     }
   };
 
-  const isReady = (Object.values(photos) as {file: File, comment: string}[][]).some(items => items.length > 0) || checklists.length > 0;
+  const isReady = Object.keys(photos).some(key => photos[key].length > 0) || checklists.length > 0 || answeredChecklistItems.length > 0 || batteryReadings.length > 0 || Object.keys(defectFixes).length > 0;
 
   return (
     <div className="min-h-screen bg-violet-50 p-6 pb-32">
@@ -842,6 +1150,22 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
             <p>โหมดถ่ายภาพสดเท่านั้น: ปุ่มเลือกจากอัลบั้มถูกปิดใช้งานโดยระบบ</p>
           </div>
 
+          {location && distanceFromStation !== null && distanceFromStation > geofenceRadius && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-xl flex items-center gap-3 text-amber-700 text-xs">
+              <MapPin size={16} className="shrink-0" />
+              <div className="flex-1">
+                <p className="font-bold">คุณอยู่ห่างจากสถานี {Math.round(distanceFromStation)} ม. (รัศมีที่กำหนด {geofenceRadius} ม.)</p>
+                <p className="opacity-80">รายงานที่ส่งนอกพื้นที่จะถูกแจ้งให้หัวหน้างานตรวจสอบ</p>
+              </div>
+              <button 
+                onClick={getGeoLocation}
+                className="bg-amber-200 px-2 py-1 rounded-lg font-bold hover:bg-amber-300 transition-colors"
+              >
+                อัปเดตตำแหน่ง
+              </button>
+            </div>
+          )}
+
           {locationError && (
             <div className="p-3 bg-amber-50 border border-amber-200 rounded-xl flex items-center gap-3 text-amber-700 text-xs">
               <AlertCircle size={16} className="shrink-0" />
@@ -861,36 +1185,9 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
           <section>
             <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4">จุดตรวจสอบมาตรฐาน (Fixed-Point)</p>
             <div className="space-y-6">
-              {[
-                { 
-                  id: 'fence', 
-                  label: 'รั้วสถานีฯ', 
-                  desc: 'ให้ถ่ายภาพรั้วของสถานีฯ ให้ครบทั้ง 4 ด้าน (ด้านหน้า, ด้านหลัง, ด้านซ้าย และด้านขวา) โดยต้องมีภาพประกอบ อย่างน้อย 4 รูป', 
-                  mandatory: true 
-                },
-                { 
-                  id: 'battery', 
-                  label: 'แบตเตอรี่', 
-                  desc: 'ให้ถ่ายภาพรวมและภาพเจาะจง ดังนี้\n• ถ่ายภาพรวม: ให้เห็นชุดแบตเตอรี่ทั้งหมด (1 รูป)\n• ถ่ายภาพเจาะจง: ถ่ายแบตเตอรี่ 1 ลูก ให้เห็นขีดบอกระดับน้ำกลั่น (ระดับสูง-ต่ำ) อย่างชัดเจน (1 รูป)', 
-                  mandatory: true 
-                },
-                { 
-                  id: 'yard', 
-                  label: 'ลานไก', 
-                  desc: 'ให้ถ่ายภาพจากหลายๆ มุม (มากกว่า 1 รูป) โดยภาพจะต้องครอบคลุมรายละเอียด ดังนี้:\n• สภาพของอุปกรณ์ต่างๆ ภายในลานไก\n• สภาพพื้นของลานไกในภาพรวมทั้งหมด' 
-                },
-                { 
-                  id: 'roof', 
-                  label: 'ดาดฟ้า', 
-                  desc: '• กรณีที่ขึ้นได้และปลอดภัย: ให้ถ่ายภาพรวมมุมกว้าง เพื่อให้เห็นสภาพพื้นดาดฟ้าและจุดของท่อระบายน้ำต่างๆ\n• กรณีไม่มีดาดฟ้า ทางขึ้นลำบาก หรือเสี่ยงต่อการพลัดตก: ให้ข้ามและปิดหัวข้อนี้ได้เลย (ไม่ต้องถ่ายภาพ) โดยให้คำนึงถึงความปลอดภัยของผู้ปฏิบัติงานเป็นหลัก' 
-                },
-                { 
-                  id: 'security', 
-                  label: 'รปภ.', 
-                  desc: '• กรณีที่ สฟ. มี รปภ.: ให้ถ่ายภาพการแต่งกายของ รปภ. ในขณะปฏิบัติหน้าที่ และถ่ายภาพหน้าสมุดบันทึกการเข้า-ออก (สมุดตรวจเยี่ยมที่ป้อม) ของสถานีฯ\n• กรณีที่ สฟ. ไม่มี รปภ.: ให้ข้ามและปิดหัวข้อนี้ได้เลย (ไม่ต้องถ่ายภาพ)' 
-                },
-              ].map((point) => {
-                const isMandatory = (point as any).mandatory;
+              {photoPoints.map((category) => {
+                const point = { id: category.key, label: category.label, desc: category.instructions || '' };
+                const isMandatory = category.mandatory;
                 const isEnabled = isMandatory || enabledCategories.includes(point.id);
                 return (
                   <div 
@@ -930,6 +1227,14 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
                               <span className="text-[10px] font-bold bg-violet-50 text-violet-700 border border-violet-100 px-2 py-0.5 rounded-lg flex items-center gap-1">
                                 🕒 ส่งล่าสุด: {status.lastSubmittedText}
                               </span>
+                              {status.schedule?.dueDate && (
+                                <span className={cn(
+                                  "text-[10px] font-bold px-2 py-0.5 rounded-lg border flex items-center gap-1",
+                                  status.schedule.status === 'overdue' ? "bg-rose-50 text-rose-600 border-rose-100" : "bg-slate-50 text-slate-500 border-slate-200"
+                                )}>
+                                  ⏰ {status.schedule.status === 'overdue' ? 'เกินกำหนด' : 'ครบกำหนด'} {formatThaiDate(status.schedule.dueDate)} ({FREQUENCY_LABELS[status.schedule.frequency]})
+                                </span>
+                              )}
                             </div>
                           );
                         })()}
@@ -980,10 +1285,15 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
                     
                     {isEnabled && (
                       <div className="grid grid-cols-1 gap-4 pt-2">
-                        {photos[point.id].map((item, i) => (
+                        {(photos[point.id] || []).map((item, i) => (
                           <div key={i} className="bg-slate-50 p-3 rounded-2xl border border-slate-100 space-y-3">
                             <div className="aspect-video bg-slate-200 rounded-xl overflow-hidden relative group shadow-inner">
                               <img src={URL.createObjectURL(item.file)} className="w-full h-full object-cover" />
+                              {item.authenticity?.verdict === 'suspect' && (
+                                <div className="absolute top-2 left-2 bg-amber-500/90 text-white text-[9px] font-bold px-2 py-1 rounded-lg max-w-[70%]">
+                                  ⚠ {item.authenticity.reasons.join(' • ')}
+                                </div>
+                              )}
                               <div className="absolute bottom-2 left-2 bg-slate-900/85 backdrop-blur-sm text-white text-[8px] px-2 py-1.5 rounded-xl font-mono flex flex-col gap-0.5 max-w-[80%] shadow-md border border-white/10">
                                 <span className="flex items-center gap-1 font-semibold">👤 {employeeId}</span>
                                 <span className="flex items-center gap-1 font-semibold text-sky-300">📍 {location ? `${location.lat.toFixed(6)}, ${location.lng.toFixed(6)}` : 'กำลังระบุพิกัด GPS...'}</span>
@@ -991,7 +1301,7 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
                               <button 
                                 onClick={() => setPhotos(prev => ({
                                   ...prev,
-                                  [point.id]: prev[point.id].filter((_, idx) => idx !== i)
+                                  [point.id]: (prev[point.id] || []).filter((_, idx) => idx !== i)
                                 }))}
                                 className="absolute top-2 right-2 w-8 h-8 bg-rose-500/90 backdrop-blur-sm text-white rounded-full flex items-center justify-center shadow-lg active:scale-75 transition-all"
                               >
@@ -1010,7 +1320,7 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
                             </div>
                           </div>
                         ))}
-                        {photos[point.id].length === 0 && (
+                        {(photos[point.id] || []).length === 0 && (
                           <div className="py-10 border-2 border-dashed border-slate-200 rounded-2xl flex flex-col items-center justify-center text-slate-300 bg-slate-50/50">
                             <ImageIcon size={32} className="mb-2 opacity-20" />
                             <span className="text-[10px] font-bold uppercase tracking-widest">ยังไม่มีรูปภาพ</span>
@@ -1024,6 +1334,245 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
             </div>
           </section>
 
+          {checklistItems.length > 0 && (
+            <section className="bg-white p-5 rounded-3xl border border-slate-100 shadow-md shadow-slate-200/50">
+              <div className="flex justify-between items-start gap-4 mb-4">
+                <div className="flex-1 space-y-1">
+                  <div className="flex items-center gap-3">
+                    <div className={cn("w-2 h-2 rounded-full", abnormalChecklistItems.length > 0 ? "bg-red-500" : "bg-violet-600")} />
+                    <h4 className="font-bold text-base text-slate-900 uppercase tracking-tight">Check List ดิจิทัล</h4>
+                  </div>
+                  <p className="text-xs text-slate-500 leading-relaxed">
+                    กรอกค่าที่อ่านได้จากหน้างาน ช่องที่มี * ต้องกรอกให้ครบ ค่าที่เกินเกณฑ์จะแสดงเป็นสีแดงและทำให้รายงานเป็นสีแดงโดยอัตโนมัติ
+                  </p>
+                </div>
+                <span className="text-[10px] font-black text-violet-600 bg-violet-50 px-2 py-1 rounded-full border border-violet-100 shrink-0">
+                  {answeredChecklistItems.length}/{checklistItems.length}
+                </span>
+              </div>
+
+              <div className="space-y-5">
+                {Array.from(new Set<string>(checklistItems.map(item => item.category))).map(category => (
+                  <div key={category} className="space-y-2">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{categoryLabel(categories, category)}</p>
+                    {checklistItems.filter(item => item.category === category).map(item => {
+                      const value = checklistAnswers[item.id];
+                      const abnormal = isAnswered(item) && isChecklistValueAbnormal(item, value);
+                      const range = item.min_value != null || item.max_value != null
+                        ? `เกณฑ์ ${item.min_value ?? '-'} – ${item.max_value ?? '-'}${item.unit ? ` ${item.unit}` : ''}`
+                        : null;
+                      return (
+                        <div key={item.id} className={cn("rounded-2xl border p-3 space-y-2", abnormal ? "border-red-200 bg-red-50" : "border-slate-100 bg-slate-50/50")}>
+                          <div className="flex justify-between gap-2">
+                            <p className={cn("text-xs font-bold", abnormal ? "text-red-700" : "text-slate-700")}>
+                              {item.label}{item.required && <span className="text-red-500"> *</span>}
+                            </p>
+                            {range && <span className="text-[10px] text-slate-400 shrink-0">{range}</span>}
+                          </div>
+
+                          {item.input_type === 'number' && (
+                            <div className="flex items-center gap-2">
+                              <input
+                                type="number"
+                                inputMode="decimal"
+                                step="any"
+                                value={value === null || value === undefined ? '' : String(value)}
+                                onChange={(e) => setChecklistAnswer(item.id, e.target.value)}
+                                className={cn(
+                                  "flex-1 bg-white border rounded-xl px-4 py-2.5 text-sm font-mono outline-none focus:ring-2",
+                                  abnormal ? "border-red-300 text-red-700 focus:ring-red-400" : "border-slate-200 focus:ring-violet-500"
+                                )}
+                              />
+                              {item.unit && <span className="text-xs font-bold text-slate-400 w-6">{item.unit}</span>}
+                            </div>
+                          )}
+
+                          {item.input_type === 'boolean' && (
+                            <div className="grid grid-cols-2 gap-2">
+                              {[{ value: true, label: 'ผ่าน' }, { value: false, label: 'ไม่ผ่าน' }].map(option => (
+                                <button
+                                  key={option.label}
+                                  type="button"
+                                  onClick={() => setChecklistAnswer(item.id, value === option.value ? null : option.value)}
+                                  className={cn(
+                                    "py-2 rounded-xl text-xs font-bold border transition-colors",
+                                    value === option.value
+                                      ? option.value ? "bg-emerald-600 border-emerald-600 text-white" : "bg-red-600 border-red-600 text-white"
+                                      : "bg-white border-slate-200 text-slate-500"
+                                  )}
+                                >
+                                  {option.label}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+
+                          {item.input_type === 'text' && (
+                            <input
+                              type="text"
+                              placeholder="พิมพ์รายละเอียดที่นี่..."
+                              value={typeof value === 'string' ? value : ''}
+                              onChange={(e) => setChecklistAnswer(item.id, e.target.value)}
+                              className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2.5 text-xs focus:ring-2 focus:ring-violet-500 outline-none"
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          <section className="bg-white p-5 rounded-3xl border border-slate-100 shadow-md shadow-slate-200/50">
+            <div className="flex justify-between items-start gap-4 mb-4">
+              <div className="flex-1 space-y-1">
+                <div className="flex items-center gap-3">
+                  <div className="w-2 h-2 rounded-full bg-violet-600" />
+                  <h4 className="font-bold text-base text-slate-900 uppercase tracking-tight">ค่าแบตเตอรี่รายเซลล์</h4>
+                </div>
+                <p className="text-xs text-slate-500 leading-relaxed">
+                  บันทึกแรงดัน Float, ค่าความถ่วงจำเพาะ (SG) และอุณหภูมิของแต่ละเซลล์ เฉพาะเซลล์ที่กรอกค่าจะถูกส่ง
+                  (เกณฑ์ {batteryThresholds.min_float_voltage}–{batteryThresholds.max_float_voltage} V, SG {batteryThresholds.min_specific_gravity}–{batteryThresholds.max_specific_gravity}, ไม่เกิน {batteryThresholds.max_temperature_c} °C)
+                </p>
+              </div>
+              <button
+                onClick={addBatteryBank}
+                className="bg-violet-600 text-white px-3 py-2 rounded-xl text-xs font-bold flex items-center gap-1 active:scale-90 transition-all shadow-lg shadow-violet-200 shrink-0"
+              >
+                <Plus size={14} /> เพิ่มชุด
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              {batteryBanks.map((bank, bankIndex) => (
+                <div key={bankIndex} className="rounded-2xl border border-slate-100 bg-slate-50/50 p-3 space-y-3">
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="font-bold text-slate-500">ชุดที่</span>
+                    <input
+                      value={bank.bank}
+                      onChange={(e) => updateBatteryBank(bankIndex, b => ({ ...b, bank: e.target.value }))}
+                      className="w-14 bg-white border border-slate-200 rounded-lg px-2 py-1 font-bold outline-none focus:ring-2 focus:ring-violet-500"
+                    />
+                    <span className="font-bold text-slate-500 ml-2">จำนวนเซลล์</span>
+                    <input
+                      type="number"
+                      inputMode="numeric"
+                      min={1}
+                      value={bank.cells.length}
+                      onChange={(e) => setBatteryCellCount(bankIndex, Number(e.target.value))}
+                      className="w-16 bg-white border border-slate-200 rounded-lg px-2 py-1 font-bold outline-none focus:ring-2 focus:ring-violet-500"
+                    />
+                    <button
+                      onClick={() => {
+                        if (confirm(`ลบค่าที่บันทึกของชุดที่ ${bank.bank}?`)) setBatteryBanks(prev => prev.filter((_, i) => i !== bankIndex));
+                      }}
+                      className="ml-auto p-1.5 text-slate-400 hover:text-rose-500"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-[2rem_1fr_1fr_1fr] gap-1.5 text-[10px] font-black text-slate-400 uppercase text-center">
+                    <span>#</span>
+                    {BATTERY_METRICS.map(metric => <span key={metric.key}>{metric.label}</span>)}
+                  </div>
+                  <div className="space-y-1 max-h-80 overflow-y-auto">
+                    {bank.cells.map((cell, cellIndex) => (
+                      <div key={cellIndex} className="grid grid-cols-[2rem_1fr_1fr_1fr] gap-1.5 items-center">
+                        <span className="text-[10px] font-bold text-slate-400 text-center">{cellIndex + 1}</span>
+                        {BATTERY_METRICS.map(metric => {
+                          const outOfLimit = isBatteryValueOutOfLimit(metric.key, toReadingValue(cell[metric.key]), batteryThresholds);
+                          return (
+                            <input
+                              key={metric.key}
+                              type="number"
+                              inputMode="decimal"
+                              step={metric.step}
+                              value={cell[metric.key]}
+                              onChange={(e) => setBatteryValue(bankIndex, cellIndex, metric.key, e.target.value)}
+                              className={cn(
+                                "w-full bg-white border rounded-lg px-2 py-1.5 text-xs font-mono text-center outline-none focus:ring-2",
+                                outOfLimit ? "border-red-300 bg-red-50 text-red-700 focus:ring-red-400" : "border-slate-200 focus:ring-violet-500"
+                              )}
+                            />
+                          );
+                        })}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {batteryBanks.length === 0 && (
+                <p className="text-[11px] text-slate-400 text-center py-3">ยังไม่ได้บันทึกค่าแบตเตอรี่ กด "เพิ่มชุด" เพื่อเริ่ม</p>
+              )}
+            </div>
+          </section>
+
+          {openDefects.length > 0 && (
+            <section className="bg-white p-5 rounded-3xl border border-red-100 shadow-md shadow-slate-200/50">
+              <div className="flex-1 space-y-1 mb-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+                  <h4 className="font-bold text-base text-slate-900 uppercase tracking-tight">ข้อบกพร่องที่ต้องแก้ไข</h4>
+                </div>
+                <p className="text-xs text-slate-500 leading-relaxed">
+                  ถ่ายภาพหลังแก้ไขของแต่ละรายการ หัวหน้างานจะตรวจรับก่อนปิดรายการ
+                </p>
+              </div>
+              <div className="space-y-3">
+                {openDefects.map(defect => {
+                  const fix = defectFixes[String(defect.id)];
+                  return (
+                    <div key={defect.id} className="rounded-2xl border border-slate-100 bg-slate-50/50 p-3 space-y-2">
+                      <div className="flex justify-between items-start gap-3">
+                        <div className="min-w-0">
+                          <p className="text-sm font-bold text-slate-900">{defect.finding}</p>
+                          <p className="text-[10px] text-slate-500">
+                            {defect.category ? categoryLabel(categories, defect.category) : 'ไม่ระบุหมวด'} • พบเมื่อ {formatThaiDate(defect.created_at)}
+                            {defect.due_date && ` • กำหนดเสร็จ ${formatThaiDate(defect.due_date)}`}
+                          </p>
+                        </div>
+                        <label className="bg-violet-600 text-white px-3 py-2 rounded-xl text-xs font-bold flex items-center gap-1 active:scale-90 transition-all cursor-pointer shadow-lg shadow-violet-200 shrink-0">
+                          <Camera size={14} />
+                          <span>{fix ? 'ถ่ายใหม่' : 'ถ่ายหลังแก้ไข'}</span>
+                          <input
+                            type="file"
+                            accept="image/*"
+                            capture="environment"
+                            className="hidden"
+                            onChange={(e) => onFileChange(e, `defect:${defect.id}`)}
+                          />
+                        </label>
+                      </div>
+                      {fix && (
+                        <div className="aspect-video bg-slate-200 rounded-xl overflow-hidden relative shadow-inner">
+                          <img src={URL.createObjectURL(fix.file)} className="w-full h-full object-cover" />
+                          {fix.authenticity?.verdict === 'suspect' && (
+                            <div className="absolute top-2 left-2 bg-amber-500/90 text-white text-[9px] font-bold px-2 py-1 rounded-lg max-w-[70%]">
+                              ⚠ {fix.authenticity.reasons.join(' • ')}
+                            </div>
+                          )}
+                          <button
+                            onClick={() => setDefectFixes(prev => {
+                              const next = { ...prev };
+                              delete next[String(defect.id)];
+                              return next;
+                            })}
+                            className="absolute top-2 right-2 w-8 h-8 bg-rose-500/90 backdrop-blur-sm text-white rounded-full flex items-center justify-center shadow-lg active:scale-75 transition-all"
+                          >
+                            <Plus size={20} className="rotate-45" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          )}
+
           <section className="bg-white p-5 rounded-3xl border border-slate-100 shadow-md shadow-slate-200/50">
             <div className="flex justify-between items-start gap-4 mb-4">
               <div className="flex-1 space-y-1">
@@ -1047,11 +1596,19 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
                       <span className="text-[10px] font-bold bg-violet-50 text-violet-700 border border-violet-100 px-2 py-0.5 rounded-lg flex items-center gap-1">
                         🕒 ส่งล่าสุด: {status.lastSubmittedText}
                       </span>
+                      {status.schedule?.dueDate && (
+                        <span className={cn(
+                          "text-[10px] font-bold px-2 py-0.5 rounded-lg border flex items-center gap-1",
+                          status.schedule.status === 'overdue' ? "bg-rose-50 text-rose-600 border-rose-100" : "bg-slate-50 text-slate-500 border-slate-200"
+                        )}>
+                          ⏰ {status.schedule.status === 'overdue' ? 'เกินกำหนด' : 'ครบกำหนด'} {formatThaiDate(status.schedule.dueDate)} ({FREQUENCY_LABELS[status.schedule.frequency]})
+                        </span>
+                      )}
                     </div>
                   );
                 })()}
                 <div className="text-xs text-slate-500 leading-relaxed space-y-1">
-                  {"ให้จัดหน้ากระดาษให้ตรง และถ่ายภาพให้เห็นข้อความหรือรอยขีดเขียนอย่างชัดเจน เพื่อให้อ่านรายละเอียดข้อมูลได้ครบถ้วน โดยมีรายการที่ต้องถ่ายดังนี้\n• กระดาษ Check List (A4): ถ่ายภาพ ให้ครบทุกหน้า (ถ่ายหน้าละ 1 รูป)\n• สมุดตรวจเยี่ยมและการเข้าปฏิบัติงานสถานีฯ: ถ่ายภาพ หน้าล่าสุด ที่มีการลงบันทึก (1 รูป)".split('\n').map((line, idx) => (
+                  {(categories.find(c => c.key === 'checklist')?.instructions || '').split('\n').map((line, idx) => (
                     <p key={idx}>{line}</p>
                   ))}
                 </div>
@@ -1076,9 +1633,12 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
             </div>
             
             <div className="grid grid-cols-3 gap-3">
-                {checklists.map((file, i) => (
+                {checklists.map(({ file, authenticity }, i) => (
                   <div key={i} className="aspect-square bg-slate-200 rounded-2xl overflow-hidden relative group shadow-inner">
                     <img src={URL.createObjectURL(file)} className="w-full h-full object-cover" />
+                    {authenticity?.verdict === 'suspect' && (
+                      <span className="absolute top-1 left-1 bg-amber-500/90 text-white text-[8px] font-bold px-1.5 py-0.5 rounded-md" title={authenticity.reasons.join(' • ')}>⚠ ตรวจสอบ</span>
+                    )}
                     <div className="absolute bottom-1 left-1 right-1 bg-slate-900/85 backdrop-blur-sm text-white text-[7px] p-1 rounded-lg font-mono flex flex-col gap-0.5 shadow-sm border border-white/5">
                       <span className="truncate">👤 {employeeId}</span>
                       <span className="truncate text-sky-300">📍 {location ? `${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}` : 'GPS...'}</span>
@@ -1109,7 +1669,7 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
         <div className="fixed bottom-0 left-0 right-0 p-6 bg-white border-t border-slate-100 shadow-2xl">
           <div className="max-w-md mx-auto">
             <Button 
-              onClick={() => setShowConfirm(true)} 
+              onClick={requestSubmit} 
               className="w-full h-14 text-lg" 
               disabled={!isReady || uploading}
             >
@@ -1141,6 +1701,14 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
                 </div>
                 <h3 className="text-xl font-bold text-slate-900 mb-2">ยืนยันการส่งรายงาน</h3>
                 <p className="text-slate-500 text-sm mb-8">คุณยืนยันที่จะส่งรายงานของสถานี {substation.name} หรือไม่?</p>
+                {abnormalChecklistItems.length > 0 && (
+                  <div className="-mt-4 mb-6 p-3 bg-red-50 border border-red-100 rounded-xl text-left text-xs text-red-700">
+                    <p className="font-bold mb-1">ค่าต่อไปนี้เกินเกณฑ์ รายงานจะถูกบันทึกเป็นสีแดง</p>
+                    {abnormalChecklistItems.map(item => (
+                      <p key={item.id}>• {item.label}</p>
+                    ))}
+                  </div>
+                )}
                 
                 <div className="grid grid-cols-2 gap-4">
                   <button 
@@ -1168,8 +1736,22 @@ const InspectionPage = ({ substation, employeeId, onBack, onComplete }: { substa
   );
 };
 
-const DashboardPage = ({ onBack }: { onBack: () => void }) => {
-  const [stats, setStats] = useState<{ total: number; totalSubmissions: number; recent: InspectionLog[] }>({ total: 0, totalSubmissions: 0, recent: [] });
+// Health index grades from best to worst; the last style is for the policy's lowest grade
+const GRADE_STYLES = [
+  { badge: 'text-emerald-600 bg-emerald-50 border-emerald-100', bar: 'bg-emerald-500', card: 'bg-emerald-500 text-white border-emerald-500 shadow-lg shadow-emerald-100', caption: 'text-emerald-100', count: '' },
+  { badge: 'text-teal-600 bg-teal-50 border-teal-100', bar: 'bg-teal-500', card: 'bg-teal-500 text-white border-teal-500 shadow-lg shadow-teal-100', caption: 'text-teal-100', count: '' },
+  { badge: 'text-amber-600 bg-amber-50 border-amber-100', bar: 'bg-amber-500', card: 'bg-amber-50 text-amber-700 border-amber-300 shadow-lg shadow-amber-100', caption: 'text-amber-800/80', count: 'text-amber-700' },
+  { badge: 'text-rose-600 bg-rose-50 border-rose-100', bar: 'bg-rose-500', card: 'bg-rose-500 text-white border-rose-500 shadow-lg shadow-rose-100', caption: 'text-rose-100', count: '' }
+];
+
+const DashboardPage = ({ substations, categories, onBack, onManageSubstations, onBatteryTrend, onHealthTrend, onDefects, permissions }: { substations: Substation[]; categories: InspectionCategory[]; onBack: () => void; onManageSubstations: () => void; onBatteryTrend: () => void; onHealthTrend: (substationName: string) => void; onDefects: () => void; permissions: string[] }) => {
+  const [stats, setStats] = useState<{
+    total: number; totalSubmissions: number; recent: InspectionLog[]; flaggedSubmissions?: number; teamSubstations?: string[] | null;
+    requiredCategories?: { [substationName: string]: string[] }; missingCategories?: { [substationName: string]: string[] };
+  }>({ total: 0, totalSubmissions: 0, recent: [] });
+  const [scheduleStatus, setScheduleStatus] = useState<{ substationName: string; overdue: boolean; categories: ScheduleState[] }[]>([]);
+  const [showOverdueModal, setShowOverdueModal] = useState(false);
+  const [selectedTeam, setSelectedTeam] = useState('');
   const [loading, setLoading] = useState(true);
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth());
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
@@ -1191,11 +1773,32 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
   const [selectedSubForAudit, setSelectedSubForAudit] = useState<any | null>(null);
   const [isSavingAudit, setIsSavingAudit] = useState(false);
   const [isRerunningAI, setIsRerunningAI] = useState(false);
+  const [auditModalTab, setAuditModalTab] = useState<'form' | 'history'>('form');
+  const [auditHistory, setAuditHistory] = useState<any[]>([]);
+  const [loadingAuditHistory, setLoadingAuditHistory] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
-  const [activeGradeFilter, setActiveGradeFilter] = useState<string | null>(null);
+  // Rank of the grade in the current policy (0 = best)
+  const [activeGradeFilter, setActiveGradeFilter] = useState<number | null>(null);
+  const [healthPolicy, setHealthPolicy] = useState<HealthIndexPolicy>(DEFAULT_HEALTH_INDEX_POLICY);
+  // Fleet figures from /api/health-index/analytics; null without a database
+  const [analytics, setAnalytics] = useState<any | null>(null);
 
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
-  const [driveStatus, setDriveStatus] = useState<{ connected: boolean; configured: boolean } | null>(null);
+  const canAudit = permissions.includes('audit:write');
+  const canAnalyze = permissions.includes('analysis:run');
+  const canForceAnalyze = permissions.includes('analysis:force');
+  const canConfigureDrive = permissions.includes('drive:configure');
+  const [driveStatus, setDriveStatus] = useState<{
+    connected: boolean;
+    configured: boolean;
+    source?: 'database' | 'env' | null;
+    encryptionConfigured?: boolean;
+    authorizedBy?: string | null;
+    tokenAgeDays?: number | null;
+    lastRefreshAt?: string | null;
+    lastError?: string | null;
+    needsReauthorization?: boolean;
+  } | null>(null);
   const [testingConnection, setTestingConnection] = useState(false);
 
   const checkDriveStatus = () => {
@@ -1207,23 +1810,27 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
 
   useEffect(() => {
     checkDriveStatus();
+    fetch('/api/health-index-policy')
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(data => setHealthPolicy(data))
+      .catch(err => console.warn("Using the default health index policy:", err));
   }, []);
 
   const testDriveConnection = async () => {
     setTestingConnection(true);
     try {
-      const res = await fetch('/api/drive/subfolders/root');
+      const res = await fetch('/api/drive/status?check=true');
       const data = await res.json();
-      if (res.ok) {
+      setDriveStatus(data);
+      if (res.ok && !data.lastError) {
         alert("✅ เชื่อมต่อ Google Drive สำเร็จ! สามารถอ่านข้อมูลได้ปกติ");
       } else {
-        alert(`❌ การเชื่อมต่อล้มเหลว: ${data.error || 'Unknown error'}`);
+        alert(`❌ การเชื่อมต่อล้มเหลว: ${data.lastError || data.error || 'Unknown error'}`);
       }
     } catch (err) {
       alert("❌ เกิดข้อผิดพลาดในการเชื่อมต่อ");
     } finally {
       setTestingConnection(false);
-      checkDriveStatus();
     }
   };
 
@@ -1375,18 +1982,41 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
     fetch(`/api/health-index?month=${selectedMonth + 1}&year=${selectedYear}`)
       .then(res => res.json())
       .then(data => setHealthIndex(data));
+    const teamQuery = selectedTeam ? `&team=${encodeURIComponent(selectedTeam)}` : '';
+    fetch(`/api/health-index/analytics?month=${selectedMonth + 1}&year=${selectedYear}${teamQuery}`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(setAnalytics)
+      .catch(err => {
+        console.warn("Health index analytics unavailable:", err);
+        setAnalytics(null);
+      });
   };
 
+  // Supervisors who own a single area start on their own team
+  useEffect(() => {
+    fetch('/api/my-assignments')
+      .then(res => res.ok ? res.json() : null)
+      .then(data => {
+        if (data?.supervisedAreas?.length === 1) setSelectedTeam(data.supervisedAreas[0]);
+      })
+      .catch(() => {});
+  }, []);
+
   useEffect(() => {
     setLoading(true);
-    fetch(`/api/dashboard-stats?month=${selectedMonth + 1}&year=${selectedYear}`)
+    const teamQuery = selectedTeam ? `&team=${encodeURIComponent(selectedTeam)}` : '';
+    fetch(`/api/dashboard-stats?month=${selectedMonth + 1}&year=${selectedYear}${teamQuery}`)
       .then(res => res.json())
       .then(data => {
         setStats(data);
         setLoading(false);
       });
+    fetch(`/api/schedule-status${selectedTeam ? `?team=${encodeURIComponent(selectedTeam)}` : ''}`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(data => setScheduleStatus(data.stations || []))
+      .catch(err => console.error("Failed to load schedule status:", err));
     fetchHealthIndex();
-  }, [selectedMonth, selectedYear]);
+  }, [selectedMonth, selectedYear, selectedTeam]);
 
   const runQueueAnalysis = async (substationName: string, force = false, onProgress: (statusText: string) => void) => {
     // 1. Dry run to get Folder ID
@@ -1531,18 +2161,7 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
       } else {
         setSelectedSubForAudit({
           substation_name: substationName,
-          battery_score: data.battery_score !== undefined ? data.battery_score : 100,
-          battery_na: !!data.battery_na,
-          yard_score: data.yard_score !== undefined ? data.yard_score : 100,
-          yard_na: !!data.yard_na,
-          checklist_score: data.checklist_score !== undefined ? data.checklist_score : 100,
-          checklist_na: !!data.checklist_na,
-          roof_score: data.roof_score !== undefined ? data.roof_score : 100,
-          roof_na: !!data.roof_na,
-          fence_score: data.fence_score !== undefined ? data.fence_score : 100,
-          fence_na: !!data.fence_na,
-          security_score: data.security_score !== undefined ? data.security_score : 100,
-          security_na: !!data.security_na,
+          scores: auditFormScores(data.scores),
           summary: data.summary || '',
           status: data.status || 'Green'
         });
@@ -1557,6 +2176,27 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
     }
   };
 
+  const auditSubName = selectedSubForAudit?.substation_name;
+  useEffect(() => {
+    setAuditModalTab('form');
+    setAuditHistory([]);
+  }, [auditSubName]);
+
+  const openAuditHistory = async () => {
+    setAuditModalTab('history');
+    setLoadingAuditHistory(true);
+    try {
+      const res = await fetch(`/api/health-index/audit?substationName=${encodeURIComponent(auditSubName)}&month=${selectedMonth + 1}&year=${selectedYear}`);
+      const data = await res.json();
+      setAuditHistory(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error("Failed to load audit history:", err);
+      setAuditHistory([]);
+    } finally {
+      setLoadingAuditHistory(false);
+    }
+  };
+
   const handleSaveAudit = async (auditData: any) => {
     setIsSavingAudit(true);
     try {
@@ -1567,18 +2207,7 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
           substationName: auditData.substation_name,
           month: selectedMonth + 1,
           year: selectedYear,
-          battery_score: auditData.battery_score,
-          battery_na: auditData.battery_na,
-          yard_score: auditData.yard_score,
-          yard_na: auditData.yard_na,
-          checklist_score: auditData.checklist_score,
-          checklist_na: auditData.checklist_na,
-          roof_score: auditData.roof_score,
-          roof_na: auditData.roof_na,
-          fence_score: auditData.fence_score,
-          fence_na: auditData.fence_na,
-          security_score: auditData.security_score,
-          security_na: auditData.security_na,
+          scores: auditData.scores,
           summary: auditData.summary,
           status: auditData.status
         })
@@ -1599,85 +2228,75 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
     }
   };
 
-  const calculateHIForSubstation = (healthRow: any) => {
-    if (!healthRow) return { score: 100, isEvaluated: false, naCount: 0, grade: 'ดีมาก', gradeColor: 'text-emerald-600 bg-emerald-50 border-emerald-100' };
-
-    let totalWeightApplicable = 0;
-    let totalScoreWeight = 0;
-
-    const categories = [
-      { score: healthRow.battery_score, na: healthRow.battery_na, weight: 0.25 },
-      { score: healthRow.yard_score, na: healthRow.yard_na, weight: 0.20 },
-      { score: healthRow.checklist_score, na: healthRow.checklist_na, weight: 0.15 },
-      { score: healthRow.roof_score, na: healthRow.roof_na, weight: 0.15 },
-      { score: healthRow.fence_score, na: healthRow.fence_na, weight: 0.15 },
-      { score: healthRow.security_score, na: healthRow.security_na, weight: 0.10 }
-    ];
-
-    let naCount = 0;
-    categories.forEach(cat => {
-      const isNa = cat.na === true;
-      const scoreVal = cat.score !== undefined && cat.score !== null ? cat.score : 100;
-
-      if (!isNa) {
-        totalWeightApplicable += cat.weight;
-        totalScoreWeight += (scoreVal * cat.weight);
-      } else {
-        naCount++;
-      }
-    });
-
-    if (totalWeightApplicable === 0) {
-      return { score: 0, isEvaluated: true, naCount, grade: 'ต้องปรับปรุง', gradeColor: 'text-rose-600 bg-rose-50 border-rose-100' };
-    }
+  // Weighted categories of the current policy; one the health row has no score for counts as N/A
+  const scoredCategories = (healthRow: any) => (Object.entries(healthPolicy.weights) as [string, number][])
+    .filter(([, weight]) => weight > 0)
+    .map(([key, weight]) => ({
+      key,
+      label: categoryLabel(categories, key),
+      weight,
+      score: healthRow.scores?.[key]?.score ?? null,
+      na: !healthRow.scores?.[key] || healthRow.scores[key].na
+    }));
+
+  // Scores for the audit form: the weighted categories plus any other the row has. Without a row every
+  // category starts at 100; a row's category without a score starts as N/A.
+  const auditFormScores = (scores?: HealthCategoryScores) => {
+    const keys = Array.from(new Set([...scoredCategories({}).map(c => c.key), ...Object.keys(scores || {})]));
+    return Object.fromEntries(keys.map(key => [key, {
+      score: scores?.[key]?.score ?? 100,
+      na: scores ? !scores[key] || scores[key].na : false
+    }]));
+  };
 
-    const score = Math.round((totalScoreWeight / totalWeightApplicable) * 10) / 10;
-    
-    let grade = 'ต้องปรับปรุง';
-    let gradeColor = 'text-rose-600 bg-rose-50 border-rose-100';
-    if (score >= 90) {
-      grade = 'ดีมาก';
-      gradeColor = 'text-emerald-600 bg-emerald-50 border-emerald-100';
-    } else if (score >= 80) {
-      grade = 'ดี';
-      gradeColor = 'text-teal-600 bg-teal-50 border-teal-100';
-    } else if (score >= 70) {
-      grade = 'ปานกลาง';
-      gradeColor = 'text-amber-600 bg-amber-50 border-amber-100';
-    }
+  // Position of a grade in the current policy, best first; a grade the policy no longer has counts as the worst
+  const gradeRank = (grade: string) => {
+    const rank = healthPolicy.grades.findIndex(g => g.label === grade);
+    return rank >= 0 ? rank : healthPolicy.grades.length - 1;
+  };
+  const gradeStyle = (rank: number) => rank >= healthPolicy.grades.length - 1
+    ? GRADE_STYLES[GRADE_STYLES.length - 1]
+    : GRADE_STYLES[Math.min(rank, GRADE_STYLES.length - 2)];
+  const gradeColorFor = (grade: string) => gradeStyle(gradeRank(grade)).badge;
+
+  // What the row would score under the current policy (the audit form's preview)
+  const previewHealthIndex = (healthRow: any) => {
+    const { score, grade, naCount } = computeHealthIndex(healthRow.scores || {}, healthPolicy);
+    return { score, isEvaluated: true, naCount, grade, gradeColor: gradeColorFor(grade) };
+  };
 
-    return { score, isEvaluated: true, naCount, grade, gradeColor };
+  // The index the server stored with the row, under the policy version it was scored with
+  const calculateHIForSubstation = (healthRow: any) => {
+    if (!healthRow) return { score: 100, isEvaluated: false, naCount: 0, grade: healthPolicy.grades[0].label, gradeColor: GRADE_STYLES[0].badge };
+    const preview = previewHealthIndex(healthRow);
+    if (healthRow.health_index === null || healthRow.health_index === undefined) return preview;
+    return { ...preview, score: Number(healthRow.health_index), grade: healthRow.grade, gradeColor: gradeColorFor(healthRow.grade) };
   };
 
-  const REQUIRED_CATEGORIES = ['fence', 'battery', 'checklist'];
+  // Each station's scheduled categories and those not yet covered this month, as worked out by dashboard-stats
+  const requiredCategoriesFor = (name: string) => stats.requiredCategories?.[name.trim()] || [];
+  const missingCategoriesFor = (name: string) => stats.missingCategories?.[name.trim()] ?? requiredCategoriesFor(name);
+  const overdueStations = scheduleStatus.filter(station => station.overdue);
 
-  const substationCompletionMap = new Map<string, Set<string>>();
-  stats.recent.forEach(log => {
-    const name = (log.substation_name || "").trim();
-    if (!substationCompletionMap.has(name)) {
-      substationCompletionMap.set(name, new Set());
-    }
-    (log.categories || []).forEach(cat => {
-      if (REQUIRED_CATEGORIES.includes(cat)) {
-        substationCompletionMap.get(name)?.add(cat);
-      }
-    });
-  });
+  // Limit every figure to the selected team's stations
+  const scopedSubstations = stats.teamSubstations
+    ? substations.filter(sub => stats.teamSubstations!.includes(sub.name.trim()))
+    : substations;
 
-  const pendingSubstations = SUBSTATIONS.filter(sub => {
-    const name = (sub.name || "").trim();
-    const cats = substationCompletionMap.get(name);
-    return !cats || cats.size < REQUIRED_CATEGORIES.length;
-  });
+  const pendingSubstations = scopedSubstations.filter(sub => !stats.missingCategories || missingCategoriesFor(sub.name).length > 0);
 
-  const inspectedSubstations = SUBSTATIONS.filter(sub => {
-    const name = (sub.name || "").trim();
-    const cats = substationCompletionMap.get(name);
-    return cats && cats.size >= REQUIRED_CATEGORIES.length;
-  }).map(sub => {
+  const inspectedSubstations = scopedSubstations.filter(sub => !!stats.missingCategories && missingCategoriesFor(sub.name).length === 0).map(sub => {
     // Find the latest inspection for this sub
-    const latestLog = stats.recent.find(log => (log.substation_name || "").trim() === (sub.name || "").trim());
-    return { ...sub, latestLog };
+    const subLogs = stats.recent.filter(log => (log.substation_name || "").trim() === (sub.name || "").trim());
+    const latestLog = subLogs[0];
+    const geofenceMisses = subLogs.filter(log => log.within_geofence === false);
+    const territoryMisses = subLogs.filter(log => log.out_of_territory);
+    const unverifiedLogs = subLogs.filter(log => /^(partial|failed)$/i.test(log.status || ''));
+    const suspectPhotos = subLogs.reduce((sum, log) => sum + (log.suspect_photos || 0), 0);
+    const rejectedPhotos = subLogs.reduce((sum, log) => sum + (log.rejected_photos || 0), 0);
+    const abnormalChecklists = subLogs.filter(log => log.checklist_abnormal);
+    const batteryAlerts = subLogs.reduce((sum, log) => sum + (log.battery_alerts || 0), 0);
+    return { ...sub, latestLog, geofenceMisses, territoryMisses, unverifiedLogs, suspectPhotos, rejectedPhotos, abnormalChecklists, batteryAlerts };
   });
 
   return (
@@ -1697,6 +2316,35 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
               <ChevronRight size={24} className="rotate-180" />
             </button>
             <h2 className="text-2xl font-bold text-slate-900">Executive Dashboard</h2>
+            {permissions.includes('substations:manage') && (
+              <button
+                onClick={onManageSubstations}
+                className="text-[10px] font-bold text-slate-400 hover:text-violet-600 transition-colors inline-flex items-center gap-1"
+              >
+                <Sliders size={12} /> ทะเบียนสถานี
+              </button>
+            )}
+            <button
+              onClick={onBatteryTrend}
+              className="text-[10px] font-bold text-slate-400 hover:text-violet-600 transition-colors inline-flex items-center gap-1"
+            >
+              <Activity size={12} /> แนวโน้มแบตเตอรี่
+            </button>
+            <button
+              onClick={onDefects}
+              className="text-[10px] font-bold text-slate-400 hover:text-violet-600 transition-colors inline-flex items-center gap-1"
+            >
+              <Hammer size={12} /> ข้อบกพร่อง
+            </button>
+            <button
+              onClick={() => setShowOverdueModal(true)}
+              className={cn(
+                "text-[10px] font-bold transition-colors inline-flex items-center gap-1",
+                overdueStations.length > 0 ? "text-rose-500 hover:text-rose-700" : "text-slate-400 hover:text-violet-600"
+              )}
+            >
+              <Clock size={12} /> เกินกำหนด {overdueStations.length > 0 && `(${overdueStations.length})`}
+            </button>
           </div>
 
           <div className="flex bg-slate-200 p-1 rounded-xl">
@@ -1723,6 +2371,16 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
           <div className="flex flex-col items-end gap-1">
             <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">เลือกเดือนที่ต้องการตรวจสอบ</span>
             <div className="flex gap-2">
+              <select 
+                value={selectedTeam} 
+                onChange={(e) => setSelectedTeam(e.target.value)}
+                className="bg-white px-4 py-2 rounded-xl border border-slate-200 shadow-sm text-sm font-bold text-slate-700 outline-none focus:ring-2 focus:ring-violet-500"
+              >
+                <option value="">ทุกทีม</option>
+                {AREAS.map(area => (
+                  <option key={area} value={area}>{area}</option>
+                ))}
+              </select>
               <select 
                 value={selectedMonth} 
                 onChange={(e) => setSelectedMonth(parseInt(e.target.value))}
@@ -1745,6 +2403,46 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
           </div>
         </div>
 
+        {canConfigureDrive && driveStatus && (
+          <Card className={cn("mb-8", driveStatus.needsReauthorization || !driveStatus.connected ? "border-rose-200 bg-rose-50/50" : "")}>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                <p className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">การเชื่อมต่อ Google Drive / Sheets</p>
+                {driveStatus.connected ? (
+                  <p className="text-sm font-bold text-slate-800">
+                    {driveStatus.source === 'database' ? 'ใช้สิทธิ์ที่บันทึกในระบบ' : 'ใช้ GOOGLE_REFRESH_TOKEN จาก Environment'}
+                    {driveStatus.tokenAgeDays != null && <span className="font-normal text-slate-500"> • อนุมัติเมื่อ {driveStatus.tokenAgeDays} วันที่แล้ว{driveStatus.authorizedBy ? ` โดย ${driveStatus.authorizedBy}` : ''}</span>}
+                  </p>
+                ) : (
+                  <p className="text-sm font-bold text-rose-600">ยังไม่ได้เชื่อมต่อบัญชี Google</p>
+                )}
+                <p className="text-[10px] text-slate-400 mt-1">
+                  ต่ออายุ Token สำเร็จล่าสุด: {driveStatus.lastRefreshAt ? format(new Date(driveStatus.lastRefreshAt), 'd MMM yyyy HH:mm', { locale: th }) : '-'}
+                </p>
+                {driveStatus.lastError && (
+                  <p className="text-[10px] text-rose-600 font-bold mt-1">
+                    {driveStatus.needsReauthorization ? 'สิทธิ์การเข้าถึงหมดอายุ (invalid_grant) กรุณาเชื่อมต่อใหม่' : `ข้อผิดพลาดล่าสุด: ${driveStatus.lastError}`}
+                  </p>
+                )}
+                {!driveStatus.encryptionConfigured && (
+                  <p className="text-[10px] text-amber-600 font-bold mt-1">ยังไม่ได้ตั้งค่า GOOGLE_TOKEN_ENCRYPTION_KEY ระบบจะแสดง Token ให้คัดลอกไปใส่ Environment เอง</p>
+                )}
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button variant="outline" onClick={testDriveConnection} disabled={testingConnection} className="py-2 text-xs">
+                  {testingConnection ? <Loader2 className="animate-spin w-4 h-4" /> : 'ทดสอบการเชื่อมต่อ'}
+                </Button>
+                <a
+                  href="/api/auth/google"
+                  className="px-4 py-2 rounded-xl text-xs font-bold bg-violet-600 text-white hover:bg-violet-700 transition-colors inline-flex items-center"
+                >
+                  เชื่อมต่อใหม่
+                </a>
+              </div>
+            </div>
+          </Card>
+        )}
+
         {activeTab === 'progress' ? (
           <>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
@@ -1754,7 +2452,10 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                 <div>
                   <p className="text-violet-100 text-xs font-bold uppercase tracking-wider mb-1">ตรวจสอบแล้ว ({months[selectedMonth].label})</p>
                   <h3 className="text-4xl font-bold">{inspectedSubstations.length} <span className="text-lg font-normal opacity-70">สถานี</span></h3>
-                  <p className="text-[10px] text-violet-100 mt-1 font-bold">รวม {stats.totalSubmissions} รายการส่ง</p>
+                  <p className="text-[10px] text-violet-100 mt-1 font-bold">
+                    รวม {stats.totalSubmissions} รายการส่ง
+                    {!!stats.flaggedSubmissions && <span className="text-amber-200"> • ⚠ {stats.flaggedSubmissions} รายการต้องตรวจสอบตำแหน่ง</span>}
+                  </p>
                 </div>
                 <div className="w-8 h-8 rounded-full bg-white/10 flex items-center justify-center text-white/50 group-hover:bg-white/20 group-hover:text-white transition-colors">
                   <ChevronRight size={18} />
@@ -1781,9 +2482,9 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
             <Card>
               <p className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">ความครอบคลุม</p>
               <h3 className="text-4xl font-bold text-slate-800">
-                {((inspectedSubstations.length / SUBSTATIONS.length) * 100).toFixed(1)}%
+                {(scopedSubstations.length ? (inspectedSubstations.length / scopedSubstations.length) * 100 : 0).toFixed(1)}%
               </h3>
-              <p className="text-[10px] text-slate-400 mt-1 font-bold">จากทั้งหมด {SUBSTATIONS.length} สถานี</p>
+              <p className="text-[10px] text-slate-400 mt-1 font-bold">จากทั้งหมด {scopedSubstations.length} สถานี</p>
             </Card>
           </div>
         </div>
@@ -1804,14 +2505,14 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-100">
-                {SUBSTATIONS.map(sub => {
+                {scopedSubstations.map(sub => {
                   const name = (sub.name || "").trim();
-                  const cats = substationCompletionMap.get(name) || new Set();
-                  const progress = cats.size;
-                  const isDone = progress >= REQUIRED_CATEGORIES.length;
+                  const required = requiredCategoriesFor(name);
+                  const progress = required.length - missingCategoriesFor(name).length;
+                  const isDone = progress >= required.length;
                   
                   // Only show stations that have at least one log in the current month
-                  if (progress === 0 && !stats.recent.some(l => (l.substation_name || "").trim() === name)) return null;
+                  if (!stats.recent.some(l => (l.substation_name || "").trim() === name)) return null;
 
                   return (
                     <tr key={sub.id} className="hover:bg-slate-50/50 transition-colors">
@@ -1821,14 +2522,14 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                           <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden min-w-[100px]">
                             <motion.div 
                               initial={{ width: 0 }}
-                              animate={{ width: `${(progress / REQUIRED_CATEGORIES.length) * 100}%` }}
+                              animate={{ width: `${required.length ? (progress / required.length) * 100 : 100}%` }}
                               className={cn(
                                 "h-full rounded-full",
                                 isDone ? "bg-emerald-500" : "bg-violet-500"
                               )}
                             />
                           </div>
-                          <span className="text-xs font-bold text-slate-500">{progress}/{REQUIRED_CATEGORIES.length}</span>
+                          <span className="text-xs font-bold text-slate-500">{progress}/{required.length}</span>
                         </div>
                       </td>
                       <td className="px-6 py-4">
@@ -1842,9 +2543,9 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                     </tr>
                   );
                 })}
-                {SUBSTATIONS.every(sub => {
+                {scopedSubstations.every(sub => {
                   const name = (sub.name || "").trim();
-                  return !substationCompletionMap.has(name) && !stats.recent.some(l => (l.substation_name || "").trim() === name);
+                  return !stats.recent.some(l => (l.substation_name || "").trim() === name);
                 }) && (
                   <tr>
                     <td colSpan={3} className="px-6 py-12 text-center text-slate-400 italic text-sm">
@@ -1873,7 +2574,9 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-100">
-                {stats.recent.map((log) => (
+                {stats.recent.map((log) => {
+                  const required = requiredCategoriesFor(log.substation_name || '');
+                  return (
                   <tr key={log.id} className="hover:bg-slate-50/50 transition-colors">
                     <td className="px-6 py-4 font-bold text-slate-800">{log.substation_name}</td>
                     <td className="px-6 py-4 text-sm text-slate-600 font-mono">{log.employee_id}</td>
@@ -1885,21 +2588,21 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                         <div className="flex items-center gap-2">
                           <span className={cn(
                             "inline-flex items-center gap-1 text-[10px] font-bold uppercase px-2 py-1 rounded-full",
-                            REQUIRED_CATEGORIES.every(cat => log.categories?.includes(cat))
+                            required.every(cat => log.categories?.includes(cat))
                               ? "bg-emerald-50 text-emerald-600" 
                               : "bg-amber-50 text-amber-600"
                           )}>
-                            <CheckCircle2 size={12} /> {REQUIRED_CATEGORIES.every(cat => log.categories?.includes(cat)) ? 'เรียบร้อย' : 'กำลังดำเนินการ'}
+                            <CheckCircle2 size={12} /> {required.every(cat => log.categories?.includes(cat)) ? 'เรียบร้อย' : 'กำลังดำเนินการ'}
                           </span>
                           <span className="text-[10px] font-bold text-slate-400">
-                            ({REQUIRED_CATEGORIES.filter(cat => log.categories?.includes(cat)).length}/{REQUIRED_CATEGORIES.length})
+                            ({required.filter(cat => log.categories?.includes(cat)).length}/{required.length})
                           </span>
                         </div>
-                        {log.categories && !REQUIRED_CATEGORIES.every(cat => log.categories.includes(cat)) && (
+                        {log.categories && !required.every(cat => log.categories.includes(cat)) && (
                           <div className="flex flex-wrap gap-1 max-w-[150px]">
-                            {REQUIRED_CATEGORIES.filter(cat => !log.categories.includes(cat)).map(cat => (
+                            {required.filter(cat => !log.categories.includes(cat)).map(cat => (
                               <span key={cat} className="text-[7px] text-slate-400 bg-slate-100 px-1 rounded">
-                                {CATEGORY_LABELS[cat] || cat}
+                                {categoryLabel(categories, cat)}
                               </span>
                             ))}
                           </div>
@@ -1917,7 +2620,8 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                       </a>
                     </td>
                   </tr>
-                ))}
+                  );
+                })}
                 {stats.recent.length === 0 && (
                   <tr>
                     <td colSpan={5} className="px-6 py-12 text-center text-slate-400 italic">
@@ -1931,22 +2635,24 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
         </Card>
           </>
         ) : (() => {
-          const evaluatedRows = SUBSTATIONS.map(sub => {
+          const evaluatedRows = scopedSubstations.map(sub => {
             const row = healthIndex.find(h => h.substation_name === sub.name);
             return { sub, row, calculation: calculateHIForSubstation(row) };
           });
           
+          // The server aggregates the fleet; the local figures only cover a deployment without a database
           const auditedRows = evaluatedRows.filter(item => item.row !== undefined);
-          const totalAudited = auditedRows.length;
-          const averageHI = totalAudited > 0 
-            ? Math.round((auditedRows.reduce((acc, curr) => acc + curr.calculation.score, 0) / totalAudited) * 10) / 10 
-            : 0;
-          
-          const countExcellent = evaluatedRows.filter(r => r.row && r.calculation.score >= 90).length;
-          const countGood = evaluatedRows.filter(r => r.row && r.calculation.score >= 80 && r.calculation.score < 90).length;
-          const countFair = evaluatedRows.filter(r => r.row && r.calculation.score >= 70 && r.calculation.score < 80).length;
-          const countPoor = evaluatedRows.filter(r => r.row && r.calculation.score < 70).length;
-          const unAuditedCount = SUBSTATIONS.length - totalAudited;
+          const totalAudited = analytics ? analytics.fleet.scored : auditedRows.length;
+          const averageHI = analytics
+            ? analytics.fleet.avg_health_index ?? 0
+            : totalAudited > 0 ? Math.round((auditedRows.reduce((acc, curr) => acc + curr.calculation.score, 0) / totalAudited) * 10) / 10 : 0;
+
+          const gradeCounts = analytics
+            ? healthPolicy.grades.map((_, rank) => Object.entries(analytics.fleet.grade_counts as Record<string, number>).filter(([grade]) => gradeRank(grade) === rank).reduce((sum, [, count]) => sum + count, 0))
+            : healthPolicy.grades.map((_, rank) => evaluatedRows.filter(r => r.row && gradeRank(r.calculation.grade) === rank).length);
+          const unAuditedCount = scopedSubstations.length - totalAudited;
+          const groupLabel = (group: string) => group || 'ไม่ระบุพื้นที่';
+          const deltaText = (delta: number | null) => delta === null ? '-' : `${delta > 0 ? '+' : ''}${delta}`;
 
           return (
             <div className="space-y-6">
@@ -1973,94 +2679,41 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                       />
                     </div>
                     <p className="text-[10px] text-slate-400 mt-2 font-medium">
-                      ประเมินแล้ว: <span className="text-white font-bold">{totalAudited}</span> จาก {SUBSTATIONS.length} สถานี ทั้งหมด ({months[selectedMonth].label})
+                      ประเมินแล้ว: <span className="text-white font-bold">{totalAudited}</span> จาก {scopedSubstations.length} สถานี ทั้งหมด ({months[selectedMonth].label})
                     </p>
                   </div>
                 </Card>
 
-                {/* Excellent Rating Card */}
-                <button 
-                  onClick={() => setActiveGradeFilter(activeGradeFilter === 'Excellent' ? null : 'Excellent')}
-                  className={cn(
-                    "text-left p-4 rounded-2xl border transition-all flex flex-col justify-between cursor-pointer",
-                    activeGradeFilter === 'Excellent' 
-                      ? "bg-emerald-500 text-white border-emerald-500 shadow-lg shadow-emerald-100" 
-                      : "bg-white text-slate-800 border-slate-100 hover:border-slate-200"
-                  )}
-                >
-                  <div>
-                    <span className={cn("text-[9px] font-bold uppercase tracking-wider", activeGradeFilter === 'Excellent' ? "text-emerald-100" : "text-slate-400")}>
-                      ดีมาก (≥ 90%)
-                    </span>
-                    <h4 className="text-2xl font-extrabold mt-1">{countExcellent}</h4>
-                  </div>
-                  <span className={cn("text-[9px] font-bold block mt-3", activeGradeFilter === 'Excellent' ? "text-emerald-100" : "text-slate-400")}>
-                    {activeGradeFilter === 'Excellent' ? '• กำลังกรองข้อมูล' : 'คลิกเพื่อกรอง'}
-                  </span>
-                </button>
-
-                {/* Good Rating Card */}
-                <button 
-                  onClick={() => setActiveGradeFilter(activeGradeFilter === 'Good' ? null : 'Good')}
-                  className={cn(
-                    "text-left p-4 rounded-2xl border transition-all flex flex-col justify-between cursor-pointer",
-                    activeGradeFilter === 'Good' 
-                      ? "bg-teal-500 text-white border-teal-500 shadow-lg shadow-teal-100" 
-                      : "bg-white text-slate-800 border-slate-100 hover:border-slate-200"
-                  )}
-                >
-                  <div>
-                    <span className={cn("text-[9px] font-bold uppercase tracking-wider", activeGradeFilter === 'Good' ? "text-teal-100" : "text-slate-400")}>
-                      ดี (80% - 89%)
-                    </span>
-                    <h4 className="text-2xl font-extrabold mt-1">{countGood}</h4>
-                  </div>
-                  <span className={cn("text-[9px] font-bold block mt-3", activeGradeFilter === 'Good' ? "text-teal-100" : "text-slate-400")}>
-                    {activeGradeFilter === 'Good' ? '• กำลังกรองข้อมูล' : 'คลิกเพื่อกรอง'}
-                  </span>
-                </button>
-
-                {/* Fair Rating Card */}
-                <button 
-                  onClick={() => setActiveGradeFilter(activeGradeFilter === 'Fair' ? null : 'Fair')}
-                  className={cn(
-                    "text-left p-4 rounded-2xl border transition-all flex flex-col justify-between cursor-pointer",
-                    activeGradeFilter === 'Fair' 
-                      ? "bg-amber-50 text-amber-700 border-amber-300 shadow-lg shadow-amber-100" 
-                      : "bg-white text-slate-800 border-slate-100 hover:border-slate-200"
-                  )}
-                >
-                  <div>
-                    <span className={cn("text-[9px] font-bold uppercase tracking-wider", activeGradeFilter === 'Fair' ? "text-amber-800/80" : "text-slate-400")}>
-                      ปานกลาง (70% - 79%)
-                    </span>
-                    <h4 className="text-2xl font-extrabold mt-1 text-amber-700">{countFair}</h4>
-                  </div>
-                  <span className={cn("text-[9px] font-bold block mt-3", activeGradeFilter === 'Fair' ? "text-amber-800/80" : "text-slate-400")}>
-                    {activeGradeFilter === 'Fair' ? '• กำลังกรองข้อมูล' : 'คลิกเพื่อกรอง'}
-                  </span>
-                </button>
-
-                {/* Need Improvement Card */}
-                <button 
-                  onClick={() => setActiveGradeFilter(activeGradeFilter === 'Poor' ? null : 'Poor')}
-                  className={cn(
-                    "text-left p-4 rounded-2xl border transition-all flex flex-col justify-between cursor-pointer",
-                    activeGradeFilter === 'Poor' 
-                      ? "bg-rose-500 text-white border-rose-500 shadow-lg shadow-rose-100" 
-                      : "bg-white text-slate-800 border-slate-100 hover:border-slate-200"
-                  )}
-                >
-                  <div>
-                    <span className={cn("text-[9px] font-bold uppercase tracking-wider", activeGradeFilter === 'Poor' ? "text-rose-100" : "text-slate-400")}>
-                      ต้องปรับปรุง (&lt; 70%)
-                    </span>
-                    <h4 className="text-2xl font-extrabold mt-1">{countPoor}</h4>
-                  </div>
-                  <span className={cn("text-[9px] font-bold block mt-3", activeGradeFilter === 'Poor' ? "text-rose-100" : "text-slate-400")}>
-                    {activeGradeFilter === 'Poor' ? '• กำลังกรองข้อมูล' : 'คลิกเพื่อกรอง'}
-                  </span>
-                </button>
+                {/* One card per grade of the current policy */}
+                {healthPolicy.grades.map((grade, rank) => {
+                  const style = gradeStyle(rank);
+                  const isActive = activeGradeFilter === rank;
+                  const range = rank === 0
+                    ? `≥ ${grade.min}%`
+                    : rank === healthPolicy.grades.length - 1
+                      ? `< ${healthPolicy.grades[rank - 1].min}%`
+                      : `${grade.min}% - ${healthPolicy.grades[rank - 1].min - 1}%`;
+                  return (
+                    <button 
+                      key={grade.label}
+                      onClick={() => setActiveGradeFilter(isActive ? null : rank)}
+                      className={cn(
+                        "text-left p-4 rounded-2xl border transition-all flex flex-col justify-between cursor-pointer",
+                        isActive ? style.card : "bg-white text-slate-800 border-slate-100 hover:border-slate-200"
+                      )}
+                    >
+                      <div>
+                        <span className={cn("text-[9px] font-bold uppercase tracking-wider", isActive ? style.caption : "text-slate-400")}>
+                          {grade.label} ({range})
+                        </span>
+                        <h4 className={cn("text-2xl font-extrabold mt-1", style.count)}>{gradeCounts[rank]}</h4>
+                      </div>
+                      <span className={cn("text-[9px] font-bold block mt-3", isActive ? style.caption : "text-slate-400")}>
+                        {isActive ? '• กำลังกรองข้อมูล' : 'คลิกเพื่อกรอง'}
+                      </span>
+                    </button>
+                  );
+                })}
               </div>
 
               {/* Formula & Explanation Card */}
@@ -2079,17 +2732,136 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                       ดัชนีสุขภาพ (HI %): (Σ (คะแนนส่วนประกอบ × น้ำหนักสัดส่วน) / Σ (น้ำหนักที่ใช้งานจริง)) × 100
                     </p>
                     <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-2 mt-2 pt-1 border-t border-slate-200/40">
-                      <div className="text-[9px] text-slate-500"><strong className="text-slate-700">🔋 แบตเตอรี่:</strong> 25%</div>
-                      <div className="text-[9px] text-slate-500"><strong className="text-slate-700">⚡ ลานไก:</strong> 20%</div>
-                      <div className="text-[9px] text-slate-500"><strong className="text-slate-700">📝 Checklist:</strong> 15%</div>
-                      <div className="text-[9px] text-slate-500"><strong className="text-slate-700">🏢 ดาดฟ้า:</strong> 15%</div>
-                      <div className="text-[9px] text-slate-500"><strong className="text-slate-700">🚧 รั้วรอบ:</strong> 15%</div>
-                      <div className="text-[9px] text-slate-500"><strong className="text-slate-700">👮 รปภ.:</strong> 10%</div>
+                      {scoredCategories({}).map(c => (
+                        <div key={c.label} className="text-[9px] text-slate-500"><strong className="text-slate-700">{c.label}:</strong> {Math.round(c.weight * 100)}%</div>
+                      ))}
                     </div>
+                    <p className="text-[9px] text-slate-400">นโยบายคะแนนฉบับที่ {healthPolicy.version} • เดือนที่ประเมินไว้แล้วแสดงตามฉบับที่ใช้ตอนประเมิน</p>
                   </div>
                 </div>
               </Card>
 
+              {analytics && (
+                <>
+                  {/* Per-area averages and month-over-month change */}
+                  <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                    <Card className="p-4 lg:col-span-2 overflow-x-auto">
+                      <p className="text-xs font-bold text-slate-800 mb-3">ภาพรวมรายพื้นที่ (เทียบกับ {months[analytics.previous.month - 1].label})</p>
+                      <table className="w-full text-[11px]">
+                        <thead>
+                          <tr className="text-slate-400 text-left">
+                            <th className="py-1 font-bold">พื้นที่</th>
+                            <th className="py-1 font-bold text-right">ประเมินแล้ว</th>
+                            <th className="py-1 font-bold text-right">HI เฉลี่ย</th>
+                            <th className="py-1 font-bold text-right">เปลี่ยนแปลง</th>
+                            <th className="py-1 font-bold pl-3">เกรด</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {analytics.groups.map((g: any) => (
+                            <tr key={g.group} className="border-t border-slate-50">
+                              <td className="py-1.5 font-bold text-slate-700">{groupLabel(g.group)}</td>
+                              <td className="py-1.5 text-right text-slate-500">{g.scored}/{g.stations}</td>
+                              <td className="py-1.5 text-right font-mono font-bold text-slate-800">{g.avg_health_index ?? '-'}%</td>
+                              <td className={cn("py-1.5 text-right font-mono font-bold", g.avg_delta > 0 ? "text-emerald-600" : g.avg_delta < 0 ? "text-rose-600" : "text-slate-400")}>
+                                {deltaText(g.avg_delta)}
+                              </td>
+                              <td className="py-1.5 pl-3">
+                                <div className="flex gap-1 flex-wrap">
+                                  {Object.entries(g.grade_counts as Record<string, number>).sort(([a], [b]) => gradeRank(a) - gradeRank(b)).map(([grade, count]) => (
+                                    <span key={grade} className={cn("text-[9px] font-bold px-1.5 py-0.5 rounded border", gradeColorFor(grade))}>{grade} {count}</span>
+                                  ))}
+                                </div>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </Card>
+
+                    <Card className="p-4 space-y-3">
+                      {[
+                        { title: 'ดีขึ้นมากที่สุด', rows: analytics.mostImproved, color: 'text-emerald-600' },
+                        { title: 'แย่ลงมากที่สุด', rows: analytics.mostDegraded, color: 'text-rose-600' }
+                      ].map(list => (
+                        <div key={list.title}>
+                          <p className="text-xs font-bold text-slate-800 mb-1">{list.title}</p>
+                          {list.rows.length === 0 ? (
+                            <p className="text-[10px] text-slate-400">ไม่มีสถานีที่เปลี่ยนแปลง</p>
+                          ) : list.rows.map((m: any) => (
+                            <button
+                              key={m.substation_name}
+                              onClick={() => onHealthTrend(m.substation_name)}
+                              className="w-full flex justify-between text-[11px] py-0.5 hover:text-violet-600 transition-colors"
+                            >
+                              <span className="truncate text-left">{m.substation_name}</span>
+                              <span className="font-mono whitespace-nowrap">
+                                {m.previous_health_index}% → {m.health_index}% <strong className={list.color}>{deltaText(m.delta)}</strong>
+                              </span>
+                            </button>
+                          ))}
+                        </div>
+                      ))}
+                    </Card>
+                  </div>
+
+                  {/* Stations x categories */}
+                  {analytics.heatmap.length > 0 && (
+                    <Card className="p-4 overflow-x-auto">
+                      <p className="text-xs font-bold text-slate-800 mb-3">คะแนนรายหมวดของแต่ละสถานี</p>
+                      <table className="w-full text-[10px]">
+                        <thead>
+                          <tr className="text-slate-400">
+                            <th className="py-1 text-left font-bold">สถานี</th>
+                            {analytics.categories.map((key: string) => (
+                              <th key={key} className="py-1 px-1 font-bold text-center whitespace-nowrap">{categoryLabel(categories, key)}</th>
+                            ))}
+                            <th className="py-1 px-1 font-bold text-center">HI</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {analytics.heatmap.map((row: any, i: number) => (
+                            <React.Fragment key={row.substation_name}>
+                              {(i === 0 || analytics.heatmap[i - 1].group !== row.group) && (
+                                <tr>
+                                  <td colSpan={analytics.categories.length + 2} className="pt-3 pb-1 font-bold text-violet-600">{groupLabel(row.group)}</td>
+                                </tr>
+                              )}
+                              <tr>
+                                <td className="py-0.5 pr-2 text-slate-600 whitespace-nowrap">{row.substation_name}</td>
+                                {analytics.categories.map((key: string) => {
+                                  const score = row.scores[key];
+                                  return (
+                                    <td key={key} className="p-0.5">
+                                      <div className={cn(
+                                        "rounded text-center font-mono font-bold py-1 border",
+                                        score === null ? "bg-slate-50 text-slate-300 border-slate-100" : gradeColorFor(healthIndexGrade(score, healthPolicy))
+                                      )}>
+                                        {score === null ? 'N/A' : score}
+                                      </div>
+                                    </td>
+                                  );
+                                })}
+                                <td className="p-0.5">
+                                  <div className={cn("rounded text-center font-mono font-bold py-1 border", gradeColorFor(row.grade))}>{row.health_index}</div>
+                                </td>
+                              </tr>
+                            </React.Fragment>
+                          ))}
+                          <tr className="border-t border-slate-100">
+                            <td className="py-1 pr-2 font-bold text-slate-700">เฉลี่ยทั้งหมด</td>
+                            {analytics.categories.map((key: string) => (
+                              <td key={key} className="py-1 text-center font-mono font-bold text-slate-700">{analytics.fleet.category_averages[key] ?? '-'}</td>
+                            ))}
+                            <td className="py-1 text-center font-mono font-bold text-slate-700">{analytics.fleet.avg_health_index ?? '-'}</td>
+                          </tr>
+                        </tbody>
+                      </table>
+                    </Card>
+                  )}
+                </>
+              )}
+
               {/* Substation Search & Grade Filters Info */}
               <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 pt-2">
                 <div className="relative flex-1 max-w-md">
@@ -2103,47 +2875,37 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                   />
                 </div>
                 <div className="flex items-center gap-2">
-                  {activeGradeFilter && (
+                  {activeGradeFilter !== null && (
                     <button 
                       onClick={() => setActiveGradeFilter(null)}
                       className="text-[10px] bg-slate-100 text-slate-500 px-3 py-1.5 rounded-xl font-bold hover:bg-slate-200 transition-colors cursor-pointer"
                     >
-                      ล้างตัวกรอง ({activeGradeFilter === 'Excellent' ? 'ดีมาก' : activeGradeFilter === 'Good' ? 'ดี' : activeGradeFilter === 'Fair' ? 'ปานกลาง' : 'ต้องปรับปรุง'}) ✕
+                      ล้างตัวกรอง ({healthPolicy.grades[activeGradeFilter]?.label}) ✕
                     </button>
                   )}
                   <span className="text-[10px] text-slate-400 font-bold">
                     แสดงผล {
-                      SUBSTATIONS.filter(sub => {
+                      scopedSubstations.filter(sub => {
                         const matchesSearch = sub.name.toLowerCase().includes(searchQuery.toLowerCase());
                         if (!matchesSearch) return false;
-                        if (!activeGradeFilter) return true;
+                        if (activeGradeFilter === null) return true;
                         const r = healthIndex.find(h => h.substation_name === sub.name);
-                        const cal = calculateHIForSubstation(r);
-                        if (activeGradeFilter === 'Excellent') return cal.score >= 90;
-                        if (activeGradeFilter === 'Good') return cal.score >= 80 && cal.score < 90;
-                        if (activeGradeFilter === 'Fair') return cal.score >= 70 && cal.score < 80;
-                        if (activeGradeFilter === 'Poor') return cal.score < 70;
-                        return true;
+                        return gradeRank(calculateHIForSubstation(r).grade) === activeGradeFilter;
                       }).length
-                    } จาก {SUBSTATIONS.length} สถานี
+                    } จาก {scopedSubstations.length} สถานี
                   </span>
                 </div>
               </div>
 
               {/* List of Substations */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {SUBSTATIONS.filter(sub => {
+                {scopedSubstations.filter(sub => {
                   const matchesSearch = sub.name.toLowerCase().includes(searchQuery.toLowerCase());
                   if (!matchesSearch) return false;
                   
-                  if (!activeGradeFilter) return true;
+                  if (activeGradeFilter === null) return true;
                   const r = healthIndex.find(h => h.substation_name === sub.name);
-                  const cal = calculateHIForSubstation(r);
-                  if (activeGradeFilter === 'Excellent') return cal.score >= 90;
-                  if (activeGradeFilter === 'Good') return cal.score >= 80 && cal.score < 90;
-                  if (activeGradeFilter === 'Fair') return cal.score >= 70 && cal.score < 80;
-                  if (activeGradeFilter === 'Poor') return cal.score < 70;
-                  return true;
+                  return gradeRank(calculateHIForSubstation(r).grade) === activeGradeFilter;
                 }).map(sub => {
                   const healthRow = healthIndex.find(h => h.substation_name === sub.name);
                   const cal = calculateHIForSubstation(healthRow);
@@ -2152,10 +2914,7 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                   return (
                     <Card key={sub.id} className="relative overflow-hidden hover:shadow-md transition-all border border-slate-100 bg-white p-5 flex flex-col justify-between">
                       <div className={cn("absolute left-0 top-0 bottom-0 w-1.5", 
-                        !healthRow ? "bg-slate-300" :
-                        cal.score >= 90 ? "bg-emerald-500" :
-                        cal.score >= 80 ? "bg-teal-500" :
-                        cal.score >= 70 ? "bg-amber-500" : "bg-rose-500"
+                        !healthRow ? "bg-slate-300" : gradeStyle(gradeRank(cal.grade)).bar
                       )} />
                       
                       <div className="pl-3 space-y-3">
@@ -2163,6 +2922,12 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                         <div className="flex justify-between items-start gap-2">
                           <div>
                             <h4 className="font-bold text-slate-800 text-sm">{sub.name}</h4>
+                            <button
+                              onClick={() => onHealthTrend(sub.name)}
+                              className="text-[9px] font-bold text-slate-400 hover:text-violet-600 transition-colors inline-flex items-center gap-1"
+                            >
+                              <Activity size={10} /> แนวโน้มย้อนหลัง
+                            </button>
                           </div>
                           {healthRow ? (
                             <div className="flex flex-col items-end gap-1">
@@ -2180,24 +2945,17 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                           )}
                         </div>
 
-                        {/* Six Categories Breakdown Visualizer */}
+                        {/* Category Breakdown */}
                         <div className="bg-slate-50 p-2.5 rounded-xl border border-slate-200/40 grid grid-cols-3 gap-y-2 gap-x-1">
-                          {[
-                            { name: '🔋 แบตเตอรี่', score: healthRow?.battery_score, na: healthRow?.battery_na },
-                            { name: '⚡ ลานไก', score: healthRow?.yard_score, na: healthRow?.yard_na },
-                            { name: '📝 Checklist', score: healthRow?.checklist_score, na: healthRow?.checklist_na },
-                            { name: '🏢 ดาดฟ้า', score: healthRow?.roof_score, na: healthRow?.roof_na },
-                            { name: '🚧 รั้วรอบ', score: healthRow?.fence_score, na: healthRow?.fence_na },
-                            { name: '👮 รปภ.', score: healthRow?.security_score, na: healthRow?.security_na }
-                          ].map((item, idx) => (
-                            <div key={idx} className="flex flex-col">
-                              <span className="text-[8px] text-slate-400 font-semibold truncate">{item.name}</span>
+                          {scoredCategories(healthRow || {}).map(item => (
+                            <div key={item.key} className="flex flex-col">
+                              <span className="text-[8px] text-slate-400 font-semibold truncate">{item.label}</span>
                               <span className={cn("text-[10px] font-bold mt-0.5 font-mono",
-                                item.na ? "text-slate-300" :
+                                !healthRow || item.na ? "text-slate-300" :
                                 (item.score ?? 100) >= 90 ? "text-emerald-600" :
                                 (item.score ?? 100) >= 70 ? "text-amber-500" : "text-rose-500"
                               )}>
-                                {item.na ? 'N/A' : `${item.score ?? 100}%`}
+                                {!healthRow ? '-' : item.na ? 'N/A' : `${item.score ?? 100}%`}
                               </span>
                             </div>
                           ))}
@@ -2223,21 +2981,11 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                         {/* Buttons Grid */}
                         <div className="grid grid-cols-3 gap-1.5 mt-2">
                           <Button 
+                            disabled={!canAudit}
                             onClick={() => {
                               setSelectedSubForAudit({
                                 substation_name: sub.name,
-                                battery_score: healthRow?.battery_score ?? 100,
-                                battery_na: healthRow?.battery_na ?? false,
-                                yard_score: healthRow?.yard_score ?? 100,
-                                yard_na: healthRow?.yard_na ?? false,
-                                checklist_score: healthRow?.checklist_score ?? 100,
-                                checklist_na: healthRow?.checklist_na ?? false,
-                                roof_score: healthRow?.roof_score ?? 100,
-                                roof_na: healthRow?.roof_na ?? false,
-                                fence_score: healthRow?.fence_score ?? 100,
-                                fence_na: healthRow?.fence_na ?? false,
-                                security_score: healthRow?.security_score ?? 100,
-                                security_na: healthRow?.security_na ?? false,
+                                scores: auditFormScores(healthRow?.scores),
                                 summary: healthRow?.summary ?? '',
                                 status: healthRow?.status ?? 'Green'
                               });
@@ -2249,7 +2997,7 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
 
                           <Button 
                             onClick={() => handleAnalyze(sub.name, !!healthRow)} 
-                            disabled={analyzing !== null}
+                            disabled={analyzing !== null || !canAnalyze || (!!healthRow && !canForceAnalyze)}
                             className="py-1.5 text-[10px] font-bold inline-flex items-center justify-center cursor-pointer min-h-[36px]"
                             variant="outline"
                           >
@@ -2485,6 +3233,60 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
         )}
       </AnimatePresence>
 
+      {/* Overdue Substations Modal */}
+      <AnimatePresence>
+        {showOverdueModal && (
+          <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-6">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setShowOverdueModal(false)}
+              className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm"
+            />
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="relative w-full max-w-2xl bg-white rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[80vh]"
+            >
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-white sticky top-0 z-10">
+                <div>
+                  <h3 className="text-xl font-bold text-slate-900">สถานีที่เกินกำหนดตรวจ</h3>
+                  <p className="text-xs font-bold text-rose-500 uppercase tracking-wider">ตามรอบการตรวจของแต่ละหมวด ณ วันนี้</p>
+                </div>
+                <button
+                  onClick={() => setShowOverdueModal(false)}
+                  className="w-10 h-10 rounded-full bg-slate-100 flex items-center justify-center text-slate-500 hover:bg-slate-200 transition-colors"
+                >
+                  <Plus size={24} className="rotate-45" />
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-6 bg-slate-50/50 space-y-3">
+                {overdueStations.map(station => (
+                  <div key={station.substationName} className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm">
+                    <h5 className="font-bold text-slate-800 text-sm mb-2">{station.substationName}</h5>
+                    <div className="space-y-1">
+                      {station.categories.filter(c => c.status === 'overdue').map(c => (
+                        <p key={c.category} className="text-[11px] text-slate-600">
+                          <span className="font-bold text-rose-500">{categoryLabel(categories, c.category)}</span>
+                          {' '}({FREQUENCY_LABELS[c.frequency]}) • ครบกำหนด {c.dueDate ? format(new Date(c.dueDate), 'dd/MM/yy', { locale: th }) : '-'}
+                          {' '}• ตรวจล่าสุด {c.lastInspectedAt ? format(new Date(c.lastInspectedAt), 'dd/MM/yy', { locale: th }) : 'ไม่เคย'}
+                        </p>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                {overdueStations.length === 0 && (
+                  <p className="py-16 text-center text-sm text-slate-400">ไม่มีสถานีที่เกินกำหนดตรวจ</p>
+                )}
+              </div>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
       {/* Pending Substations Modal */}
       <AnimatePresence>
         {showPendingModal && (
@@ -2520,8 +3322,9 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
               <div className="flex-1 overflow-y-auto p-6 bg-slate-50/50">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                   {pendingSubstations.map((sub, idx) => {
-                    const covered = substationCompletionMap.get(sub.name) || new Set();
-                    const missing = REQUIRED_CATEGORIES.filter(cat => !covered.has(cat));
+                    const required = requiredCategoriesFor(sub.name);
+                    const missing = missingCategoriesFor(sub.name);
+                    const coveredCount = required.length - missing.length;
                     
                     return (
                       <div key={sub.id} className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm flex flex-col gap-3">
@@ -2532,7 +3335,7 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                           <div className="flex-1">
                             <h5 className="font-bold text-slate-800 text-sm">{sub.name}</h5>
                             <p className="text-[10px] text-slate-400 uppercase font-bold tracking-tighter">
-                              {covered.size === 0 ? 'ยังไม่มีการตรวจสอบ' : `ดำเนินการแล้ว ${covered.size}/${REQUIRED_CATEGORIES.length} หัวข้อ`}
+                              {coveredCount === 0 ? 'ยังไม่มีการตรวจสอบ' : `ดำเนินการแล้ว ${coveredCount}/${required.length} หัวข้อ`}
                             </p>
                           </div>
                         </div>
@@ -2541,7 +3344,7 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                           <div className="flex flex-wrap gap-1">
                             {missing.map(cat => (
                               <span key={cat} className="text-[8px] font-bold px-1.5 py-0.5 bg-rose-50 text-rose-500 rounded-md border border-rose-100">
-                                {CATEGORY_LABELS[cat] || cat}
+                                {categoryLabel(categories, cat)}
                               </span>
                             ))}
                           </div>
@@ -2618,6 +3421,37 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                             <CheckCircle2 size={10} /> ตรวจแล้ว
                           </span>
                         </div>
+                        {(sub.geofenceMisses.length > 0 || sub.territoryMisses.length > 0 || sub.unverifiedLogs.length > 0 || sub.suspectPhotos > 0 || sub.rejectedPhotos > 0 || sub.abnormalChecklists.length > 0 || sub.batteryAlerts > 0) && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {sub.geofenceMisses.map((log, i) => (
+                              <span key={`geo-${i}`} className="text-[9px] font-bold bg-amber-50 text-amber-600 px-1.5 py-0.5 rounded-full inline-flex items-center gap-0.5">
+                                <AlertCircle size={9} />
+                                {log.distance_m == null ? 'ไม่มี GPS' : `นอกรัศมี ${Math.round(log.distance_m)} ม.`}
+                                {log.gps_accuracy_m != null && ` (±${Math.round(log.gps_accuracy_m)} ม.)`}
+                              </span>
+                            ))}
+                            {sub.territoryMisses.length > 0 && (
+                              <span className="text-[9px] font-bold bg-rose-50 text-rose-600 px-1.5 py-0.5 rounded-full">นอกเขตรับผิดชอบ</span>
+                            )}
+                            {sub.unverifiedLogs.length > 0 && (
+                              <span className="text-[9px] font-bold bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded-full">
+                                รูปไม่ครบตามที่แจ้ง {sub.unverifiedLogs.length} รายการ
+                              </span>
+                            )}
+                            {sub.rejectedPhotos > 0 && (
+                              <span className="text-[9px] font-bold bg-rose-50 text-rose-600 px-1.5 py-0.5 rounded-full">ไม่ใช่ภาพถ่ายสด {sub.rejectedPhotos} รูป</span>
+                            )}
+                            {sub.suspectPhotos > 0 && (
+                              <span className="text-[9px] font-bold bg-amber-50 text-amber-600 px-1.5 py-0.5 rounded-full">EXIF น่าสงสัย {sub.suspectPhotos} รูป</span>
+                            )}
+                            {sub.abnormalChecklists.length > 0 && (
+                              <span className="text-[9px] font-bold bg-red-50 text-red-600 px-1.5 py-0.5 rounded-full">Checklist เกินเกณฑ์ {sub.abnormalChecklists.length} รายการ</span>
+                            )}
+                            {sub.batteryAlerts > 0 && (
+                              <span className="text-[9px] font-bold bg-orange-50 text-orange-600 px-1.5 py-0.5 rounded-full">แบตเตอรี่ผิดปกติ {sub.batteryAlerts} เซลล์</span>
+                            )}
+                          </div>
+                        )}
                       </div>
                       {sub.latestLog && (
                         <a 
@@ -2656,15 +3490,13 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
       {/* Dynamic Health Index Appraisal Scoring Modal */}
       <AnimatePresence>
         {selectedSubForAudit && (() => {
-          const previewSubCal = calculateHIForSubstation(selectedSubForAudit);
-          const categoriesDetail = [
-            { name: "🔋 แบตเตอรี่", score: selectedSubForAudit.battery_na ? null : (selectedSubForAudit.battery_score ?? 100), weight: 0.25, na: selectedSubForAudit.battery_na },
-            { name: "⚡ ลานไก", score: selectedSubForAudit.yard_na ? null : (selectedSubForAudit.yard_score ?? 100), weight: 0.20, na: selectedSubForAudit.yard_na },
-            { name: "📝 Checklist", score: selectedSubForAudit.checklist_na ? null : (selectedSubForAudit.checklist_score ?? 100), weight: 0.15, na: selectedSubForAudit.checklist_na },
-            { name: "🏢 ดาดฟ้า", score: selectedSubForAudit.roof_na ? null : (selectedSubForAudit.roof_score ?? 100), weight: 0.15, na: selectedSubForAudit.roof_na },
-            { name: "🚧 รั้วรอบ", score: selectedSubForAudit.fence_na ? null : (selectedSubForAudit.fence_score ?? 100), weight: 0.15, na: selectedSubForAudit.fence_na },
-            { name: "👮 รปภ.", score: selectedSubForAudit.security_na ? null : (selectedSubForAudit.security_score ?? 100), weight: 0.10, na: selectedSubForAudit.security_na }
-          ];
+          const previewSubCal = previewHealthIndex(selectedSubForAudit);
+          const categoriesDetail = scoredCategories(selectedSubForAudit).map(c => ({
+            name: c.label,
+            score: c.na ? null : (c.score ?? 100),
+            weight: c.weight,
+            na: c.na
+          }));
 
           const applicableCats = categoriesDetail.filter(c => !c.na);
           const sumWeights = applicableCats.reduce((acc, c) => acc + c.weight, 0);
@@ -2694,7 +3526,7 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                       <h3 className="text-xl font-bold">{selectedSubForAudit.substation_name}</h3>
                       <button
                         type="button"
-                        disabled={isRerunningAI}
+                        disabled={isRerunningAI || !canForceAnalyze}
                         onClick={() => handleModalAutoEvaluate(selectedSubForAudit.substation_name)}
                         className={`text-[11px] font-extrabold h-7 px-2.5 rounded-lg inline-flex items-center gap-1 cursor-pointer transition-all ${
                           isRerunningAI 
@@ -2724,367 +3556,220 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                   </div>
                 </div>
 
+                {/* Tabs */}
+                <div className="flex gap-1 px-6 pt-3 bg-slate-50 border-b border-slate-100">
+                  {([['form', 'ประเมินผล'], ['history', 'ประวัติการแก้ไข']] as const).map(([tab, label]) => (
+                    <button
+                      key={tab}
+                      type="button"
+                      onClick={() => tab === 'history' ? openAuditHistory() : setAuditModalTab('form')}
+                      className={cn(
+                        "px-4 py-2 rounded-t-xl text-xs font-bold transition-all",
+                        auditModalTab === tab ? "bg-white text-violet-600 border border-b-0 border-slate-100" : "text-slate-400 hover:text-slate-600"
+                      )}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                {auditModalTab === 'history' ? (
+                  <div className="flex-1 overflow-y-auto p-6 space-y-3 bg-slate-50">
+                    {loadingAuditHistory ? (
+                      <div className="flex justify-center py-12"><Loader2 className="animate-spin text-violet-600" size={28} /></div>
+                    ) : auditHistory.length === 0 ? (
+                      <p className="text-center text-xs text-slate-400 py-12">ยังไม่มีประวัติการแก้ไขของเดือนนี้</p>
+                    ) : auditHistory.map(event => {
+                      const before = auditSnapshotFields(event.before);
+                      const after = auditSnapshotFields(event.after);
+                      const changed = auditFieldLabels(before, after, categories).filter(([field]) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null));
+                      return (
+                        <div key={event.id} className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-2">
+                          <div className="flex justify-between items-center">
+                            <span className="text-xs font-bold text-slate-800">{AUDIT_EVENT_LABELS[event.event_type] || event.event_type}</span>
+                            <span className="text-[10px] text-slate-400">{format(new Date(event.created_at), 'd MMM yyyy HH:mm', { locale: th })}</span>
+                          </div>
+                          <p className="text-[10px] text-slate-500">โดย {event.actor_name || event.actor_id || 'ระบบ'}{!event.before && ' • บันทึกครั้งแรก'}</p>
+                          {changed.length > 0 ? (
+                            <div className="space-y-1">
+                              {changed.map(([field, label]) => (
+                                <div key={field} className="flex justify-between gap-3 text-[11px] font-mono">
+                                  <span className="text-slate-500 shrink-0">{label}</span>
+                                  <span className="text-right break-all">
+                                    <span className="text-rose-500 line-through">{formatAuditValue(before[field])}</span>
+                                    {' → '}
+                                    <span className="text-emerald-600 font-bold">{formatAuditValue(after[field])}</span>
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-[10px] text-slate-400 italic">ไม่มีการเปลี่ยนแปลงค่า</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <>
                 {/* Form fields */}
-                <div className="flex-1 overflow-y-auto p-6 space-y-6 bg-slate-50">
-                  {/* Real-time Math Breakdown Panel */}
-                  <div className="bg-slate-900 text-slate-100 p-5 rounded-2xl shadow-inner space-y-4">
-                    <div className="flex justify-between items-center border-b border-slate-800 pb-2">
-                      <div className="flex items-center gap-2">
-                        <div className="w-2.5 h-2.5 rounded-full bg-teal-400 animate-pulse" />
-                        <h4 className="text-xs font-bold uppercase tracking-wider text-teal-400">การคิดคำนวณตามสูตร Dynamic Weighting (เรียลไทม์)</h4>
+                  <div className="flex-1 overflow-y-auto p-6 space-y-6 bg-slate-50">
+                    {/* Real-time Math Breakdown Panel */}
+                    <div className="bg-slate-900 text-slate-100 p-5 rounded-2xl shadow-inner space-y-4">
+                      <div className="flex justify-between items-center border-b border-slate-800 pb-2">
+                        <div className="flex items-center gap-2">
+                          <div className="w-2.5 h-2.5 rounded-full bg-teal-400 animate-pulse" />
+                          <h4 className="text-xs font-bold uppercase tracking-wider text-teal-400">การคิดคำนวณตามสูตร Dynamic Weighting (เรียลไทม์)</h4>
+                        </div>
+                        <span className="text-[10px] font-mono bg-slate-800 text-teal-300 px-2 py-0.5 rounded-full font-bold">
+                          {applicableCats.length} / {categoriesDetail.length} หมวดที่ใช้จริง
+                        </span>
                       </div>
-                      <span className="text-[10px] font-mono bg-slate-800 text-teal-300 px-2 py-0.5 rounded-full font-bold">
-                        {applicableCats.length} / 6 หมวดที่ใช้จริง
-                      </span>
-                    </div>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs font-medium">
-                      {/* Left: Active values list */}
-                      <div className="space-y-1.5 border-r border-slate-800/60 pr-2">
-                        <span className="text-[10px] text-slate-400 font-bold block mb-1">ผลประเมินในแต่ละหน่วย:</span>
-                        {categoriesDetail.map((c, idx) => (
-                          <div key={idx} className="flex justify-between items-center font-mono text-[11px]">
-                            <span className="text-slate-300">{c.name}:</span>
-                            {c.na ? (
-                              <span className="text-slate-500 font-bold text-[10px]">N/A (ข้าม)</span>
-                            ) : (
-                              <span className="text-slate-100">
-                                {c.score}% &times; {Math.round(c.weight * 100)}% = <strong className="text-teal-400">{((c.score ?? 100) * c.weight).toFixed(1)}</strong>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs font-medium">
+                        {/* Left: Active values list */}
+                        <div className="space-y-1.5 border-r border-slate-800/60 pr-2">
+                          <span className="text-[10px] text-slate-400 font-bold block mb-1">ผลประเมินในแต่ละหน่วย:</span>
+                          {categoriesDetail.map((c, idx) => (
+                            <div key={idx} className="flex justify-between items-center font-mono text-[11px]">
+                              <span className="text-slate-300">{c.name}:</span>
+                              {c.na ? (
+                                <span className="text-slate-500 font-bold text-[10px]">N/A (ข้าม)</span>
+                              ) : (
+                                <span className="text-slate-100">
+                                  {c.score}% &times; {Math.round(c.weight * 100)}% = <strong className="text-teal-400">{((c.score ?? 100) * c.weight).toFixed(1)}</strong>
+                                </span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+
+                        {/* Right: Calculations step-by-step */}
+                        <div className="flex flex-col justify-between space-y-3">
+                          <div className="space-y-2">
+                            <div>
+                              <span className="text-[10px] text-slate-400 font-bold block">1. ผลรวมคะแนนคูณน้ำหนัก Σ (Score &times; Weight):</span>
+                              <span className="text-xs font-mono font-bold text-teal-400 flex flex-wrap items-center gap-1 mt-0.5">
+                                {applicableCats.map(c => ((c.score ?? 100) * c.weight).toFixed(1)).join(' + ')}
+                                {' = '}
+                                <span className="text-white underline font-extrabold">{sumWeightedScores.toFixed(1)}</span>
                               </span>
-                            )}
-                          </div>
-                        ))}
-                      </div>
+                            </div>
 
-                      {/* Right: Calculations step-by-step */}
-                      <div className="flex flex-col justify-between space-y-3">
-                        <div className="space-y-2">
-                          <div>
-                            <span className="text-[10px] text-slate-400 font-bold block">1. ผลรวมคะแนนคูณน้ำหนัก Σ (Score &times; Weight):</span>
-                            <span className="text-xs font-mono font-bold text-teal-400 flex flex-wrap items-center gap-1 mt-0.5">
-                              {applicableCats.map(c => ((c.score ?? 100) * c.weight).toFixed(1)).join(' + ')}
-                              {' = '}
-                              <span className="text-white underline font-extrabold">{sumWeightedScores.toFixed(1)}</span>
-                            </span>
+                            <div>
+                              <span className="text-[10px] text-slate-400 font-bold block">2. ผลรวมน้ำหนักที่ใช้งานจริง Σ Weight_Applicable:</span>
+                              <span className="text-xs font-mono font-bold text-slate-200 mt-1 block">
+                                {applicableCats.map(c => `${Math.round(c.weight * 100)}%`).join(' + ')}
+                                {' = '}
+                                <span className="text-teal-400 font-extrabold">{(sumWeights * 100).toFixed(0)}%</span> ({(sumWeights).toFixed(2)})
+                              </span>
+                            </div>
                           </div>
 
-                          <div>
-                            <span className="text-[10px] text-slate-400 font-bold block">2. ผลรวมน้ำหนักที่ใช้งานจริง Σ Weight_Applicable:</span>
-                            <span className="text-xs font-mono font-bold text-slate-200 mt-1 block">
-                              {applicableCats.map(c => `${Math.round(c.weight * 100)}%`).join(' + ')}
-                              {' = '}
-                              <span className="text-teal-400 font-extrabold">{(sumWeights * 100).toFixed(0)}%</span> ({(sumWeights).toFixed(2)})
-                            </span>
+                          <div className="bg-slate-800 p-2.5 rounded-xl border border-slate-700/50 space-y-1">
+                            <span className="text-[9px] text-slate-400 font-bold block">3. ดัชนีสุขภาพทั้งหมด (Health Index %):</span>
+                            <div className="font-mono text-xs flex justify-between items-center">
+                              <span className="text-slate-300 text-[11px]">
+                                ({sumWeightedScores.toFixed(1)} / {(sumWeights).toFixed(2)})
+                              </span>
+                              <span className="text-lg font-black text-teal-300">
+                                = {previewSubCal.score}%
+                              </span>
+                            </div>
                           </div>
                         </div>
+                      </div>
+                    </div>
 
-                        <div className="bg-slate-800 p-2.5 rounded-xl border border-slate-700/50 space-y-1">
-                          <span className="text-[9px] text-slate-400 font-bold block">3. ดัชนีสุขภาพทั้งหมด (Health Index %):</span>
-                          <div className="font-mono text-xs flex justify-between items-center">
-                            <span className="text-slate-300 text-[11px]">
-                              ({sumWeightedScores.toFixed(1)} / {(sumWeights).toFixed(2)})
-                            </span>
-                            <span className="text-lg font-black text-teal-300">
-                              = {previewSubCal.score}%
-                            </span>
+                    {/* Category scores */}
+                    {Object.entries<any>(selectedSubForAudit.scores).map(([key, entry], idx) => {
+                      const rubric = AUDIT_SCORE_RUBRICS[key];
+                      const weight = healthPolicy.weights[key] || 0;
+                      const setEntry = (change: any) => setSelectedSubForAudit({
+                        ...selectedSubForAudit,
+                        scores: { ...selectedSubForAudit.scores, [key]: { ...entry, ...change } }
+                      });
+                      return (
+                        <div key={key} className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3">
+                          <div className="flex justify-between items-center">
+                            <h4 className="text-sm font-bold text-slate-800">
+                              {idx + 1}. {rubric?.title || categoryLabel(categories, key)} - {weight > 0 ? `น้ำหนัก ${Math.round(weight * 100)}%` : 'ไม่นำมาคิดคะแนน'}
+                            </h4>
+                            <label className="flex items-center gap-1.5 cursor-pointer text-xs font-semibold text-slate-400">
+                              <input
+                                type="checkbox"
+                                checked={entry.na}
+                                onChange={(e) => setEntry({ na: e.target.checked })}
+                                className="rounded text-violet-650 focus:ring-violet-500"
+                              />
+                              ไม่มีอุปกรณ์นี้ (N/A)
+                            </label>
                           </div>
+
+                          {!entry.na && (
+                            <div className="grid grid-cols-1 gap-2">
+                              {(rubric?.options || AUDIT_DEFAULT_RUBRIC).map(opt => (
+                                <label key={opt.val} className={cn("flex items-start gap-2.5 p-2 rounded-xl text-xs border transition-colors cursor-pointer",
+                                  entry.score === opt.val ? "bg-violet-50 border-violet-200 text-violet-700 font-bold" : "bg-slate-50 border-slate-100 hover:bg-slate-100/50"
+                                )}>
+                                  <input
+                                    type="radio"
+                                    name={`${key}_score`}
+                                    checked={entry.score === opt.val}
+                                    onChange={() => setEntry({ score: opt.val })}
+                                    className="text-violet-600 focus:ring-violet-500 mt-0.5"
+                                  />
+                                  <span>{opt.desc}</span>
+                                </label>
+                              ))}
+                            </div>
+                          )}
                         </div>
-                      </div>
+                      );
+                    })}
+
+                    {/* Recommendations */}
+                    <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-2">
+                      <h4 className="text-sm font-bold text-slate-800">✍️ ข้อเสนอแนะการปรับปรุงเพิ่มเติม</h4>
+                      <textarea 
+                        value={selectedSubForAudit.summary}
+                        onChange={(e) => setSelectedSubForAudit({ ...selectedSubForAudit, summary: e.target.value })}
+                        placeholder="ระบุความคิดเห็นเพื่อแนะนำให้สถานีไฟฟ้าแรงสูงทำความสะอาดเรียบร้อย เช่น จัดระเบียบสาย..."
+                        rows={3}
+                        className="w-full text-xs p-3 bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-violet-500"
+                      />
                     </div>
-                  </div>
 
-                  {/* Category 1: Battery */}
-                  <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3">
-                    <div className="flex justify-between items-center">
-                      <h4 className="text-sm font-bold text-slate-800">🔋 1. แบตเตอรี่ (น้ำกลั่น) - น้ำหนัก 25%</h4>
-                      <label className="flex items-center gap-1.5 cursor-pointer text-xs font-semibold text-slate-400">
-                        <input 
-                          type="checkbox" 
-                          checked={selectedSubForAudit.battery_na}
-                          onChange={(e) => setSelectedSubForAudit({
-                            ...selectedSubForAudit,
-                            battery_na: e.target.checked
-                          })}
-                          className="rounded text-violet-650 focus:ring-violet-500"
-                        />
-                        ไม่มีอุปกรณ์นี้ (N/A)
-                      </label>
-                    </div>
-                    
-                    {!selectedSubForAudit.battery_na && (
-                      <div className="grid grid-cols-1 gap-2">
-                        {[
-                          { val: 100, desc: "100% - ระดับน้ำกลั่นทุกลูกอยู่ระหว่างขีด Upper-Lower เห็นชัดเจนในรูป ขั้วแบตไม่มีคราบเกลือ" },
-                          { val: 50, desc: "50% - มีบางลูกระดับน้ำเริ่มต่ำกว่ากึ่งกลางแต่ยังไม่พ้นขีดล่าง หรือภาพถ่ายเบลอจนระบุระดับได้ยาก" },
-                          { val: 0, desc: "0% - น้ำกลั่นแห้งต่ำกว่าขีดล่าง หรือพบความผิดปกติที่ตัวถังแบตเตอรี่" }
-                        ].map(opt => (
-                          <label key={opt.val} className={cn("flex items-start gap-2.5 p-2 rounded-xl text-xs border transition-colors cursor-pointer",
-                            selectedSubForAudit.battery_score === opt.val ? "bg-violet-50 border-violet-200 text-violet-700 font-bold" : "bg-slate-50 border-slate-100 hover:bg-slate-100/50"
-                          )}>
-                            <input 
-                              type="radio" 
-                              name="battery_score" 
-                              checked={selectedSubForAudit.battery_score === opt.val}
-                              onChange={() => setSelectedSubForAudit({ ...selectedSubForAudit, battery_score: opt.val })}
-                              className="text-violet-600 focus:ring-violet-500 mt-0.5"
-                            />
-                            <span>{opt.desc}</span>
-                          </label>
-                        ))}
+                    {/* Overriding Status (Red/Green) */}
+                    <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-2 flex justify-between items-center">
+                      <div>
+                        <h4 className="text-sm font-bold text-slate-800">🚦 สถานะการควบคุมหลัก (Operational Status)</h4>
+                        <p className="text-[10px] text-slate-400">ระบุสภาพความพร้อมทางกายภาพความปลอดภัย</p>
                       </div>
-                    )}
-                  </div>
-
-                  {/* Category 2: Yard */}
-                  <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3">
-                    <div className="flex justify-between items-center">
-                      <h4 className="text-sm font-bold text-slate-800">⚡ 2. ลานไกสถานีไฟฟ้า - น้ำหนัก 20%</h4>
-                      <label className="flex items-center gap-1.5 cursor-pointer text-xs font-semibold text-slate-400">
-                        <input 
-                          type="checkbox" 
-                          checked={selectedSubForAudit.yard_na}
-                          onChange={(e) => setSelectedSubForAudit({
-                            ...selectedSubForAudit,
-                            yard_na: e.target.checked
-                          })}
-                          className="rounded text-violet-600 focus:ring-violet-500"
-                        />
-                        ไม่มีอุปกรณ์นี้ (N/A)
-                      </label>
-                    </div>
-                    
-                    {!selectedSubForAudit.yard_na && (
-                      <div className="grid grid-cols-1 gap-2">
-                        {[
-                          { val: 100, desc: "100% - พื้นลานกรวดไม่มีวัชพืช 100%, Bus bar สะอาดไม่มีเศษพลาสติก/สายสิญจน์/รังนก" },
-                          { val: 70, desc: "70% - พบวัชพืชเล็กน้อย หรือมีคราบน้ำมันที่พื้น" },
-                          { val: 30, desc: "30% - หญ้าสูงพ้นระดับหินกรวด หรือมีสิ่งแปลกปลอมใกล้ระยะ Flashover ของ Bus bar" },
-                          { val: 0, desc: "0% - รกร้าง มีวัชพืชหนาแน่นจัด หรือมีสิ่งรุกล้ำระยะอันตรายไฟฟ้าแรงสูง" }
-                        ].map(opt => (
-                          <label key={opt.val} className={cn("flex items-start gap-2.5 p-2 rounded-xl text-xs border transition-colors cursor-pointer",
-                            selectedSubForAudit.yard_score === opt.val ? "bg-violet-50 border-violet-200 text-violet-700 font-bold" : "bg-slate-50 border-slate-100 hover:bg-slate-100/50"
-                          )}>
-                            <input 
-                              type="radio" 
-                              name="yard_score" 
-                              checked={selectedSubForAudit.yard_score === opt.val}
-                              onChange={() => setSelectedSubForAudit({ ...selectedSubForAudit, yard_score: opt.val })}
-                              className="text-violet-600 focus:ring-violet-500 mt-0.5"
-                            />
-                            <span>{opt.desc}</span>
-                          </label>
-                        ))}
+                      <div className="flex gap-2">
+                        <button 
+                          type="button"
+                          onClick={() => setSelectedSubForAudit({ ...selectedSubForAudit, status: 'Green' })}
+                          className={cn("px-4 py-2 text-xs font-bold rounded-xl border transition-colors cursor-pointer",
+                            selectedSubForAudit.status === 'Green' ? "bg-emerald-500 text-white border-emerald-500 shadow-md shadow-emerald-100" : "bg-white text-slate-600 hover:bg-slate-50"
+                          )}
+                        >
+                          Green (ปกติ)
+                        </button>
+                        <button 
+                          type="button"
+                          onClick={() => setSelectedSubForAudit({ ...selectedSubForAudit, status: 'Red' })}
+                          className={cn("px-4 py-2 text-xs font-bold rounded-xl border transition-colors cursor-pointer",
+                            selectedSubForAudit.status === 'Red' ? "bg-rose-500 text-white border-rose-500 shadow-md shadow-rose-100" : "bg-white text-slate-600 hover:bg-slate-50"
+                          )}
+                        >
+                          Red (พบปัญหา)
+                        </button>
                       </div>
-                    )}
+                    </div>
                   </div>
-
-                  {/* Category 3: Checklist */}
-                  <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3">
-                    <div className="flex justify-between items-center">
-                      <h4 className="text-sm font-bold text-slate-800">📝 3. กระดาษ Check list (A4) - น้ำหนัก 15%</h4>
-                      <label className="flex items-center gap-1.5 cursor-pointer text-xs font-semibold text-slate-400">
-                        <input 
-                          type="checkbox" 
-                          checked={selectedSubForAudit.checklist_na}
-                          onChange={(e) => setSelectedSubForAudit({
-                            ...selectedSubForAudit,
-                            checklist_na: e.target.checked
-                          })}
-                          className="rounded text-violet-600 focus:ring-violet-500"
-                        />
-                        ไม่มีอุปกรณ์นี้ (N/A)
-                      </label>
-                    </div>
-                    
-                    {!selectedSubForAudit.checklist_na && (
-                      <div className="grid grid-cols-1 gap-2">
-                        {[
-                          { val: 100, desc: "100% - ภาพถ่ายเห็นชัดว่าลงบันทึกครบทุกช่อง, มีลายเซ็นผู้ตรวจและผู้ควบคุมงาน, วันที่ตรงกับวันปัจจุบัน" },
-                          { val: 50, desc: "50% - ลงข้อมูลไม่ครบบางส่วน หรือลายมืออ่านยากมากจนอาจเกิดความเข้าใจผิด" },
-                          { val: 0, desc: "0% - ไม่มีการลงบันทึก, วันที่ย้อนหลัง หรือไม่มีภาพถ่าย Checklist" }
-                        ].map(opt => (
-                          <label key={opt.val} className={cn("flex items-start gap-2.5 p-2 rounded-xl text-xs border transition-colors cursor-pointer",
-                            selectedSubForAudit.checklist_score === opt.val ? "bg-violet-50 border-violet-200 text-violet-700 font-bold" : "bg-slate-50 border-slate-100 hover:bg-slate-100/50"
-                          )}>
-                            <input 
-                              type="radio" 
-                              name="checklist_score" 
-                              checked={selectedSubForAudit.checklist_score === opt.val}
-                              onChange={() => setSelectedSubForAudit({ ...selectedSubForAudit, checklist_score: opt.val })}
-                              className="text-violet-600 focus:ring-violet-500 mt-0.5"
-                            />
-                            <span>{opt.desc}</span>
-                          </label>
-                        ))}
-                      </div>
-                    )}
-                  </div>
-
-                  {/* Category 4: Roof */}
-                  <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3">
-                    <div className="flex justify-between items-center">
-                      <h4 className="text-sm font-bold text-slate-800">🏢 4. ดาดฟ้าสถานี (ขี้นก/ระบายน้ำ) - น้ำหนัก 15%</h4>
-                      <label className="flex items-center gap-1.5 cursor-pointer text-xs font-semibold text-slate-400">
-                        <input 
-                          type="checkbox" 
-                          checked={selectedSubForAudit.roof_na}
-                          onChange={(e) => setSelectedSubForAudit({
-                            ...selectedSubForAudit,
-                            roof_na: e.target.checked
-                          })}
-                          className="rounded text-violet-600 focus:ring-violet-500"
-                        />
-                        ไม่มีดาดฟ้า (N/A)
-                      </label>
-                    </div>
-                    
-                    {!selectedSubForAudit.roof_na && (
-                      <div className="grid grid-cols-1 gap-2">
-                        {[
-                          { val: 100, desc: "100% - ปากท่อระบายน้ำสะอาด ไม่มีขี้นกสะสม หรือเศษวัสดุขวางทางน้ำ" },
-                          { val: 50, desc: "50% - มีขี้นกสะสมบ้างแต่ยังไม่ส่งกลิ่นหรืออุดตัน" },
-                          { val: 0, desc: "0% - ท่อระบายน้ำอุดตันชัดเจน หรือมีน้ำขังบนดาดฟ้า" }
-                        ].map(opt => (
-                          <label key={opt.val} className={cn("flex items-start gap-2.5 p-2 rounded-xl text-xs border transition-colors cursor-pointer",
-                            selectedSubForAudit.roof_score === opt.val ? "bg-violet-50 border-violet-200 text-violet-700 font-bold" : "bg-slate-50 border-slate-100 hover:bg-slate-100/50"
-                          )}>
-                            <input 
-                              type="radio" 
-                              name="roof_score" 
-                              checked={selectedSubForAudit.roof_score === opt.val}
-                              onChange={() => setSelectedSubForAudit({ ...selectedSubForAudit, roof_score: opt.val })}
-                              className="text-violet-600 focus:ring-violet-500 mt-0.5"
-                            />
-                            <span>{opt.desc}</span>
-                          </label>
-                        ))}
-                      </div>
-                    )}
-                  </div>
-
-                  {/* Category 5: Fence */}
-                  <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3">
-                    <div className="flex justify-between items-center">
-                      <h4 className="text-sm font-bold text-slate-800">🚧 5. รอบรั้วสถานี (4 ทิศทาง) - น้ำหนัก 15%</h4>
-                      <label className="flex items-center gap-1.5 cursor-pointer text-xs font-semibold text-slate-400">
-                        <input 
-                          type="checkbox" 
-                          checked={selectedSubForAudit.fence_na}
-                          onChange={(e) => setSelectedSubForAudit({
-                            ...selectedSubForAudit,
-                            fence_na: e.target.checked
-                          })}
-                          className="rounded text-violet-600 focus:ring-violet-500"
-                        />
-                        ไม่มีรั้ว (N/A)
-                      </label>
-                    </div>
-                    
-                    {!selectedSubForAudit.fence_na && (
-                      <div className="grid grid-cols-1 gap-2">
-                        {[
-                          { val: 100, desc: "100% - ภาพครบ 4 ด้าน, รั้วไม่มีช่องโหว่, ประตูล็อคสนิท, ป้ายเตือนอันตรายชัดเจน" },
-                          { val: 50, desc: "50% - ขาดภาพบางด้าน หรือมีต้นไม้ขึ้นหนาจนมองไม่เห็นสภาพรั้ว" },
-                          { val: 0, desc: "0% - รั้วชำรุด หรือมีการบุกรุก/สัตว์ทำรังขนาดใหญ่" }
-                        ].map(opt => (
-                          <label key={opt.val} className={cn("flex items-start gap-2.5 p-2 rounded-xl text-xs border transition-colors cursor-pointer",
-                            selectedSubForAudit.fence_score === opt.val ? "bg-violet-50 border-violet-200 text-violet-700 font-bold" : "bg-slate-50 border-slate-100 hover:bg-slate-100/50"
-                          )}>
-                            <input 
-                              type="radio" 
-                              name="fence_score" 
-                              checked={selectedSubForAudit.fence_score === opt.val}
-                              onChange={() => setSelectedSubForAudit({ ...selectedSubForAudit, fence_score: opt.val })}
-                              className="text-violet-600 focus:ring-violet-500 mt-0.5"
-                            />
-                            <span>{opt.desc}</span>
-                          </label>
-                        ))}
-                      </div>
-                    )}
-                  </div>
-
-                  {/* Category 6: Security */}
-                  <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-3">
-                    <div className="flex justify-between items-center">
-                      <h4 className="text-sm font-bold text-slate-800">👮 6. รปภ. (การแต่งเครื่องแบบ) - น้ำหนัก 10%</h4>
-                      <label className="flex items-center gap-1.5 cursor-pointer text-xs font-semibold text-slate-400">
-                        <input 
-                          type="checkbox" 
-                          checked={selectedSubForAudit.security_na}
-                          onChange={(e) => setSelectedSubForAudit({
-                            ...selectedSubForAudit,
-                            security_na: e.target.checked
-                          })}
-                          className="rounded text-violet-600 focus:ring-violet-500"
-                        />
-                        ไม่มีจุดประจําการ (N/A)
-                      </label>
-                    </div>
-                    
-                    {!selectedSubForAudit.security_na && (
-                      <div className="grid grid-cols-1 gap-2">
-                        {[
-                          { val: 100, desc: "100% - สวมเครื่องแบบตามระเบียบครบถ้วน รวมไปถึงอุปกรณ์ความปลอดภัย (ถ้ากำหนด)" },
-                          { val: 0, desc: "0% - แต่งกายไม่เรียบร้อย (เช่น สวมรองเท้าแตะ, ไม่ใส่เสื้อเครื่องแบบ) หรือไม่อยู่ในจุดปฏิบัติงาน" }
-                        ].map(opt => (
-                          <label key={opt.val} className={cn("flex items-start gap-2.5 p-2 rounded-xl text-xs border transition-colors cursor-pointer",
-                            selectedSubForAudit.security_score === opt.val ? "bg-violet-50 border-violet-200 text-violet-700 font-bold" : "bg-slate-50 border-slate-100 hover:bg-slate-100/50"
-                          )}>
-                            <input 
-                              type="radio" 
-                              name="security_score" 
-                              checked={selectedSubForAudit.security_score === opt.val}
-                              onChange={() => setSelectedSubForAudit({ ...selectedSubForAudit, security_score: opt.val })}
-                              className="text-violet-600 focus:ring-violet-500 mt-0.5"
-                            />
-                            <span>{opt.desc}</span>
-                          </label>
-                        ))}
-                      </div>
-                    )}
-                  </div>
-
-                  {/* Recommendations */}
-                  <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-2">
-                    <h4 className="text-sm font-bold text-slate-800">✍️ ข้อเสนอแนะการปรับปรุงเพิ่มเติม</h4>
-                    <textarea 
-                      value={selectedSubForAudit.summary}
-                      onChange={(e) => setSelectedSubForAudit({ ...selectedSubForAudit, summary: e.target.value })}
-                      placeholder="ระบุความคิดเห็นเพื่อแนะนำให้สถานีไฟฟ้าแรงสูงทำความสะอาดเรียบร้อย เช่น จัดระเบียบสาย..."
-                      rows={3}
-                      className="w-full text-xs p-3 bg-white border border-slate-200 rounded-xl outline-none focus:ring-2 focus:ring-violet-500"
-                    />
-                  </div>
-
-                  {/* Overriding Status (Red/Green) */}
-                  <div className="bg-white p-4 rounded-2xl border border-slate-100 shadow-sm space-y-2 flex justify-between items-center">
-                    <div>
-                      <h4 className="text-sm font-bold text-slate-800">🚦 สถานะการควบคุมหลัก (Operational Status)</h4>
-                      <p className="text-[10px] text-slate-400">ระบุสภาพความพร้อมทางกายภาพความปลอดภัย</p>
-                    </div>
-                    <div className="flex gap-2">
-                      <button 
-                        type="button"
-                        onClick={() => setSelectedSubForAudit({ ...selectedSubForAudit, status: 'Green' })}
-                        className={cn("px-4 py-2 text-xs font-bold rounded-xl border transition-colors cursor-pointer",
-                          selectedSubForAudit.status === 'Green' ? "bg-emerald-500 text-white border-emerald-500 shadow-md shadow-emerald-100" : "bg-white text-slate-600 hover:bg-slate-50"
-                        )}
-                      >
-                        Green (ปกติ)
-                      </button>
-                      <button 
-                        type="button"
-                        onClick={() => setSelectedSubForAudit({ ...selectedSubForAudit, status: 'Red' })}
-                        className={cn("px-4 py-2 text-xs font-bold rounded-xl border transition-colors cursor-pointer",
-                          selectedSubForAudit.status === 'Red' ? "bg-rose-500 text-white border-rose-500 shadow-md shadow-rose-100" : "bg-white text-slate-600 hover:bg-slate-50"
-                        )}
-                      >
-                        Red (พบปัญหา)
-                      </button>
-                    </div>
-                  </div>
-                </div>
+                  </>
+                )}
 
                 {/* Footer Buttons */}
                 <div className="p-6 border-t border-slate-100 bg-white sticky bottom-0 z-10 flex gap-3">
@@ -3099,7 +3784,7 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
                   <Button 
                     type="button"
                     onClick={() => handleSaveAudit(selectedSubForAudit)} 
-                    disabled={isSavingAudit}
+                    disabled={isSavingAudit || !canAudit}
                     className="flex-1 bg-violet-600 hover:bg-violet-700 flex items-center justify-center gap-2 cursor-pointer font-bold text-white shadow-lg shadow-violet-100"
                   >
                     {isSavingAudit ? (
@@ -3121,11 +3806,1038 @@ const DashboardPage = ({ onBack }: { onBack: () => void }) => {
 
 // --- Main App ---
 
+const EMPTY_SUBSTATION_FORM = {
+  id: '',
+  name: '',
+  lat: '',
+  lng: '',
+  area: '',
+  voltage_class: '',
+  is_temporary: false,
+  active_from: '',
+  active_until: '',
+  geofence_radius_m: '300'
+};
+
+// Frequency, grace period and exemptions of one station's categories, or of the defaults ('*')
+const ScheduleModal = ({ substationName, categories, onClose }: { substationName: string; categories: InspectionCategory[]; onClose: () => void }) => {
+  const [schedules, setSchedules] = useState<InspectionSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newCategory, setNewCategory] = useState('');
+  const isDefault = substationName === '*';
+
+  const load = () => {
+    setLoading(true);
+    fetch('/api/inspection-schedules')
+      .then(res => res.json())
+      .then(data => setSchedules(Array.isArray(data) ? data : []))
+      .catch(err => console.error("Failed to load inspection schedules:", err))
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(load, []);
+
+  const save = async (category: string, values: Pick<InspectionSchedule, 'frequency' | 'grace_days' | 'exempt'>) => {
+    const res = await fetch(`/api/inspection-schedules/${encodeURIComponent(substationName)}/${encodeURIComponent(category)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values)
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(`บันทึกไม่สำเร็จ: ${data.error || res.statusText}`);
+    }
+    load();
+  };
+
+  const remove = async (category: string) => {
+    await fetch(`/api/inspection-schedules/${encodeURIComponent(substationName)}/${encodeURIComponent(category)}`, { method: 'DELETE' });
+    load();
+  };
+
+  const rows = isDefault
+    ? schedules.filter(s => s.substation_name === '*' && s.category !== '*')
+    : resolveInspectionSchedule(schedules, substationName);
+  const hasOverride = (category: string) => schedules.some(s => s.substation_name === substationName && s.category === category);
+  const stationExempt = schedules.some(s => s.substation_name === substationName && s.category === '*' && s.exempt);
+  const inputClass = "bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs outline-none focus:ring-2 focus:ring-violet-500";
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 overflow-y-auto">
+      <div onClick={onClose} className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" />
+      <div className="relative w-full max-w-lg bg-white rounded-3xl shadow-2xl p-6 space-y-4">
+        <h3 className="text-lg font-bold text-slate-900">รอบการตรวจ • {isDefault ? 'ค่าเริ่มต้นทุกสถานี' : substationName}</h3>
+        {!isDefault && (
+          <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+            <input
+              type="checkbox"
+              checked={stationExempt}
+              onChange={(e) => e.target.checked ? save('*', { frequency: 'monthly', grace_days: 0, exempt: true }) : remove('*')}
+            />
+            ยกเว้นการตรวจทั้งสถานี
+          </label>
+        )}
+        {loading ? (
+          <div className="flex justify-center py-8"><Loader2 className="animate-spin text-violet-600" size={24} /></div>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] text-slate-400 uppercase text-left">
+                <th className="py-1">หมวด</th>
+                <th className="py-1">ความถี่</th>
+                <th className="py-1">ผ่อนผัน (วัน)</th>
+                <th className="py-1">ยกเว้น</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.category} className="border-t border-slate-50">
+                  <td className="py-1.5 font-bold text-slate-700">
+                    {categoryLabel(categories, row.category)}
+                    {!isDefault && hasOverride(row.category) && <span className="ml-1 text-[9px] text-violet-600">(กำหนดเอง)</span>}
+                  </td>
+                  <td className="py-1.5">
+                    <select
+                      value={row.frequency}
+                      onChange={(e) => save(row.category, { ...row, frequency: e.target.value as InspectionFrequency })}
+                      className={inputClass}
+                    >
+                      {Object.entries(FREQUENCY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-1.5">
+                    <input
+                      key={row.grace_days}
+                      type="number"
+                      min={0}
+                      defaultValue={row.grace_days}
+                      onBlur={(e) => Number(e.target.value) !== row.grace_days && save(row.category, { ...row, grace_days: Number(e.target.value) })}
+                      className={cn(inputClass, "w-16")}
+                    />
+                  </td>
+                  <td className="py-1.5">
+                    <input type="checkbox" checked={row.exempt} onChange={(e) => save(row.category, { ...row, exempt: e.target.checked })} />
+                  </td>
+                  <td className="py-1.5 text-right">
+                    {(isDefault || hasOverride(row.category)) && (
+                      <button onClick={() => remove(row.category)} className="text-[10px] font-bold text-slate-400 hover:text-red-600">
+                        {isDefault ? 'ลบ' : 'ใช้ค่าเริ่มต้น'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="flex gap-2">
+          <select value={newCategory} onChange={(e) => setNewCategory(e.target.value)} className={cn(inputClass, "flex-1")}>
+            <option value="">เพิ่มหมวดที่ต้องตรวจ...</option>
+            {categories.filter(c => !rows.some(r => r.category === c.key)).map(c => (
+              <option key={c.key} value={c.key}>{c.label}</option>
+            ))}
+          </select>
+          <Button
+            variant="outline"
+            disabled={!newCategory}
+            onClick={() => { save(newCategory, { frequency: 'monthly', grace_days: 0, exempt: false }); setNewCategory(''); }}
+            className="py-1.5 text-xs"
+          >
+            <Plus size={14} /> เพิ่ม
+          </Button>
+        </div>
+        <Button onClick={onClose} className="w-full">ปิดหน้าต่าง</Button>
+      </div>
+    </div>
+  );
+};
+
+const SubstationAdminPage = ({ categories, onBack }: { categories: InspectionCategory[]; onBack: () => void }) => {
+  const [rows, setRows] = useState<Substation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [form, setForm] = useState<typeof EMPTY_SUBSTATION_FORM | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [scheduleFor, setScheduleFor] = useState<string | null>(null);
+
+  const load = () => {
+    setLoading(true);
+    fetch('/api/substations?all=true')
+      .then(res => res.json())
+      .then(data => setRows(Array.isArray(data) ? data : []))
+      .catch(err => console.error("Failed to load substations:", err))
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const toDateInput = (value?: string | null) => value ? value.slice(0, 10) : '';
+
+  const isActive = (sub: Substation) => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    return (!sub.active_from || toDateInput(sub.active_from) <= today) && (!sub.active_until || toDateInput(sub.active_until) >= today);
+  };
+
+  const openEdit = (sub: Substation) => {
+    setEditingId(sub.id);
+    setForm({
+      id: sub.id,
+      name: sub.name,
+      lat: String(sub.lat),
+      lng: String(sub.lng),
+      area: sub.area || '',
+      voltage_class: sub.voltage_class || '',
+      is_temporary: !!sub.is_temporary,
+      active_from: toDateInput(sub.active_from),
+      active_until: toDateInput(sub.active_until),
+      geofence_radius_m: String(sub.geofence_radius_m ?? 300)
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    try {
+      const res = await fetch(editingId ? `/api/substations/${encodeURIComponent(editingId)}` : '/api/substations', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(`บันทึกไม่สำเร็จ: ${data.error || res.statusText}`);
+        return;
+      }
+      setForm(null);
+      setEditingId(null);
+      load();
+    } catch (err: any) {
+      alert(`บันทึกไม่สำเร็จ: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDecommission = async (sub: Substation) => {
+    if (!confirm(`ปลด ${sub.name} ออกจากรายการตรวจ? ประวัติการตรวจเดิมจะยังคงอยู่`)) return;
+    const res = await fetch(`/api/substations/${encodeURIComponent(sub.id)}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      alert(`ไม่สามารถปลดสถานีได้: ${data.error || res.statusText}`);
+    }
+    load();
+  };
+
+  const filtered = rows.filter(sub => !search || sub.name.includes(search) || (sub.area || '').includes(search));
+
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-violet-500";
+
+  return (
+    <div className="min-h-screen bg-violet-50 p-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-4">
+            <button onClick={onBack} className="p-2 -ml-2 text-slate-400 hover:text-slate-900">
+              <ChevronRight size={24} className="rotate-180" />
+            </button>
+            <h2 className="text-2xl font-bold text-slate-900">ทะเบียนสถานีไฟฟ้า</h2>
+          </div>
+          <div className="flex gap-2">
+            <div className="relative">
+              <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="ค้นหาชื่อหรือพื้นที่"
+                className="bg-white pl-9 pr-4 py-2 rounded-xl border border-slate-200 shadow-sm text-sm outline-none focus:ring-2 focus:ring-violet-500"
+              />
+            </div>
+            <Button variant="outline" onClick={() => setScheduleFor('*')} className="py-2 text-sm">
+              <Clock size={16} /> รอบการตรวจ
+            </Button>
+            <Button onClick={() => { setEditingId(null); setForm({ ...EMPTY_SUBSTATION_FORM }); }} className="py-2 text-sm">
+              <Plus size={16} /> เพิ่มสถานี
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-20"><Loader2 className="animate-spin text-violet-600" size={40} /></div>
+        ) : (
+          <div className="space-y-2">
+            {filtered.map(sub => (
+              <Card key={sub.id} className={cn("p-4 flex items-center justify-between gap-4", !isActive(sub) && "opacity-50")}>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <h4 className="font-bold text-slate-800">{sub.name}</h4>
+                    {sub.is_temporary && <span className="text-[10px] font-bold bg-amber-50 text-amber-600 px-2 py-0.5 rounded-full">ชั่วคราว</span>}
+                    {!isActive(sub) && <span className="text-[10px] font-bold bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full">ไม่ใช้งาน</span>}
+                  </div>
+                  <p className="text-[11px] text-slate-400 mt-1 font-mono">
+                    {sub.area || 'ไม่ระบุพื้นที่'} • {sub.voltage_class || '-'} • {Number(sub.lat).toFixed(5)}, {Number(sub.lng).toFixed(5)} • รัศมี {sub.geofence_radius_m ?? 300} ม.
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="outline" onClick={() => setScheduleFor(sub.name)} className="py-1.5 text-xs">รอบการตรวจ</Button>
+                  <Button variant="outline" onClick={() => openEdit(sub)} className="py-1.5 text-xs">แก้ไข</Button>
+                  {isActive(sub) && (
+                    <Button variant="danger" onClick={() => handleDecommission(sub)} className="py-1.5 text-xs">ปลดสถานี</Button>
+                  )}
+                </div>
+              </Card>
+            ))}
+            {filtered.length === 0 && (
+              <p className="text-center text-sm text-slate-400 py-12">ไม่พบสถานี</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {form && (
+        <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 overflow-y-auto">
+          <div onClick={() => setForm(null)} className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" />
+          <div className="relative w-full max-w-lg bg-white rounded-3xl shadow-2xl p-6 space-y-4">
+            <h3 className="text-lg font-bold text-slate-900">{editingId ? 'แก้ไขสถานี' : 'เพิ่มสถานีใหม่'}</h3>
+            <div className="grid grid-cols-2 gap-3">
+              {!editingId && (
+                <label className="col-span-2 text-xs font-bold text-slate-500 space-y-1">
+                  <span>รหัสสถานี (ภาษาอังกฤษ เช่น tha-sai-3)</span>
+                  <input value={form.id} onChange={(e) => setForm({ ...form, id: e.target.value })} className={inputClass} />
+                </label>
+              )}
+              <label className="col-span-2 text-xs font-bold text-slate-500 space-y-1">
+                <span>ชื่อสถานี</span>
+                <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClass} />
+              </label>
+              <label className="text-xs font-bold text-slate-500 space-y-1">
+                <span>ละติจูด</span>
+                <input value={form.lat} onChange={(e) => setForm({ ...form, lat: e.target.value })} inputMode="decimal" className={inputClass} />
+              </label>
+              <label className="text-xs font-bold text-slate-500 space-y-1">
+                <span>ลองจิจูด</span>
+                <input value={form.lng} onChange={(e) => setForm({ ...form, lng: e.target.value })} inputMode="decimal" className={inputClass} />
+              </label>
+              <label className="text-xs font-bold text-slate-500 space-y-1">
+                <span>พื้นที่</span>
+                <select value={form.area} onChange={(e) => setForm({ ...form, area: e.target.value })} className={inputClass}>
+                  <option value="">ไม่ระบุ</option>
+                  {AREAS.map(area => <option key={area} value={area}>{area}</option>)}
+                </select>
+              </label>
+              <label className="text-xs font-bold text-slate-500 space-y-1">
+                <span>ระดับแรงดัน</span>
+                <input value={form.voltage_class} onChange={(e) => setForm({ ...form, voltage_class: e.target.value })} placeholder="เช่น 115/22 kV" className={inputClass} />
+              </label>
+              <label className="text-xs font-bold text-slate-500 space-y-1">
+                <span>เริ่มใช้งาน</span>
+                <input type="date" value={form.active_from} onChange={(e) => setForm({ ...form, active_from: e.target.value })} className={inputClass} />
+              </label>
+              <label className="text-xs font-bold text-slate-500 space-y-1">
+                <span>สิ้นสุดการใช้งาน</span>
+                <input type="date" value={form.active_until} onChange={(e) => setForm({ ...form, active_until: e.target.value })} className={inputClass} />
+              </label>
+              <label className="text-xs font-bold text-slate-500 space-y-1">
+                <span>รัศมี Geofence (เมตร)</span>
+                <input value={form.geofence_radius_m} onChange={(e) => setForm({ ...form, geofence_radius_m: e.target.value })} inputMode="numeric" className={inputClass} />
+              </label>
+              <label className="flex items-center gap-2 text-xs font-bold text-slate-500 self-end pb-2">
+                <input type="checkbox" checked={form.is_temporary} onChange={(e) => setForm({ ...form, is_temporary: e.target.checked })} />
+                สถานีชั่วคราว
+              </label>
+            </div>
+            <div className="flex gap-3 pt-2">
+              <Button variant="outline" onClick={() => setForm(null)} className="flex-1">ยกเลิก</Button>
+              <Button onClick={handleSave} disabled={saving} className="flex-1">
+                {saving ? <Loader2 className="animate-spin w-4 h-4" /> : 'บันทึก'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {scheduleFor && <ScheduleModal substationName={scheduleFor} categories={categories} onClose={() => setScheduleFor(null)} />}
+    </div>
+  );
+};
+
+// Small inline chart of one cell's readings, with the allowed band shaded
+const Sparkline = ({ values, low, high, width = 120, height = 28 }: { values: (number | null)[]; low: number; high: number; width?: number; height?: number }) => {
+  const points = values.map((v, i) => ({ v, i })).filter((p): p is { v: number; i: number } => p.v !== null);
+  if (points.length === 0) return <span className="text-[10px] text-slate-300">-</span>;
+  const min = Math.min(low, ...points.map(p => p.v));
+  const max = Math.max(high, ...points.map(p => p.v));
+  const span = max - min || 1;
+  const x = (i: number) => values.length === 1 ? width / 2 : (i / (values.length - 1)) * (width - 4) + 2;
+  const y = (v: number) => height - 2 - ((v - min) / span) * (height - 4);
+  return (
+    <svg width={width} height={height} className="overflow-visible">
+      <rect x={0} y={y(high)} width={width} height={Math.max(y(low) - y(high), 1)} className="fill-emerald-50" />
+      <polyline
+        points={points.map(p => `${x(p.i)},${y(p.v)}`).join(' ')}
+        className="fill-none stroke-violet-500"
+        strokeWidth={1.5}
+      />
+      {points.map(p => (
+        <circle key={p.i} cx={x(p.i)} cy={y(p.v)} r={2} className={p.v < low || p.v > high ? "fill-red-500" : "fill-violet-600"} />
+      ))}
+    </svg>
+  );
+};
+
+const BatteryTrendPage = ({ substations, onBack }: { substations: Substation[]; onBack: () => void }) => {
+  const [substationName, setSubstationName] = useState(substations[0]?.name || '');
+  const [months, setMonths] = useState(12);
+  const [data, setData] = useState<any>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!substationName) return;
+    setLoading(true);
+    fetch(`/api/battery-readings/trend?substationName=${encodeURIComponent(substationName)}&months=${months}`)
+      .then(res => res.json())
+      .then(setData)
+      .catch(err => console.error("Failed to load battery trend:", err))
+      .finally(() => setLoading(false));
+  }, [substationName, months]);
+
+  const thresholds: BatteryThresholds = data?.thresholds || DEFAULT_BATTERY_THRESHOLDS;
+  // Every inspection date with readings, so each cell's sparkline shares the same x axis
+  const dates: string[] = Array.from(new Set<string>((data?.banks || []).flatMap((bank: any) =>
+    bank.cells.flatMap((cell: any) => cell.readings.map((r: any) => r.measured_at))
+  ))).sort();
+  const alertsFor = (bank: string, cell: number) => (data?.alerts || []).filter((a: any) => a.bank === bank && a.cell === cell);
+
+  return (
+    <div className="min-h-screen bg-violet-50 p-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-4">
+            <button onClick={onBack} className="p-2 -ml-2 text-slate-400 hover:text-slate-900">
+              <ChevronRight size={24} className="rotate-180" />
+            </button>
+            <h2 className="text-2xl font-bold text-slate-900">แนวโน้มแบตเตอรี่รายเซลล์</h2>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={substationName}
+              onChange={(e) => setSubstationName(e.target.value)}
+              className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-violet-500"
+            >
+              {substations.map(sub => <option key={sub.id} value={sub.name}>{sub.name}</option>)}
+            </select>
+            <select
+              value={months}
+              onChange={(e) => setMonths(Number(e.target.value))}
+              className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-violet-500"
+            >
+              {[6, 12, 24].map(m => <option key={m} value={m}>{m} เดือน</option>)}
+            </select>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-20"><Loader2 className="animate-spin text-violet-600" size={32} /></div>
+        ) : !data?.banks?.length ? (
+          <Card className="p-10 text-center text-sm text-slate-400">ยังไม่มีการบันทึกค่าแบตเตอรี่ของสถานีนี้ในช่วงเวลาที่เลือก</Card>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-xs text-slate-500">
+              เกณฑ์: แรงดัน {thresholds.min_float_voltage}–{thresholds.max_float_voltage} V, SG {thresholds.min_specific_gravity}–{thresholds.max_specific_gravity},
+              อุณหภูมิไม่เกิน {thresholds.max_temperature_c} °C, เปลี่ยนจากครั้งก่อนไม่เกิน {thresholds.max_voltage_drift} V / SG {thresholds.max_sg_drift}
+            </p>
+
+            {data.alerts.length > 0 && (
+              <Card className="p-4 space-y-1">
+                <p className="text-xs font-bold text-red-600 mb-2">การแจ้งเตือนล่าสุด</p>
+                {data.alerts.slice(0, 10).map((alert: any, i: number) => (
+                  <p key={i} className="text-[11px] text-slate-600">
+                    <span className="text-slate-400">{format(new Date(alert.created_at), 'dd/MM/yy', { locale: th })}</span> {alert.message}
+                  </p>
+                ))}
+              </Card>
+            )}
+
+            {data.banks.map((bank: any) => (
+              <Card key={bank.bank} className="p-4 overflow-x-auto">
+                <p className="font-bold text-slate-900 mb-3">ชุดที่ {bank.bank}</p>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-[10px] text-slate-400 uppercase text-left">
+                      <th className="py-1 pr-2">เซลล์</th>
+                      <th className="py-1 pr-2">แรงดัน (V)</th>
+                      <th className="py-1 pr-2">SG</th>
+                      <th className="py-1 pr-2 text-right">ล่าสุด</th>
+                      <th className="py-1"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {bank.cells.map((cell: any) => {
+                      const byDate = new Map<string, any>(cell.readings.map((r: any) => [r.measured_at, r]));
+                      const latest = cell.readings[cell.readings.length - 1];
+                      const cellAlerts = alertsFor(bank.bank, cell.cell);
+                      return (
+                        <tr key={cell.cell} className="border-t border-slate-50">
+                          <td className="py-1 pr-2 font-bold text-slate-500">{cell.cell}</td>
+                          <td className="py-1 pr-2">
+                            <Sparkline values={dates.map(d => byDate.get(d)?.float_voltage ?? null)} low={thresholds.min_float_voltage} high={thresholds.max_float_voltage} />
+                          </td>
+                          <td className="py-1 pr-2">
+                            <Sparkline values={dates.map(d => byDate.get(d)?.specific_gravity ?? null)} low={thresholds.min_specific_gravity} high={thresholds.max_specific_gravity} />
+                          </td>
+                          <td className="py-1 pr-2 text-right font-mono text-slate-600 whitespace-nowrap">
+                            {latest.float_voltage ?? '-'} V · {latest.specific_gravity ?? '-'} · {latest.temperature_c ?? '-'} °C
+                          </td>
+                          <td className="py-1">
+                            {cellAlerts.length > 0 && (
+                              <span className="text-[9px] font-bold bg-red-50 text-red-600 px-1.5 py-0.5 rounded-full" title={cellAlerts.map((a: any) => a.message).join('\n')}>
+                                {cellAlerts.length}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Monthly health index on a 0–100 axis, dashed at the grade cut-offs; audited months get an amber ring
+const HealthIndexChart = ({ points, guides }: { points: { label: string; value: number | null; override: boolean; title: string }[]; guides: number[] }) => {
+  const width = 640;
+  const height = 200;
+  const pad = { left: 28, right: 8, top: 8, bottom: 22 };
+  const x = (i: number) => pad.left + (points.length === 1 ? (width - pad.left - pad.right) / 2 : (i / (points.length - 1)) * (width - pad.left - pad.right));
+  const y = (v: number) => pad.top + (1 - v / 100) * (height - pad.top - pad.bottom);
+  // Break the line where a month has no result
+  const segments: { i: number; v: number }[][] = [];
+  points.forEach((p, i) => {
+    if (p.value === null) return;
+    const last = segments[segments.length - 1];
+    if (last && last[last.length - 1].i === i - 1) last.push({ i, v: p.value });
+    else segments.push([{ i, v: p.value }]);
+  });
+  const labelEvery = Math.ceil(points.length / 12);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+      {[0, 50, 100].map(v => (
+        <text key={v} x={pad.left - 4} y={y(v) + 3} textAnchor="end" className="fill-slate-400 text-[9px]">{v}</text>
+      ))}
+      {guides.map(v => (
+        <line key={v} x1={pad.left} x2={width - pad.right} y1={y(v)} y2={y(v)} className="stroke-slate-200" strokeDasharray="4 3" />
+      ))}
+      {segments.map((seg, idx) => (
+        <polyline key={idx} points={seg.map(p => `${x(p.i)},${y(p.v)}`).join(' ')} className="fill-none stroke-violet-500" strokeWidth={2} />
+      ))}
+      {points.map((p, i) => p.value !== null && (
+        <g key={i}>
+          {p.override && <circle cx={x(i)} cy={y(p.value)} r={6} className="fill-none stroke-amber-500" strokeWidth={2} />}
+          <circle cx={x(i)} cy={y(p.value)} r={3} className="fill-violet-600">
+            <title>{p.title}</title>
+          </circle>
+        </g>
+      ))}
+      {points.map((p, i) => i % labelEvery === 0 && (
+        <text key={i} x={x(i)} y={height - 6} textAnchor="middle" className="fill-slate-400 text-[9px]">{p.label}</text>
+      ))}
+    </svg>
+  );
+};
+
+const HealthTrendPage = ({ substations, categories, initialSubstation, onBack }: { substations: Substation[]; categories: InspectionCategory[]; initialSubstation: string; onBack: () => void }) => {
+  const [substationName, setSubstationName] = useState(initialSubstation || substations[0]?.name || '');
+  const [span, setSpan] = useState(24);
+  const [months, setMonths] = useState<any[]>([]);
+  const [policy, setPolicy] = useState<HealthIndexPolicy>(DEFAULT_HEALTH_INDEX_POLICY);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/health-index-policy')
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(setPolicy)
+      .catch(err => console.warn("Using the default health index policy:", err));
+  }, []);
+
+  useEffect(() => {
+    if (!substationName) return;
+    const now = new Date();
+    const from = new Date(now.getFullYear(), now.getMonth() - span + 1, 1);
+    const monthParam = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+    setLoading(true);
+    fetch(`/api/health-index/history?substation=${encodeURIComponent(substationName)}&from=${monthParam(from)}&to=${monthParam(now)}`)
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(data => setMonths(data.months || []))
+      .catch(err => {
+        console.error("Failed to load health index history:", err);
+        setMonths([]);
+      })
+      .finally(() => setLoading(false));
+  }, [substationName, span]);
+
+  const monthLabel = (m: any) => format(new Date(m.year, m.month - 1, 1), 'MMM yy', { locale: th });
+  const scored = months.filter(m => m.health_index !== null);
+  const overridden = months.filter(m => m.override);
+  const categoryKeys = Array.from(new Set<string>(months.flatMap(m => Object.keys(m.scores || {}))));
+  // The lowest passing grade marks the healthy band of the sparklines
+  const passMark = policy.grades.length > 1 ? policy.grades[policy.grades.length - 2].min : 0;
+
+  return (
+    <div className="min-h-screen bg-violet-50 p-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+          <div className="flex items-center gap-4">
+            <button onClick={onBack} className="p-2 -ml-2 text-slate-400 hover:text-slate-900">
+              <ChevronRight size={24} className="rotate-180" />
+            </button>
+            <h2 className="text-2xl font-bold text-slate-900">แนวโน้มดัชนีสุขภาพ</h2>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={substationName}
+              onChange={(e) => setSubstationName(e.target.value)}
+              className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-violet-500"
+            >
+              {substations.map(sub => <option key={sub.id} value={sub.name}>{sub.name}</option>)}
+            </select>
+            <select
+              value={span}
+              onChange={(e) => setSpan(Number(e.target.value))}
+              className="bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-violet-500"
+            >
+              {[12, 24].map(m => <option key={m} value={m}>{m} เดือน</option>)}
+            </select>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-20"><Loader2 className="animate-spin text-violet-600" size={32} /></div>
+        ) : scored.length === 0 ? (
+          <Card className="p-10 text-center text-sm text-slate-400">ยังไม่มีผลประเมินดัชนีสุขภาพของสถานีนี้ในช่วงเวลาที่เลือก</Card>
+        ) : (
+          <div className="space-y-6">
+            <Card className="p-4 space-y-2">
+              <div className="flex justify-between items-center">
+                <p className="font-bold text-slate-900">Health Index รายเดือน</p>
+                <span className="text-[10px] text-slate-400 inline-flex items-center gap-1">
+                  <span className="w-2.5 h-2.5 rounded-full border-2 border-amber-500 inline-block" /> ปรับผลด้วยการประเมินของผู้ตรวจ
+                </span>
+              </div>
+              <HealthIndexChart
+                points={months.map(m => ({
+                  label: monthLabel(m),
+                  value: m.health_index,
+                  override: !!m.override,
+                  title: `${monthLabel(m)}: ${m.health_index ?? '-'}% ${m.grade || ''}${m.override ? ` (ปรับโดย ${m.override.actor_name || m.override.actor_id})` : ''}`
+                }))}
+                guides={policy.grades.map(g => g.min).filter(v => v > 0)}
+              />
+            </Card>
+
+            <Card className="p-4 overflow-x-auto">
+              <p className="font-bold text-slate-900 mb-3">คะแนนรายหมวด</p>
+              <table className="w-full text-xs">
+                <tbody>
+                  {categoryKeys.map(key => {
+                    const latest = [...months].reverse().find(m => m.health_index !== null);
+                    return (
+                      <tr key={key} className="border-t border-slate-50">
+                        <td className="py-1.5 pr-2 font-bold text-slate-600 whitespace-nowrap">{categoryLabel(categories, key)}</td>
+                        <td className="py-1.5 pr-2">
+                          <Sparkline values={months.map(m => m.scores?.[key] ?? null)} low={passMark} high={100} width={240} />
+                        </td>
+                        <td className="py-1.5 text-right font-mono text-slate-600">
+                          {latest?.scores?.[key] === null || latest?.scores?.[key] === undefined ? 'N/A' : `${latest.scores[key]}%`}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </Card>
+
+            {overridden.length > 0 && (
+              <Card className="p-4 space-y-1">
+                <p className="text-xs font-bold text-amber-600 mb-2">เดือนที่ผลประเมินถูกปรับโดยผู้ตรวจ</p>
+                {overridden.map(m => (
+                  <p key={`${m.year}-${m.month}`} className="text-[11px] text-slate-600">
+                    <span className="font-bold">{monthLabel(m)}</span> {m.health_index ?? '-'}% ({m.grade || '-'}) • โดย {m.override.actor_name || m.override.actor_id || 'ไม่ระบุ'} เมื่อ {format(new Date(m.override.at), 'd MMM yyyy HH:mm', { locale: th })}
+                  </p>
+                ))}
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const DEFECT_STATUS_LABELS: Record<DefectStatus, string> = {
+  open: 'รอมอบหมาย',
+  assigned: 'มอบหมายแล้ว',
+  fixed: 'รอตรวจรับ',
+  verified: 'ปิดแล้ว',
+};
+
+const DEFECT_SEVERITY_STYLES: Record<DefectSeverity, { label: string; className: string }> = {
+  high: { label: 'รุนแรง', className: 'bg-red-50 text-red-600 border-red-100' },
+  medium: { label: 'ปานกลาง', className: 'bg-amber-50 text-amber-700 border-amber-100' },
+  low: { label: 'เล็กน้อย', className: 'bg-slate-100 text-slate-500 border-slate-200' },
+};
+
+const driveFileUrl = (fileId: string) => `https://drive.google.com/file/d/${fileId}/view`;
+
+// Defects opened from Red AI findings, grouped by station, oldest first
+const DefectsPage = ({ categories, onBack, canManage }: { categories: InspectionCategory[]; onBack: () => void; canManage: boolean }) => {
+  const [defects, setDefects] = useState<Defect[]>([]);
+  const [assignees, setAssignees] = useState<{ substation_name: string; employee_id: string; name: string | null }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [assigning, setAssigning] = useState<{ id: number; assigneeId: string; dueDate: string } | null>(null);
+
+  const load = () => {
+    setLoading(true);
+    fetch('/api/defects')
+      .then(res => res.json())
+      .then(data => {
+        setDefects(data.defects || []);
+        setAssignees(data.assignees || []);
+      })
+      .catch(err => console.error("Failed to load defects:", err))
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(load, []);
+
+  const transition = async (defect: Defect, status: DefectStatus, extra: { assigneeId?: string; dueDate?: string } = {}) => {
+    setBusyId(defect.id);
+    try {
+      const res = await fetch(`/api/defects/${defect.id}/transition`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, ...extra })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setDefects(prev => status === 'verified' ? prev.filter(d => d.id !== defect.id) : prev.map(d => d.id === defect.id ? data : d));
+      setAssigning(null);
+    } catch (err: any) {
+      alert(`ไม่สามารถบันทึกได้: ${err.message}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const ageInDays = (createdAt: string) => Math.max(0, Math.floor((Date.now() - new Date(createdAt).getTime()) / (24 * 60 * 60 * 1000)));
+  const isOverdue = (defect: Defect) => !!defect.due_date && defect.status !== 'fixed' && defect.due_date < format(new Date(), 'yyyy-MM-dd');
+  const byStation = new Map<string, Defect[]>();
+  for (const defect of defects) {
+    if (!byStation.has(defect.substation_name)) byStation.set(defect.substation_name, []);
+    byStation.get(defect.substation_name)!.push(defect);
+  }
+
+  return (
+    <div className="min-h-screen bg-violet-50 p-6">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center gap-4 mb-8">
+          <button onClick={onBack} className="p-2 -ml-2 text-slate-400 hover:text-slate-900">
+            <ChevronRight size={24} className="rotate-180" />
+          </button>
+          <h2 className="text-2xl font-bold text-slate-900">ข้อบกพร่องที่ยังไม่ปิด</h2>
+          <span className="text-xs font-bold text-slate-400">{defects.length} รายการ</span>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-20"><Loader2 className="animate-spin text-violet-600" size={32} /></div>
+        ) : defects.length === 0 ? (
+          <Card className="p-10 text-center text-sm text-slate-400">ไม่มีข้อบกพร่องค้างอยู่</Card>
+        ) : (
+          <div className="space-y-6">
+            {Array.from(byStation.entries()).map(([station, items]) => (
+              <Card key={station} className="p-4">
+                <div className="flex justify-between items-center mb-3">
+                  <p className="font-bold text-slate-900">{station}</p>
+                  <span className="text-[10px] font-bold text-slate-400">เก่าสุด {ageInDays(items[0].created_at)} วัน</span>
+                </div>
+                <div className="space-y-3">
+                  {items.map(defect => {
+                    const severity = DEFECT_SEVERITY_STYLES[defect.severity];
+                    const stationAssignees = assignees.filter(a => a.substation_name === defect.substation_name);
+                    return (
+                      <div key={defect.id} className="border-t border-slate-50 pt-3 space-y-2">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className={cn("text-[10px] font-bold px-2 py-0.5 rounded-lg border", severity.className)}>{severity.label}</span>
+                          <span className="text-[10px] font-bold px-2 py-0.5 rounded-lg bg-violet-50 text-violet-700">{DEFECT_STATUS_LABELS[defect.status]}</span>
+                          <span className="text-[10px] text-slate-400">{defect.category ? categoryLabel(categories, defect.category) : '-'}</span>
+                          <span className="text-[10px] text-slate-400">• {ageInDays(defect.created_at)} วัน</span>
+                          {isOverdue(defect) && <span className="text-[10px] font-bold text-red-600">เกินกำหนด</span>}
+                        </div>
+                        <p className="text-sm font-bold text-slate-800">{defect.finding}</p>
+                        {defect.description && <p className="text-xs text-slate-500">{defect.description}</p>}
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px] text-slate-500">
+                          <span>ผู้รับผิดชอบ: {defect.assignee_id ? `${defect.assignee_name || ''} (${defect.assignee_id})` : '-'}</span>
+                          <span>กำหนดเสร็จ: {defect.due_date ? format(new Date(defect.due_date), 'dd/MM/yy', { locale: th }) : '-'}</span>
+                          {defect.source_file_id && (
+                            <a href={driveFileUrl(defect.source_file_id)} target="_blank" rel="noreferrer" className="text-violet-600 inline-flex items-center gap-1">
+                              <ExternalLink size={10} /> รูปที่พบ
+                            </a>
+                          )}
+                          {defect.fixed_file_id && (
+                            <a href={driveFileUrl(defect.fixed_file_id)} target="_blank" rel="noreferrer" className="text-emerald-600 inline-flex items-center gap-1">
+                              <ExternalLink size={10} /> รูปหลังแก้ไข ({defect.fixed_by})
+                            </a>
+                          )}
+                        </div>
+
+                        {canManage && assigning?.id === defect.id ? (
+                          <div className="flex flex-wrap gap-2 items-center">
+                            <select
+                              value={assigning.assigneeId}
+                              onChange={(e) => setAssigning({ ...assigning, assigneeId: e.target.value })}
+                              className="bg-white border border-slate-200 rounded-xl px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-violet-500"
+                            >
+                              <option value="">เลือกผู้รับผิดชอบ</option>
+                              {stationAssignees.map(a => <option key={a.employee_id} value={a.employee_id}>{a.name || a.employee_id} ({a.employee_id})</option>)}
+                            </select>
+                            <input
+                              type="date"
+                              value={assigning.dueDate}
+                              onChange={(e) => setAssigning({ ...assigning, dueDate: e.target.value })}
+                              className="bg-white border border-slate-200 rounded-xl px-2 py-1.5 text-xs outline-none focus:ring-2 focus:ring-violet-500"
+                            />
+                            <Button
+                              className="px-3 py-1.5 text-xs"
+                              disabled={!assigning.assigneeId || busyId === defect.id}
+                              onClick={() => transition(defect, 'assigned', { assigneeId: assigning.assigneeId, dueDate: assigning.dueDate || undefined })}
+                            >
+                              บันทึก
+                            </Button>
+                            <button onClick={() => setAssigning(null)} className="text-xs text-slate-400">ยกเลิก</button>
+                          </div>
+                        ) : canManage && (
+                          <div className="flex gap-3">
+                            {(defect.status === 'open' || defect.status === 'assigned') && (
+                              <button
+                                onClick={() => setAssigning({ id: defect.id, assigneeId: defect.assignee_id || '', dueDate: defect.due_date || '' })}
+                                className="text-xs font-bold text-violet-600"
+                              >
+                                {defect.status === 'open' ? 'มอบหมาย' : 'เปลี่ยนผู้รับผิดชอบ'}
+                              </button>
+                            )}
+                            {defect.status === 'fixed' && (
+                              <>
+                                <button disabled={busyId === defect.id} onClick={() => transition(defect, 'verified')} className="text-xs font-bold text-emerald-600">
+                                  ตรวจรับ ปิดรายการ
+                                </button>
+                                <button disabled={busyId === defect.id} onClick={() => transition(defect, 'assigned')} className="text-xs font-bold text-red-600">
+                                  ไม่ผ่าน ส่งกลับแก้ไข
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const PENDING_STATUS_LABELS: { [key: string]: { label: string; className: string } } = {
+  pending: { label: 'รออัปโหลด', className: 'bg-slate-100 text-slate-600' },
+  uploading: { label: 'กำลังอัปโหลด', className: 'bg-violet-100 text-violet-700' },
+  uploaded: { label: 'อัปโหลดแล้ว', className: 'bg-emerald-100 text-emerald-700' },
+  failed: { label: 'ไม่สำเร็จ', className: 'bg-red-100 text-red-600' },
+  skipped: { label: 'ไม่ต้องส่ง', className: 'bg-slate-100 text-slate-400' },
+  done: { label: 'ส่งแล้ว', className: 'bg-emerald-100 text-emerald-700' }
+};
+
+const PendingUploadsPage = ({ onBack }: { onBack: () => void }) => {
+  const [items, setItems] = useState<{ submission: QueuedSubmission; photos: QueuedPhoto[] }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const [online, setOnline] = useState(navigator.onLine);
+
+  const load = async () => {
+    try {
+      const submissions = await listSubmissions();
+      setItems(await Promise.all(submissions.map(async submission => ({ submission, photos: await listPhotos(submission.id) }))));
+    } catch (err) {
+      console.error("Failed to read upload queue:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    const unsubscribe = subscribeQueue(() => { load(); });
+    const updateOnline = () => setOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  const handleRetry = async (submission: QueuedSubmission) => {
+    setRetrying(submission.id);
+    try {
+      const done = await processSubmission(submission.id);
+      await removeSubmission(submission.id);
+      const flags = describeSubmissionFlags(done.substationName, done.result);
+      alert(flags.length > 0
+        ? `ส่งรายงาน ${done.substationName} สำเร็จ แต่รายการนี้จะถูกแจ้งให้หัวหน้างานตรวจสอบ:\n• ${flags.join('\n• ')}`
+        : `ส่งรายงาน ${done.substationName} สำเร็จ`);
+    } catch (err: any) {
+      console.warn("Manual retry failed:", err);
+      alert(`ส่งไม่สำเร็จ: ${err.message === 'Failed to fetch' ? 'ไม่มีสัญญาณอินเทอร์เน็ต' : err.message}`);
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  const handleDelete = async (submission: QueuedSubmission) => {
+    if (!confirm(`ลบรายงาน ${submission.substationName} ที่ยังไม่ได้ส่งออกจากเครื่อง? รูปภาพที่ยังไม่ได้อัปโหลดจะหายไป`)) return;
+    await removeSubmission(submission.id);
+  };
+
+  return (
+    <div className="min-h-screen bg-violet-50 p-6">
+      <div className="max-w-md mx-auto">
+        <div className="flex items-center gap-4 mb-6">
+          <button onClick={onBack} className="p-2 -ml-2 text-slate-400 hover:text-slate-900">
+            <ChevronRight size={24} className="rotate-180" />
+          </button>
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">รายการรออัปโหลด</h2>
+            <p className="text-xs text-slate-500">รายงานที่บันทึกไว้ในเครื่องและยังส่งไม่สำเร็จ</p>
+          </div>
+        </div>
+
+        {!online && (
+          <div className="bg-amber-50 border border-amber-200 rounded-2xl p-3 mb-4 flex items-center gap-2 text-amber-800 text-xs font-medium">
+            <CloudOff size={16} className="shrink-0" />
+            ขณะนี้ออฟไลน์ ระบบจะอัปโหลดให้อัตโนมัติเมื่อกลับมาออนไลน์
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-20"><Loader2 className="animate-spin text-violet-600" size={40} /></div>
+        ) : items.length === 0 ? (
+          <Card className="p-8 text-center">
+            <CheckCircle2 className="mx-auto text-emerald-500 mb-3" size={40} />
+            <p className="text-sm text-slate-500">ไม่มีรายงานค้างอยู่ในเครื่อง</p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {items.map(({ submission, photos }) => {
+              const uploadedCount = photos.filter(p => p.status === 'uploaded').length;
+              const status = PENDING_STATUS_LABELS[submission.status];
+              return (
+                <Card key={submission.id} className="p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <h4 className="font-bold text-slate-800">{submission.substationName}</h4>
+                      <p className="text-[11px] text-slate-400">
+                        {format(new Date(submission.timestamp), 'd MMM yyyy HH:mm', { locale: th })} • รูป {uploadedCount}/{photos.length}
+                        {submission.attempts > 0 && ` • ส่งแล้ว ${submission.attempts} ครั้ง`}
+                      </p>
+                    </div>
+                    <span className={cn("text-[10px] font-bold px-2 py-0.5 rounded-full shrink-0", status.className)}>{status.label}</span>
+                  </div>
+
+                  {submission.lastError && (
+                    <div className={cn("rounded-xl p-2 text-[11px] flex gap-2", submission.permanent ? "bg-red-50 text-red-700" : "bg-amber-50 text-amber-800")}>
+                      <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                      <span>
+                        {submission.lastError}
+                        {submission.permanent
+                          ? ' — ระบบจะไม่ลองส่งเองอีก กรุณาตรวจสอบแล้วกดส่งใหม่'
+                          : submission.nextRetryAt && ` — จะลองใหม่เวลา ${format(new Date(submission.nextRetryAt), 'HH:mm')}`}
+                      </span>
+                    </div>
+                  )}
+
+                  <div className="space-y-1.5">
+                    {photos.map(photo => (
+                      <div key={photo.id} className="text-[11px]">
+                        <div className="flex justify-between gap-2 text-slate-500">
+                          <span className="font-mono truncate">
+                            {photo.original && <span className="font-sans text-slate-400">ต้นฉบับ · </span>}
+                            {photo.filename}
+                          </span>
+                          <span className="shrink-0">
+                            {photo.status === 'uploading' ? `${Math.round(photo.progress * 100)}%` : PENDING_STATUS_LABELS[photo.status].label}
+                          </span>
+                        </div>
+                        <div className="h-1 bg-slate-100 rounded-full overflow-hidden mt-0.5">
+                          <div
+                            className={cn("h-full transition-all", photo.status === 'failed' ? "bg-red-400" : photo.status === 'uploaded' ? "bg-emerald-500" : photo.status === 'skipped' ? "bg-slate-300" : "bg-violet-500")}
+                            style={{ width: `${photo.status === 'uploaded' || photo.status === 'skipped' ? 100 : Math.round(photo.progress * 100)}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex gap-2 pt-1">
+                    <Button
+                      onClick={() => handleRetry(submission)}
+                      disabled={!online || retrying !== null || submission.status === 'uploading'}
+                      className="flex-1 py-2 text-xs"
+                    >
+                      {retrying === submission.id ? <Loader2 className="animate-spin w-4 h-4" /> : <RefreshCw size={14} />}
+                      ส่งใหม่
+                    </Button>
+                    <Button
+                      variant="danger"
+                      onClick={() => handleDelete(submission)}
+                      disabled={retrying === submission.id || submission.status === 'uploading'}
+                      className="py-2 text-xs"
+                    >
+                      <Trash2 size={14} /> ลบ
+                    </Button>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 export default function App() {
-  const [user, setUser] = useState<string | null>(localStorage.getItem('ssvi_user'));
-  const [view, setView] = useState<'selection' | 'inspection' | 'dashboard' | 'success'>('selection');
-  const [selectedSub, setSelectedSub] = useState<typeof SUBSTATIONS[0] | null>(null);
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [view, setView] = useState<'selection' | 'inspection' | 'dashboard' | 'substations' | 'battery' | 'healthTrend' | 'defects' | 'pending' | 'success'>('selection');
+  const [trendSubstation, setTrendSubstation] = useState('');
+  const [selectedSub, setSelectedSub] = useState<Substation | null>(null);
+  const [substations, setSubstations] = useState<Substation[]>(SUBSTATIONS);
+  const [categories, setCategories] = useState<InspectionCategory[]>(DEFAULT_INSPECTION_CATEGORIES);
   const [isLineBrowser, setIsLineBrowser] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
 
   useEffect(() => {
     const ua = navigator.userAgent.toLowerCase();
@@ -3139,13 +4851,66 @@ export default function App() {
     }
   }, []);
 
-  const handleLogin = (id: string) => {
-    localStorage.setItem('ssvi_user', id);
-    setUser(id);
+  // Restore the signed-in employee from the server session cookie
+  useEffect(() => {
+    fetch('/api/me')
+      .then(res => res.ok ? res.json() : null)
+      .then(data => setUser(data?.employeeId ? data : null))
+      .catch(err => console.error("Failed to restore session:", err))
+      .finally(() => setSessionChecked(true));
+  }, []);
+
+  const handleLogin = (signedIn: CurrentUser) => {
+    setUser(signedIn);
   };
 
+  const can = (permission: string) => !!user?.permissions?.includes(permission);
+
+  // The registry lives in the database; the bundled list is only a fallback when the API is unreachable
+  const loadSubstations = () => {
+    fetch('/api/substations')
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(data => {
+        if (Array.isArray(data) && data.length > 0) setSubstations(data);
+      })
+      .catch(err => console.warn("Using bundled substation list:", err));
+  };
+
+  const loadCategories = () => {
+    fetch('/api/inspection-categories')
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(data => {
+        if (Array.isArray(data) && data.length > 0) setCategories(data);
+      })
+      .catch(err => console.warn("Using bundled inspection categories:", err));
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    loadSubstations();
+    loadCategories();
+  }, [user?.employeeId]);
+
+  // Queued uploads need the session cookie, so the runner only starts once someone is signed in
+  useEffect(() => {
+    if (!user) return;
+    const refreshCount = () => {
+      listSubmissions()
+        .then(rows => setPendingCount(rows.filter(row => row.status !== 'done' && row.employeeId === user.employeeId).length))
+        .catch(err => console.warn("Failed to read upload queue:", err));
+    };
+    startQueueRunner(user.employeeId);
+    refreshCount();
+    const unsubscribe = subscribeQueue(refreshCount);
+    return () => {
+      unsubscribe();
+      pauseQueueRunner();
+    };
+  }, [user?.employeeId]);
+
   const handleLogout = () => {
-    localStorage.removeItem('ssvi_user');
+    fetch('/api/auth/logout', { method: 'POST' })
+      .catch(err => console.error("Logout failed:", err));
     setUser(null);
     setView('selection');
   };
@@ -3205,6 +4970,14 @@ export default function App() {
     );
   }
 
+  if (!sessionChecked) {
+    return (
+      <div className="min-h-screen bg-violet-50 flex items-center justify-center">
+        <Loader2 className="animate-spin text-violet-600" size={40} />
+      </div>
+    );
+  }
+
   if (!user) return <LoginPage onLogin={handleLogin} />;
 
   return (
@@ -3213,6 +4986,7 @@ export default function App() {
         {view === 'selection' && (
           <motion.div key="selection" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
             <SelectionPage 
+              substations={substations}
               onSelect={(sub) => {
                 setSelectedSub(sub);
                 setView('inspection');
@@ -3220,7 +4994,7 @@ export default function App() {
               onLogout={handleLogout}
             />
             {/* Floating Dashboard Button */}
-            {user === '081810' && (
+            {can('dashboard:read') && (
               <button 
                 onClick={() => setView('dashboard')}
                 className="fixed bottom-6 right-6 w-14 h-14 bg-slate-900 text-white rounded-full shadow-xl flex items-center justify-center hover:scale-110 active:scale-95 transition-all z-50"
@@ -3228,6 +5002,18 @@ export default function App() {
                 <LayoutDashboard size={24} />
               </button>
             )}
+            {/* Floating Pending Uploads Button */}
+            {pendingCount > 0 && (
+              <button
+                onClick={() => setView('pending')}
+                className="fixed bottom-6 left-6 w-14 h-14 bg-amber-500 text-white rounded-full shadow-xl flex items-center justify-center hover:scale-110 active:scale-95 transition-all z-50"
+              >
+                <Upload size={24} />
+                <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 bg-red-600 rounded-full text-[10px] font-bold flex items-center justify-center border-2 border-white">
+                  {pendingCount}
+                </span>
+              </button>
+            )}
           </motion.div>
         )}
 
@@ -3235,16 +5021,68 @@ export default function App() {
           <motion.div key="inspection" initial={{ x: '100%' }} animate={{ x: 0 }} exit={{ x: '100%' }} transition={{ type: 'spring', damping: 25, stiffness: 200 }}>
             <InspectionPage 
               substation={selectedSub} 
-              employeeId={user}
+              employeeId={user.employeeId}
+              categories={categories}
+              keepOriginals={user.keepOriginals || []}
               onBack={() => setView('selection')}
               onComplete={() => setView('success')}
+              onQueued={() => setView('pending')}
             />
           </motion.div>
         )}
 
-        {view === 'dashboard' && user === '081810' && (
+        {view === 'pending' && (
+          <motion.div key="pending" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+            <PendingUploadsPage onBack={() => setView('selection')} />
+          </motion.div>
+        )}
+
+        {view === 'dashboard' && can('dashboard:read') && (
           <motion.div key="dashboard" initial={{ y: '100%' }} animate={{ y: 0 }} exit={{ y: '100%' }} transition={{ type: 'spring', damping: 25, stiffness: 200 }}>
-            <DashboardPage onBack={() => setView('selection')} />
+            <DashboardPage
+              substations={substations}
+              categories={categories}
+              onBack={() => setView('selection')}
+              onManageSubstations={() => setView('substations')}
+              onBatteryTrend={() => setView('battery')}
+              onHealthTrend={(name) => {
+                setTrendSubstation(name);
+                setView('healthTrend');
+              }}
+              onDefects={() => setView('defects')}
+              permissions={user.permissions}
+            />
+          </motion.div>
+        )}
+
+        {view === 'battery' && can('dashboard:read') && (
+          <motion.div key="battery" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+            <BatteryTrendPage substations={substations} onBack={() => setView('dashboard')} />
+          </motion.div>
+        )}
+
+        {view === 'healthTrend' && can('dashboard:read') && (
+          <motion.div key="healthTrend" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+            <HealthTrendPage substations={substations} categories={categories} initialSubstation={trendSubstation} onBack={() => setView('dashboard')} />
+          </motion.div>
+        )}
+
+        {view === 'defects' && can('dashboard:read') && (
+          <motion.div key="defects" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+            <DefectsPage categories={categories} onBack={() => setView('dashboard')} canManage={can('defects:manage')} />
+          </motion.div>
+        )}
+
+        {view === 'substations' && can('substations:manage') && (
+          <motion.div key="substations" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
+            <SubstationAdminPage
+              categories={categories}
+              onBack={() => {
+                loadSubstations();
+                loadCategories();
+                setView('dashboard');
+              }}
+            />
           </motion.div>
         )}
 
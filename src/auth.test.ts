@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  LOGIN_LOCKOUT_MS, LoginFailures, MAX_LOGIN_FAILURES, SESSION_TTL_MS, getPermissions, hashPin, loginLockRemainingMs,
+  recordLoginFailure, signSession, verifyPin, verifySession
+} from './auth';
+
+const secret = 'test-session-secret';
+const now = Date.parse('2026-03-03T08:00:00Z');
+
+describe('signSession / verifySession', () => {
+  it('round-trips the employee until the session ends', () => {
+    const token = signSession('510001', secret, now);
+    expect(verifySession(token, secret, now)).toEqual({ sub: '510001', exp: now + SESSION_TTL_MS });
+    expect(verifySession(token, secret, now + SESSION_TTL_MS)).toEqual({ sub: '510001', exp: now + SESSION_TTL_MS });
+    expect(verifySession(token, secret, now + SESSION_TTL_MS + 1)).toBeNull();
+  });
+
+  it('rejects a token signed with another secret', () => {
+    expect(verifySession(signSession('510001', 'other-secret', now), secret, now)).toBeNull();
+  });
+
+  it('rejects a payload changed after signing', () => {
+    const [, signature] = signSession('510001', secret, now).split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: '999999', exp: now + SESSION_TTL_MS })).toString('base64url');
+    expect(verifySession(`${forged}.${signature}`, secret, now)).toBeNull();
+  });
+
+  it('rejects malformed tokens', () => {
+    const [payload] = signSession('510001', secret, now).split('.');
+    expect(verifySession('', secret, now)).toBeNull();
+    expect(verifySession(payload, secret, now)).toBeNull();
+    expect(verifySession(`${payload}.`, secret, now)).toBeNull();
+    expect(verifySession(`${payload}.not-a-signature`, secret, now)).toBeNull();
+  });
+
+  it('rejects a correctly signed payload without an employee or a numeric expiry', () => {
+    const signed = (body: string) => {
+      const payload = Buffer.from(body).toString('base64url');
+      return `${payload}.${crypto.createHmac('sha256', secret).update(payload).digest('base64url')}`;
+    };
+    expect(verifySession(signed('{}'), secret, now)).toBeNull();
+    expect(verifySession(signed(JSON.stringify({ exp: now + 1000 })), secret, now)).toBeNull();
+    expect(verifySession(signed(JSON.stringify({ sub: '510001', exp: String(now + 1000) })), secret, now)).toBeNull();
+    expect(verifySession(signed('not json'), secret, now)).toBeNull();
+  });
+});
+
+describe('hashPin / verifyPin', () => {
+  it('accepts the PIN it hashed and nothing else', () => {
+    const stored = hashPin('1234');
+    expect(verifyPin('1234', stored)).toBe(true);
+    expect(verifyPin('4321', stored)).toBe(false);
+  });
+
+  it('salts each hash', () => {
+    expect(hashPin('1234')).not.toBe(hashPin('1234'));
+  });
+
+  it('rejects a stored hash it cannot read', () => {
+    expect(verifyPin('1234', '')).toBe(false);
+    expect(verifyPin('1234', 'no-separator')).toBe(false);
+  });
+});
+
+describe('login lockout', () => {
+  it(`locks an employee out on the ${MAX_LOGIN_FAILURES}th wrong PIN in a row`, () => {
+    const failures: LoginFailures = new Map();
+    for (let i = 1; i < MAX_LOGIN_FAILURES; i++) {
+      expect(recordLoginFailure(failures, '510001', now)).toBe(false);
+      expect(loginLockRemainingMs(failures, '510001', now)).toBe(0);
+    }
+    expect(recordLoginFailure(failures, '510001', now)).toBe(true);
+    expect(loginLockRemainingMs(failures, '510001', now)).toBe(LOGIN_LOCKOUT_MS);
+    expect(loginLockRemainingMs(failures, '510001', now + 60_000)).toBe(LOGIN_LOCKOUT_MS - 60_000);
+    expect(loginLockRemainingMs(failures, '510002', now)).toBe(0);
+  });
+
+  it('lets the employee try again once the lockout has passed, with a fresh count', () => {
+    const failures: LoginFailures = new Map();
+    for (let i = 0; i < MAX_LOGIN_FAILURES; i++) recordLoginFailure(failures, '510001', now);
+    const later = now + LOGIN_LOCKOUT_MS;
+    expect(loginLockRemainingMs(failures, '510001', later)).toBe(0);
+    expect(recordLoginFailure(failures, '510001', later)).toBe(false);
+    expect(loginLockRemainingMs(failures, '510001', later)).toBe(0);
+  });
+});
+
+describe('getPermissions', () => {
+  it('gives each role its own permissions and those of the roles below it', () => {
+    expect(getPermissions('inspector')).toEqual(['inspection:submit', 'history:read']);
+    expect(getPermissions('supervisor')).toEqual(expect.arrayContaining(['inspection:submit', 'dashboard:read', 'defects:manage']));
+    expect(getPermissions('supervisor')).not.toContain('analysis:force');
+    expect(getPermissions('regional_admin')).toEqual(expect.arrayContaining(['analysis:run', 'analysis:force', 'audit:write']));
+    expect(getPermissions('regional_admin')).not.toContain('employees:manage');
+    expect(getPermissions('system_admin')).toEqual(expect.arrayContaining(['history:read', 'analysis:force', 'employees:manage']));
+  });
+
+  it('gives an unknown role nothing', () => {
+    expect(getPermissions('guest')).toEqual([]);
+    expect(getPermissions('')).toEqual([]);
+  });
+});
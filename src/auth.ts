@@ -0,0 +1,80 @@
+// Employee sign-in: PIN hashes, signed session tokens, the lockout after repeated wrong PINs and the
+// role-based permissions. Server-only (node crypto); the server supplies the secret and the clock.
+import crypto from 'crypto';
+
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // One working shift
+export const MAX_LOGIN_FAILURES = 5;
+export const LOGIN_LOCKOUT_MS = 5 * 60 * 1000;
+
+// Role-based permissions. Each role includes everything granted to the roles above it.
+export const ROLES = ['inspector', 'supervisor', 'regional_admin', 'system_admin'] as const;
+export type Role = typeof ROLES[number];
+
+const ROLE_PERMISSIONS: Record<Role, string[]> = {
+  inspector: ['inspection:submit', 'history:read'],
+  supervisor: ['dashboard:read', 'analysis:run', 'defects:manage'],
+  regional_admin: ['audit:write', 'analysis:force', 'substations:manage'],
+  system_admin: ['employees:manage', 'drive:configure', 'system:debug']
+};
+
+export function getPermissions(role: string): string[] {
+  const index = ROLES.indexOf(role as Role);
+  if (index === -1) return [];
+  return ROLES.slice(0, index + 1).flatMap(r => ROLE_PERMISSIONS[r]);
+}
+
+export function hashPin(pin: string) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(pin, salt, 64).toString('hex');
+  return `${salt}:${hash}`;
+}
+
+export function verifyPin(pin: string, stored: string) {
+  const [salt, hash] = (stored || '').split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const candidate = crypto.scryptSync(pin, salt, expected.length);
+  return crypto.timingSafeEqual(candidate, expected);
+}
+
+// "<payload>.<signature>", both base64url; the payload names the employee and when the session ends
+export function signSession(employeeId: string, secret: string, now = Date.now()) {
+  const payload = Buffer.from(JSON.stringify({ sub: employeeId, exp: now + SESSION_TTL_MS })).toString('base64url');
+  const signature = crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+  return `${payload}.${signature}`;
+}
+
+export function verifySession(token: string, secret: string, now = Date.now()): { sub: string; exp: number } | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = crypto.createHmac('sha256', secret).update(payload).digest();
+  const given = Buffer.from(signature, 'base64url');
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (!session.sub || typeof session.exp !== 'number' || session.exp < now) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+// Wrong PINs per employee. The MAX_LOGIN_FAILURES-th in a row locks the account for LOGIN_LOCKOUT_MS and
+// starts the count again; a successful sign-in clears it.
+export type LoginFailures = Map<string, { count: number; lockedUntil: number }>;
+
+// Milliseconds until the employee may try again, 0 when not locked
+export function loginLockRemainingMs(failures: LoginFailures, employeeId: string, now = Date.now()) {
+  const failure = failures.get(employeeId);
+  return failure && failure.lockedUntil > now ? failure.lockedUntil - now : 0;
+}
+
+// Counts a wrong PIN; true when it locked the account
+export function recordLoginFailure(failures: LoginFailures, employeeId: string, now = Date.now()) {
+  const count = (failures.get(employeeId)?.count || 0) + 1;
+  const locked = count >= MAX_LOGIN_FAILURES;
+  failures.set(employeeId, { count: locked ? 0 : count, lockedUntil: locked ? now + LOGIN_LOCKOUT_MS : 0 });
+  return locked;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BatteryCellReading, DEFAULT_BATTERY_THRESHOLDS, assessBatteryReadings, batteryReadingsScore, isBatteryValueOutOfLimit
+} from './batteryReadings';
+
+const cell = (cellNo: number, reading: Partial<BatteryCellReading> = {}): BatteryCellReading => ({
+  bank: '1', cell: cellNo, float_voltage: 2.23, specific_gravity: 1.22, temperature_c: 28, ...reading
+});
+
+const summarize = (readings: BatteryCellReading[], previous: BatteryCellReading[] = []) =>
+  assessBatteryReadings(readings, previous).map(a => `${a.cell}:${a.metric}:${a.kind}`);
+
+describe('assessBatteryReadings', () => {
+  it('raises nothing for healthy, steady cells', () => {
+    expect(summarize([cell(1), cell(2), cell(3)], [cell(1), cell(2), cell(3)])).toEqual([]);
+  });
+
+  it('flags readings past the absolute limits', () => {
+    expect(summarize([
+      cell(1, { float_voltage: 2.34 }),
+      cell(2, { specific_gravity: 1.19 }),
+      cell(3, { temperature_c: 36 }),
+    ])).toEqual(['1:float_voltage:limit', '1:float_voltage:spread', '2:specific_gravity:limit', '3:temperature_c:limit']);
+  });
+
+  it('accepts readings exactly on a limit', () => {
+    expect(summarize([cell(1, { float_voltage: 2.13, specific_gravity: 1.25, temperature_c: 35 })])).toEqual([]);
+  });
+
+  it("flags drift from the cell's previous reading", () => {
+    const alerts = assessBatteryReadings(
+      [cell(1, { float_voltage: 2.29 }), cell(2, { specific_gravity: 1.245 })],
+      [cell(1, { float_voltage: 2.23 }), cell(2, { specific_gravity: 1.22 })]
+    );
+    expect(alerts.map(a => [a.cell, a.metric, a.kind, a.previous])).toEqual([
+      [1, 'float_voltage', 'drift', 2.23],
+      [2, 'specific_gravity', 'drift', 1.22],
+    ]);
+  });
+
+  it("doesn't count floating-point noise at the drift threshold", () => {
+    expect(summarize([cell(1, { float_voltage: 2.28 })], [cell(1, { float_voltage: 2.23 })])).toEqual([]);
+  });
+
+  it('flags a cell straying from its bank mean, judging each bank on its own', () => {
+    const alerts = assessBatteryReadings([
+      cell(1, { float_voltage: 2.2 }), cell(2, { float_voltage: 2.2 }), cell(3, { float_voltage: 2.2 }), cell(4, { float_voltage: 2.3 }),
+      cell(1, { bank: '2', float_voltage: 2.3 }),
+    ], []);
+    expect(alerts.map(a => [a.bank, a.cell, a.kind, a.previous])).toEqual([['1', 4, 'spread', 2.225]]);
+  });
+
+  it('skips readings left blank', () => {
+    expect(summarize([cell(1, { float_voltage: null, specific_gravity: null, temperature_c: null })], [cell(1)])).toEqual([]);
+  });
+
+  it('names the bank and cell in the message', () => {
+    expect(assessBatteryReadings([cell(7, { temperature_c: 40 })], [])[0].message).toBe('ชุดที่ 1 เซลล์ 7: อุณหภูมิ 40 °C เกิน 35 °C');
+  });
+});
+
+describe('isBatteryValueOutOfLimit', () => {
+  it('judges each metric against its own limits', () => {
+    expect(isBatteryValueOutOfLimit('float_voltage', 2.4, DEFAULT_BATTERY_THRESHOLDS)).toBe(true);
+    expect(isBatteryValueOutOfLimit('specific_gravity', 1.22, DEFAULT_BATTERY_THRESHOLDS)).toBe(false);
+    expect(isBatteryValueOutOfLimit('temperature_c', 36, DEFAULT_BATTERY_THRESHOLDS)).toBe(true);
+    expect(isBatteryValueOutOfLimit('float_voltage', null, DEFAULT_BATTERY_THRESHOLDS)).toBe(false);
+    expect(isBatteryValueOutOfLimit('float_voltage', NaN, DEFAULT_BATTERY_THRESHOLDS)).toBe(false);
+  });
+});
+
+describe('batteryReadingsScore', () => {
+  it('scores 0 for a limit breach, 50 for drift or spread alone and 100 otherwise', () => {
+    expect(batteryReadingsScore([{ kind: 'drift' }, { kind: 'limit' }])).toBe(0);
+    expect(batteryReadingsScore([{ kind: 'drift' }, { kind: 'spread' }])).toBe(50);
+    expect(batteryReadingsScore([])).toBe(100);
+  });
+});
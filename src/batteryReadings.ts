@@ -0,0 +1,120 @@
+// Per-cell battery measurements entered on the inspection page. Shared by the client (highlighting while
+// typing) and the server (alerts and the battery score), so both judge a reading the same way.
+
+export interface BatteryCellReading {
+  bank: string;
+  cell: number;
+  float_voltage: number | null;
+  specific_gravity: number | null;
+  temperature_c: number | null;
+}
+
+export interface BatteryThresholds {
+  min_float_voltage: number;
+  max_float_voltage: number;
+  min_specific_gravity: number;
+  max_specific_gravity: number;
+  max_temperature_c: number;
+  // Drift: change since the cell's previous reading
+  max_voltage_drift: number;
+  max_sg_drift: number;
+  // Spread: distance from the mean float voltage of the cell's bank in the same inspection
+  max_bank_deviation: number;
+}
+
+// Flooded lead-acid cells on float charge. Stations can override these through /api/battery-thresholds.
+export const DEFAULT_BATTERY_THRESHOLDS: BatteryThresholds = {
+  min_float_voltage: 2.13,
+  max_float_voltage: 2.33,
+  min_specific_gravity: 1.2,
+  max_specific_gravity: 1.25,
+  max_temperature_c: 35,
+  max_voltage_drift: 0.05,
+  max_sg_drift: 0.02,
+  max_bank_deviation: 0.05
+};
+
+export type BatteryAlertKind = 'limit' | 'drift' | 'spread';
+
+export interface BatteryAlert {
+  bank: string;
+  cell: number;
+  metric: 'float_voltage' | 'specific_gravity' | 'temperature_c';
+  kind: BatteryAlertKind;
+  value: number;
+  previous: number | null;
+  message: string;
+}
+
+const round = (n: number, digits = 3) => Number(n.toFixed(digits));
+
+// Readings outside the absolute limits, drifting from the cell's previous reading, or straying from the bank mean
+export function assessBatteryReadings(
+  readings: BatteryCellReading[],
+  previous: BatteryCellReading[],
+  thresholds: BatteryThresholds = DEFAULT_BATTERY_THRESHOLDS
+): BatteryAlert[] {
+  const alerts: BatteryAlert[] = [];
+  const push = (r: BatteryCellReading, metric: BatteryAlert['metric'], kind: BatteryAlertKind, value: number, prev: number | null, message: string) => {
+    alerts.push({ bank: r.bank, cell: r.cell, metric, kind, value, previous: prev, message: `ชุดที่ ${r.bank} เซลล์ ${r.cell}: ${message}` });
+  };
+  const previousByCell = new Map(previous.map(p => [`${p.bank}#${p.cell}`, p]));
+
+  const bankMeans = new Map<string, number>();
+  for (const bank of new Set(readings.map(r => r.bank))) {
+    const voltages = readings.filter(r => r.bank === bank && r.float_voltage !== null).map(r => r.float_voltage as number);
+    if (voltages.length >= 2) bankMeans.set(bank, voltages.reduce((a, b) => a + b, 0) / voltages.length);
+  }
+
+  for (const r of readings) {
+    const prev = previousByCell.get(`${r.bank}#${r.cell}`);
+
+    if (r.float_voltage !== null) {
+      if (r.float_voltage < thresholds.min_float_voltage || r.float_voltage > thresholds.max_float_voltage) {
+        push(r, 'float_voltage', 'limit', r.float_voltage, null,
+          `แรงดัน ${r.float_voltage} V นอกเกณฑ์ ${thresholds.min_float_voltage}–${thresholds.max_float_voltage} V`);
+      }
+      const mean = bankMeans.get(r.bank);
+      if (mean !== undefined && round(Math.abs(r.float_voltage - mean)) > thresholds.max_bank_deviation) {
+        push(r, 'float_voltage', 'spread', r.float_voltage, round(mean),
+          `แรงดันต่างจากค่าเฉลี่ยของชุด (${round(mean)} V) เกิน ${thresholds.max_bank_deviation} V`);
+      }
+      if (prev?.float_voltage != null && round(Math.abs(r.float_voltage - prev.float_voltage)) > thresholds.max_voltage_drift) {
+        push(r, 'float_voltage', 'drift', r.float_voltage, prev.float_voltage,
+          `แรงดันเปลี่ยนจาก ${prev.float_voltage} V เป็น ${r.float_voltage} V`);
+      }
+    }
+
+    if (r.specific_gravity !== null) {
+      if (r.specific_gravity < thresholds.min_specific_gravity || r.specific_gravity > thresholds.max_specific_gravity) {
+        push(r, 'specific_gravity', 'limit', r.specific_gravity, null,
+          `SG ${r.specific_gravity} นอกเกณฑ์ ${thresholds.min_specific_gravity}–${thresholds.max_specific_gravity}`);
+      }
+      if (prev?.specific_gravity != null && round(Math.abs(r.specific_gravity - prev.specific_gravity)) > thresholds.max_sg_drift) {
+        push(r, 'specific_gravity', 'drift', r.specific_gravity, prev.specific_gravity,
+          `SG เปลี่ยนจาก ${prev.specific_gravity} เป็น ${r.specific_gravity}`);
+      }
+    }
+
+    if (r.temperature_c !== null && r.temperature_c > thresholds.max_temperature_c) {
+      push(r, 'temperature_c', 'limit', r.temperature_c, null, `อุณหภูมิ ${r.temperature_c} °C เกิน ${thresholds.max_temperature_c} °C`);
+    }
+  }
+  return alerts;
+}
+
+// The value of a reading is off its absolute limit (used to colour inputs while typing)
+export function isBatteryValueOutOfLimit(metric: BatteryAlert['metric'], value: number | null, thresholds: BatteryThresholds) {
+  if (value === null || !Number.isFinite(value)) return false;
+  if (metric === 'float_voltage') return value < thresholds.min_float_voltage || value > thresholds.max_float_voltage;
+  if (metric === 'specific_gravity') return value < thresholds.min_specific_gravity || value > thresholds.max_specific_gravity;
+  return value > thresholds.max_temperature_c;
+}
+
+// Battery score from readings, on the same 0/50/100 scale as the image verdict:
+// a cell past an absolute limit is 0, drift or spread alone is 50
+export function batteryReadingsScore(alerts: Pick<BatteryAlert, 'kind'>[]) {
+  if (alerts.some(a => a.kind === 'limit')) return 0;
+  if (alerts.length > 0) return 50;
+  return 100;
+}
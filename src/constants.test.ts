@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_INSPECTION_SCHEDULE, InspectionSchedule, computeScheduleState, missingScheduledCategories, resolveInspectionSchedule,
+  schedulePeriod
+} from './constants';
+
+// Wednesday 18 March 2026, 10:00 in Bangkok
+const now = new Date('2026-03-18T03:00:00Z');
+const schedule = (overrides: Partial<InspectionSchedule> = {}): InspectionSchedule => ({
+  substation_name: 'สถานีไฟฟ้าทดสอบ', category: 'battery', frequency: 'monthly', grace_days: 0, exempt: false, ...overrides
+});
+
+describe('schedulePeriod', () => {
+  it('follows the Bangkok calendar', () => {
+    const iso = (p: { start: Date; end: Date }) => [p.start.toISOString(), p.end.toISOString()];
+    expect(iso(schedulePeriod('weekly', now))).toEqual(['2026-03-15T17:00:00.000Z', '2026-03-22T17:00:00.000Z']);
+    expect(iso(schedulePeriod('monthly', now))).toEqual(['2026-02-28T17:00:00.000Z', '2026-03-31T17:00:00.000Z']);
+    expect(iso(schedulePeriod('quarterly', now))).toEqual(['2025-12-31T17:00:00.000Z', '2026-03-31T17:00:00.000Z']);
+    // 00:30 on 1 March in Bangkok is still February in UTC
+    expect(iso(schedulePeriod('monthly', new Date('2026-02-28T17:30:00Z')))[0]).toBe('2026-02-28T17:00:00.000Z');
+  });
+});
+
+describe('computeScheduleState', () => {
+  it('is done once the current period is covered, due again by the end of the next one', () => {
+    expect(computeScheduleState(schedule(), '2026-03-05T02:00:00Z', now)).toEqual({
+      category: 'battery', frequency: 'monthly', status: 'done', lastInspectedAt: '2026-03-05T02:00:00Z', dueDate: '2026-04-30T17:00:00.000Z'
+    });
+    expect(computeScheduleState(schedule({ frequency: 'weekly' }), '2026-03-16T01:00:00Z', now))
+      .toMatchObject({ status: 'done', dueDate: '2026-03-29T17:00:00.000Z' });
+  });
+
+  it('is due by the end of this period when the previous one was covered', () => {
+    expect(computeScheduleState(schedule(), '2026-02-10T02:00:00Z', now))
+      .toMatchObject({ status: 'due', dueDate: '2026-03-31T17:00:00.000Z' });
+    expect(computeScheduleState(schedule({ frequency: 'quarterly' }), '2025-12-20T02:00:00Z', now))
+      .toMatchObject({ status: 'due', dueDate: '2026-03-31T17:00:00.000Z' });
+  });
+
+  it('is overdue once a missed period runs out of grace', () => {
+    expect(computeScheduleState(schedule(), null, now)).toMatchObject({ status: 'overdue', dueDate: '2026-02-28T17:00:00.000Z' });
+    expect(computeScheduleState(schedule(), '2026-01-20T02:00:00Z', now)).toMatchObject({ status: 'overdue' });
+  });
+
+  it('stays due within the grace days after a missed period', () => {
+    expect(computeScheduleState(schedule({ grace_days: 30 }), null, now))
+      .toMatchObject({ status: 'due', dueDate: '2026-03-30T17:00:00.000Z' });
+    expect(computeScheduleState(schedule({ grace_days: 10 }), null, now)).toMatchObject({ status: 'overdue' });
+  });
+
+  it('counts an inspection late on the last Bangkok day toward that month', () => {
+    const firstOfMarch = new Date('2026-02-28T17:30:00Z');
+    expect(computeScheduleState(schedule(), '2026-02-28T16:00:00Z', firstOfMarch)).toMatchObject({ status: 'due' });
+  });
+
+  it('is never due for an exempt category', () => {
+    expect(computeScheduleState(schedule({ exempt: true }), null, now)).toMatchObject({ status: 'exempt', dueDate: null });
+  });
+});
+
+describe('resolveInspectionSchedule', () => {
+  const schedules = [
+    ...DEFAULT_INSPECTION_SCHEDULE,
+    schedule({ frequency: 'weekly', grace_days: 2 }),
+    schedule({ substation_name: 'สถานีไฟฟ้าชั่วคราว', category: '*', exempt: true }),
+    schedule({ substation_name: 'สถานีไฟฟ้าชั่วคราว', category: 'yard' }),
+  ];
+
+  it("lays a station's own rows over the defaults", () => {
+    expect(resolveInspectionSchedule(schedules, 'สถานีไฟฟ้าทดสอบ').map(s => [s.substation_name, s.category, s.frequency, s.exempt])).toEqual([
+      ['สถานีไฟฟ้าทดสอบ', 'fence', 'monthly', false],
+      ['สถานีไฟฟ้าทดสอบ', 'battery', 'weekly', false],
+      ['สถานีไฟฟ้าทดสอบ', 'checklist', 'monthly', false],
+    ]);
+  });
+
+  it('exempts every category of a station exempted as a whole', () => {
+    const resolved = resolveInspectionSchedule(schedules, 'สถานีไฟฟ้าชั่วคราว');
+    expect(resolved.map(s => s.category)).toEqual(['fence', 'battery', 'checklist', 'yard']);
+    expect(resolved.every(s => s.exempt)).toBe(true);
+  });
+});
+
+describe('missingScheduledCategories', () => {
+  const resolved = resolveInspectionSchedule(
+    [...DEFAULT_INSPECTION_SCHEDULE, schedule({ category: 'checklist', exempt: true })], 'สถานีไฟฟ้าทดสอบ'
+  );
+
+  it('lists the categories not covered in the month, skipping exempt ones', () => {
+    const inspections = [
+      { timestamp: '2026-03-05T02:00:00Z', categories: ['fence'] },
+      { timestamp: '2026-02-27T02:00:00Z', categories: ['battery'] },
+    ];
+    expect(missingScheduledCategories(resolved, inspections, 3, 2026, now)).toEqual(['battery']);
+  });
+
+  it('has a future month start out with everything pending', () => {
+    expect(missingScheduledCategories(resolved, [], 4, 2026, now)).toEqual(['fence', 'battery']);
+  });
+});
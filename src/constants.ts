@@ -5,94 +5,112 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export const SUBSTATIONS = [
-  { id: "tha-sai-1", name: "สถานีไฟฟ้าท่าทราย 1", lat: 13.5502008590445, lng: 100.2331791670860 },
-  { id: "bang-pla", name: "สถานีไฟฟ้าบางปลา", lat: 13.5867410094842, lng: 100.2474295010980 },
-  { id: "samut-sakhon-2", name: "สถานีไฟฟ้าสมุทรสาคร 2", lat: 13.5410898206380, lng: 100.2301316622620 },
-  { id: "tha-sai-2", name: "สถานีไฟฟ้าท่าทราย 2 (ชั่วคราว)", lat: 13.5594937842840, lng: 100.2296575078180 },
-  { id: "samut-sakhon-16", name: "สถานีไฟฟ้าสมุทรสาคร 16", lat: 13.54533360040040, lng: 100.2112418855430 },
-  { id: "samut-sakhon-16-temp", name: "สถานีไฟฟ้าสมุทรสาคร 16 (ชั่วคราว)", lat: 13.5456241, lng: 100.2098699 },
-  { id: "krathum-baen-2", name: "สถานีไฟฟ้ากระทุ่มแบน 2", lat: 13.6263381932192, lng: 100.3112976990820 },
-  { id: "krathum-baen-1", name: "สถานีไฟฟ้ากระทุ่มแบน 1", lat: 13.6445459138474, lng: 100.2972780417040 },
-  { id: "samut-sakhon-10", name: "สถานีไฟฟ้าสมุทรสาคร 10", lat: 13.6254634, lng: 100.2776945 },
-  { id: "krathum-baen-6", name: "สถานีไฟฟ้ากระทุ่มแบน 6", lat: 13.6334364868495, lng: 100.3226183328920 },
-  { id: "krathum-baen-6-temp", name: "สถานีไฟฟ้ากระทุ่มแบน 6 (ชั่วคราว)", lat: 13.7184839, lng: 100.229482 },
-  { id: "samut-sakhon-10-temp", name: "สถานีไฟฟ้าสมุทรสาคร 10 (ชั่วคราว)", lat: 13.6122744, lng: 100.2879348 },
-  { id: "samut-sakhon-7", name: "สถานีไฟฟ้าสมุทรสาคร 7", lat: 13.5830586535748, lng: 100.2919760558030 },
-  { id: "samut-sakhon-1", name: "สถานีไฟฟ้าสมุทรสาคร 1", lat: 13.5930632217333, lng: 100.2825585588700 },
-  { id: "samut-sakhon-9", name: "สถานีไฟฟ้าสมุทรสาคร 9", lat: 13.6243333, lng: 100.3413611 },
-  { id: "samut-sakhon-12-temp", name: "สถานีไฟฟ้าสมุทรสาคร 12 (ชั่วคราว)", lat: 13.6020833, lng: 100.3607222 },
-  { id: "samut-sakhon-17-temp", name: "สถานีไฟฟ้าสมุทรสาคร 17 (ชั่วคราว)", lat: 13.56442, lng: 100.2582947 },
-  { id: "samut-sakhon-3", name: "สถานีไฟฟ้าสมุทรสาคร 3", lat: 13.5968297915659, lng: 100.3323575908130 },
-  { id: "sala-ya", name: "สถานีไฟฟ้าศาลายา", lat: 13.8086166713977, lng: 100.3224606158160 },
-  { id: "phutthamonthon-2", name: "สถานีไฟฟ้าพุทธมณฑล 2", lat: 13.8028965515010, lng: 100.3024277958970 },
-  { id: "phutthamonthon-3", name: "สถานีไฟฟ้าพุทธมณฑล 3", lat: 13.8735490043498, lng: 100.2932140507940 },
-  { id: "u-thong-1", name: "สถานีไฟฟ้าอู่ทอง 1", lat: 14.3421253709352, lng: 99.8614367503615 },
-  { id: "song-phi-nong-1", name: "สถานีไฟฟ้าสองพี่น้อง 1", lat: 14.1771111, lng: 100.0633611 },
-  { id: "song-phi-nong-2", name: "สถานีไฟฟ้าสองพี่น้อง 2", lat: 14.1715278, lng: 99.96 },
-  { id: "u-thong-2-temp", name: "สถานีไฟฟ้าอู่ทอง 2 (ชั่วคราว)", lat: 14.4551164, lng: 99.9229395 },
-  { id: "suphan-buri-1", name: "สถานีไฟฟ้าสุพรรณบุรี 1", lat: 14.4913333, lng: 100.1308056 },
-  { id: "bang-pla-ma", name: "สถานีไฟฟ้าบางปลาม้า", lat: 14.3371667, lng: 100.1978889 },
-  { id: "suphan-buri-2", name: "สถานีไฟฟ้าสุพรรณบุรี 2", lat: 14.4514907, lng: 100.0978788 },
-  { id: "dan-chang", name: "สถานีไฟฟ้าด่านช้าง", lat: 14.8476944, lng: 99.7874444 },
-  { id: "lao-khwan", name: "สถานีไฟฟ้าเลาขวัญ", lat: 14.7028333, lng: 99.7740833 },
-  { id: "doem-bang", name: "สถานีไฟฟ้าเดิมบางนางบวช", lat: 14.8041667, lng: 100.1248611 },
-  { id: "bang-len-1", name: "สถานีไฟฟ้าบางเลน 1", lat: 14.0389722, lng: 100.1682222 },
-  { id: "don-tum", name: "สถานีไฟฟ้าดอนตูม", lat: 13.9782778, lng: 100.09175 },
-  { id: "kamphaeng-saen", name: "สถานีไฟฟ้ากำแพงแสน", lat: 13.9878333, lng: 99.9947778 },
-  { id: "bang-len-3-temp", name: "สถานีไฟฟ้าบางเลน 3 (ชั่วคราว)", lat: 14.0100287, lng: 100.2312487 },
-  { id: "nakhon-chai-si-1", name: "สถานีไฟฟ้านครชัยศรี 1", lat: 13.7498333, lng: 100.188 },
-  { id: "nakhon-chai-si-2", name: "สถานีไฟฟ้านครชัยศรี 2", lat: 13.8651111, lng: 100.2075278 },
-  { id: "sam-phran-3", name: "สถานีไฟฟ้าสามพราน 3", lat: 13.7817778, lng: 100.2374722 },
-  { id: "don-chedi", name: "สถานีไฟฟ้าดอนเจดีย์", lat: 14.6011389, lng: 99.99225 },
-  { id: "sam-chuk", name: "สถานีไฟฟ้าสามชุก", lat: 14.689573, lng: 100.108611 },
-  { id: "si-prachan-temp", name: "สถานีไฟฟ้าศรีประจันต์ (ชั่วคราว)", lat: 14.6170833, lng: 100.14075 },
-  { id: "samut-sakhon-5", name: "สถานีไฟฟ้าสมุทรสาคร 5", lat: 13.5086944, lng: 100.1327778 },
-  { id: "ban-phaeo", name: "สถานีไฟฟ้าบ้านแพ้ว", lat: 13.5661111, lng: 100.1166389 },
-  { id: "ban-phaeo-2", name: "สถานีไฟฟ้าบ้านแพ้ว 2", lat: 13.6434625, lng: 100.0899844 },
-  { id: "samut-sakhon-4", name: "สถานีไฟฟ้าสมุทรสาคร 4", lat: 13.515, lng: 100.225 },
-  { id: "samut-sakhon-11", name: "สถานีไฟฟ้าสมุทรสาคร 11", lat: 13.575, lng: 100.285 },
-  { id: "samut-sakhon-15", name: "สถานีไฟฟ้าสมุทรสาคร 15", lat: 13.595, lng: 100.305 },
-  { id: "ekkachai-2", name: "สถานีไฟฟ้าเอกชัย 2", lat: 13.585, lng: 100.325 },
-  { id: "ekkachai-1", name: "สถานีไฟฟ้าเอกชัย 1", lat: 13.575, lng: 100.315 },
-  { id: "sin-sakhon", name: "สถานีไฟฟ้าสินสาคร", lat: 13.545, lng: 100.345 },
-  { id: "samut-sakhon-6", name: "สถานีไฟฟ้าสมุทรสาคร 6", lat: 13.535, lng: 100.245 },
-  { id: "samut-sakhon-8-temp", name: "สถานีไฟฟ้าสมุทรสาคร 8 (ชั่วคราว)", lat: 13.555, lng: 100.265 },
-  { id: "om-noi-2", name: "สถานีไฟฟ้าอ้อมน้อย 2", lat: 13.705, lng: 100.315 },
-  { id: "krathum-baen-4", name: "สถานีไฟฟ้ากระทุ่มแบน 4", lat: 13.675, lng: 100.275 },
-  { id: "krathum-baen-5", name: "สถานีไฟฟ้ากระทุ่มแบน 5", lat: 13.685, lng: 100.285 },
-  { id: "om-noi-5", name: "สถานีไฟฟ้าอ้อมน้อย 5", lat: 13.715, lng: 100.325 },
-  { id: "sam-phran-1", name: "สถานีไฟฟ้าสามพราน 1", lat: 13.705, lng: 100.225 },
-  { id: "om-noi-4", name: "สถานีไฟฟ้าอ้อมน้อย 4", lat: 13.725, lng: 100.335 },
-  { id: "om-yai-2", name: "สถานีไฟฟ้าอ้อมใหญ่ 2", lat: 13.715, lng: 100.285 },
-  { id: "om-noi-1", name: "สถานีไฟฟ้าอ้อมน้อย 1", lat: 13.695, lng: 100.305 },
-  { id: "om-noi-3", name: "สถานีไฟฟ้าอ้อมน้อย 3", lat: 13.715, lng: 100.315 },
-  { id: "om-noi-1-temp", name: "สถานีไฟฟ้าอ้อมน้อย 1 (ชั่วคราว)", lat: 13.698, lng: 100.308 },
-  { id: "om-yai-1", name: "สถานีไฟฟ้าอ้อมใหญ่ 1", lat: 13.705, lng: 100.275 },
-  { id: "om-yai-3", name: "สถานีไฟฟ้าอ้อมใหญ่ 3", lat: 13.725, lng: 100.295 },
-  { id: "om-yai-4", name: "สถานีไฟฟ้าอ้อมใหญ่ 4", lat: 13.735, lng: 100.305 },
-  { id: "sam-phran-4", name: "สถานีไฟฟ้าสามพราน 4", lat: 13.735, lng: 100.235 },
-  { id: "sam-phran-2", name: "สถานีไฟฟ้าสามพราน 2", lat: 13.715, lng: 100.215 },
-  { id: "nakhon-pathom-1", name: "สถานีไฟฟ้านครปฐม 1", lat: 13.815, lng: 100.045 },
-  { id: "nakhon-pathom-2", name: "สถานีไฟฟ้านครปฐม 2", lat: 13.825, lng: 100.055 },
-  { id: "nakhon-pathom-3", name: "สถานีไฟฟ้านครปฐม 3", lat: 13.835, lng: 100.065 },
-  { id: "nakhon-pathom-4-temp", name: "สถานีไฟฟ้านครปฐม 4 (ชั่วคราว)", lat: 13.845, lng: 100.075 },
-  { id: "tha-maka-1", name: "สถานีไฟฟ้าท่ามะกา 1", lat: 13.915, lng: 99.765 },
-  { id: "tha-maka-2", name: "สถานีไฟฟ้าท่ามะกา 2", lat: 13.925, lng: 99.775 },
-  { id: "ban-pong-1", name: "สถานีไฟฟ้าบ้านโป่ง 1", lat: 13.815, lng: 99.875 },
-  { id: "tha-muang-2", name: "สถานีไฟฟ้าท่าม่วง 2", lat: 13.823, lng: 99.635 },
-  { id: "tha-muang-1", name: "สถานีไฟฟ้าท่าม่วง 1", lat: 13.975, lng: 99.628 },
-  { id: "dan-makham-tia", name: "สถานีไฟฟ้าด่านมะขามเตี้ย", lat: 13.855, lng: 99.415 },
-  { id: "sai-yok", name: "สถานีไฟฟ้าไทรโยค", lat: 14.115, lng: 99.145 },
-  { id: "kanchanaburi-4-temp", name: "สถานีไฟฟ้ากาญจนบุรี 4 (ชั่วคราว)", lat: 13.888, lng: 99.182 },
-  { id: "kanchanaburi-1", name: "สถานีไฟฟ้ากาญจนบุรี 1", lat: 14.015, lng: 99.525 },
-  { id: "phanom-thuan", name: "สถานีไฟฟ้าพนมทวน", lat: 14.119, lng: 99.682 },
-  { id: "kanchanaburi-3", name: "สถานีไฟฟ้ากาญจนบุรี 3", lat: 14.035, lng: 99.545 },
-  { id: "kanchanaburi-2", name: "สถานีไฟฟ้ากาญจนบุรี 2", lat: 14.025, lng: 99.535 },
-  { id: "bo-phloi", name: "สถานีไฟฟ้าบ่อพลอย", lat: 14.325, lng: 99.515 },
-  { id: "bo-phloi-2-temp", name: "สถานีไฟฟ้าบ่อพลอย 2 (ชั่วคราว)", lat: 14.335, lng: 99.525 },
+export interface Substation {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  area: string | null;
+  voltage_class?: string | null;
+  is_temporary?: boolean;
+  active_from?: string | null;
+  active_until?: string | null;
+  geofence_radius_m?: number;
+}
+
+// Seed data for the substations table. The app reads the registry from /api/substations and only
+// falls back to this list when the API is unreachable.
+export const SUBSTATIONS: Substation[] = [
+  { id: "tha-sai-1", name: "สถานีไฟฟ้าท่าทราย 1", lat: 13.5502008590445, lng: 100.2331791670860, area: "สมุทรสาคร" },
+  { id: "bang-pla", name: "สถานีไฟฟ้าบางปลา", lat: 13.5867410094842, lng: 100.2474295010980, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-2", name: "สถานีไฟฟ้าสมุทรสาคร 2", lat: 13.5410898206380, lng: 100.2301316622620, area: "สมุทรสาคร" },
+  { id: "tha-sai-2", name: "สถานีไฟฟ้าท่าทราย 2 (ชั่วคราว)", lat: 13.5594937842840, lng: 100.2296575078180, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-16", name: "สถานีไฟฟ้าสมุทรสาคร 16", lat: 13.54533360040040, lng: 100.2112418855430, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-16-temp", name: "สถานีไฟฟ้าสมุทรสาคร 16 (ชั่วคราว)", lat: 13.5456241, lng: 100.2098699, area: "สมุทรสาคร" },
+  { id: "krathum-baen-2", name: "สถานีไฟฟ้ากระทุ่มแบน 2", lat: 13.6263381932192, lng: 100.3112976990820, area: "สมุทรสาคร" },
+  { id: "krathum-baen-1", name: "สถานีไฟฟ้ากระทุ่มแบน 1", lat: 13.6445459138474, lng: 100.2972780417040, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-10", name: "สถานีไฟฟ้าสมุทรสาคร 10", lat: 13.6254634, lng: 100.2776945, area: "สมุทรสาคร" },
+  { id: "krathum-baen-6", name: "สถานีไฟฟ้ากระทุ่มแบน 6", lat: 13.6334364868495, lng: 100.3226183328920, area: "สมุทรสาคร" },
+  { id: "krathum-baen-6-temp", name: "สถานีไฟฟ้ากระทุ่มแบน 6 (ชั่วคราว)", lat: 13.7184839, lng: 100.229482, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-10-temp", name: "สถานีไฟฟ้าสมุทรสาคร 10 (ชั่วคราว)", lat: 13.6122744, lng: 100.2879348, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-7", name: "สถานีไฟฟ้าสมุทรสาคร 7", lat: 13.5830586535748, lng: 100.2919760558030, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-1", name: "สถานีไฟฟ้าสมุทรสาคร 1", lat: 13.5930632217333, lng: 100.2825585588700, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-9", name: "สถานีไฟฟ้าสมุทรสาคร 9", lat: 13.6243333, lng: 100.3413611, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-12-temp", name: "สถานีไฟฟ้าสมุทรสาคร 12 (ชั่วคราว)", lat: 13.6020833, lng: 100.3607222, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-17-temp", name: "สถานีไฟฟ้าสมุทรสาคร 17 (ชั่วคราว)", lat: 13.56442, lng: 100.2582947, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-3", name: "สถานีไฟฟ้าสมุทรสาคร 3", lat: 13.5968297915659, lng: 100.3323575908130, area: "สมุทรสาคร" },
+  { id: "sala-ya", name: "สถานีไฟฟ้าศาลายา", lat: 13.8086166713977, lng: 100.3224606158160, area: "นครปฐม" },
+  { id: "phutthamonthon-2", name: "สถานีไฟฟ้าพุทธมณฑล 2", lat: 13.8028965515010, lng: 100.3024277958970, area: "นครปฐม" },
+  { id: "phutthamonthon-3", name: "สถานีไฟฟ้าพุทธมณฑล 3", lat: 13.8735490043498, lng: 100.2932140507940, area: "นครปฐม" },
+  { id: "u-thong-1", name: "สถานีไฟฟ้าอู่ทอง 1", lat: 14.3421253709352, lng: 99.8614367503615, area: "สุพรรณบุรี" },
+  { id: "song-phi-nong-1", name: "สถานีไฟฟ้าสองพี่น้อง 1", lat: 14.1771111, lng: 100.0633611, area: "สุพรรณบุรี" },
+  { id: "song-phi-nong-2", name: "สถานีไฟฟ้าสองพี่น้อง 2", lat: 14.1715278, lng: 99.96, area: "สุพรรณบุรี" },
+  { id: "u-thong-2-temp", name: "สถานีไฟฟ้าอู่ทอง 2 (ชั่วคราว)", lat: 14.4551164, lng: 99.9229395, area: "สุพรรณบุรี" },
+  { id: "suphan-buri-1", name: "สถานีไฟฟ้าสุพรรณบุรี 1", lat: 14.4913333, lng: 100.1308056, area: "สุพรรณบุรี" },
+  { id: "bang-pla-ma", name: "สถานีไฟฟ้าบางปลาม้า", lat: 14.3371667, lng: 100.1978889, area: "สุพรรณบุรี" },
+  { id: "suphan-buri-2", name: "สถานีไฟฟ้าสุพรรณบุรี 2", lat: 14.4514907, lng: 100.0978788, area: "สุพรรณบุรี" },
+  { id: "dan-chang", name: "สถานีไฟฟ้าด่านช้าง", lat: 14.8476944, lng: 99.7874444, area: "สุพรรณบุรี" },
+  { id: "lao-khwan", name: "สถานีไฟฟ้าเลาขวัญ", lat: 14.7028333, lng: 99.7740833, area: "สุพรรณบุรี" },
+  { id: "doem-bang", name: "สถานีไฟฟ้าเดิมบางนางบวช", lat: 14.8041667, lng: 100.1248611, area: "สุพรรณบุรี" },
+  { id: "bang-len-1", name: "สถานีไฟฟ้าบางเลน 1", lat: 14.0389722, lng: 100.1682222, area: "นครปฐม" },
+  { id: "don-tum", name: "สถานีไฟฟ้าดอนตูม", lat: 13.9782778, lng: 100.09175, area: "นครปฐม" },
+  { id: "kamphaeng-saen", name: "สถานีไฟฟ้ากำแพงแสน", lat: 13.9878333, lng: 99.9947778, area: "นครปฐม" },
+  { id: "bang-len-3-temp", name: "สถานีไฟฟ้าบางเลน 3 (ชั่วคราว)", lat: 14.0100287, lng: 100.2312487, area: "นครปฐม" },
+  { id: "nakhon-chai-si-1", name: "สถานีไฟฟ้านครชัยศรี 1", lat: 13.7498333, lng: 100.188, area: "นครปฐม" },
+  { id: "nakhon-chai-si-2", name: "สถานีไฟฟ้านครชัยศรี 2", lat: 13.8651111, lng: 100.2075278, area: "นครปฐม" },
+  { id: "sam-phran-3", name: "สถานีไฟฟ้าสามพราน 3", lat: 13.7817778, lng: 100.2374722, area: "นครปฐม" },
+  { id: "don-chedi", name: "สถานีไฟฟ้าดอนเจดีย์", lat: 14.6011389, lng: 99.99225, area: "สุพรรณบุรี" },
+  { id: "sam-chuk", name: "สถานีไฟฟ้าสามชุก", lat: 14.689573, lng: 100.108611, area: "สุพรรณบุรี" },
+  { id: "si-prachan-temp", name: "สถานีไฟฟ้าศรีประจันต์ (ชั่วคราว)", lat: 14.6170833, lng: 100.14075, area: "สุพรรณบุรี" },
+  { id: "samut-sakhon-5", name: "สถานีไฟฟ้าสมุทรสาคร 5", lat: 13.5086944, lng: 100.1327778, area: "สมุทรสาคร" },
+  { id: "ban-phaeo", name: "สถานีไฟฟ้าบ้านแพ้ว", lat: 13.5661111, lng: 100.1166389, area: "สมุทรสาคร" },
+  { id: "ban-phaeo-2", name: "สถานีไฟฟ้าบ้านแพ้ว 2", lat: 13.6434625, lng: 100.0899844, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-4", name: "สถานีไฟฟ้าสมุทรสาคร 4", lat: 13.515, lng: 100.225, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-11", name: "สถานีไฟฟ้าสมุทรสาคร 11", lat: 13.575, lng: 100.285, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-15", name: "สถานีไฟฟ้าสมุทรสาคร 15", lat: 13.595, lng: 100.305, area: "สมุทรสาคร" },
+  { id: "ekkachai-2", name: "สถานีไฟฟ้าเอกชัย 2", lat: 13.585, lng: 100.325, area: "สมุทรสาคร" },
+  { id: "ekkachai-1", name: "สถานีไฟฟ้าเอกชัย 1", lat: 13.575, lng: 100.315, area: "สมุทรสาคร" },
+  { id: "sin-sakhon", name: "สถานีไฟฟ้าสินสาคร", lat: 13.545, lng: 100.345, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-6", name: "สถานีไฟฟ้าสมุทรสาคร 6", lat: 13.535, lng: 100.245, area: "สมุทรสาคร" },
+  { id: "samut-sakhon-8-temp", name: "สถานีไฟฟ้าสมุทรสาคร 8 (ชั่วคราว)", lat: 13.555, lng: 100.265, area: "สมุทรสาคร" },
+  { id: "om-noi-2", name: "สถานีไฟฟ้าอ้อมน้อย 2", lat: 13.705, lng: 100.315, area: "สมุทรสาคร" },
+  { id: "krathum-baen-4", name: "สถานีไฟฟ้ากระทุ่มแบน 4", lat: 13.675, lng: 100.275, area: "สมุทรสาคร" },
+  { id: "krathum-baen-5", name: "สถานีไฟฟ้ากระทุ่มแบน 5", lat: 13.685, lng: 100.285, area: "สมุทรสาคร" },
+  { id: "om-noi-5", name: "สถานีไฟฟ้าอ้อมน้อย 5", lat: 13.715, lng: 100.325, area: "สมุทรสาคร" },
+  { id: "sam-phran-1", name: "สถานีไฟฟ้าสามพราน 1", lat: 13.705, lng: 100.225, area: "นครปฐม" },
+  { id: "om-noi-4", name: "สถานีไฟฟ้าอ้อมน้อย 4", lat: 13.725, lng: 100.335, area: "สมุทรสาคร" },
+  { id: "om-yai-2", name: "สถานีไฟฟ้าอ้อมใหญ่ 2", lat: 13.715, lng: 100.285, area: "นครปฐม" },
+  { id: "om-noi-1", name: "สถานีไฟฟ้าอ้อมน้อย 1", lat: 13.695, lng: 100.305, area: "สมุทรสาคร" },
+  { id: "om-noi-3", name: "สถานีไฟฟ้าอ้อมน้อย 3", lat: 13.715, lng: 100.315, area: "สมุทรสาคร" },
+  { id: "om-noi-1-temp", name: "สถานีไฟฟ้าอ้อมน้อย 1 (ชั่วคราว)", lat: 13.698, lng: 100.308, area: "สมุทรสาคร" },
+  { id: "om-yai-1", name: "สถานีไฟฟ้าอ้อมใหญ่ 1", lat: 13.705, lng: 100.275, area: "นครปฐม" },
+  { id: "om-yai-3", name: "สถานีไฟฟ้าอ้อมใหญ่ 3", lat: 13.725, lng: 100.295, area: "นครปฐม" },
+  { id: "om-yai-4", name: "สถานีไฟฟ้าอ้อมใหญ่ 4", lat: 13.735, lng: 100.305, area: "นครปฐม" },
+  { id: "sam-phran-4", name: "สถานีไฟฟ้าสามพราน 4", lat: 13.735, lng: 100.235, area: "นครปฐม" },
+  { id: "sam-phran-2", name: "สถานีไฟฟ้าสามพราน 2", lat: 13.715, lng: 100.215, area: "นครปฐม" },
+  { id: "nakhon-pathom-1", name: "สถานีไฟฟ้านครปฐม 1", lat: 13.815, lng: 100.045, area: "นครปฐม" },
+  { id: "nakhon-pathom-2", name: "สถานีไฟฟ้านครปฐม 2", lat: 13.825, lng: 100.055, area: "นครปฐม" },
+  { id: "nakhon-pathom-3", name: "สถานีไฟฟ้านครปฐม 3", lat: 13.835, lng: 100.065, area: "นครปฐม" },
+  { id: "nakhon-pathom-4-temp", name: "สถานีไฟฟ้านครปฐม 4 (ชั่วคราว)", lat: 13.845, lng: 100.075, area: "นครปฐม" },
+  { id: "tha-maka-1", name: "สถานีไฟฟ้าท่ามะกา 1", lat: 13.915, lng: 99.765, area: "กาญจนบุรี" },
+  { id: "tha-maka-2", name: "สถานีไฟฟ้าท่ามะกา 2", lat: 13.925, lng: 99.775, area: "กาญจนบุรี" },
+  { id: "ban-pong-1", name: "สถานีไฟฟ้าบ้านโป่ง 1", lat: 13.815, lng: 99.875, area: "กาญจนบุรี" },
+  { id: "tha-muang-2", name: "สถานีไฟฟ้าท่าม่วง 2", lat: 13.823, lng: 99.635, area: "กาญจนบุรี" },
+  { id: "tha-muang-1", name: "สถานีไฟฟ้าท่าม่วง 1", lat: 13.975, lng: 99.628, area: "กาญจนบุรี" },
+  { id: "dan-makham-tia", name: "สถานีไฟฟ้าด่านมะขามเตี้ย", lat: 13.855, lng: 99.415, area: "กาญจนบุรี" },
+  { id: "sai-yok", name: "สถานีไฟฟ้าไทรโยค", lat: 14.115, lng: 99.145, area: "กาญจนบุรี" },
+  { id: "kanchanaburi-4-temp", name: "สถานีไฟฟ้ากาญจนบุรี 4 (ชั่วคราว)", lat: 13.888, lng: 99.182, area: "กาญจนบุรี" },
+  { id: "kanchanaburi-1", name: "สถานีไฟฟ้ากาญจนบุรี 1", lat: 14.015, lng: 99.525, area: "กาญจนบุรี" },
+  { id: "phanom-thuan", name: "สถานีไฟฟ้าพนมทวน", lat: 14.119, lng: 99.682, area: "กาญจนบุรี" },
+  { id: "kanchanaburi-3", name: "สถานีไฟฟ้ากาญจนบุรี 3", lat: 14.035, lng: 99.545, area: "กาญจนบุรี" },
+  { id: "kanchanaburi-2", name: "สถานีไฟฟ้ากาญจนบุรี 2", lat: 14.025, lng: 99.535, area: "กาญจนบุรี" },
+  { id: "bo-phloi", name: "สถานีไฟฟ้าบ่อพลอย", lat: 14.325, lng: 99.515, area: "กาญจนบุรี" },
+  { id: "bo-phloi-2-temp", name: "สถานีไฟฟ้าบ่อพลอย 2 (ชั่วคราว)", lat: 14.335, lng: 99.525, area: "กาญจนบุรี" },
 ];
 
+// Inspection teams. Employees belong to one area; supervisors may own several.
+export const AREAS = ["สมุทรสาคร", "นครปฐม", "สุพรรณบุรี", "กาญจนบุรี"];
+
 export interface InspectionLog {
   id: number;
   employee_id: string;
@@ -103,4 +121,373 @@ export interface InspectionLog {
   folder_id: string;
   status: string;
   categories?: string[];
+  within_geofence?: boolean | null;
+  distance_m?: number | null;
+  gps_accuracy_m?: number | null;
+  out_of_territory?: boolean | null;
+  // Photos whose EXIF checks failed on the server (src/photoAuthenticity.ts)
+  suspect_photos?: number;
+  rejected_photos?: number;
+  // A structured checklist value was out of range
+  checklist_abnormal?: boolean | null;
+  // Battery cells that crossed a limit or drifted (src/batteryReadings.ts)
+  battery_alerts?: number;
+}
+
+// Built on the device at submit time and countersigned by the server (see /api/inspections/:id/verify)
+// Great-circle (haversine) distance in metres
+export function distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number) {
+  const R = 6371000;
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLng = (lng2 - lng1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// The HHmm_DDMMYY part of a submission's photo names (DDMMYY in the Thai year, like the daily folder).
+// Always Bangkok time, so the client that names the files and the server that checks them agree
+// whatever timezone the device is set to.
+export function submissionNameSuffix(date: Date) {
+  const parts = new Intl.DateTimeFormat('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false, timeZone: 'Asia/Bangkok' })
+    .formatToParts(date);
+  const hour = parts.find(p => p.type === 'hour')?.value || '00';
+  const minute = parts.find(p => p.type === 'minute')?.value || '00';
+  const dateStr = new Intl.DateTimeFormat('th-TH', { day: '2-digit', month: '2-digit', year: '2-digit', timeZone: 'Asia/Bangkok' })
+    .format(date).replace(/\//g, '');
+  return `${hour}${minute}_${dateStr}`;
+}
+
+export interface CaptureManifest {
+  version: 1;
+  substationName: string;
+  employeeId: string;
+  deviceTime: string;
+  timezoneOffsetMinutes: number;
+  userAgent: string;
+  gps: { lat: number; lng: number; accuracy: number | null; capturedAt: string | null } | null;
+  photos: {
+    name: string;
+    category: string;
+    originalSha256: string;
+    originalSize: number;
+    originalLastModified: string;
+    sha256: string;
+    size: number;
+    // Verdict from the EXIF checks when the photo was taken (src/photoAuthenticity.ts)
+    authenticity?: { verdict: string; reasons: string[] };
+  }[];
+}
+
+export interface CurrentUser {
+  employeeId: string;
+  name?: string | null;
+  role: 'inspector' | 'supervisor' | 'regional_admin' | 'system_admin';
+  permissions: string[];
+  // Categories whose untouched camera originals this deployment keeps (SSVI_KEEP_ORIGINALS), or ['all']
+  keepOriginals?: string[];
+}
+
+// Whether the camera original of a photo in this category is kept next to the watermarked copy
+export function keepsOriginal(keepOriginals: string[], category: string) {
+  return keepOriginals.includes('all') || keepOriginals.includes(category.toLowerCase());
+}
+
+// Structured checklist filled in on the inspection page. Items are configured per substation type in the
+// checklist_items table (seeded from DEFAULT_CHECKLIST_ITEMS); answers are stored in checklist_answers.
+export type ChecklistInputType = 'number' | 'boolean' | 'text';
+
+export interface ChecklistItem {
+  id: string;
+  category: string;
+  label: string;
+  input_type: ChecklistInputType;
+  unit?: string | null;
+  // Allowed range for number items; either bound may be open
+  min_value?: number | null;
+  max_value?: number | null;
+  required: boolean;
+  // Substation types the item applies to (see substationTypeKeys); empty or null means every station
+  substation_types?: string[] | null;
+  sort_order: number;
+  active?: boolean;
+}
+
+export interface ChecklistAnswer {
+  itemId: string;
+  value: number | boolean | string | null;
+}
+
+export const SUBSTATION_TYPE_LABELS: { [key: string]: string } = {
+  permanent: 'สถานีถาวร',
+  temporary: 'สถานีชั่วคราว (Mobile)'
+};
+
+// A station matches items listed for its permanent/temporary type or for its voltage class (e.g. "115/22kV")
+export function substationTypeKeys(substation: Pick<Substation, 'name' | 'is_temporary' | 'voltage_class'>) {
+  const temporary = substation.is_temporary ?? substation.name.includes('ชั่วคราว');
+  return [temporary ? 'temporary' : 'permanent', ...(substation.voltage_class ? [substation.voltage_class] : [])];
+}
+
+export function checklistItemApplies(item: ChecklistItem, typeKeys: string[]) {
+  return !item.substation_types || item.substation_types.length === 0 || item.substation_types.some(t => typeKeys.includes(t));
+}
+
+// Numbers outside [min, max] and failed pass/fail checks are abnormal; text is never judged
+export function isChecklistValueAbnormal(item: ChecklistItem, value: ChecklistAnswer['value']) {
+  if (value === null || value === undefined || value === '') return false;
+  if (item.input_type === 'boolean') return value === false;
+  if (item.input_type === 'number') {
+    const n = Number(value);
+    if (!Number.isFinite(n)) return true;
+    return (item.min_value != null && n < item.min_value) || (item.max_value != null && n > item.max_value);
+  }
+  return false;
+}
+
+export const DEFAULT_CHECKLIST_ITEMS: ChecklistItem[] = [
+  { id: 'battery-float-voltage', category: 'battery', label: 'แรงดันแบตเตอรี่รวม (Float)', input_type: 'number', unit: 'V', min_value: 120, max_value: 135, required: true, sort_order: 10 },
+  { id: 'battery-cell-voltage-min', category: 'battery', label: 'แรงดันเซลล์ต่ำสุด', input_type: 'number', unit: 'V', min_value: 2.1, max_value: 2.35, required: true, sort_order: 20 },
+  { id: 'battery-pilot-sg', category: 'battery', label: 'ค่าความถ่วงจำเพาะ (SG) เซลล์นำร่อง', input_type: 'number', unit: null, min_value: 1.2, max_value: 1.25, required: true, substation_types: ['permanent'], sort_order: 30 },
+  { id: 'battery-charger-current', category: 'battery', label: 'กระแสชาร์จ (Charger)', input_type: 'number', unit: 'A', min_value: 0, max_value: 20, required: false, sort_order: 40 },
+  { id: 'annunciator-lamp-test', category: 'annunciation', label: 'ทดสอบหลอดแสดงสถานะ (Lamp Test) ผ่าน', input_type: 'boolean', required: true, sort_order: 50 },
+  { id: 'annunciator-horn-test', category: 'annunciation', label: 'ทดสอบเสียงเตือน (Horn) ผ่าน', input_type: 'boolean', required: true, sort_order: 60 },
+  { id: 'grounding-connections', category: 'grounding', label: 'จุดต่อลงดินแน่นหนา ไม่ขาด/ไม่เป็นสนิม', input_type: 'boolean', required: true, sort_order: 70 },
+  { id: 'grounding-resistance', category: 'grounding', label: 'ค่าความต้านทานดิน', input_type: 'number', unit: 'Ω', min_value: 0, max_value: 5, required: false, substation_types: ['permanent'], sort_order: 80 },
+  { id: 'trailer-grounding', category: 'grounding', label: 'สายดินรถ Mobile ต่อครบทุกจุด', input_type: 'boolean', required: true, substation_types: ['temporary'], sort_order: 85 },
+  { id: 'yard-lighting', category: 'lighting', label: 'ไฟส่องสว่างลานไกใช้งานได้ครบ', input_type: 'boolean', required: true, sort_order: 90 },
+  { id: 'emergency-lighting', category: 'lighting', label: 'ไฟฉุกเฉินในอาคารควบคุมใช้งานได้', input_type: 'boolean', required: false, substation_types: ['permanent'], sort_order: 100 },
+  { id: 'checklist-remarks', category: 'checklist', label: 'หมายเหตุเพิ่มเติม', input_type: 'text', required: false, sort_order: 200 },
+];
+
+// Defects opened from Red AI findings: open -> assigned -> fixed (by a photo from the inspection flow) -> verified
+export type DefectStatus = 'open' | 'assigned' | 'fixed' | 'verified';
+export type DefectSeverity = 'high' | 'medium' | 'low';
+
+export interface Defect {
+  id: number;
+  substation_name: string;
+  category: string | null;
+  finding: string;
+  description: string | null;
+  source_file_id: string | null;
+  source_folder_id: string | null;
+  severity: DefectSeverity;
+  status: DefectStatus;
+  assignee_id: string | null;
+  assignee_name?: string | null;
+  due_date: string | null;
+  fixed_file_id: string | null;
+  fixed_by: string | null;
+  fixed_at: string | null;
+  verified_by: string | null;
+  verified_at: string | null;
+  created_at: string;
+}
+
+export type InspectionFrequency = 'weekly' | 'monthly' | 'quarterly';
+
+// One row per station and category; substation_name '*' is the default for every station.
+// A station row with category '*' and exempt set exempts the whole station.
+export interface InspectionSchedule {
+  substation_name: string;
+  category: string;
+  frequency: InspectionFrequency;
+  grace_days: number;
+  exempt: boolean;
+}
+
+export const FREQUENCY_LABELS: { [key in InspectionFrequency]: string } = {
+  weekly: 'รายสัปดาห์',
+  monthly: 'รายเดือน',
+  quarterly: 'รายไตรมาส',
+};
+
+// The categories every station has had to cover each month so far
+export const DEFAULT_INSPECTION_SCHEDULE: InspectionSchedule[] = [
+  { substation_name: '*', category: 'fence', frequency: 'monthly', grace_days: 0, exempt: false },
+  { substation_name: '*', category: 'battery', frequency: 'monthly', grace_days: 0, exempt: false },
+  { substation_name: '*', category: 'checklist', frequency: 'monthly', grace_days: 0, exempt: false },
+];
+
+// The schedule that applies to one station: its own rows over the defaults
+export function resolveInspectionSchedule(schedules: InspectionSchedule[], substationName: string): InspectionSchedule[] {
+  const own = schedules.filter(s => s.substation_name === substationName);
+  const stationExempt = own.some(s => s.category === '*' && s.exempt);
+  const categories = new Set<string>(
+    schedules.filter(s => (s.substation_name === '*' || s.substation_name === substationName) && s.category !== '*').map(s => s.category)
+  );
+  return Array.from(categories).map(category => {
+    const schedule = own.find(s => s.category === category) || schedules.find(s => s.substation_name === '*' && s.category === category)!;
+    return stationExempt ? { ...schedule, substation_name: substationName, exempt: true } : { ...schedule, substation_name: substationName };
+  });
+}
+
+// Periods follow the Bangkok calendar: weeks start on Monday, quarters in January, April, July and October
+const BANGKOK_OFFSET_MS = 7 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function schedulePeriod(frequency: InspectionFrequency, at: Date) {
+  const local = new Date(at.getTime() + BANGKOK_OFFSET_MS);
+  const y = local.getUTCFullYear(), m = local.getUTCMonth(), d = local.getUTCDate();
+  let start: number, end: number;
+  if (frequency === 'weekly') {
+    start = Date.UTC(y, m, d - (local.getUTCDay() + 6) % 7);
+    end = start + 7 * DAY_MS;
+  } else {
+    const months = frequency === 'quarterly' ? 3 : 1;
+    const first = m - m % months;
+    start = Date.UTC(y, first, 1);
+    end = Date.UTC(y, first + months, 1);
+  }
+  return { start: new Date(start - BANGKOK_OFFSET_MS), end: new Date(end - BANGKOK_OFFSET_MS) };
+}
+
+export type ScheduleStatus = 'done' | 'due' | 'overdue' | 'exempt';
+
+export interface ScheduleState {
+  category: string;
+  frequency: InspectionFrequency;
+  status: ScheduleStatus;
+  lastInspectedAt: string | null;
+  // Deadline of the period still to be covered, or of the next one when this one is done
+  dueDate: string | null;
+}
+
+// done: covered in the current period. overdue: the previous period was missed and its grace has run out.
+// due: otherwise; the deadline is the previous period's grace end while that is still open, else this period's end plus grace.
+export function computeScheduleState(schedule: InspectionSchedule, lastInspectedAt: string | null, now: Date = new Date()): ScheduleState {
+  const base = { category: schedule.category, frequency: schedule.frequency, lastInspectedAt };
+  if (schedule.exempt) return { ...base, status: 'exempt', dueDate: null };
+
+  const grace = schedule.grace_days * DAY_MS;
+  const current = schedulePeriod(schedule.frequency, now);
+  const previous = schedulePeriod(schedule.frequency, new Date(current.start.getTime() - 1));
+  const last = lastInspectedAt ? new Date(lastInspectedAt).getTime() : null;
+
+  if (last !== null && last >= current.start.getTime()) {
+    const next = schedulePeriod(schedule.frequency, current.end);
+    return { ...base, status: 'done', dueDate: new Date(next.end.getTime() + grace).toISOString() };
+  }
+  const previousDeadline = current.start.getTime() + grace;
+  const previousMissed = last === null || last < previous.start.getTime();
+  if (previousMissed && now.getTime() > previousDeadline) {
+    return { ...base, status: 'overdue', dueDate: new Date(previousDeadline).toISOString() };
+  }
+  return {
+    ...base,
+    status: 'due',
+    dueDate: new Date(previousMissed ? previousDeadline : current.end.getTime() + grace).toISOString()
+  };
+}
+
+// Scheduled categories a station hasn't covered in every period of a calendar month.
+// Periods that haven't begun yet don't count, except the first, so a future month starts out pending.
+export function missingScheduledCategories(
+  schedule: InspectionSchedule[],
+  inspections: { timestamp: string; categories: string[] }[],
+  month: number,
+  year: number,
+  now: Date = new Date()
+) {
+  const monthStart = new Date(Date.UTC(year, month - 1, 1) - BANGKOK_OFFSET_MS);
+  const monthEnd = new Date(Date.UTC(year, month, 1) - BANGKOK_OFFSET_MS);
+  return schedule.filter(s => !s.exempt).filter(s => {
+    const times = inspections.filter(i => i.categories.includes(s.category)).map(i => new Date(i.timestamp).getTime());
+    for (let period = schedulePeriod(s.frequency, monthStart); period.start < monthEnd && (period.start <= now || period.start <= monthStart); period = schedulePeriod(s.frequency, period.end)) {
+      if (!times.some(t => t >= period.start.getTime() && t < period.end.getTime())) return true;
+    }
+    return false;
+  }).map(s => s.category);
+}
+
+export interface InspectionCategory {
+  // Lowercase letters only: it is the prefix of the photo file names ({key}_{n}_{HHmm}_{DDMMYY}.jpg)
+  key: string;
+  label: string;
+  instructions: string | null;
+  // Always on in the capture UI; the inspector can't switch it off
+  mandatory: boolean;
+  // Share of the health index; 0 when the category isn't scored
+  weight: number;
+  // Column of the inspection sheet that holds the 1/0 flag, or null when the category isn't exported
+  sheet_column: string | null;
+  // Has its own photo point on the inspection page
+  photo_point: boolean;
+  sort_order: number;
+  active?: boolean;
+}
+
+// Sheet columns H–Q follow the order the sheet has always used
+export const DEFAULT_INSPECTION_CATEGORIES: InspectionCategory[] = [
+  {
+    key: 'fence', label: 'รั้วสถานีฯ', mandatory: true, weight: 0.15, sheet_column: 'O', photo_point: true, sort_order: 10,
+    instructions: 'ให้ถ่ายภาพรั้วของสถานีฯ ให้ครบทั้ง 4 ด้าน (ด้านหน้า, ด้านหลัง, ด้านซ้าย และด้านขวา) โดยต้องมีภาพประกอบ อย่างน้อย 4 รูป'
+  },
+  {
+    key: 'battery', label: 'แบตเตอรี่', mandatory: true, weight: 0.25, sheet_column: 'L', photo_point: true, sort_order: 20,
+    instructions: 'ให้ถ่ายภาพรวมและภาพเจาะจง ดังนี้\n• ถ่ายภาพรวม: ให้เห็นชุดแบตเตอรี่ทั้งหมด (1 รูป)\n• ถ่ายภาพเจาะจง: ถ่ายแบตเตอรี่ 1 ลูก ให้เห็นขีดบอกระดับน้ำกลั่น (ระดับสูง-ต่ำ) อย่างชัดเจน (1 รูป)'
+  },
+  {
+    key: 'yard', label: 'ลานไก', mandatory: false, weight: 0.2, sheet_column: 'I', photo_point: true, sort_order: 30,
+    instructions: 'ให้ถ่ายภาพจากหลายๆ มุม (มากกว่า 1 รูป) โดยภาพจะต้องครอบคลุมรายละเอียด ดังนี้:\n• สภาพของอุปกรณ์ต่างๆ ภายในลานไก\n• สภาพพื้นของลานไกในภาพรวมทั้งหมด'
+  },
+  {
+    key: 'roof', label: 'ดาดฟ้า', mandatory: false, weight: 0.15, sheet_column: 'J', photo_point: true, sort_order: 40,
+    instructions: '• กรณีที่ขึ้นได้และปลอดภัย: ให้ถ่ายภาพรวมมุมกว้าง เพื่อให้เห็นสภาพพื้นดาดฟ้าและจุดของท่อระบายน้ำต่างๆ\n• กรณีไม่มีดาดฟ้า ทางขึ้นลำบาก หรือเสี่ยงต่อการพลัดตก: ให้ข้ามและปิดหัวข้อนี้ได้เลย (ไม่ต้องถ่ายภาพ) โดยให้คำนึงถึงความปลอดภัยของผู้ปฏิบัติงานเป็นหลัก'
+  },
+  {
+    key: 'security', label: 'รปภ.', mandatory: false, weight: 0.1, sheet_column: 'N', photo_point: true, sort_order: 50,
+    instructions: '• กรณีที่ สฟ. มี รปภ.: ให้ถ่ายภาพการแต่งกายของ รปภ. ในขณะปฏิบัติหน้าที่ และถ่ายภาพหน้าสมุดบันทึกการเข้า-ออก (สมุดตรวจเยี่ยมที่ป้อม) ของสถานีฯ\n• กรณีที่ สฟ. ไม่มี รปภ.: ให้ข้ามและปิดหัวข้อนี้ได้เลย (ไม่ต้องถ่ายภาพ)'
+  },
+  {
+    key: 'checklist', label: 'Check List', mandatory: true, weight: 0.15, sheet_column: 'Q', photo_point: false, sort_order: 60,
+    instructions: 'ให้จัดหน้ากระดาษให้ตรง และถ่ายภาพให้เห็นข้อความหรือรอยขีดเขียนอย่างชัดเจน เพื่อให้อ่านรายละเอียดข้อมูลได้ครบถ้วน โดยมีรายการที่ต้องถ่ายดังนี้\n• กระดาษ Check List (A4): ถ่ายภาพ ให้ครบทุกหน้า (ถ่ายหน้าละ 1 รูป)\n• สมุดตรวจเยี่ยมและการเข้าปฏิบัติงานสถานีฯ: ถ่ายภาพ หน้าล่าสุด ที่มีการลงบันทึก (1 รูป)'
+  },
+  {
+    key: 'annunciation', label: 'Annunciator', mandatory: false, weight: 0, sheet_column: 'K', photo_point: false, sort_order: 70,
+    instructions: 'ถ่ายภาพแผงแสดงสถานะ (Annunciator) ขณะทดสอบ Lamp Test ให้เห็นหลอดทุกดวง'
+  },
+  {
+    key: 'grounding', label: 'ระบบกราวด์', mandatory: false, weight: 0, sheet_column: 'M', photo_point: false, sort_order: 80,
+    instructions: 'ถ่ายภาพจุดต่อลงดินของอุปกรณ์หลัก ให้เห็นขั้วต่อและสายอย่างชัดเจน'
+  },
+  {
+    key: 'lighting', label: 'ระบบไฟส่องสว่าง', mandatory: false, weight: 0, sheet_column: 'P', photo_point: false, sort_order: 90,
+    instructions: 'ถ่ายภาพโคมไฟส่องสว่างในลานไกและรอบอาคาร ระบุดวงที่ดับหรือชำรุดในบันทึก'
+  },
+  {
+    key: 'building', label: 'อาคารควบคุม', mandatory: false, weight: 0, sheet_column: 'H', photo_point: false, sort_order: 100,
+    instructions: 'ถ่ายภาพภายนอกและภายในอาคารควบคุม ให้เห็นสภาพผนัง ฝ้า และพื้น'
+  },
+];
+
+export function categoryLabel(categories: InspectionCategory[], key: string) {
+  // "After" photos of repaired defects are filed under their own pseudo-category
+  if (key === 'fixed') return 'ภาพหลังแก้ไข';
+  return categories.find(c => c.key === key)?.label || key;
+}
+
+// "A" -> 0, "Q" -> 16, "AA" -> 26
+export function sheetColumnIndex(column: string) {
+  return column.toUpperCase().split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+}
+
+export function sheetColumnLetter(index: number): string {
+  return index < 26 ? String.fromCharCode(65 + index) : sheetColumnLetter(Math.floor(index / 26) - 1) + String.fromCharCode(65 + index % 26);
+}
+
+// Registered categories that have a sheet column, left to right
+export function sheetCategoryColumns(categories: InspectionCategory[]) {
+  return categories
+    .filter(c => c.sheet_column)
+    .map(c => ({ key: c.key, index: sheetColumnIndex(c.sheet_column!) }))
+    .sort((a, b) => a.index - b.index);
+}
+
+// Last column a sheet read needs: the checklist columns or the rightmost category column
+export function lastSheetColumn(categories: InspectionCategory[]) {
+  return sheetColumnLetter(Math.max(sheetColumnIndex('S'), ...sheetCategoryColumns(categories).map(c => c.index)));
 }
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_HEALTH_INDEX_POLICY, HealthIndexPolicy, computeHealthIndex, healthIndexGrade, validateHealthIndexPolicy } from './healthIndex';
+
+const policy = DEFAULT_HEALTH_INDEX_POLICY;
+const scored = (score: number | null) => ({ score, na: false });
+
+describe('computeHealthIndex', () => {
+  it('weights each category score by the policy', () => {
+    const result = computeHealthIndex({
+      battery: scored(100), yard: scored(50), checklist: scored(100), roof: scored(100), fence: scored(0), security: scored(100)
+    }, policy);
+    // 25 + 10 + 15 + 15 + 0 + 10
+    expect(result).toEqual({ score: 75, grade: 'ปานกลาง', naCount: 0 });
+  });
+
+  it('leaves out N/A and unscored categories and re-normalizes the rest', () => {
+    const result = computeHealthIndex({ battery: scored(0), yard: { score: 100, na: true }, fence: scored(100) }, policy);
+    // (0 × 0.25 + 100 × 0.15) / 0.4
+    expect(result).toEqual({ score: 37.5, grade: 'ต้องปรับปรุง', naCount: 4 });
+  });
+
+  it('counts a category without a score as 100', () => {
+    expect(computeHealthIndex({ battery: scored(null), fence: scored(60) }, policy).score).toBe(85);
+  });
+
+  it('ignores categories the policy gives no weight', () => {
+    const custom: HealthIndexPolicy = { ...policy, weights: { battery: 1, yard: 0 } };
+    expect(computeHealthIndex({ battery: scored(80), yard: scored(0) }, custom)).toEqual({ score: 80, grade: 'ดี', naCount: 0 });
+  });
+
+  it('scores 0 when every category is N/A', () => {
+    expect(computeHealthIndex({}, policy)).toEqual({ score: 0, grade: 'ต้องปรับปรุง', naCount: 6 });
+  });
+
+  it('rounds to one decimal', () => {
+    expect(computeHealthIndex({ battery: scored(100), yard: scored(0), security: scored(100) }, policy).score).toBe(63.6);
+  });
+});
+
+describe('healthIndexGrade', () => {
+  it('gives the first grade whose minimum the score reaches', () => {
+    expect(healthIndexGrade(100, policy)).toBe('ดีมาก');
+    expect(healthIndexGrade(90, policy)).toBe('ดีมาก');
+    expect(healthIndexGrade(89.9, policy)).toBe('ดี');
+    expect(healthIndexGrade(70, policy)).toBe('ปานกลาง');
+    expect(healthIndexGrade(0, policy)).toBe('ต้องปรับปรุง');
+  });
+});
+
+describe('validateHealthIndexPolicy', () => {
+  it('accepts the default policy', () => {
+    expect(validateHealthIndexPolicy(policy)).toBeNull();
+  });
+
+  it('rejects weights outside 0–1 or all zero', () => {
+    expect(validateHealthIndexPolicy({ ...policy, weights: { battery: 1.5 } })).toBe('น้ำหนักต้องอยู่ระหว่าง 0–1');
+    expect(validateHealthIndexPolicy({ ...policy, weights: { battery: -0.1, yard: 0.5 } })).toBe('น้ำหนักต้องอยู่ระหว่าง 0–1');
+    expect(validateHealthIndexPolicy({ ...policy, weights: { battery: 0, yard: 0 } })).toBe('ต้องมีอย่างน้อยหนึ่งหมวดที่มีน้ำหนักมากกว่า 0');
+  });
+
+  it('rejects grades that are unnamed, out of order or not ending at 0', () => {
+    expect(validateHealthIndexPolicy({ ...policy, grades: [] })).toBe('เกณฑ์เกรดต้องมีชื่อและคะแนนขั้นต่ำ 0–100');
+    expect(validateHealthIndexPolicy({ ...policy, grades: [{ min: 50, label: ' ' }, { min: 0, label: 'ต่ำ' }] }))
+      .toBe('เกณฑ์เกรดต้องมีชื่อและคะแนนขั้นต่ำ 0–100');
+    expect(validateHealthIndexPolicy({ ...policy, grades: [{ min: 50, label: 'ดี' }, { min: 50, label: 'ต่ำ' }, { min: 0, label: 'แย่' }] }))
+      .toBe('เกณฑ์เกรดต้องเรียงจากคะแนนสูงไปต่ำ');
+    expect(validateHealthIndexPolicy({ ...policy, grades: [{ min: 80, label: 'ดี' }, { min: 10, label: 'ต่ำ' }] }))
+      .toBe('เกรดสุดท้ายต้องเริ่มที่ 0');
+  });
+});
@@ -0,0 +1,86 @@
+// Health index scoring policy. Shared by the server (which computes the index and stores it with the
+// policy version) and the dashboard (which previews an audit edit before it is saved).
+
+export interface HealthIndexGrade {
+  min: number;
+  label: string;
+}
+
+export interface HealthIndexPolicy {
+  version: number;
+  // Share of each scored category (health_index_category_scores); N/A categories are left out and the rest re-normalized
+  weights: { [category: string]: number };
+  // Best first; the last one starts at 0
+  grades: HealthIndexGrade[];
+  note?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+// Version 1 is what the dashboard computed before the policy moved server-side; rows scored before then are read with it
+export const DEFAULT_HEALTH_INDEX_POLICY: HealthIndexPolicy = {
+  version: 1,
+  weights: { battery: 0.25, yard: 0.2, checklist: 0.15, roof: 0.15, fence: 0.15, security: 0.1 },
+  grades: [
+    { min: 90, label: 'ดีมาก' },
+    { min: 80, label: 'ดี' },
+    { min: 70, label: 'ปานกลาง' },
+    { min: 0, label: 'ต้องปรับปรุง' }
+  ]
+};
+
+// Where a category score came from: the image verdicts, the battery readings, the checklist answers,
+// a supervisor's audit, or the per-category columns health_index_logs had before the scores table
+export type HealthScoreSource = 'ai' | 'readings' | 'checklist' | 'manual' | 'legacy';
+
+export interface HealthCategoryScore {
+  score: number | null;
+  na: boolean;
+  source?: HealthScoreSource;
+}
+
+// One substation/month's scores by category key
+export type HealthCategoryScores = { [category: string]: HealthCategoryScore };
+
+export interface HealthIndexResult {
+  score: number;
+  grade: string;
+  naCount: number;
+}
+
+export function healthIndexGrade(score: number, policy: HealthIndexPolicy) {
+  return (policy.grades.find(g => score >= g.min) || policy.grades[policy.grades.length - 1]).label;
+}
+
+// A category marked N/A, or one without a score, doesn't count; an empty score counts as 100
+export function computeHealthIndex(scores: HealthCategoryScores, policy: HealthIndexPolicy): HealthIndexResult {
+  let applicableWeight = 0;
+  let weightedScore = 0;
+  let naCount = 0;
+  for (const [key, weight] of Object.entries(policy.weights)) {
+    if (!(weight > 0)) continue;
+    const entry = scores[key];
+    if (!entry || entry.na) {
+      naCount++;
+      continue;
+    }
+    applicableWeight += weight;
+    weightedScore += (entry.score === null || entry.score === undefined ? 100 : Number(entry.score)) * weight;
+  }
+  const score = applicableWeight > 0 ? Math.round((weightedScore / applicableWeight) * 10) / 10 : 0;
+  return { score, grade: healthIndexGrade(score, policy), naCount };
+}
+
+// Problems with a proposed policy, or null when it can be published
+export function validateHealthIndexPolicy(policy: Pick<HealthIndexPolicy, 'weights' | 'grades'>): string | null {
+  const weights = Object.values(policy.weights || {});
+  if (weights.some(w => typeof w !== 'number' || !Number.isFinite(w) || w < 0 || w > 1)) return 'น้ำหนักต้องอยู่ระหว่าง 0–1';
+  if (!weights.some(w => w > 0)) return 'ต้องมีอย่างน้อยหนึ่งหมวดที่มีน้ำหนักมากกว่า 0';
+  const grades = policy.grades || [];
+  if (grades.length === 0 || grades.some(g => !String(g.label || '').trim() || !Number.isFinite(g.min) || g.min < 0 || g.min > 100)) {
+    return 'เกณฑ์เกรดต้องมีชื่อและคะแนนขั้นต่ำ 0–100';
+  }
+  if (grades.some((g, i) => i > 0 && g.min >= grades[i - 1].min)) return 'เกณฑ์เกรดต้องเรียงจากคะแนนสูงไปต่ำ';
+  if (grades[grades.length - 1].min !== 0) return 'เกรดสุดท้ายต้องเริ่มที่ 0';
+  return null;
+}
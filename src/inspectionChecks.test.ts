@@ -0,0 +1,151 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ChecklistItem } from './constants';
+import {
+  DEFAULT_GEOFENCE_RADIUS_M, assessGeofence, describeChecklistAnswer, describeGeofenceFailure, evaluateChecklist, isWithinTerritory
+} from './inspectionChecks';
+import { migrateUp } from './schemaMigrations';
+import { startTestDatabase } from './testDatabase';
+
+const station = { lat: 13.7563, lng: 100.5018, geofence_radius_m: null };
+
+describe('assessGeofence', () => {
+  it('accepts a fix inside the default radius and reports the rounded distance', () => {
+    // 0.001° of latitude is about 111 m
+    const result = assessGeofence(station, 13.7573, 100.5018, 12.5);
+    expect(result).toEqual({ withinGeofence: true, distanceM: 111, accuracyM: 12.5, radiusM: DEFAULT_GEOFENCE_RADIUS_M, missingGps: false });
+  });
+
+  it('rejects a fix beyond the radius', () => {
+    const result = assessGeofence(station, '13.7593', '100.5018', null);
+    expect(result).toMatchObject({ withinGeofence: false, distanceM: 334, accuracyM: null, missingGps: false });
+  });
+
+  it("uses the station's own radius when it has one", () => {
+    expect(assessGeofence({ ...station, geofence_radius_m: 500 }, 13.7593, 100.5018, 5)).toMatchObject({ withinGeofence: true, radiusM: 500 });
+    expect(assessGeofence({ ...station, geofence_radius_m: 100 }, 13.7573, 100.5018, 5)).toMatchObject({ withinGeofence: false, radiusM: 100 });
+  });
+
+  it('treats missing coordinates and the 0/0 of a failed GPS as no fix', () => {
+    for (const [lat, lng] of [[0, 0], ['0', '0'], [undefined, undefined], ['abc', 100.5]]) {
+      expect(assessGeofence(station, lat, lng, 10)).toMatchObject({ withinGeofence: false, distanceM: null, missingGps: true });
+    }
+  });
+
+  it("can't place an unregistered station", () => {
+    expect(assessGeofence(null, 13.7563, 100.5018, 10)).toEqual({
+      withinGeofence: false, distanceM: null, accuracyM: 10, radiusM: DEFAULT_GEOFENCE_RADIUS_M, missingGps: false
+    });
+  });
+
+  it('ignores an accuracy that is not a number', () => {
+    expect(assessGeofence(station, 13.7563, 100.5018, '').accuracyM).toBeNull();
+    expect(assessGeofence(station, 13.7563, 100.5018, 'n/a').accuracyM).toBeNull();
+    expect(assessGeofence(station, 13.7563, 100.5018, '8').accuracyM).toBe(8);
+  });
+});
+
+describe('describeGeofenceFailure', () => {
+  it('explains why the position was not accepted', () => {
+    expect(describeGeofenceFailure({ missingGps: true, distanceM: null, radiusM: 300 })).toContain('GPS');
+    expect(describeGeofenceFailure({ missingGps: false, distanceM: null, radiusM: 300 })).toContain('ไม่พบพิกัดของสถานี');
+    expect(describeGeofenceFailure({ missingGps: false, distanceM: 334, radiusM: 300 })).toBe('ตำแหน่งของคุณอยู่ห่างจากสถานี 334 ม. เกินรัศมีที่กำหนด 300 ม.');
+  });
+});
+
+describe('evaluateChecklist', () => {
+  const items: ChecklistItem[] = [
+    { id: 'oil_temp', category: 'transformer', label: 'อุณหภูมิน้ำมัน', input_type: 'number', unit: '°C', min_value: null, max_value: 85, required: true, sort_order: 1 },
+    { id: 'grounding', category: 'yard', label: 'สายดิน', input_type: 'boolean', required: true, sort_order: 2 },
+    { id: 'note', category: 'general', label: 'หมายเหตุ', input_type: 'text', required: false, sort_order: 3 },
+  ];
+
+  it('coerces each answer to its item type and passes a complete, in-range checklist', () => {
+    const result = evaluateChecklist(items, [
+      { itemId: 'oil_temp', value: '72' },
+      { itemId: 'grounding', value: 'true' },
+      { itemId: 'note', value: '  ปกติ  ' },
+    ]);
+    expect(result.status).toBe('normal');
+    expect(result.missingRequired).toEqual([]);
+    expect(result.rows.map(r => [r.item_id, r.value_number, r.value_bool, r.value_text])).toEqual([
+      ['oil_temp', 72, null, null],
+      ['grounding', null, true, null],
+      ['note', null, null, 'ปกติ'],
+    ]);
+  });
+
+  it('flags out-of-range numbers and failed checks as abnormal', () => {
+    const result = evaluateChecklist(items, [
+      { itemId: 'oil_temp', value: 91 },
+      { itemId: 'grounding', value: false },
+    ]);
+    expect(result.status).toBe('abnormal');
+    expect(result.abnormal.map(r => r.item_id)).toEqual(['oil_temp', 'grounding']);
+  });
+
+  it('reports required items left blank as incomplete', () => {
+    const result = evaluateChecklist(items, [
+      { itemId: 'oil_temp', value: 70 },
+      { itemId: 'grounding', value: '' },
+      { itemId: 'note', value: '   ' },
+    ]);
+    expect(result.status).toBe('incomplete');
+    expect(result.missingRequired).toEqual(['สายดิน']);
+    expect(result.rows).toHaveLength(1);
+  });
+
+  it('prefers abnormal over incomplete', () => {
+    expect(evaluateChecklist(items, [{ itemId: 'oil_temp', value: 120 }]).status).toBe('abnormal');
+  });
+
+  it('drops answers for unknown items and has no status without any answer', () => {
+    expect(evaluateChecklist(items, [{ itemId: 'removed_item', value: 1 }, { value: 2 }])).toMatchObject({ rows: [], status: null });
+    expect(evaluateChecklist(items, undefined).status).toBeNull();
+    expect(evaluateChecklist(items, 'not a list').missingRequired).toEqual(['อุณหภูมิน้ำมัน', 'สายดิน']);
+  });
+});
+
+describe('describeChecklistAnswer', () => {
+  const row = { label: 'อุณหภูมิน้ำมัน', unit: '°C', value_number: null, value_bool: null, value_text: null, min_value: null, max_value: null };
+
+  it('formats each kind of answer with its allowed range', () => {
+    expect(describeChecklistAnswer({ ...row, value_number: 91, max_value: 85 })).toBe('อุณหภูมิน้ำมัน: 91 °C (เกณฑ์ -–85)');
+    expect(describeChecklistAnswer({ ...row, unit: null, value_number: 3 })).toBe('อุณหภูมิน้ำมัน: 3');
+    expect(describeChecklistAnswer({ ...row, label: 'สายดิน', value_bool: false })).toBe('สายดิน: ไม่ผ่าน');
+    expect(describeChecklistAnswer({ ...row, label: 'หมายเหตุ', value_text: 'มีรอยรั่ว' })).toBe('หมายเหตุ: มีรอยรั่ว');
+  });
+});
+
+describe('isWithinTerritory', () => {
+  let database: Awaited<ReturnType<typeof startTestDatabase>>;
+
+  beforeAll(async () => {
+    database = await startTestDatabase();
+    await migrateUp(database.pool);
+    await database.pool.query(
+      `INSERT INTO employees (employee_id, name, pin_hash, role) VALUES
+         ('510001', 'ผู้ตรวจ', 'x:y', 'inspector'),
+         ('510002', 'หัวหน้า', 'x:y', 'supervisor')`
+    );
+    await database.pool.query(
+      `INSERT INTO substation_assignments (employee_id, substation_name) VALUES ('510001', 'สถานีไฟฟ้าทดสอบ')`
+    );
+  });
+
+  afterAll(async () => {
+    await database.stop();
+  });
+
+  it('limits an inspector to their assigned stations', async () => {
+    expect(await isWithinTerritory(database.pool, '510001', 'สถานีไฟฟ้าทดสอบ')).toBe(true);
+    expect(await isWithinTerritory(database.pool, '510001', 'สถานีไฟฟ้าอื่น')).toBe(false);
+  });
+
+  it('lets other roles report on any station', async () => {
+    expect(await isWithinTerritory(database.pool, '510002', 'สถานีไฟฟ้าอื่น')).toBe(true);
+  });
+
+  it('keeps an unknown employee out of every station', async () => {
+    expect(await isWithinTerritory(database.pool, '999999', 'สถานีไฟฟ้าทดสอบ')).toBe(false);
+  });
+});
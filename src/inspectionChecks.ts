@@ -0,0 +1,100 @@
+// The checks a submitted inspection goes through on the server: whether the inspector may report on the
+// station (territory), whether they were at it (geofence) and what their checklist answers say.
+import type { Pool } from 'pg';
+import { ChecklistItem, ChecklistAnswer, isChecklistValueAbnormal, distanceMeters } from './constants';
+
+export const DEFAULT_GEOFENCE_RADIUS_M = 300;
+
+// Assignments only bind inspectors; supervisors and admins may submit for any station.
+// An unknown employee is outside every territory.
+export async function isWithinTerritory(db: Pool, employeeId: string, substationName: string) {
+  const result = await db.query(
+    `SELECT e.role <> 'inspector'
+         OR EXISTS (SELECT 1 FROM substation_assignments a WHERE a.employee_id = e.employee_id AND a.substation_name = $2) AS allowed
+     FROM employees e WHERE e.employee_id = $1`,
+    [employeeId, substationName]
+  );
+  return result.rows[0]?.allowed === true;
+}
+
+export interface GeofenceResult {
+  withinGeofence: boolean;
+  distanceM: number | null;
+  accuracyM: number | null;
+  radiusM: number;
+  missingGps: boolean;
+}
+
+// Compares the submitted position with the station's registered coordinates (null when the station isn't
+// registered). A missing fix (no coordinates, or the 0/0 the client sends when GPS failed) counts as outside.
+export function assessGeofence(
+  station: { lat: number; lng: number; geofence_radius_m?: number | null } | null, lat: any, lng: any, accuracy: any
+): GeofenceResult {
+  const latNum = Number(lat);
+  const lngNum = Number(lng);
+  const accuracyM = Number.isFinite(Number(accuracy)) && accuracy !== null && accuracy !== '' ? Number(accuracy) : null;
+  const hasFix = Number.isFinite(latNum) && Number.isFinite(lngNum) && !(latNum === 0 && lngNum === 0);
+
+  const radiusM = station?.geofence_radius_m || DEFAULT_GEOFENCE_RADIUS_M;
+  if (!hasFix || !station) {
+    return { withinGeofence: false, distanceM: null, accuracyM, radiusM, missingGps: !hasFix };
+  }
+
+  const distanceM = Math.round(distanceMeters(latNum, lngNum, station.lat, station.lng));
+  return { withinGeofence: distanceM <= radiusM, distanceM, accuracyM, radiusM, missingGps: false };
+}
+
+export function describeGeofenceFailure(result: Pick<GeofenceResult, 'distanceM' | 'radiusM' | 'missingGps'>) {
+  if (result.missingGps) return 'ไม่พบพิกัด GPS ของการส่งรายงานนี้ กรุณาเปิด GPS แล้วลองใหม่';
+  if (result.distanceM === null) return 'ไม่พบพิกัดของสถานีนี้ในทะเบียน จึงตรวจสอบตำแหน่งไม่ได้';
+  return `ตำแหน่งของคุณอยู่ห่างจากสถานี ${result.distanceM} ม. เกินรัศมีที่กำหนด ${result.radiusM} ม.`;
+}
+
+// Checks submitted answers against the station's items. Values are coerced to the item's type;
+// answers for unknown items are dropped.
+export function evaluateChecklist(items: ChecklistItem[], answers: any) {
+  const given = new Map<string, any>(
+    (Array.isArray(answers) ? answers : []).filter((a: any) => a?.itemId).map((a: any) => [String(a.itemId), a.value])
+  );
+  const rows = [];
+  const missingRequired: string[] = [];
+  for (const item of items) {
+    let value: ChecklistAnswer['value'] = given.has(item.id) ? given.get(item.id) : null;
+    if (value === '' || value === undefined) value = null;
+    if (value !== null && item.input_type === 'number') value = Number(value);
+    if (value !== null && item.input_type === 'boolean') value = value === true || value === 'true';
+    if (value !== null && item.input_type === 'text') value = String(value).trim() || null;
+
+    if (value === null) {
+      if (item.required) missingRequired.push(item.label);
+      continue;
+    }
+    rows.push({
+      item_id: item.id,
+      category: item.category,
+      label: item.label,
+      unit: item.unit ?? null,
+      value_number: item.input_type === 'number' ? value : null,
+      value_bool: item.input_type === 'boolean' ? value : null,
+      value_text: item.input_type === 'text' ? value : null,
+      min_value: item.min_value ?? null,
+      max_value: item.max_value ?? null,
+      abnormal: isChecklistValueAbnormal(item, value),
+    });
+  }
+
+  const abnormal = rows.filter(r => r.abnormal);
+  // No answers at all means the inspector used the paper form instead
+  const status = rows.length === 0 ? null : abnormal.length > 0 ? 'abnormal' : missingRequired.length > 0 ? 'incomplete' : 'normal';
+  return { rows, abnormal, missingRequired, status };
+}
+
+export function describeChecklistAnswer(row: { label: string; unit: string | null; value_number: any; value_bool: any; value_text: any; min_value: any; max_value: any }) {
+  const value = row.value_number !== null ? `${row.value_number}${row.unit ? ` ${row.unit}` : ''}`
+    : row.value_bool !== null ? (row.value_bool ? 'ผ่าน' : 'ไม่ผ่าน')
+    : row.value_text;
+  const range = row.value_number !== null && (row.min_value !== null || row.max_value !== null)
+    ? ` (เกณฑ์ ${row.min_value ?? '-'}–${row.max_value ?? '-'})`
+    : '';
+  return `${row.label}: ${value}${range}`;
+}
@@ -0,0 +1,315 @@
+// Baseline: the schema initDb used to create on every start. Everything is IF NOT EXISTS so a database
+// that already ran the old initDb adopts it as-is; the ALTERs bring up databases created before those columns.
+import type { Migration } from '../schemaMigrations';
+
+export const migration: Migration = {
+  version: 1,
+  name: 'baseline',
+  up: `
+  CREATE TABLE IF NOT EXISTS inspection_logs (
+    id SERIAL PRIMARY KEY,
+    employee_id TEXT NOT NULL,
+    substation_name TEXT NOT NULL,
+    timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    gps_lat DOUBLE PRECISION,
+    gps_lng DOUBLE PRECISION,
+    folder_id TEXT,
+    status TEXT DEFAULT 'completed'
+  );
+  CREATE TABLE IF NOT EXISTS substation_master_folders (
+    substation_name TEXT PRIMARY KEY,
+    folder_id TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS health_index_logs (
+    substation_name TEXT NOT NULL,
+    month INTEGER NOT NULL,
+    year INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    findings TEXT[],
+    summary TEXT,
+    analyzed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (substation_name, month, year)
+  );
+  CREATE TABLE IF NOT EXISTS employees (
+    employee_id TEXT PRIMARY KEY,
+    name TEXT,
+    pin_hash TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'inspector',
+    area TEXT,
+    active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_login_at TIMESTAMP
+  );
+  CREATE TABLE IF NOT EXISTS substation_assignments (
+    employee_id TEXT NOT NULL REFERENCES employees(employee_id) ON DELETE CASCADE,
+    substation_name TEXT NOT NULL,
+    assigned_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (employee_id, substation_name)
+  );
+  CREATE TABLE IF NOT EXISTS substations (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    lat DOUBLE PRECISION NOT NULL,
+    lng DOUBLE PRECISION NOT NULL,
+    area TEXT,
+    voltage_class TEXT,
+    is_temporary BOOLEAN DEFAULT FALSE,
+    active_from DATE,
+    active_until DATE,
+    geofence_radius_m INTEGER DEFAULT 300,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE IF NOT EXISTS google_credentials (
+    id TEXT PRIMARY KEY DEFAULT 'default',
+    refresh_token_enc TEXT NOT NULL,
+    authorized_by TEXT,
+    authorized_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_refresh_at TIMESTAMP,
+    last_error TEXT,
+    last_error_at TIMESTAMP
+  );
+  CREATE TABLE IF NOT EXISTS area_supervisors (
+    area TEXT NOT NULL,
+    employee_id TEXT NOT NULL REFERENCES employees(employee_id) ON DELETE CASCADE,
+    PRIMARY KEY (area, employee_id)
+  );
+  CREATE TABLE IF NOT EXISTS upload_sessions (
+    folder_id TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    employee_id TEXT,
+    size_bytes BIGINT,
+    upload_url TEXT,
+    status TEXT NOT NULL DEFAULT 'open',
+    bytes_received BIGINT DEFAULT 0,
+    drive_file_id TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (folder_id, file_name)
+  );
+  CREATE TABLE IF NOT EXISTS inspection_photos (
+    id SERIAL PRIMARY KEY,
+    inspection_id INTEGER NOT NULL REFERENCES inspection_logs(id) ON DELETE CASCADE,
+    category TEXT NOT NULL,
+    file_id TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE INDEX IF NOT EXISTS inspection_photos_inspection_idx ON inspection_photos (inspection_id);
+  CREATE TABLE IF NOT EXISTS inspection_manifests (
+    inspection_id INTEGER PRIMARY KEY REFERENCES inspection_logs(id) ON DELETE CASCADE,
+    signed_payload TEXT NOT NULL,
+    signature TEXT,
+    drive_file_id TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE IF NOT EXISTS checklist_items (
+    id TEXT PRIMARY KEY,
+    category TEXT NOT NULL,
+    label TEXT NOT NULL,
+    input_type TEXT NOT NULL DEFAULT 'number',
+    unit TEXT,
+    min_value DOUBLE PRECISION,
+    max_value DOUBLE PRECISION,
+    required BOOLEAN DEFAULT TRUE,
+    substation_types TEXT[],
+    sort_order INTEGER DEFAULT 0,
+    active BOOLEAN DEFAULT TRUE,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE IF NOT EXISTS checklist_answers (
+    inspection_id INTEGER NOT NULL REFERENCES inspection_logs(id) ON DELETE CASCADE,
+    item_id TEXT NOT NULL,
+    category TEXT,
+    label TEXT NOT NULL,
+    unit TEXT,
+    value_number DOUBLE PRECISION,
+    value_bool BOOLEAN,
+    value_text TEXT,
+    min_value DOUBLE PRECISION,
+    max_value DOUBLE PRECISION,
+    abnormal BOOLEAN DEFAULT FALSE,
+    PRIMARY KEY (inspection_id, item_id)
+  );
+  CREATE TABLE IF NOT EXISTS battery_readings (
+    id SERIAL PRIMARY KEY,
+    inspection_id INTEGER NOT NULL REFERENCES inspection_logs(id) ON DELETE CASCADE,
+    substation_name TEXT NOT NULL,
+    bank TEXT NOT NULL,
+    cell INTEGER NOT NULL,
+    float_voltage DOUBLE PRECISION,
+    specific_gravity DOUBLE PRECISION,
+    temperature_c DOUBLE PRECISION,
+    measured_at TIMESTAMP NOT NULL,
+    UNIQUE (inspection_id, bank, cell)
+  );
+  CREATE INDEX IF NOT EXISTS battery_readings_cell_idx ON battery_readings (substation_name, bank, cell, measured_at);
+  CREATE TABLE IF NOT EXISTS battery_alerts (
+    id SERIAL PRIMARY KEY,
+    inspection_id INTEGER NOT NULL REFERENCES inspection_logs(id) ON DELETE CASCADE,
+    substation_name TEXT NOT NULL,
+    bank TEXT NOT NULL,
+    cell INTEGER NOT NULL,
+    metric TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    value DOUBLE PRECISION,
+    previous_value DOUBLE PRECISION,
+    message TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE IF NOT EXISTS inspection_categories (
+    key TEXT PRIMARY KEY,
+    label TEXT NOT NULL,
+    instructions TEXT,
+    mandatory BOOLEAN NOT NULL DEFAULT FALSE,
+    weight DOUBLE PRECISION NOT NULL DEFAULT 0,
+    sheet_column TEXT UNIQUE,
+    photo_point BOOLEAN NOT NULL DEFAULT FALSE,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE IF NOT EXISTS health_index_policies (
+    version INTEGER PRIMARY KEY,
+    weights JSONB NOT NULL,
+    grades JSONB NOT NULL,
+    note TEXT,
+    created_by TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE IF NOT EXISTS inspection_schedules (
+    substation_name TEXT NOT NULL,
+    category TEXT NOT NULL,
+    frequency TEXT NOT NULL DEFAULT 'monthly',
+    grace_days INTEGER NOT NULL DEFAULT 0,
+    exempt BOOLEAN NOT NULL DEFAULT FALSE,
+    updated_by TEXT,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (substation_name, category)
+  );
+  CREATE TABLE IF NOT EXISTS defects (
+    id SERIAL PRIMARY KEY,
+    substation_name TEXT NOT NULL,
+    category TEXT,
+    finding TEXT NOT NULL,
+    description TEXT,
+    source_file_id TEXT,
+    source_folder_id TEXT,
+    severity TEXT NOT NULL DEFAULT 'medium',
+    status TEXT NOT NULL DEFAULT 'open',
+    assignee_id TEXT REFERENCES employees(employee_id) ON DELETE SET NULL,
+    due_date DATE,
+    fixed_file_id TEXT,
+    fixed_inspection_id INTEGER REFERENCES inspection_logs(id) ON DELETE SET NULL,
+    fixed_by TEXT,
+    fixed_at TIMESTAMP,
+    verified_by TEXT,
+    verified_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (source_file_id, finding)
+  );
+  CREATE INDEX IF NOT EXISTS defects_substation_idx ON defects (substation_name, status);
+  CREATE TABLE IF NOT EXISTS defect_events (
+    id SERIAL PRIMARY KEY,
+    defect_id INTEGER NOT NULL REFERENCES defects(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    actor_id TEXT,
+    note TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE IF NOT EXISTS battery_thresholds (
+    substation_name TEXT PRIMARY KEY,
+    thresholds JSONB NOT NULL,
+    updated_by TEXT,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE IF NOT EXISTS image_analyses (
+    file_id TEXT PRIMARY KEY,
+    file_name TEXT,
+    folder_id TEXT,
+    status TEXT,
+    findings TEXT[],
+    summary TEXT,
+    category TEXT,
+    score INTEGER,
+    analyzed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE IF NOT EXISTS sheet_sync_queue (
+    id SERIAL PRIMARY KEY,
+    kind TEXT NOT NULL,
+    ref JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    synced_at TIMESTAMP
+  );
+  CREATE INDEX IF NOT EXISTS sheet_sync_queue_due_idx ON sheet_sync_queue (status, next_attempt_at);
+
+  -- Append-only trail of every health index revision; UPDATE and DELETE are rejected by trigger
+  CREATE TABLE IF NOT EXISTS audit_events (
+    id SERIAL PRIMARY KEY,
+    event_type TEXT NOT NULL,
+    substation_name TEXT,
+    month INTEGER,
+    year INTEGER,
+    actor_id TEXT,
+    before JSONB,
+    after JSONB,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE INDEX IF NOT EXISTS audit_events_row_idx ON audit_events (substation_name, year, month);
+  CREATE OR REPLACE FUNCTION audit_events_immutable() RETURNS trigger AS $$
+  BEGIN
+    RAISE EXCEPTION 'audit_events is append-only';
+  END;
+  $$ LANGUAGE plpgsql;
+  DROP TRIGGER IF EXISTS audit_events_no_change ON audit_events;
+  CREATE TRIGGER audit_events_no_change BEFORE UPDATE OR DELETE ON audit_events
+    FOR EACH ROW EXECUTE FUNCTION audit_events_immutable();
+
+  ALTER TABLE employees ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'inspector';
+  ALTER TABLE employees ADD COLUMN IF NOT EXISTS area TEXT;
+  ALTER TABLE inspection_logs ADD COLUMN IF NOT EXISTS out_of_territory BOOLEAN DEFAULT FALSE;
+  ALTER TABLE inspection_logs ADD COLUMN IF NOT EXISTS within_geofence BOOLEAN;
+  ALTER TABLE inspection_logs ADD COLUMN IF NOT EXISTS distance_m DOUBLE PRECISION;
+  ALTER TABLE inspection_logs ADD COLUMN IF NOT EXISTS gps_accuracy_m DOUBLE PRECISION;
+  ALTER TABLE inspection_logs ADD COLUMN IF NOT EXISTS declared_categories TEXT;
+  ALTER TABLE inspection_logs ADD COLUMN IF NOT EXISTS verified_categories TEXT;
+  ALTER TABLE inspection_logs ADD COLUMN IF NOT EXISTS checklist_status TEXT;
+  ALTER TABLE inspection_photos ADD COLUMN IF NOT EXISTS authenticity TEXT;
+  ALTER TABLE inspection_photos ADD COLUMN IF NOT EXISTS authenticity_reasons JSONB;
+  ALTER TABLE inspection_photos ADD COLUMN IF NOT EXISTS exif JSONB;
+  ALTER TABLE inspection_photos ADD COLUMN IF NOT EXISTS client_authenticity TEXT;
+  ALTER TABLE inspection_photos ADD COLUMN IF NOT EXISTS original_file_id TEXT;
+  `,
+  down: `
+  DROP TABLE IF EXISTS audit_events CASCADE;
+  DROP TABLE IF EXISTS sheet_sync_queue CASCADE;
+  DROP TABLE IF EXISTS image_analyses CASCADE;
+  DROP TABLE IF EXISTS battery_thresholds CASCADE;
+  DROP TABLE IF EXISTS defect_events CASCADE;
+  DROP TABLE IF EXISTS defects CASCADE;
+  DROP TABLE IF EXISTS inspection_schedules CASCADE;
+  DROP TABLE IF EXISTS health_index_policies CASCADE;
+  DROP TABLE IF EXISTS inspection_categories CASCADE;
+  DROP TABLE IF EXISTS battery_alerts CASCADE;
+  DROP TABLE IF EXISTS battery_readings CASCADE;
+  DROP TABLE IF EXISTS checklist_answers CASCADE;
+  DROP TABLE IF EXISTS checklist_items CASCADE;
+  DROP TABLE IF EXISTS inspection_manifests CASCADE;
+  DROP TABLE IF EXISTS inspection_photos CASCADE;
+  DROP TABLE IF EXISTS upload_sessions CASCADE;
+  DROP TABLE IF EXISTS area_supervisors CASCADE;
+  DROP TABLE IF EXISTS google_credentials CASCADE;
+  DROP TABLE IF EXISTS substations CASCADE;
+  DROP TABLE IF EXISTS substation_assignments CASCADE;
+  DROP TABLE IF EXISTS employees CASCADE;
+  DROP TABLE IF EXISTS health_index_logs CASCADE;
+  DROP TABLE IF EXISTS substation_master_folders CASCADE;
+  DROP TABLE IF EXISTS inspection_logs CASCADE;
+  DROP FUNCTION IF EXISTS audit_events_immutable();
+  `
+};
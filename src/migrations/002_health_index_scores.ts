@@ -0,0 +1,43 @@
+// Per-category scores and N/A flags behind the health index, and the index itself as scored under a policy version
+import type { Migration } from '../schemaMigrations';
+
+export const migration: Migration = {
+  version: 2,
+  name: 'health_index_scores',
+  up: `
+  ALTER TABLE health_index_logs
+    ADD COLUMN IF NOT EXISTS battery_score INT DEFAULT 100,
+    ADD COLUMN IF NOT EXISTS battery_na BOOLEAN DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS yard_score INT DEFAULT 100,
+    ADD COLUMN IF NOT EXISTS yard_na BOOLEAN DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS checklist_score INT DEFAULT 100,
+    ADD COLUMN IF NOT EXISTS checklist_na BOOLEAN DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS roof_score INT DEFAULT 100,
+    ADD COLUMN IF NOT EXISTS roof_na BOOLEAN DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS fence_score INT DEFAULT 100,
+    ADD COLUMN IF NOT EXISTS fence_na BOOLEAN DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS security_score INT DEFAULT 100,
+    ADD COLUMN IF NOT EXISTS security_na BOOLEAN DEFAULT FALSE,
+    ADD COLUMN IF NOT EXISTS health_index DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS grade TEXT,
+    ADD COLUMN IF NOT EXISTS policy_version INTEGER;
+  `,
+  down: `
+  ALTER TABLE health_index_logs
+    DROP COLUMN IF EXISTS battery_score,
+    DROP COLUMN IF EXISTS battery_na,
+    DROP COLUMN IF EXISTS yard_score,
+    DROP COLUMN IF EXISTS yard_na,
+    DROP COLUMN IF EXISTS checklist_score,
+    DROP COLUMN IF EXISTS checklist_na,
+    DROP COLUMN IF EXISTS roof_score,
+    DROP COLUMN IF EXISTS roof_na,
+    DROP COLUMN IF EXISTS fence_score,
+    DROP COLUMN IF EXISTS fence_na,
+    DROP COLUMN IF EXISTS security_score,
+    DROP COLUMN IF EXISTS security_na,
+    DROP COLUMN IF EXISTS health_index,
+    DROP COLUMN IF EXISTS grade,
+    DROP COLUMN IF EXISTS policy_version;
+  `
+};
@@ -0,0 +1,48 @@
+// One row per scored category instead of a {category}_score / {category}_na column pair on health_index_logs,
+// so a category added to the registry needs no schema change. Existing pairs are carried over as 'legacy'.
+import type { Migration } from '../schemaMigrations';
+
+// The categories health_index_logs had columns for
+const LEGACY_CATEGORIES = ['battery', 'yard', 'checklist', 'roof', 'fence', 'security'];
+
+export const migration: Migration = {
+  version: 3,
+  name: 'health_index_category_scores',
+  up: `
+  CREATE TABLE health_index_category_scores (
+    substation_name TEXT NOT NULL,
+    month INTEGER NOT NULL,
+    year INTEGER NOT NULL,
+    category TEXT NOT NULL,
+    score INTEGER CHECK (score BETWEEN 0 AND 100),
+    na BOOLEAN NOT NULL DEFAULT FALSE,
+    source TEXT NOT NULL,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (substation_name, month, year, category),
+    FOREIGN KEY (substation_name, month, year) REFERENCES health_index_logs (substation_name, month, year) ON DELETE CASCADE,
+    CHECK (na OR score IS NOT NULL)
+  );
+  CREATE INDEX health_index_category_scores_month_idx ON health_index_category_scores (year, month, category);
+
+  INSERT INTO health_index_category_scores (substation_name, month, year, category, score, na, source)
+  SELECT h.substation_name, h.month, h.year, c.category,
+         CASE WHEN c.na THEN NULL ELSE LEAST(GREATEST(COALESCE(c.score, 100), 0), 100) END, COALESCE(c.na, FALSE), 'legacy'
+  FROM health_index_logs h
+  CROSS JOIN LATERAL (VALUES
+    ${LEGACY_CATEGORIES.map(cat => `('${cat}', h.${cat}_score, h.${cat}_na)`).join(',\n    ')}
+  ) AS c(category, score, na);
+
+  ALTER TABLE health_index_logs
+    ${LEGACY_CATEGORIES.map(cat => `DROP COLUMN ${cat}_score, DROP COLUMN ${cat}_na`).join(',\n    ')};
+  `,
+  down: `
+  ALTER TABLE health_index_logs
+    ${LEGACY_CATEGORIES.map(cat => `ADD COLUMN ${cat}_score INT DEFAULT 100, ADD COLUMN ${cat}_na BOOLEAN DEFAULT FALSE`).join(',\n    ')};
+
+  ${LEGACY_CATEGORIES.map(cat => `UPDATE health_index_logs h SET ${cat}_score = COALESCE(s.score, 100), ${cat}_na = s.na
+  FROM health_index_category_scores s
+  WHERE s.substation_name = h.substation_name AND s.month = h.month AND s.year = h.year AND s.category = '${cat}';`).join('\n  ')}
+
+  DROP TABLE health_index_category_scores;
+  `
+};
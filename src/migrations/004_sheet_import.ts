@@ -0,0 +1,40 @@
+// Inspection categories as arrays instead of comma-joined text, and the bookkeeping for importing the
+// inspections that only ever reached the sheet: where a row came from, which sheet row it was, the rows
+// that couldn't be parsed and how far the incremental import has read.
+import type { Migration } from '../schemaMigrations';
+
+export const migration: Migration = {
+  version: 4,
+  name: 'sheet_import',
+  up: `
+  ALTER TABLE inspection_logs
+    ALTER COLUMN declared_categories TYPE TEXT[] USING array_remove(string_to_array(declared_categories, ','), ''),
+    ALTER COLUMN verified_categories TYPE TEXT[] USING array_remove(string_to_array(verified_categories, ','), ''),
+    ADD COLUMN source TEXT NOT NULL DEFAULT 'app',
+    ADD COLUMN sheet_row_key TEXT UNIQUE;
+
+  CREATE TABLE sheet_import_rejects (
+    row_number INTEGER PRIMARY KEY,
+    row_values JSONB NOT NULL,
+    reason TEXT NOT NULL,
+    seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE sheet_import_state (
+    id TEXT PRIMARY KEY,
+    last_row INTEGER NOT NULL DEFAULT 1,
+    last_run_at TIMESTAMP,
+    last_result JSONB
+  );
+  `,
+  down: `
+  DROP TABLE sheet_import_state;
+  DROP TABLE sheet_import_rejects;
+
+  ALTER TABLE inspection_logs
+    DROP COLUMN sheet_row_key,
+    DROP COLUMN source,
+    ALTER COLUMN declared_categories TYPE TEXT USING array_to_string(declared_categories, ','),
+    ALTER COLUMN verified_categories TYPE TEXT USING array_to_string(verified_categories, ',');
+  `
+};
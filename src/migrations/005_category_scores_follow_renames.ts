@@ -0,0 +1,21 @@
+// A station rename updates health_index_logs in place; its category scores have to follow the new name
+import type { Migration } from '../schemaMigrations';
+
+const FK = 'health_index_category_scores_substation_name_month_year_fkey';
+
+export const migration: Migration = {
+  version: 5,
+  name: 'category_scores_follow_renames',
+  up: `
+  ALTER TABLE health_index_category_scores
+    DROP CONSTRAINT ${FK},
+    ADD CONSTRAINT ${FK} FOREIGN KEY (substation_name, month, year)
+      REFERENCES health_index_logs (substation_name, month, year) ON UPDATE CASCADE ON DELETE CASCADE;
+  `,
+  down: `
+  ALTER TABLE health_index_category_scores
+    DROP CONSTRAINT ${FK},
+    ADD CONSTRAINT ${FK} FOREIGN KEY (substation_name, month, year)
+      REFERENCES health_index_logs (substation_name, month, year) ON DELETE CASCADE;
+  `
+};
@@ -0,0 +1,16 @@
+// The offline queue's id for each submission, so a complete-upload retried after a lost response finds the
+// inspection it already recorded instead of recording it again. Unique per employee: the ids come from devices.
+import type { Migration } from '../schemaMigrations';
+
+export const migration: Migration = {
+  version: 6,
+  name: 'inspection_submission_ids',
+  up: `
+  ALTER TABLE inspection_logs ADD COLUMN client_submission_id TEXT;
+  CREATE UNIQUE INDEX inspection_logs_submission_idx ON inspection_logs (employee_id, client_submission_id);
+  `,
+  down: `
+  DROP INDEX inspection_logs_submission_idx;
+  ALTER TABLE inspection_logs DROP COLUMN client_submission_id;
+  `
+};
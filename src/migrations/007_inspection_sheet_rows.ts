@@ -0,0 +1,14 @@
+// The sheet row each inspection was exported to, so a retried or re-enqueued export rewrites that row
+// instead of appending a second copy (which the sheet import would then read back as another inspection)
+import type { Migration } from '../schemaMigrations';
+
+export const migration: Migration = {
+  version: 7,
+  name: 'inspection_sheet_rows',
+  up: `
+  ALTER TABLE inspection_logs ADD COLUMN sheet_row INTEGER;
+  `,
+  down: `
+  ALTER TABLE inspection_logs DROP COLUMN sheet_row;
+  `
+};
@@ -0,0 +1,542 @@
+import { CaptureManifest, ChecklistAnswer } from './constants';
+import { PhotoAuthenticity } from './photoAuthenticity';
+import { BatteryCellReading } from './batteryReadings';
+
+// Offline-first storage for inspections.
+// Drafts keep what the inspector has captured so a reload doesn't lose it; the upload queue keeps
+// finished inspections until init-upload -> Drive upload -> complete-upload has gone through.
+
+const DB_NAME = 'ssvi-offline';
+const DB_VERSION = 1;
+export const UPLOAD_SYNC_TAG = 'ssvi-upload-queue';
+
+export type QueuedSubmissionStatus = 'pending' | 'uploading' | 'failed' | 'done';
+export type QueuedPhotoStatus = 'pending' | 'uploading' | 'uploaded' | 'failed' | 'skipped';
+
+export interface QueuedSubmission {
+  id: string;
+  employeeId: string;
+  substationName: string;
+  timestamp: string;
+  lat: number | null;
+  lng: number | null;
+  accuracy: number | null;
+  categories: string;
+  manifest?: CaptureManifest;
+  checklist?: ChecklistAnswer[];
+  batteryReadings?: BatteryCellReading[];
+  // "After" photos taken for open defects, by file name
+  defectFixes?: { defectId: number; fileName: string }[];
+  status: QueuedSubmissionStatus;
+  folderId?: string;
+  attempts: number;
+  lastError?: string;
+  // Rejected by the server (4xx): retried only when the inspector asks for it
+  permanent?: boolean;
+  nextRetryAt?: number;
+  createdAt: number;
+  result?: any;
+}
+
+export interface QueuedPhoto {
+  id: string;
+  submissionId: string;
+  filename: string;
+  blob: Blob;
+  // Untouched camera file kept next to the watermarked copy of the same name (when the server wants it)
+  original?: boolean;
+  status: QueuedPhotoStatus;
+  progress: number;
+  attempts: number;
+  // Drive resumable session and how much of the file it has acknowledged
+  uploadUrl?: string;
+  bytesUploaded?: number;
+  driveFileId?: string;
+  lastError?: string;
+}
+
+// Battery readings as typed on the inspection page, one row per cell
+export interface BatteryBankDraft {
+  bank: string;
+  cells: { float_voltage: string; specific_gravity: string; temperature_c: string }[];
+}
+
+export interface InspectionDraft {
+  substationId: string;
+  photos: { [key: string]: { file: File; comment: string; authenticity?: PhotoAuthenticity }[] };
+  checklists: { file: File; authenticity?: PhotoAuthenticity }[];
+  // Structured checklist answers by item id, as typed
+  checklistAnswers?: { [itemId: string]: ChecklistAnswer['value'] };
+  batteryBanks?: BatteryBankDraft[];
+  // "After" photos by defect id
+  defectFixes?: { [defectId: string]: { file: File; authenticity?: PhotoAuthenticity } };
+  enabledCategories: string[];
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('drafts')) {
+        db.createObjectStore('drafts', { keyPath: 'substationId' });
+      }
+      if (!db.objectStoreNames.contains('submissions')) {
+        db.createObjectStore('submissions', { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains('photos')) {
+        const photos = db.createObjectStore('photos', { keyPath: 'id' });
+        photos.createIndex('submissionId', 'submissionId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function store(name: string, mode: IDBTransactionMode = 'readonly') {
+  const db = await openDb();
+  return db.transaction(name, mode).objectStore(name);
+}
+
+// --- Drafts ---
+
+export async function saveDraft(draft: Omit<InspectionDraft, 'updatedAt'>) {
+  await promisify((await store('drafts', 'readwrite')).put({ ...draft, updatedAt: Date.now() }));
+}
+
+export async function loadDraft(substationId: string): Promise<InspectionDraft | undefined> {
+  return promisify((await store('drafts')).get(substationId));
+}
+
+export async function clearDraft(substationId: string) {
+  await promisify((await store('drafts', 'readwrite')).delete(substationId));
+}
+
+// --- Upload queue ---
+
+export async function listSubmissions(): Promise<QueuedSubmission[]> {
+  const rows: QueuedSubmission[] = await promisify((await store('submissions')).getAll());
+  return rows.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function listPhotos(submissionId: string): Promise<QueuedPhoto[]> {
+  const index = (await store('photos')).index('submissionId');
+  const rows: QueuedPhoto[] = await promisify(index.getAll(submissionId));
+  return rows.sort((a, b) => a.filename.localeCompare(b.filename));
+}
+
+async function putSubmission(submission: QueuedSubmission) {
+  await promisify((await store('submissions', 'readwrite')).put(submission));
+  notify();
+}
+
+async function putPhoto(photo: QueuedPhoto) {
+  await promisify((await store('photos', 'readwrite')).put(photo));
+  notify();
+}
+
+export async function enqueueSubmission(
+  submission: Omit<QueuedSubmission, 'id' | 'status' | 'attempts' | 'createdAt'>,
+  photos: { filename: string; blob: Blob; original?: boolean }[]
+) {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const db = await openDb();
+  const tx = db.transaction(['submissions', 'photos'], 'readwrite');
+  tx.objectStore('submissions').put({ ...submission, id, status: 'pending', attempts: 0, createdAt: Date.now() });
+  photos.forEach((photo, i) => {
+    tx.objectStore('photos').put({
+      id: photo.original ? `${id}-o${i}` : `${id}-${i}`,
+      submissionId: id,
+      filename: photo.filename,
+      blob: photo.blob,
+      original: photo.original || undefined,
+      status: 'pending',
+      progress: 0,
+      attempts: 0
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  notify();
+  requestBackgroundSync();
+  return id;
+}
+
+export async function removeSubmission(id: string) {
+  const photos = await listPhotos(id);
+  const db = await openDb();
+  const tx = db.transaction(['submissions', 'photos'], 'readwrite');
+  tx.objectStore('submissions').delete(id);
+  photos.forEach(photo => tx.objectStore('photos').delete(photo.id));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  notify();
+}
+
+// --- Change notifications for the pending-uploads screen ---
+
+const listeners = new Set<() => void>();
+
+export function subscribeQueue(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+// --- Processing ---
+
+export class PermanentUploadError extends Error {}
+
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 15 * 60 * 1000;
+
+async function readError(res: Response, fallback: string) {
+  try {
+    const data = await res.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// 4xx means the server refused the submission itself (geofence, assignment); an expired session,
+// missing photos (409) or anything else is worth retrying
+async function postJson(url: string, body: any) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    const message = data.error || `${url} failed (${res.status})`;
+    const error = res.status >= 400 && res.status < 500 && ![401, 408, 409, 429].includes(res.status)
+      ? new PermanentUploadError(message)
+      : new Error(message);
+    (error as any).data = data;
+    throw error;
+  }
+  return res.json();
+}
+
+// Drive wants every chunk but the last in multiples of 256 KiB
+const CHUNK_SIZE = 256 * 1024;
+const CHUNK_ATTEMPTS = 4;
+
+class UploadSessionExpired extends Error {}
+
+function putChunk(url: string, body: Blob | null, contentRange: string, onProgress?: (loaded: number) => void) {
+  return new Promise<{ status: number; range: string | null; body: string }>((resolve, reject) => {
+    // XHR rather than fetch so the pending-uploads screen can show per-photo progress
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('Content-Range', contentRange);
+    if (onProgress) {
+      xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    }
+    xhr.onload = () => resolve({ status: xhr.status, range: xhr.getResponseHeader('Range'), body: xhr.responseText });
+    xhr.onerror = () => reject(new Error('Failed to fetch'));
+    xhr.send(body);
+  });
+}
+
+// 200/201 means Drive has the whole file; 308 reports the bytes it has kept so far
+function readChunkResponse(response: { status: number; range: string | null; body: string }, filename: string) {
+  if (response.status === 200 || response.status === 201) {
+    return { offset: -1, file: JSON.parse(response.body) as { id: string } };
+  }
+  if (response.status === 308) {
+    const match = response.range?.match(/bytes=0-(\d+)/);
+    return { offset: match ? Number(match[1]) + 1 : 0 };
+  }
+  if (response.status === 404 || response.status === 410) {
+    throw new UploadSessionExpired(`Upload session for ${filename} expired`);
+  }
+  throw new Error(`Drive upload failed (${response.status}) for ${filename}`);
+}
+
+// Sends a photo through its resumable session. A session carried over from an earlier run may already
+// hold part of the file, so ask Drive where to pick up before sending anything.
+async function uploadResumable(photo: QueuedPhoto, resume: boolean, onProgress: (bytes: number) => Promise<void> | void) {
+  const url = photo.uploadUrl!;
+  const size = photo.blob.size;
+  let offset = 0;
+  let needsStatus = resume;
+  let failures = 0;
+
+  while (true) {
+    try {
+      if (needsStatus) {
+        const state = readChunkResponse(await putChunk(url, null, `bytes */${size}`), photo.filename);
+        if (state.file) return state.file;
+        offset = state.offset;
+        needsStatus = false;
+      }
+      const end = Math.min(offset + CHUNK_SIZE, size);
+      const chunkStart = offset;
+      const response = await putChunk(url, photo.blob.slice(chunkStart, end), `bytes ${chunkStart}-${end - 1}/${size}`, (loaded) => {
+        onProgress(chunkStart + loaded);
+      });
+      const state = readChunkResponse(response, photo.filename);
+      if (state.file) return state.file;
+      offset = state.offset;
+      failures = 0;
+      await onProgress(offset);
+    } catch (err) {
+      failures++;
+      if (err instanceof UploadSessionExpired || failures >= CHUNK_ATTEMPTS) throw err;
+      // Wait with exponential backoff, then ask Drive where to resume from
+      await new Promise(resolve => setTimeout(resolve, 1500 * Math.pow(1.5, failures - 1)));
+      needsStatus = true;
+    }
+  }
+}
+
+const inFlight = new Map<string, Promise<QueuedSubmission>>();
+
+// The inspection page and the background runner can both reach for the same submission; share one run
+export function processSubmission(id: string, onStatus?: (text: string) => void): Promise<QueuedSubmission> {
+  const running = inFlight.get(id);
+  if (running) return running;
+  const run = runSubmission(id, onStatus).finally(() => inFlight.delete(id));
+  inFlight.set(id, run);
+  return run;
+}
+
+async function runSubmission(id: string, onStatus?: (text: string) => void): Promise<QueuedSubmission> {
+  const submissions = await listSubmissions();
+  const submission = submissions.find(s => s.id === id);
+  if (!submission) throw new Error('Queued submission not found');
+  if (submission.status === 'done') return submission;
+  // complete-upload records the signed-in employee, so a shared device must not send someone else's report
+  if (submission.employeeId !== activeEmployeeId) {
+    throw new PermanentUploadError(`รายงานนี้บันทึกโดยรหัสพนักงาน ${submission.employeeId} กรุณาเข้าสู่ระบบด้วยรหัสนั้นเพื่อส่ง`);
+  }
+
+  submission.status = 'uploading';
+  submission.attempts += 1;
+  submission.lastError = undefined;
+  await putSubmission(submission);
+
+  try {
+    // init-upload is idempotent (it finds the existing folders); it only opens sessions for photos that don't have one yet
+    onStatus?.('กำลังเตรียมการอัปโหลด...');
+    const photos = await listPhotos(id);
+    const needSession = photos.filter(p => p.status !== 'uploaded' && p.status !== 'skipped' && !p.uploadUrl);
+    const init = await postJson('/api/init-upload', {
+      substationName: submission.substationName,
+      timestamp: submission.timestamp,
+      lat: submission.lat,
+      lng: submission.lng,
+      accuracy: submission.accuracy,
+      files: needSession.map(p => ({
+        name: p.filename,
+        size: p.blob.size,
+        mimeType: p.blob.type || 'image/jpeg',
+        original: p.original === true
+      }))
+    });
+    submission.folderId = init.folderId;
+    await putSubmission(submission);
+    const skippedOriginals: string[] = init.skippedOriginals || [];
+    for (const photo of needSession) {
+      if (photo.original && skippedOriginals.includes(photo.filename)) {
+        // This deployment doesn't keep originals: free the space instead of holding the blob
+        photo.status = 'skipped';
+        photo.blob = new Blob([]);
+        photo.progress = 1;
+      } else {
+        photo.uploadUrl = init.uploads?.find((u: any) => u.name === photo.filename && !!u.original === !!photo.original)?.uploadUrl;
+        photo.bytesUploaded = 0;
+      }
+      await putPhoto(photo);
+    }
+
+    const toSend = photos.filter(p => p.status !== 'skipped');
+    let done = toSend.filter(p => p.status === 'uploaded').length;
+    for (const photo of toSend) {
+      if (photo.status === 'uploaded') continue;
+      onStatus?.(`กำลังส่งรูปที่ ${done + 1}/${toSend.length}...`);
+
+      photo.status = 'uploading';
+      photo.attempts += 1;
+      await putPhoto(photo);
+      try {
+        if (!photo.uploadUrl) throw new Error(`No upload session for ${photo.filename}`);
+        const uploaded = await uploadResumable(photo, !needSession.includes(photo), async (bytes) => {
+          photo.progress = bytes / photo.blob.size;
+          if (bytes > (photo.bytesUploaded || 0)) {
+            photo.bytesUploaded = bytes;
+            await putPhoto(photo);
+          } else {
+            notify();
+          }
+        });
+        photo.status = 'uploaded';
+        photo.progress = 1;
+        photo.bytesUploaded = photo.blob.size;
+        photo.driveFileId = uploaded.id;
+        photo.lastError = undefined;
+        await putPhoto(photo);
+        done++;
+
+        // complete-upload double-checks against Drive, so a lost report only costs a lookup there
+        if (!photo.original) postJson('/api/upload-status', {
+          folderId: submission.folderId,
+          name: photo.filename,
+          bytesReceived: photo.blob.size,
+          driveFileId: uploaded.id
+        }).catch(err => console.warn(`Could not report upload of ${photo.filename}:`, err));
+      } catch (err: any) {
+        photo.status = 'failed';
+        photo.lastError = err.message;
+        if (err instanceof UploadSessionExpired) {
+          // Start this photo over with a new session on the next run
+          photo.uploadUrl = undefined;
+          photo.bytesUploaded = 0;
+          photo.progress = 0;
+        }
+        await putPhoto(photo);
+        throw err;
+      }
+    }
+
+    onStatus?.('กำลังบันทึกข้อมูลรายงาน...');
+    try {
+      // The queue id makes a retry safe when an earlier attempt was recorded but its response never arrived
+      submission.result = await postJson('/api/complete-upload', {
+        submissionId: submission.id,
+        substationName: submission.substationName,
+        lat: submission.lat || 0,
+        lng: submission.lng || 0,
+        accuracy: submission.accuracy,
+        timestamp: submission.timestamp,
+        folderId: submission.folderId,
+        categories: submission.categories,
+        files: photos.filter(p => !p.original).map(p => ({ name: p.filename, size: p.blob.size })),
+        originals: toSend.filter(p => p.original).map(p => ({ name: p.filename, size: p.blob.size })),
+        manifest: submission.manifest,
+        checklist: submission.checklist,
+        batteryReadings: submission.batteryReadings,
+        defectFixes: submission.defectFixes
+      });
+    } catch (err: any) {
+      // Drive doesn't have some of the photos after all: send those again from scratch next run
+      const missing: string[] = err.data?.missingFiles || [];
+      const missingOriginals: string[] = err.data?.missingOriginals || [];
+      const resend = toSend.filter(p => (p.original ? missingOriginals : missing).includes(p.filename));
+      for (const photo of resend) {
+        await putPhoto({ ...photo, status: 'pending', progress: 0, uploadUrl: undefined, bytesUploaded: 0, driveFileId: undefined });
+      }
+      throw err;
+    }
+    submission.status = 'done';
+    submission.permanent = false;
+    submission.nextRetryAt = undefined;
+    await putSubmission(submission);
+    return submission;
+  } catch (err: any) {
+    submission.status = 'failed';
+    submission.lastError = err.message === 'Failed to fetch' ? 'ไม่มีสัญญาณอินเทอร์เน็ต' : err.message;
+    submission.permanent = err instanceof PermanentUploadError;
+    submission.nextRetryAt = submission.permanent
+      ? undefined
+      : Date.now() + Math.min(RETRY_BASE_MS * Math.pow(2, submission.attempts - 1), RETRY_MAX_MS);
+    await putSubmission(submission);
+    throw err;
+  }
+}
+
+let draining = false;
+
+// Uploads every queued submission that is due. Safe to call from several triggers at once.
+export async function drainQueue() {
+  if (draining || !navigator.onLine) return;
+  draining = true;
+  try {
+    for (const submission of await listSubmissions()) {
+      if (submission.status === 'done') {
+        await removeSubmission(submission.id);
+        continue;
+      }
+      if (submission.employeeId !== activeEmployeeId) continue;
+      const due = !submission.nextRetryAt || submission.nextRetryAt <= Date.now();
+      if (submission.permanent || !due) continue;
+      try {
+        await processSubmission(submission.id);
+        await removeSubmission(submission.id);
+      } catch (err) {
+        console.warn(`Queued upload ${submission.id} failed:`, err);
+      }
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+function requestBackgroundSync() {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.ready
+    .then((registration: any) => registration.sync?.register(UPLOAD_SYNC_TAG))
+    .catch(err => console.warn('Background sync unavailable:', err));
+}
+
+let runnerStarted = false;
+let activeEmployeeId: string | null = null;
+
+// Resume the queue on sign-in, when the connection comes back, when the service worker's
+// background sync fires, and periodically for submissions waiting on their retry backoff
+export function startQueueRunner(employeeId: string) {
+  activeEmployeeId = employeeId;
+  if (runnerStarted) {
+    drainQueue();
+    return;
+  }
+  runnerStarted = true;
+
+  // A reload mid-upload leaves rows marked as uploading; put them back in line
+  listSubmissions().then(async (submissions) => {
+    for (const submission of submissions) {
+      if (submission.status === 'uploading') {
+        await putSubmission({ ...submission, status: 'pending' });
+      }
+    }
+    drainQueue();
+  }).catch(err => console.warn('Could not open the upload queue:', err));
+
+  window.addEventListener('online', () => drainQueue());
+  navigator.serviceWorker?.addEventListener('message', (event) => {
+    if (event.data?.type === 'drain-upload-queue') drainQueue();
+  });
+  setInterval(() => drainQueue(), 60 * 1000);
+}
+
+// Called on sign-out so the runner doesn't keep posting without a session
+export function pauseQueueRunner() {
+  activeEmployeeId = null;
+}
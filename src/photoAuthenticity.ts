@@ -0,0 +1,178 @@
+// Live-capture checks based on the photo's EXIF block. Shared by the client (before a photo is accepted)
+// and the server (on the uploaded file), so both apply the same rules.
+import exifr from 'exifr';
+import { distanceMeters } from './constants';
+
+export type AuthenticityVerdict = 'authentic' | 'suspect' | 'rejected';
+
+export interface PhotoExifSummary {
+  hasExif: boolean;
+  dateTimeOriginal: string | null;
+  make: string | null;
+  model: string | null;
+  software: string | null;
+  gps: { lat: number; lng: number } | null;
+}
+
+export interface PhotoAuthenticity {
+  verdict: AuthenticityVerdict;
+  reasons: string[];
+  exif: PhotoExifSummary;
+}
+
+// How far DateTimeOriginal may lag behind the moment the photo is taken into the app
+export const MAX_CAPTURE_AGE_MINUTES = 10;
+const MAX_CLOCK_AHEAD_MINUTES = 5;
+
+// Software tags written by editors and re-export tools rather than camera firmware
+const EDITING_SOFTWARE_PATTERNS = [
+  'photoshop', 'lightroom', 'snapseed', 'picsart', 'gimp', 'canva', 'meitu', 'vsco', 'facetune',
+  'pixlr', 'fotor', 'polarr', 'affinity', 'paint.net', 'picasa', 'instagram', 'line camera', 'b612', 'ulike'
+];
+
+// Station time when the EXIF block has no OffsetTimeOriginal tag
+const DEFAULT_EXIF_OFFSET = '+07:00';
+
+const text = (value: any) => (typeof value === 'string' && value.trim() ? value.replace(/\0/g, '').trim() : null);
+
+function toDegrees(parts: any, ref: any) {
+  if (!Array.isArray(parts) || parts.length < 3) return null;
+  const degrees = Number(parts[0]) + Number(parts[1]) / 60 + Number(parts[2]) / 3600;
+  if (!Number.isFinite(degrees)) return null;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+}
+
+export async function readPhotoExif(input: Blob | ArrayBuffer | Uint8Array): Promise<PhotoExifSummary> {
+  let raw: any = null;
+  try {
+    const data = input instanceof Blob ? await input.arrayBuffer() : input;
+    raw = await exifr.parse(data as any, { tiff: true, exif: true, gps: true, reviveValues: false, translateValues: false });
+  } catch {
+    raw = null;
+  }
+  if (!raw) return { hasExif: false, dateTimeOriginal: null, make: null, model: null, software: null, gps: null };
+
+  // "YYYY:MM:DD HH:MM:SS" in the camera's local time
+  let dateTimeOriginal: string | null = null;
+  const match = String(raw.DateTimeOriginal || '').match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (match) {
+    const offset = text(raw.OffsetTimeOriginal) || DEFAULT_EXIF_OFFSET;
+    const parsed = new Date(`${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}${offset}`);
+    if (!isNaN(parsed.getTime())) dateTimeOriginal = parsed.toISOString();
+  }
+
+  const lat = toDegrees(raw.GPSLatitude, raw.GPSLatitudeRef);
+  const lng = toDegrees(raw.GPSLongitude, raw.GPSLongitudeRef);
+
+  return {
+    hasExif: true,
+    dateTimeOriginal,
+    make: text(raw.Make),
+    model: text(raw.Model),
+    software: text(raw.Software),
+    gps: lat !== null && lng !== null && !(lat === 0 && lng === 0) ? { lat, lng } : null
+  };
+}
+
+// rejected = clearly not a live capture (edited, or taken well before the reference time);
+// suspect = the evidence is missing or inconsistent and a supervisor should look at it
+export function assessPhotoAuthenticity(
+  exif: PhotoExifSummary,
+  reference: { time: Date; maxAgeMinutes?: number; station?: { lat: number; lng: number; radiusM: number } | null }
+): PhotoAuthenticity {
+  const maxAgeMinutes = reference.maxAgeMinutes ?? MAX_CAPTURE_AGE_MINUTES;
+  const reasons: string[] = [];
+  let verdict: AuthenticityVerdict = 'authentic';
+  const flag = (level: AuthenticityVerdict, reason: string) => {
+    reasons.push(reason);
+    if (level === 'rejected' || verdict === 'authentic') verdict = level;
+  };
+
+  if (!exif.hasExif) {
+    flag('suspect', 'ไม่พบข้อมูล EXIF ในรูปภาพ');
+    return { verdict, reasons, exif };
+  }
+
+  const software = (exif.software || '').toLowerCase();
+  const editor = EDITING_SOFTWARE_PATTERNS.find(pattern => software.includes(pattern));
+  if (editor) flag('rejected', `รูปผ่านโปรแกรมแก้ไขภาพ (${exif.software})`);
+
+  if (!exif.dateTimeOriginal) {
+    flag('suspect', 'ไม่พบเวลาถ่ายภาพ (DateTimeOriginal)');
+  } else {
+    const ageMinutes = (reference.time.getTime() - new Date(exif.dateTimeOriginal).getTime()) / 60000;
+    if (ageMinutes > maxAgeMinutes) {
+      flag('rejected', `ถ่ายไว้ก่อนหน้านี้ ${Math.round(ageMinutes)} นาที (อนุญาตไม่เกิน ${maxAgeMinutes} นาที)`);
+    } else if (ageMinutes < -MAX_CLOCK_AHEAD_MINUTES) {
+      flag('suspect', 'เวลาถ่ายภาพในรูปเดินหน้าเวลาปัจจุบัน');
+    }
+  }
+
+  if (!exif.make && !exif.model) flag('suspect', 'ไม่พบข้อมูลยี่ห้อ/รุ่นกล้อง');
+
+  if (exif.gps && reference.station) {
+    const distanceM = distanceMeters(exif.gps.lat, exif.gps.lng, reference.station.lat, reference.station.lng);
+    if (distanceM > reference.station.radiusM) {
+      flag('suspect', `พิกัดในรูปอยู่ห่างจากสถานี ${Math.round(distanceM)} ม.`);
+    }
+  }
+
+  return { verdict, reasons, exif };
+}
+
+// Re-encoding through a canvas drops EXIF. This copies the original's APP1 (Exif) segment into the
+// watermarked JPEG so the server can run the same checks on the uploaded file. The pixels are already
+// upright, so the Orientation tag is reset to 1.
+export async function copyExifSegment(original: Blob, target: Blob): Promise<Blob> {
+  const source = new Uint8Array(await original.arrayBuffer());
+  const segment = findExifSegment(source);
+  if (!segment) return target;
+
+  const app1 = source.slice(segment.start, segment.end);
+  resetOrientation(app1);
+
+  const dest = new Uint8Array(await target.arrayBuffer());
+  if (dest[0] !== 0xff || dest[1] !== 0xd8) return target;
+  return new Blob([dest.slice(0, 2), app1, stripExifSegment(dest.slice(2))], { type: 'image/jpeg' });
+}
+
+function findExifSegment(bytes: Uint8Array) {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    // Start of scan: no more metadata segments
+    if (marker === 0xda) break;
+    const isExif = marker === 0xe1 && String.fromCharCode(...bytes.slice(offset + 4, offset + 8)) === 'Exif';
+    if (isExif) return { start: offset, end: offset + 2 + length };
+    offset += 2 + length;
+  }
+  return null;
+}
+
+// Drops an existing APP1 Exif segment at the head of the stream (the canvas encoder doesn't write one, but be safe)
+function stripExifSegment(rest: Uint8Array) {
+  if (rest[0] === 0xff && rest[1] === 0xe1 && String.fromCharCode(...rest.slice(4, 8)) === 'Exif') {
+    return rest.slice(2 + ((rest[2] << 8) | rest[3]));
+  }
+  return rest;
+}
+
+function resetOrientation(app1: Uint8Array) {
+  const tiff = 10; // FF E1, length (2), "Exif\0\0"
+  if (app1.length < tiff + 8) return;
+  const view = new DataView(app1.buffer, app1.byteOffset, app1.byteLength);
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd0 = tiff + view.getUint32(tiff + 4, little);
+  if (ifd0 + 2 > app1.length) return;
+  const entries = view.getUint16(ifd0, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (entry + 12 > app1.length) return;
+    if (view.getUint16(entry, little) === 0x0112) {
+      view.setUint16(entry + 8, 1, little);
+      return;
+    }
+  }
+}
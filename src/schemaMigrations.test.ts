@@ -0,0 +1,75 @@
+import { spawn } from 'child_process';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MIGRATIONS, getAppliedMigrations, getPendingMigrations, migrateDown, migrateUp, migrationLabel } from './schemaMigrations';
+import { startTestDatabase } from './testDatabase';
+
+type TestDatabase = Awaited<ReturnType<typeof startTestDatabase>>;
+
+// Every column of every table outside the migration bookkeeping, to compare schemas between runs
+async function describeSchema(database: TestDatabase) {
+  const result = await database.pool.query(`
+    SELECT table_name, column_name, data_type, is_nullable, column_default
+    FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name <> 'schema_migrations'
+    ORDER BY table_name, column_name
+  `);
+  return result.rows;
+}
+
+describe('schema migrations', () => {
+  let database: TestDatabase;
+
+  beforeEach(async () => {
+    database = await startTestDatabase();
+  });
+
+  afterEach(async () => {
+    await database.stop();
+  });
+
+  it('applies, reverts and re-applies every migration', async () => {
+    const applied = await migrateUp(database.pool);
+    expect(applied.map(m => m.version)).toEqual(MIGRATIONS.map(m => m.version));
+    expect(await getPendingMigrations(database.pool)).toEqual([]);
+    const schema = await describeSchema(database);
+    expect(schema.length).toBeGreaterThan(0);
+
+    const reverted = await migrateDown(database.pool, { steps: MIGRATIONS.length });
+    expect(reverted.map(m => m.version)).toEqual(MIGRATIONS.map(m => m.version).reverse());
+    expect(await getAppliedMigrations(database.pool)).toEqual([]);
+    expect(await describeSchema(database)).toEqual([]);
+
+    await migrateUp(database.pool);
+    expect(await getPendingMigrations(database.pool)).toEqual([]);
+    expect(await describeSchema(database)).toEqual(schema);
+  });
+
+  it('steps through each migration one at a time', async () => {
+    for (const m of MIGRATIONS) {
+      expect((await migrateUp(database.pool, { target: m.version })).map(a => a.version)).toEqual([m.version]);
+    }
+    for (const m of [...MIGRATIONS].reverse()) {
+      expect((await migrateDown(database.pool)).map(r => r.version)).toEqual([m.version]);
+      expect((await migrateUp(database.pool, { target: m.version })).map(a => a.version)).toEqual([m.version]);
+      await migrateDown(database.pool);
+    }
+    expect(await getAppliedMigrations(database.pool)).toEqual([]);
+  });
+
+  it('keeps the server from starting while migrations are pending', async () => {
+    const latest = MIGRATIONS.at(-1)!;
+    await migrateUp(database.pool, { target: latest.version - 1 });
+
+    const server = spawn(path.resolve('node_modules/.bin/tsx'), ['server.ts'], {
+      env: { ...process.env, DATABASE_URL: database.url, NODE_ENV: 'production', RUN_SERVER: 'true', PORT: '0' },
+      stdio: ['ignore', 'ignore', 'pipe']
+    });
+    let stderr = '';
+    server.stderr.on('data', chunk => { stderr += chunk; });
+    const code = await new Promise(resolve => server.on('exit', resolve));
+
+    expect(code).toBe(1);
+    expect(stderr).toContain(`Pending migrations: ${migrationLabel(latest)}`);
+  }, 60_000);
+});
@@ -0,0 +1,130 @@
+// Versioned schema migrations. Each file in src/migrations is numbered and holds the SQL to apply it and
+// to undo it; schema_migrations records which versions a database has. Applied by `npm run migrate`
+// (migrate.ts); the server only checks that nothing is pending before it serves.
+import type { Pool } from 'pg';
+import { migration as baseline } from './migrations/001_baseline';
+import { migration as healthIndexScores } from './migrations/002_health_index_scores';
+import { migration as healthIndexCategoryScores } from './migrations/003_health_index_category_scores';
+import { migration as sheetImport } from './migrations/004_sheet_import';
+import { migration as categoryScoresFollowRenames } from './migrations/005_category_scores_follow_renames';
+import { migration as inspectionSubmissionIds } from './migrations/006_inspection_submission_ids';
+import { migration as inspectionSheetRows } from './migrations/007_inspection_sheet_rows';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+// In version order; a new migration is a new file with the next number, added here
+export const MIGRATIONS: Migration[] = [baseline, healthIndexScores, healthIndexCategoryScores, sheetImport, categoryScoresFollowRenames, inspectionSubmissionIds,
+  inspectionSheetRows];
+
+// Held while migrating so two runners (or two deploys) don't apply the same version twice
+const MIGRATION_LOCK_KEY = 727_001;
+
+export const migrationLabel = (m: Pick<Migration, 'version' | 'name'>) => `${String(m.version).padStart(3, '0')}_${m.name}`;
+
+// Local servers (development, tests) usually run without TLS; hosted ones require it
+export function databaseSsl(connectionString: string) {
+  if (/[?&]sslmode=disable\b/.test(connectionString) || process.env.PGSSLMODE === 'disable') return false;
+  try {
+    const host = new URL(connectionString).hostname;
+    if (['localhost', '127.0.0.1', '::1', '[::1]'].includes(host)) return false;
+  } catch {
+    // Not a URL (e.g. a key=value string): keep the default
+  }
+  return { rejectUnauthorized: false };
+}
+
+async function ensureMigrationsTable(db: Pool) {
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+// Read-only: a database that has never been migrated has every version pending
+export async function getAppliedMigrations(db: Pool): Promise<AppliedMigration[]> {
+  const exists = await db.query("SELECT to_regclass('schema_migrations') IS NOT NULL AS present");
+  if (!exists.rows[0].present) return [];
+  const result = await db.query('SELECT version, name, applied_at FROM schema_migrations ORDER BY version');
+  return result.rows;
+}
+
+export async function getPendingMigrations(db: Pool, migrations = MIGRATIONS) {
+  const applied = new Set((await getAppliedMigrations(db)).map(m => m.version));
+  return migrations.filter(m => !applied.has(m.version));
+}
+
+async function withMigrationLock<T>(db: Pool, work: (client: any) => Promise<T>): Promise<T> {
+  const client = await db.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    return await work(client);
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => {});
+    client.release();
+  }
+}
+
+// Applies pending migrations up to `target` (default: all), each in its own transaction; returns what was applied
+export async function migrateUp(db: Pool, options: { target?: number; migrations?: Migration[]; log?: (message: string) => void } = {}) {
+  const { target = Infinity, migrations = MIGRATIONS, log = () => {} } = options;
+  await ensureMigrationsTable(db);
+  return withMigrationLock(db, async client => {
+    const applied = new Set((await client.query('SELECT version FROM schema_migrations')).rows.map((r: any) => r.version));
+    const done: Migration[] = [];
+    for (const m of [...migrations].sort((a, b) => a.version - b.version)) {
+      if (applied.has(m.version) || m.version > target) continue;
+      try {
+        await client.query('BEGIN');
+        await client.query(m.up);
+        await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [m.version, m.name]);
+        await client.query('COMMIT');
+      } catch (err: any) {
+        await client.query('ROLLBACK');
+        throw new Error(`Migration ${migrationLabel(m)} failed: ${err.message}`);
+      }
+      log(`applied ${migrationLabel(m)}`);
+      done.push(m);
+    }
+    return done;
+  });
+}
+
+// Reverts the `steps` most recently applied migrations, newest first; returns what was reverted
+export async function migrateDown(db: Pool, options: { steps?: number; migrations?: Migration[]; log?: (message: string) => void } = {}) {
+  const { steps = 1, migrations = MIGRATIONS, log = () => {} } = options;
+  await ensureMigrationsTable(db);
+  return withMigrationLock(db, async client => {
+    const applied = (await client.query('SELECT version, name FROM schema_migrations ORDER BY version DESC LIMIT $1', [steps])).rows;
+    const done: Migration[] = [];
+    for (const row of applied) {
+      const m = migrations.find(candidate => candidate.version === row.version);
+      if (!m) throw new Error(`Migration ${migrationLabel(row)} is applied but not known to this build; revert it with the build that added it`);
+      try {
+        await client.query('BEGIN');
+        await client.query(m.down);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [m.version]);
+        await client.query('COMMIT');
+      } catch (err: any) {
+        await client.query('ROLLBACK');
+        throw new Error(`Reverting ${migrationLabel(m)} failed: ${err.message}`);
+      }
+      log(`reverted ${migrationLabel(m)}`);
+      done.push(m);
+    }
+    return done;
+  });
+}
@@ -0,0 +1,181 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DEFAULT_INSPECTION_CATEGORIES, sheetCategoryColumns } from './constants';
+import { migrateUp } from './schemaMigrations';
+import { importSheetInspections, parseSheetCategories, parseSheetInspectionRow, parseSheetTimestamp } from './sheetImport';
+import { startTestDatabase } from './testDatabase';
+
+const categories = DEFAULT_INSPECTION_CATEGORIES;
+const column = (key: string) => sheetCategoryColumns(categories).find(c => c.key === key)!.index;
+
+// A sheet row as the exporter writes it (A–G, then category flags, R the checklist result)
+function sheetRow(cells: Partial<Record<number, string>> = {}) {
+  const row = ['03/03/2569 21:38:00', '510001', 'สถานีไฟฟ้าทดสอบ', '13.7563', '100.5018',
+    'https://drive.google.com/drive/folders/1AbCdEfGhIjKlMnOp', 'completed', 'battery'];
+  for (let i = row.length; i < 19; i++) row.push('');
+  Object.entries(cells).forEach(([index, value]) => { row[Number(index)] = value!; });
+  return row;
+}
+
+describe('parseSheetTimestamp', () => {
+  it('reads the th-TH locale format with a Buddhist year as Bangkok time', () => {
+    expect(parseSheetTimestamp('03/03/2569 21:38:00')?.toISOString()).toBe('2026-03-03T14:38:00.000Z');
+    expect(parseSheetTimestamp('3/3/2569, 21:38')?.toISOString()).toBe('2026-03-03T14:38:00.000Z');
+  });
+
+  it('reads two-digit years, above 50 as Buddhist and the rest as Gregorian', () => {
+    expect(parseSheetTimestamp('03/03/26 21:38')?.toISOString()).toBe('2026-03-03T14:38:00.000Z');
+    expect(parseSheetTimestamp('03/03/69 21:38')?.toISOString()).toBe('2026-03-03T14:38:00.000Z');
+    expect(parseSheetTimestamp('03/03/51 08:00')?.toISOString()).toBe('2008-03-03T01:00:00.000Z');
+    expect(parseSheetTimestamp('03/03/50 08:00')?.toISOString()).toBe('2050-03-03T01:00:00.000Z');
+  });
+
+  it('keeps the Bangkok date when the UTC time falls on the day before', () => {
+    expect(parseSheetTimestamp('01/01/2569 06:59')?.toISOString()).toBe('2025-12-31T23:59:00.000Z');
+  });
+
+  it('rejects impossible dates and times', () => {
+    expect(parseSheetTimestamp('31/02/2569 10:00')).toBeNull();
+    expect(parseSheetTimestamp('29/02/2569 10:00')).toBeNull();
+    expect(parseSheetTimestamp('29/02/2567 10:00')?.toISOString()).toBe('2024-02-29T03:00:00.000Z');
+    expect(parseSheetTimestamp('03/13/2569 10:00')).toBeNull();
+    expect(parseSheetTimestamp('03/03/2569 24:00')).toBeNull();
+  });
+
+  it('rejects text that is not a timestamp', () => {
+    expect(parseSheetTimestamp('')).toBeNull();
+    expect(parseSheetTimestamp(undefined)).toBeNull();
+    expect(parseSheetTimestamp('2026-03-03T14:38:00Z')).toBeNull();
+    expect(parseSheetTimestamp('03/03/1999 10:00')).toBeNull();
+  });
+});
+
+describe('parseSheetCategories', () => {
+  it('reads a comma-separated list in column H by key or by label', () => {
+    expect(parseSheetCategories(sheetRow({ 7: 'battery, fence' }), categories)).toEqual(['battery', 'fence']);
+    expect(parseSheetCategories(sheetRow({ 7: 'แบตเตอรี่,รั้วสถานีฯ,battery' }), categories)).toEqual(['battery', 'fence']);
+    expect(parseSheetCategories(sheetRow({ 7: '' }), categories)).toEqual([]);
+  });
+
+  it('rejects a list with an unknown category', () => {
+    expect(parseSheetCategories(sheetRow({ 7: 'battery, transformer' }), categories)).toBeNull();
+  });
+
+  it('reads ✓ and ✔ marks in the category columns', () => {
+    const row = sheetRow({ 7: '', [column('battery')]: '✓', [column('fence')]: '✔' });
+    expect(parseSheetCategories(row, categories)).toEqual(['battery', 'fence']);
+  });
+
+  it('reads 1/0 and checkbox columns in sheet column order', () => {
+    const row = sheetRow({ 7: '0', [column('yard')]: '1', [column('roof')]: '0', [column('battery')]: 'TRUE', [column('fence')]: 'FALSE' });
+    expect(parseSheetCategories(row, categories)).toEqual(['yard', 'battery']);
+  });
+});
+
+describe('parseSheetInspectionRow', () => {
+  it('parses a complete row', () => {
+    const parsed = parseSheetInspectionRow(sheetRow({ 17: 'Green' }), categories);
+    expect(parsed).toEqual({
+      inspection: {
+        timestamp: new Date('2026-03-03T14:38:00.000Z'),
+        employee_id: '510001',
+        substation_name: 'สถานีไฟฟ้าทดสอบ',
+        gps_lat: 13.7563,
+        gps_lng: 100.5018,
+        folder_id: '1AbCdEfGhIjKlMnOp',
+        status: 'completed',
+        categories: ['battery'],
+        checklist_status: 'normal'
+      }
+    });
+  });
+
+  it('accepts blank coordinates, folder and status', () => {
+    const parsed = parseSheetInspectionRow(sheetRow({ 3: '', 4: '', 5: '', 6: '' }), categories);
+    expect('inspection' in parsed && parsed.inspection).toMatchObject({ gps_lat: null, gps_lng: null, folder_id: null, status: 'completed' });
+  });
+
+  it('gives a reason for rows it cannot import', () => {
+    expect(parseSheetInspectionRow(sheetRow({ 0: '31/02/2569 10:00' }), categories)).toEqual({ reason: 'Unrecognised timestamp "31/02/2569 10:00"' });
+    expect(parseSheetInspectionRow(sheetRow({ 1: '' }), categories)).toEqual({ reason: 'No employee ID' });
+    expect(parseSheetInspectionRow(sheetRow({ 2: 'ไม่ระบุ' }), categories)).toEqual({ reason: 'No substation' });
+    expect(parseSheetInspectionRow(sheetRow({ 3: 'north' }), categories)).toHaveProperty('reason');
+    expect(parseSheetInspectionRow(sheetRow({ 5: 'see photos' }), categories)).toHaveProperty('reason');
+    expect(parseSheetInspectionRow(sheetRow({ 6: 'pending' }), categories)).toEqual({ reason: 'Unrecognised status "pending"' });
+    expect(parseSheetInspectionRow(sheetRow({ 7: 'transformer' }), categories)).toEqual({ reason: 'Unrecognised categories "transformer"' });
+  });
+});
+
+describe('importSheetInspections', () => {
+  let database: Awaited<ReturnType<typeof startTestDatabase>>;
+
+  // Rows 2–5 of the tab: two new inspections, one the app already recorded, one that can't be parsed
+  const rows = [
+    sheetRow(),
+    sheetRow({ 0: '04/03/2569 09:15:00', 7: 'fence' }),
+    sheetRow({ 0: '05/03/2569 10:00:30', 5: 'https://drive.google.com/drive/folders/1AppExportedFolder' }),
+    sheetRow({ 0: '31/02/2569 10:00' })
+  ];
+
+  // Answers the two reads the import makes, with A1 ranges resolved against `rows`
+  const sheetsService = {
+    spreadsheets: {
+      values: {
+        get: async ({ range }: { range: string }) => {
+          const first = Number(range.match(/^A(\d+):/)![1]);
+          return { data: { values: rows.slice(first - 2) } };
+        },
+        batchGet: async ({ ranges }: { ranges: string[] }) => ({
+          data: { valueRanges: ranges.map(range => ({ values: [rows[Number(range.match(/^A(\d+):/)![1]) - 2]] })) }
+        })
+      }
+    }
+  };
+
+  beforeAll(async () => {
+    database = await startTestDatabase();
+    await migrateUp(database.pool);
+    await database.pool.query(
+      `INSERT INTO inspection_categories (key, label, instructions, mandatory, weight, sheet_column, photo_point, sort_order)
+       SELECT key, label, instructions, mandatory, weight, sheet_column, photo_point, sort_order
+       FROM json_to_recordset($1) AS c(key TEXT, label TEXT, instructions TEXT, mandatory BOOLEAN, weight DOUBLE PRECISION,
+         sheet_column TEXT, photo_point BOOLEAN, sort_order INTEGER)`,
+      [JSON.stringify(categories)]
+    );
+    // The app's own record of the third row, written with milliseconds the sheet dropped
+    await database.pool.query(
+      `INSERT INTO inspection_logs (employee_id, substation_name, folder_id, timestamp)
+       VALUES ('510001', 'สถานีไฟฟ้าทดสอบ', '1AppExportedFolder', '2026-03-05 03:00:30.412')`
+    );
+  });
+
+  afterAll(async () => {
+    await database.stop();
+  });
+
+  const countBySource = async () =>
+    (await database.pool.query('SELECT source, COUNT(*)::int AS count FROM inspection_logs GROUP BY source ORDER BY source')).rows;
+
+  it('imports each row once however often it runs', async () => {
+    const first = await importSheetInspections(database.pool, sheetsService, 'sheet-id', { full: true });
+    expect(first).toMatchObject({ mode: 'full', scanned: 4, imported: 2, duplicates: 1, lastRow: 5 });
+    expect(first!.rejected.map(r => r.row)).toEqual([5]);
+    expect(await countBySource()).toEqual([{ source: 'app', count: 1 }, { source: 'sheet', count: 2 }]);
+
+    const again = await importSheetInspections(database.pool, sheetsService, 'sheet-id', { full: true });
+    expect(again).toMatchObject({ scanned: 4, imported: 0, duplicates: 3, lastRow: 5 });
+    expect(await countBySource()).toEqual([{ source: 'app', count: 1 }, { source: 'sheet', count: 2 }]);
+
+    // Incremental: nothing appended, so only the rejected row is read again
+    const incremental = await importSheetInspections(database.pool, sheetsService, 'sheet-id');
+    expect(incremental).toMatchObject({ mode: 'incremental', scanned: 1, imported: 0, duplicates: 0, lastRow: 5 });
+    expect(incremental!.rejected.map(r => r.row)).toEqual([5]);
+  });
+
+  it('picks up a rejected row once it is corrected on the sheet', async () => {
+    rows[3] = sheetRow({ 0: '28/02/2569 10:00' });
+    const report = await importSheetInspections(database.pool, sheetsService, 'sheet-id');
+    expect(report).toMatchObject({ scanned: 1, imported: 1, rejected: [] });
+    expect((await database.pool.query('SELECT COUNT(*)::int AS count FROM sheet_import_rejects')).rows[0].count).toBe(0);
+    expect(await countBySource()).toEqual([{ source: 'app', count: 1 }, { source: 'sheet', count: 3 }]);
+  });
+});
@@ -0,0 +1,247 @@
+// Imports the inspections that only exist on the sheet (everything before Postgres became the record)
+// into inspection_logs. Used by `npm run import-sheet` (import-sheet.ts) for the one-off backfill and by
+// the server's incremental job. Safe to re-run: each row is keyed by its content, and rows the app exported
+// itself are recognised, so nothing is imported twice. Rows that can't be parsed are kept for the report.
+import crypto from 'crypto';
+import type { Pool } from 'pg';
+import { InspectionCategory, sheetCategoryColumns, lastSheetColumn } from './constants';
+
+export interface SheetInspection {
+  timestamp: Date;
+  employee_id: string;
+  substation_name: string;
+  gps_lat: number | null;
+  gps_lng: number | null;
+  folder_id: string | null;
+  status: string;
+  categories: string[];
+  checklist_status: string | null;
+}
+
+export interface SheetImportReject {
+  row: number;
+  reason: string;
+  values: string[];
+}
+
+export interface SheetImportReport {
+  mode: 'full' | 'incremental';
+  scanned: number;
+  imported: number;
+  duplicates: number;
+  rejected: SheetImportReject[];
+  lastRow: number;
+}
+
+const STATE_ID = 'inspections';
+// Held while importing so the job and the command don't read the same rows at once
+const SHEET_IMPORT_LOCK_KEY = 727_002;
+
+const cellText = (value: any) => (value === undefined || value === null ? '' : String(value).trim());
+
+// Column A was written by the th-TH locale and by hand over the years: "03/03/2569 21:38:00",
+// "3/3/2569, 21:38", "03/03/26 21:38". Day first, Bangkok time, Buddhist or Gregorian year.
+// Two-digit years above 50 are Buddhist (69 = 2569), the rest Gregorian (26 = 2026).
+export function parseSheetTimestamp(value: any): Date | null {
+  const text = cellText(value);
+  const match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4}),?\s+(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?$/);
+  if (!match) return null;
+  const [day, month, rawYear, hour, minute, second = 0] = match.slice(1).map(part => (part === undefined ? 0 : parseInt(part)));
+  let year = match[3].length === 2 ? (rawYear > 50 ? 2500 + rawYear : 2000 + rawYear) : rawYear;
+  if (year > 2400) year -= 543;
+  if (year < 2000 || hour > 23 || minute > 59 || second > 59) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day, hour - 7, minute, second));
+  // Rejects 31/02 and the like, which Date.UTC would roll over into the next month
+  const local = new Date(date.getTime() + 7 * 60 * 60 * 1000);
+  if (local.getUTCDate() !== day || local.getUTCMonth() !== month - 1) return null;
+  return date;
+}
+
+// A ✓ or 1 in a category column; Sheets checkboxes read back as TRUE/FALSE
+const isFlag = (value: string) => ['1', '0', '✓', '✔', 'TRUE', 'FALSE'].includes(value.toUpperCase());
+const isSetFlag = (value: string) => ['1', '✓', '✔', 'TRUE'].includes(value.toUpperCase());
+
+// Categories of a sheet row. Three layouts: a flag per category column (1/0 or a tick), or the early
+// comma-separated list in column H, by key or by label. Null when column H holds something unrecognised.
+export function parseSheetCategories(row: any[], categories: InspectionCategory[]): string[] | null {
+  const columns = sheetCategoryColumns(categories);
+  if (columns.some(c => isFlag(cellText(row[c.index])))) {
+    return columns.filter(c => isSetFlag(cellText(row[c.index]))).map(c => c.key);
+  }
+  const tokens = cellText(row[7]).split(',').map(token => token.trim().toLowerCase()).filter(Boolean);
+  const keys = tokens.map(token => categories.find(c => c.key === token || c.label.toLowerCase() === token)?.key);
+  return keys.every(Boolean) ? Array.from(new Set(keys as string[])) : null;
+}
+
+// Drive links as the app wrote them (.../folders/<id>) or a bare folder ID
+function parseFolderId(value: string) {
+  if (!value) return null;
+  const match = value.match(/folders\/([\w-]+)/) || value.match(/^([\w-]{10,})$/);
+  return match ? match[1] : undefined;
+}
+
+function parseCoordinate(value: string) {
+  if (!value) return null;
+  const number = Number(value.replace(',', '.'));
+  return Number.isFinite(number) ? number : undefined;
+}
+
+const SHEET_STATUSES = ['completed', 'partial', 'failed'];
+const CHECKLIST_RESULTS: Record<string, string> = { green: 'normal', red: 'abnormal', incomplete: 'incomplete' };
+
+// One row of the inspection tab (A–G the submission, category columns, R the checklist result)
+export function parseSheetInspectionRow(row: any[], categories: InspectionCategory[]): { inspection: SheetInspection } | { reason: string } {
+  const timestamp = parseSheetTimestamp(row[0]);
+  if (!timestamp) return { reason: `Unrecognised timestamp "${cellText(row[0])}"` };
+  const employeeId = cellText(row[1]);
+  if (!employeeId) return { reason: 'No employee ID' };
+  const substationName = cellText(row[2]);
+  if (!substationName || substationName === 'ไม่ระบุ') return { reason: 'No substation' };
+
+  const gpsLat = parseCoordinate(cellText(row[3]));
+  const gpsLng = parseCoordinate(cellText(row[4]));
+  if (gpsLat === undefined || gpsLng === undefined) return { reason: `Unrecognised coordinates "${cellText(row[3])}, ${cellText(row[4])}"` };
+  const folderId = parseFolderId(cellText(row[5]));
+  if (folderId === undefined) return { reason: `Unrecognised Drive folder "${cellText(row[5])}"` };
+  const status = cellText(row[6]).toLowerCase() || 'completed';
+  if (!SHEET_STATUSES.includes(status)) return { reason: `Unrecognised status "${cellText(row[6])}"` };
+
+  const recorded = parseSheetCategories(row, categories);
+  if (!recorded) return { reason: `Unrecognised categories "${cellText(row[7])}"` };
+  const checklistResult = cellText(row[17]).toLowerCase();
+
+  return {
+    inspection: {
+      timestamp,
+      employee_id: employeeId,
+      substation_name: substationName,
+      gps_lat: gpsLat,
+      gps_lng: gpsLng,
+      folder_id: folderId,
+      status,
+      categories: recorded,
+      checklist_status: CHECKLIST_RESULTS[checklistResult] || null
+    }
+  };
+}
+
+// Identifies a sheet row by what it records rather than where it sits, so a full re-run finds it again
+export function sheetRowKey(inspection: SheetInspection) {
+  return crypto.createHash('sha256')
+    .update([inspection.timestamp.toISOString(), inspection.employee_id, inspection.substation_name, inspection.folder_id || ''].join('|'))
+    .digest('hex');
+}
+
+// Inserts the row unless it was imported before or is the export of an inspection the app recorded
+// (same station, inspector and folder within the same minute; the sheet drops the milliseconds).
+// Timestamps are stored as UTC, like the rows the server writes.
+async function importSheetInspection(client: any, inspection: SheetInspection) {
+  const result = await client.query(
+    `INSERT INTO inspection_logs (employee_id, substation_name, gps_lat, gps_lng, folder_id, timestamp, status,
+       declared_categories, verified_categories, checklist_status, source, sheet_row_key)
+     SELECT $1::text, $2::text, $3::float8, $4::float8, $5::text, $6::timestamptz AT TIME ZONE 'UTC', $7::text, $8::text[], $8::text[], $9::text, 'sheet', $10::text
+     WHERE NOT EXISTS (
+       SELECT 1 FROM inspection_logs
+       WHERE source = 'app' AND substation_name = $2 AND employee_id = $1 AND folder_id IS NOT DISTINCT FROM $5
+         AND date_trunc('minute', timestamp) = date_trunc('minute', $6::timestamptz AT TIME ZONE 'UTC')
+     )
+     ON CONFLICT (sheet_row_key) DO NOTHING
+     RETURNING id`,
+    [inspection.employee_id, inspection.substation_name, inspection.gps_lat, inspection.gps_lng, inspection.folder_id,
+     inspection.timestamp.toISOString(), inspection.status, inspection.categories, inspection.checklist_status, sheetRowKey(inspection)]
+  );
+  return result.rows.length > 0;
+}
+
+// Imports the given sheet rows (1-indexed row numbers as on the sheet) and records or clears their rejects
+async function importRows(client: any, rows: { number: number; values: any[] }[], categories: InspectionCategory[], report: SheetImportReport) {
+  for (const { number, values } of rows) {
+    // Blank rows left by deletions on the sheet
+    if (values.every(value => !cellText(value))) {
+      await client.query('DELETE FROM sheet_import_rejects WHERE row_number = $1', [number]);
+      continue;
+    }
+    report.scanned++;
+    const parsed = parseSheetInspectionRow(values, categories);
+    if ('reason' in parsed) {
+      const cells = values.map(cellText);
+      report.rejected.push({ row: number, reason: parsed.reason, values: cells });
+      await client.query(
+        `INSERT INTO sheet_import_rejects (row_number, row_values, reason) VALUES ($1, $2, $3)
+         ON CONFLICT (row_number) DO UPDATE SET row_values = EXCLUDED.row_values, reason = EXCLUDED.reason, seen_at = CURRENT_TIMESTAMP`,
+        [number, JSON.stringify(cells), parsed.reason]
+      );
+      continue;
+    }
+    if (await importSheetInspection(client, parsed.inspection)) report.imported++;
+    else report.duplicates++;
+    await client.query('DELETE FROM sheet_import_rejects WHERE row_number = $1', [number]);
+  }
+}
+
+// A full import reads the tab from row 2; an incremental one reads the rows appended since the last import,
+// plus the rows rejected before in case they have been corrected on the sheet. Returns null when another
+// import holds the lock. The tab is append-only (the exporter appends), so row numbers stay put.
+export async function importSheetInspections(
+  db: Pool, sheetsService: any, spreadsheetId: string, options: { full?: boolean } = {}
+): Promise<SheetImportReport | null> {
+  const client = await db.connect();
+  try {
+    const locked = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [SHEET_IMPORT_LOCK_KEY]);
+    if (!locked.rows[0].locked) return null;
+    try {
+      const categories: InspectionCategory[] = (await client.query('SELECT * FROM inspection_categories ORDER BY sort_order, key')).rows;
+      const lastColumn = lastSheetColumn(categories);
+      const state = await client.query('SELECT last_row FROM sheet_import_state WHERE id = $1', [STATE_ID]);
+      const firstRow = options.full ? 2 : (state.rows[0]?.last_row ?? 1) + 1;
+      const report: SheetImportReport = { mode: options.full ? 'full' : 'incremental', scanned: 0, imported: 0, duplicates: 0, rejected: [], lastRow: firstRow - 1 };
+
+      if (!options.full) {
+        const previous = await client.query('SELECT row_number FROM sheet_import_rejects WHERE row_number < $1 ORDER BY row_number', [firstRow]);
+        if (previous.rows.length > 0) {
+          const response = await sheetsService.spreadsheets.values.batchGet({
+            spreadsheetId,
+            ranges: previous.rows.map((r: any) => `A${r.row_number}:${lastColumn}${r.row_number}`)
+          });
+          const retried = (response.data.valueRanges || []).map((range: any, i: number) => ({
+            number: previous.rows[i].row_number as number,
+            values: range.values?.[0] || []
+          }));
+          await importRows(client, retried, categories, report);
+        }
+      }
+
+      const response = await sheetsService.spreadsheets.values.get({ spreadsheetId, range: `A${firstRow}:${lastColumn}` });
+      const values: any[][] = response.data.values || [];
+      await importRows(client, values.map((row, i) => ({ number: firstRow + i, values: row })), categories, report);
+      report.lastRow = Math.max(report.lastRow, firstRow + values.length - 1);
+
+      const summary = { mode: report.mode, scanned: report.scanned, imported: report.imported, duplicates: report.duplicates, rejected: report.rejected.length };
+      await client.query(
+        `INSERT INTO sheet_import_state (id, last_row, last_run_at, last_result) VALUES ($1, $2, CURRENT_TIMESTAMP, $3)
+         ON CONFLICT (id) DO UPDATE SET last_row = GREATEST(sheet_import_state.last_row, EXCLUDED.last_row),
+           last_run_at = EXCLUDED.last_run_at, last_result = EXCLUDED.last_result`,
+        [STATE_ID, report.lastRow, JSON.stringify(summary)]
+      );
+      return report;
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [SHEET_IMPORT_LOCK_KEY]).catch(() => {});
+    }
+  } finally {
+    client.release();
+  }
+}
+
+export async function getSheetImportStatus(db: Pool) {
+  const [state, rejects] = await Promise.all([
+    db.query('SELECT last_row, last_run_at, last_result FROM sheet_import_state WHERE id = $1', [STATE_ID]),
+    db.query('SELECT row_number AS row, reason, row_values AS values, seen_at FROM sheet_import_rejects ORDER BY row_number')
+  ]);
+  return {
+    lastRow: state.rows[0]?.last_row ?? null,
+    lastRunAt: state.rows[0]?.last_run_at ?? null,
+    lastResult: state.rows[0]?.last_result ?? null,
+    rejected: rejects.rows
+  };
+}
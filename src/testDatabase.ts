@@ -0,0 +1,21 @@
+// An in-memory Postgres (PGlite) behind a local socket, so tests go through the same pg Pool code as production
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { Pool } from 'pg';
+
+export async function startTestDatabase() {
+  const db = await PGlite.create();
+  const server = new PGLiteSocketServer({ db, port: 0, host: '127.0.0.1', maxConnections: 4 });
+  await server.start();
+  const url = `postgres://postgres:postgres@${server.getServerConn()}/postgres?sslmode=disable`;
+  const pool = new Pool({ connectionString: url, max: 1 });
+  return {
+    url,
+    pool,
+    async stop() {
+      await pool.end();
+      await server.stop();
+      await db.close();
+    }
+  };
+}